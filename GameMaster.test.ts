@@ -0,0 +1,55 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DEFAULT_GAME_MASTER_PROMPT, getGameMasterPrompt, getPromptVersion, reloadGameMasterPrompt } from './GameMaster';
+
+describe('reloadGameMasterPrompt', () => {
+  const saved = {
+    GAME_MASTER_PROMPT: process.env.GAME_MASTER_PROMPT,
+    GAME_MASTER_PROMPT_VERSION: process.env.GAME_MASTER_PROMPT_VERSION,
+  };
+  let dir: string;
+  let envFile: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'zmcdn-env-'));
+    envFile = path.join(dir, '.env');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+    for (const [name, value] of Object.entries(saved)) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+  });
+
+  it('should pick up a multi-line prompt and its version', () => {
+    fs.writeFileSync(envFile, 'PORT=3000\nGAME_MASTER_PROMPT="Draw it.\nReturn JSON only."\nGAME_MASTER_PROMPT_VERSION=v7\n');
+
+    expect(reloadGameMasterPrompt(envFile)).toBe('v7');
+    expect(getGameMasterPrompt()).toBe('Draw it.\nReturn JSON only.');
+  });
+
+  it('should revert to the built-in prompt when the file has none', () => {
+    process.env.GAME_MASTER_PROMPT = 'Old prompt';
+    process.env.GAME_MASTER_PROMPT_VERSION = 'v1';
+    fs.writeFileSync(envFile, 'PORT=3000\n');
+
+    const version = reloadGameMasterPrompt(envFile);
+
+    expect(getGameMasterPrompt()).toBe(DEFAULT_GAME_MASTER_PROMPT);
+    expect(version).toBe(getPromptVersion());
+    expect(version).not.toBe('v1');
+  });
+
+  it('should leave the prompt alone when the file is missing', () => {
+    process.env.GAME_MASTER_PROMPT = 'Old prompt';
+
+    expect(() => reloadGameMasterPrompt(path.join(dir, 'missing.env'))).toThrow();
+    expect(getGameMasterPrompt()).toBe('Old prompt');
+  });
+});
@@ -0,0 +1,123 @@
+import crypto from "crypto";
+import dotenv from "dotenv";
+import fs from "fs";
+import path from "path";
+import { ArtBibleDirection } from "./artbible/ArtBible";
+import { Entity } from "./entities/Entity";
+
+/**
+ * Scene state sent to the Art Director for each move
+ */
+export interface SceneState {
+  zmcdnSessionID: string;
+  playerLocation: string;
+  lastZMachineInput: string;
+  lastZMachineOutput: string;
+  /** Free-form style the client asked for, e.g. "ega dungeon crawler" */
+  illustrationStyle?: string;
+  /** The game's art bible: house style, canonical descriptions and what to avoid */
+  artBible?: ArtBibleDirection;
+  /** Recurring characters, items and rooms the move mentions, as first drawn */
+  knownEntities?: Entity[];
+  /** Problems with the previous answer, set when re-asking after a malformed reply */
+  validationErrors?: string[];
+}
+
+/**
+ * Tokens an LLM call used, as the backend reported them
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/**
+ * An Art Director backend. Each instance holds one session's answer history.
+ */
+export interface GameMaster {
+  /** Backend name as used in configuration, e.g. "qwen" */
+  readonly name: string;
+
+  /** Model the backend uses, e.g. "Qwen/Qwen3-32B" */
+  readonly model: string;
+
+  /** Tokens the last generateSceneDirection() call used, if the backend reports them */
+  readonly lastUsage?: TokenUsage;
+
+  /**
+   * Generate scene direction from game state
+   * @param sceneState The current game state including location and recent I/O
+   * @returns The Art Director's JSON scene direction
+   */
+  generateSceneDirection(sceneState: SceneState): Promise<string>;
+
+  /**
+   * Get the answers kept for continuity, oldest first
+   */
+  getHistory(): string[];
+
+  /**
+   * Replace the answer history, e.g. when resuming a persisted session
+   * @param answers Previous answers, oldest first
+   */
+  restoreHistory(answers: string[]): void;
+}
+
+export const DEFAULT_GAME_MASTER_PROMPT = `/no_think You are the Art Director for retro fantasy pixel art.
+Given JSON scene state, produce:
+1) visual_prompt: a concise text-to-image prompt (≤ 220 chars) focusing only on visible elements.
+2) reuse_key: a deterministic key for caching (room + time + key objects).
+3) style_tags: short tokens that enforce consistency (e.g. "retro-320x200, muted palette, misty, low camera").
+4) entities: characters, items and rooms shown for the first time, as [{name, kind: character|item|room, description}] with a short canonical visual description of each.
+
+Rules:
+- lastZMachineInput is up to 8 of the most recent things the user typed. lastZMachineOutput is up to 8 of the game interpreter's responses to what the user typed.
+- if playerLocation is empty, infer our location from lastZMachineOutput
+- Keep continuity with character/scene keys.
+- If last_event is a minor change, set repaint=false.
+- Prefer moody lighting/masses over tiny object details.
+- If illustrationStyle is present, follow it.
+- If knownEntities is present, those have been drawn before; describe them exactly as given and leave them out of entities.
+- If artBible is present, follow its stylePrompt, describe anything named in its glossary exactly as written there, and keep its negativePrompt out of visual_prompt.
+- If validationErrors is present, your previous reply was rejected for those reasons; fix them.
+Return JSON only.
+`;
+
+/**
+ * The Art Director system prompt, from GAME_MASTER_PROMPT or the built-in default
+ */
+export function getGameMasterPrompt(): string {
+  return process.env.GAME_MASTER_PROMPT || DEFAULT_GAME_MASTER_PROMPT;
+}
+
+/**
+ * Identifies the active prompt so cached scene directions can be tied to the
+ * prompt that produced them: GAME_MASTER_PROMPT_VERSION if set, else a short
+ * hash of the prompt text
+ */
+export function getPromptVersion(): string {
+  return (
+    process.env.GAME_MASTER_PROMPT_VERSION ||
+    crypto.createHash("sha256").update(getGameMasterPrompt()).digest("hex").substring(0, 12)
+  );
+}
+
+/**
+ * Re-read GAME_MASTER_PROMPT and GAME_MASTER_PROMPT_VERSION from an env file,
+ * so a prompt can be tuned without restarting. A setting missing from the
+ * file is cleared, reverting to the built-in prompt or the prompt's hash.
+ * @param envFile Path of the env file (default .env in the working directory)
+ * @returns The prompt version now in effect
+ * @throws Error if the file can't be read
+ */
+export function reloadGameMasterPrompt(envFile: string = path.resolve(process.cwd(), ".env")): string {
+  const parsed = dotenv.parse(fs.readFileSync(envFile));
+  for (const name of ["GAME_MASTER_PROMPT", "GAME_MASTER_PROMPT_VERSION"]) {
+    if (parsed[name]) {
+      process.env[name] = parsed[name];
+    } else {
+      delete process.env[name];
+    }
+  }
+  return getPromptVersion();
+}
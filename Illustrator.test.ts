@@ -0,0 +1,21 @@
+import { detectImageMimeType } from './Illustrator';
+
+describe('detectImageMimeType', () => {
+  it('should detect PNG', () => {
+    const png = Buffer.from('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==', 'base64');
+
+    expect(detectImageMimeType(png)).toBe('image/png');
+  });
+
+  it('should detect JPEG', () => {
+    expect(detectImageMimeType(Buffer.from([0xff, 0xd8, 0xff, 0xe0]))).toBe('image/jpeg');
+  });
+
+  it('should detect WebP', () => {
+    expect(detectImageMimeType(Buffer.from('RIFF\0\0\0\0WEBPVP8 ', 'binary'))).toBe('image/webp');
+  });
+
+  it('should fall back to octet-stream for unknown data', () => {
+    expect(detectImageMimeType(Buffer.from('hello'))).toBe('application/octet-stream');
+  });
+});
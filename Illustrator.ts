@@ -1,7 +1,53 @@
-interface Illustrator {
-  generateImage(
-    prompt: string,
-    size: string,
-    saveToFile?: string,
-  ): Promise<string>;
+/**
+ * An image produced by an Illustrator, with metadata about how it was made
+ */
+export interface Illustration {
+  /** Raw image bytes */
+  image: Buffer;
+  /** MIME type of the image bytes, e.g. "image/png" */
+  mimeType: string;
+  /** Name of the Illustrator backend that produced the image */
+  backend: string;
+  /** Model the backend used */
+  model: string;
+  /** Dimensions the image was requested at, e.g. "512x512" */
+  size: string;
+  /** Prompt the image was generated from */
+  prompt: string;
+  /** Seed the image was generated with, if the backend takes seeds */
+  seed?: number;
+}
+
+/**
+ * An image generation backend
+ */
+export interface Illustrator {
+  /** Backend name as used in configuration, e.g. "flux" */
+  readonly name: string;
+
+  /**
+   * Generate an image from a text prompt
+   * @param prompt The text prompt describing the desired image
+   * @param size Image dimensions, e.g. "512x512"; backends fall back to their default
+   * @param seed Seed for reproducible output; backends without seeds ignore it
+   */
+  generateImage(prompt: string, size?: string, seed?: number): Promise<Illustration>;
+}
+
+/**
+ * Detect an image's MIME type from its leading bytes
+ * @param image Raw image bytes
+ * @returns The MIME type, or "application/octet-stream" if unrecognized
+ */
+export function detectImageMimeType(image: Buffer): string {
+  if (image.length >= 8 && image.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return "image/png";
+  }
+  if (image.length >= 3 && image[0] === 0xff && image[1] === 0xd8 && image[2] === 0xff) {
+    return "image/jpeg";
+  }
+  if (image.length >= 12 && image.toString("ascii", 0, 4) === "RIFF" && image.toString("ascii", 8, 12) === "WEBP") {
+    return "image/webp";
+  }
+  return "application/octet-stream";
 }
@@ -0,0 +1,62 @@
+/**
+ * Decoded image pixels, 8-bit RGBA in row-major order
+ */
+export interface RasterImage {
+  width: number;
+  height: number;
+  /** width * height * 4 bytes of RGBA */
+  data: Uint8Array | Uint8ClampedArray;
+}
+
+/**
+ * The image an encoder works from. The PNG bytes are always available;
+ * pixels are only decoded if an encoder asks for them.
+ */
+export interface EncoderSource {
+  /** Original image bytes as produced by the Illustrator */
+  image: Buffer;
+  /**
+   * Decode the image to RGBA pixels
+   * @throws ImageDecodeError if the image can't be decoded
+   */
+  raster(): Promise<RasterImage>;
+  /** Terminal size in character cells, if the client sent one */
+  columns?: number;
+  rows?: number;
+}
+
+/**
+ * Output of an encoder, ready to send to the client
+ */
+export interface EncodedImage {
+  /** Value for the Content-Type header */
+  contentType: string;
+  body: Buffer | string;
+}
+
+/**
+ * Converts an illustration into one illustrationFormat
+ */
+export interface ImageEncoder {
+  /** Format name as used in illustrationFormat, e.g. "sixel" */
+  readonly name: string;
+  /** Value for the Content-Type header of encoded output */
+  readonly contentType: string;
+
+  /**
+   * Encode an image
+   * @param source The image to encode
+   * @throws ImageDecodeError if the encoder needs pixels and the image can't be decoded
+   */
+  encode(source: EncoderSource): Promise<EncodedImage>;
+}
+
+/**
+ * Thrown when an image can't be decoded to pixels
+ */
+export class ImageDecodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImageDecodeError";
+  }
+}
@@ -0,0 +1,156 @@
+import { Request, Response } from 'express';
+import { ClientAccess, createClientAccess, parseClientTokens, rateLimitedResponse } from './ClientAccess';
+
+describe('ClientAccess', () => {
+  const request = (authorization?: string, ip = '192.0.2.1') =>
+    ({ ip, get: (name: string) => (name === 'Authorization' ? authorization : undefined) }) as unknown as Request;
+
+  let res: { status: jest.Mock; json: jest.Mock; setHeader: jest.Mock; locals: Record<string, any> };
+  let next: jest.Mock;
+  let onLimited: jest.Mock;
+  let access: ClientAccess;
+
+  beforeEach(() => {
+    res = { status: jest.fn(), json: jest.fn(), setHeader: jest.fn(), locals: {} };
+    res.status.mockReturnValue(res);
+    next = jest.fn();
+    onLimited = jest.fn();
+    access = new ClientAccess({
+      tokens: { gargoyle: 's3cret' },
+      ipLimits: { requests: 2, generations: 1 },
+      tokenLimits: { requests: 5, generations: 3 },
+      onLimited,
+      now: () => 0,
+    });
+  });
+
+  const admit = (authorization?: string, ip?: string) =>
+    access.admit()(request(authorization, ip), res as unknown as Response, next);
+
+  describe('admit', () => {
+    it('should admit an issued token and leave the client in res.locals', () => {
+      admit('Bearer s3cret');
+
+      expect(next).toHaveBeenCalled();
+      expect(res.locals.client).toEqual({ key: 'token:gargoyle', name: 'gargoyle' });
+    });
+
+    it('should admit anonymous clients by IP address', () => {
+      admit();
+
+      expect(res.locals.client).toEqual({ key: 'ip:192.0.2.1' });
+    });
+
+    it.each(['Bearer wrong', 'Basic s3cret'])('should refuse %s with 401', (authorization) => {
+      admit(authorization);
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(res.setHeader).toHaveBeenCalledWith('WWW-Authenticate', expect.stringContaining('Bearer'));
+    });
+
+    it('should refuse anonymous clients when a token is required', () => {
+      access = new ClientAccess({
+        requireToken: true,
+        ipLimits: { requests: 2, generations: 1 },
+        tokenLimits: { requests: 5, generations: 3 },
+      });
+
+      admit();
+
+      expect(res.status).toHaveBeenCalledWith(401);
+    });
+
+    it('should refuse a client over its request budget with 429 and Retry-After', () => {
+      admit();
+      admit();
+      admit();
+
+      expect(next).toHaveBeenCalledTimes(2);
+      expect(res.status).toHaveBeenCalledWith(429);
+      expect(res.setHeader).toHaveBeenCalledWith('Retry-After', '30');
+      expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ budget: 'requests', retryAfter: 30 }));
+      expect(onLimited).toHaveBeenCalledWith({ key: 'ip:192.0.2.1' }, 'requests');
+    });
+
+    it('should keep separate budgets per IP address and per token', () => {
+      admit();
+      admit();
+      admit(undefined, '192.0.2.2');
+      admit('Bearer s3cret');
+
+      expect(next).toHaveBeenCalledTimes(4);
+    });
+  });
+
+  describe('budgets', () => {
+    it('should keep generations apart from requests', () => {
+      const client = { key: 'ip:192.0.2.1' };
+
+      expect(access.take(client, 'generations').allowed).toBe(true);
+      expect(access.take(client, 'generations').allowed).toBe(false);
+      expect(access.take(client, 'requests').allowed).toBe(true);
+    });
+
+    it('should report only the refusals it is told about', () => {
+      const client = { key: 'ip:192.0.2.1' };
+      access.take(client, 'generations');
+      access.take(client, 'generations');
+
+      expect(onLimited).not.toHaveBeenCalled();
+      access.limited(client, 'generations');
+      expect(onLimited).toHaveBeenCalledWith(client, 'generations');
+    });
+
+    it('should give token holders their own limits', () => {
+      const client = { key: 'token:gargoyle', name: 'gargoyle' };
+
+      expect([1, 2, 3, 4].map(() => access.take(client, 'generations').allowed)).toEqual([true, true, true, false]);
+    });
+
+    it('should give back a refunded generation', () => {
+      const client = { key: 'ip:192.0.2.1' };
+      access.take(client, 'generations');
+      access.refund(client, 'generations');
+
+      expect(access.take(client, 'generations').allowed).toBe(true);
+    });
+  });
+
+  describe('rateLimitedResponse', () => {
+    it('should say when to try again, for a job to report later', () => {
+      expect(rateLimitedResponse('generations', 12)).toEqual({
+        status: 429,
+        body: expect.objectContaining({ budget: 'generations', retryAfter: 12 }),
+        retryAfterSeconds: 12,
+      });
+    });
+  });
+
+  describe('parseClientTokens', () => {
+    it('should parse name=token pairs', () => {
+      expect(parseClientTokens('gargoyle=abc, frotz=d=ef')).toEqual({ gargoyle: 'abc', frotz: 'd=ef' });
+      expect(parseClientTokens(undefined)).toEqual({});
+    });
+
+    it('should reject entries without a name or token', () => {
+      expect(() => parseClientTokens('gargoyle')).toThrow('Invalid client token entry: gargoyle');
+      expect(() => parseClientTokens('frotz=')).toThrow('Invalid client token entry: frotz');
+    });
+  });
+
+  describe('createClientAccess', () => {
+    it('should read tokens and limits from the environment', () => {
+      const configured = createClientAccess({ CLIENT_TOKENS: 'gargoyle=s3cret', RATE_LIMIT_IP_GENERATIONS: '0' });
+      const anonymous = configured.identify(undefined, '192.0.2.1')!;
+
+      expect(configured.identify('Bearer s3cret', '192.0.2.1')).toEqual({ key: 'token:gargoyle', name: 'gargoyle' });
+      expect(configured.take(anonymous, 'generations').allowed).toBe(false);
+      expect(configured.take(anonymous, 'requests').allowed).toBe(true);
+    });
+
+    it('should reject invalid limits', () => {
+      expect(() => createClientAccess({ RATE_LIMIT_IP_REQUESTS: 'lots' })).toThrow('Invalid RATE_LIMIT_IP_REQUESTS: lots');
+    });
+  });
+});
@@ -0,0 +1,255 @@
+import crypto from "crypto";
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import { RateLimiter, RateLimitResult } from "./RateLimiter";
+
+/**
+ * What a client spends: every request comes out of its request budget, and
+ * moves that need the Art Director or Illustrator out of its generation budget
+ */
+export type Budget = "requests" | "generations";
+
+/**
+ * Calls allowed per window for one kind of client
+ */
+export interface ClientLimits {
+  requests: number;
+  generations: number;
+}
+
+/**
+ * Who is calling: a client holding an issued token, or an anonymous one
+ * known by its IP address
+ */
+export interface Client {
+  /** Key its budgets are kept under, e.g. "token:gargoyle" or "ip:192.0.2.1" */
+  key: string;
+  /** Name the token was issued under; undefined for anonymous clients */
+  name?: string;
+}
+
+/**
+ * Options for client authentication and rate limiting
+ */
+export interface ClientAccessOptions {
+  /** Issued client tokens, by client name */
+  tokens?: Record<string, string>;
+  /** Refuse requests without a client token (default false) */
+  requireToken?: boolean;
+  /** Limits per IP address for anonymous clients */
+  ipLimits: ClientLimits;
+  /** Limits per client token */
+  tokenLimits: ClientLimits;
+  /** Window in milliseconds the limits apply over (default 1 minute) */
+  windowMs?: number;
+  /** Called when a client is refused for being over a budget, e.g. to count it */
+  onLimited?: (client: Client, budget: Budget) => void;
+  /** Clock source, overridable for tests */
+  now?: () => number;
+}
+
+/**
+ * ClientAccess identifies /illustrateMove clients by the token they were
+ * issued ("Authorization: Bearer <token>") or, without one, by IP address,
+ * and keeps two budgets for each: one for requests, which cache hits cost,
+ * and a smaller one for generating new scene directions and images, which
+ * cost money upstream.
+ */
+export class ClientAccess {
+  private tokens: { name: string; hash: Buffer }[];
+  private requireToken: boolean;
+  private limiters: Record<"ip" | "token", Record<Budget, RateLimiter>>;
+  private onLimited: (client: Client, budget: Budget) => void;
+
+  constructor(options: ClientAccessOptions) {
+    this.tokens = Object.entries(options.tokens ?? {}).map(([name, token]) => ({ name, hash: hash(token) }));
+    this.requireToken = options.requireToken ?? false;
+    const limiter = (limit: number) => new RateLimiter({ limit, windowMs: options.windowMs, now: options.now });
+    this.limiters = {
+      ip: {
+        requests: limiter(options.ipLimits.requests),
+        generations: limiter(options.ipLimits.generations),
+      },
+      token: {
+        requests: limiter(options.tokenLimits.requests),
+        generations: limiter(options.tokenLimits.generations),
+      },
+    };
+    this.onLimited = options.onLimited ?? (() => {});
+  }
+
+  /**
+   * Express middleware identifying the client and taking the request from
+   * its request budget; the client is left in res.locals.client. Refuses
+   * unknown tokens with 401 and clients over budget with 429 and Retry-After.
+   */
+  admit(): RequestHandler {
+    return (req: Request, res: Response, next: NextFunction) => {
+      const client = this.identify(req.get("Authorization"), req.ip);
+      if (!client) {
+        res.setHeader("WWW-Authenticate", 'Bearer realm="zmcdn"');
+        res.status(401).json({ error: this.requireToken ? "client token required" : "invalid client token" });
+        return;
+      }
+      const result = this.take(client, "requests");
+      if (!result.allowed) {
+        this.limited(client, "requests");
+        sendRateLimited(res, "requests", result.retryAfterSeconds);
+        return;
+      }
+      res.locals.client = client;
+      next();
+    };
+  }
+
+  /**
+   * Identify a client from its Authorization header
+   * @param authorization The header, if any
+   * @param ip The client's IP address
+   * @returns The client, or undefined if its token is unknown or a token is
+   * required and it has none
+   */
+  identify(authorization: string | undefined, ip: string | undefined): Client | undefined {
+    if (!authorization) {
+      return this.requireToken ? undefined : { key: `ip:${ip ?? "unknown"}` };
+    }
+    const match = /^Bearer\s+(.+)$/i.exec(authorization);
+    if (!match) {
+      return undefined;
+    }
+    // Compare hashes so the comparison takes the same time whatever the length
+    const given = hash(match[1]);
+    const issued = this.tokens.find(({ hash }) => crypto.timingSafeEqual(given, hash));
+    return issued ? { key: `token:${issued.name}`, name: issued.name } : undefined;
+  }
+
+  /**
+   * Take one call from a client's budget. Being over it isn't reported, since
+   * the call may still be served another way, e.g. a move from cache; see
+   * limited().
+   * @param client Who is calling
+   * @param budget Which budget to take from
+   */
+  take(client: Client, budget: Budget): RateLimitResult {
+    return this.limiter(client, budget).take(client.key);
+  }
+
+  /**
+   * Report to onLimited that a client was refused for being over a budget
+   * @param client Who was refused
+   * @param budget Which budget it was over
+   */
+  limited(client: Client, budget: Budget): void {
+    this.onLimited(client, budget);
+  }
+
+  /**
+   * Give back a call taken from a client's budget, e.g. a generation the
+   * move didn't need after all
+   * @param client Who called
+   * @param budget Which budget it was taken from
+   */
+  refund(client: Client, budget: Budget): void {
+    this.limiter(client, budget).refund(client.key);
+  }
+
+  private limiter(client: Client, budget: Budget): RateLimiter {
+    return this.limiters[client.name === undefined ? "ip" : "token"][budget];
+  }
+}
+
+/**
+ * The 429 refusing a request for being over a budget, e.g. for a job to
+ * report once it fails
+ * @param budget The budget the client is over
+ * @param retryAfterSeconds When the client can try again
+ */
+export function rateLimitedResponse(
+  budget: Budget,
+  retryAfterSeconds: number,
+): { status: number; body: Record<string, unknown>; retryAfterSeconds: number } {
+  return {
+    status: 429,
+    body: {
+      error: budget === "requests" ? "too many requests" : "too many new illustrations; only cached scenes can be served",
+      budget,
+      retryAfter: retryAfterSeconds,
+    },
+    retryAfterSeconds,
+  };
+}
+
+/**
+ * Refuse a request for being over a budget with 429 and a Retry-After header
+ * @param res The response
+ * @param budget The budget the client is over
+ * @param retryAfterSeconds When the client can try again
+ */
+export function sendRateLimited(res: Response, budget: Budget, retryAfterSeconds: number): void {
+  const { status, body } = rateLimitedResponse(budget, retryAfterSeconds);
+  res.setHeader("Retry-After", String(retryAfterSeconds));
+  res.status(status).json(body);
+}
+
+/**
+ * Parse issued client tokens of the form "name=token,name2=token2"
+ * @param spec The list, typically from CLIENT_TOKENS
+ * @returns The tokens by client name
+ * @throws Error if an entry has no name or token
+ */
+export function parseClientTokens(spec?: string): Record<string, string> {
+  const tokens: Record<string, string> = {};
+  if (!spec) return tokens;
+  for (const entry of spec.split(",")) {
+    if (!entry.trim()) continue;
+    const separator = entry.indexOf("=");
+    const name = entry.slice(0, Math.max(separator, 0)).trim();
+    const token = entry.slice(separator + 1).trim();
+    if (separator < 0 || !name || !token) {
+      throw new Error(`Invalid client token entry: ${name || entry.trim()}`);
+    }
+    tokens[name] = token;
+  }
+  return tokens;
+}
+
+/**
+ * Create client access from environment settings:
+ * CLIENT_TOKENS, REQUIRE_CLIENT_TOKEN, RATE_LIMIT_WINDOW_MS,
+ * RATE_LIMIT_IP_REQUESTS / RATE_LIMIT_IP_GENERATIONS (default 60 / 10) and
+ * RATE_LIMIT_TOKEN_REQUESTS / RATE_LIMIT_TOKEN_GENERATIONS (default 600 / 60)
+ * @param env Environment variables (default process.env)
+ * @param onLimited Called when a client is refused for being over a budget
+ * @throws Error if a limit isn't a non-negative integer
+ */
+export function createClientAccess(
+  env: NodeJS.ProcessEnv = process.env,
+  onLimited?: (client: Client, budget: Budget) => void,
+): ClientAccess {
+  const limit = (name: string, fallback: number): number => {
+    const value = env[name];
+    if (value === undefined || value === "") return fallback;
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 0) {
+      throw new Error(`Invalid ${name}: ${value}`);
+    }
+    return parsed;
+  };
+  return new ClientAccess({
+    tokens: parseClientTokens(env.CLIENT_TOKENS),
+    requireToken: env.REQUIRE_CLIENT_TOKEN === "true",
+    windowMs: limit("RATE_LIMIT_WINDOW_MS", 60 * 1000) || undefined,
+    ipLimits: {
+      requests: limit("RATE_LIMIT_IP_REQUESTS", 60),
+      generations: limit("RATE_LIMIT_IP_GENERATIONS", 10),
+    },
+    tokenLimits: {
+      requests: limit("RATE_LIMIT_TOKEN_REQUESTS", 600),
+      generations: limit("RATE_LIMIT_TOKEN_GENERATIONS", 60),
+    },
+    onLimited,
+  });
+}
+
+function hash(token: string): Buffer {
+  return crypto.createHash("sha256").update(token).digest();
+}
@@ -0,0 +1,54 @@
+import { Request, Response } from 'express';
+import { allowCors, parseCorsOrigins } from './Cors';
+
+describe('allowCors', () => {
+  const request = (origin?: string) =>
+    ({ get: (name: string) => (name === 'Origin' ? origin : undefined) }) as unknown as Request;
+
+  let headers: Record<string, string>;
+  let res: Response;
+  let next: jest.Mock;
+
+  beforeEach(() => {
+    headers = {};
+    res = { setHeader: (name: string, value: string) => (headers[name] = value) } as unknown as Response;
+    next = jest.fn();
+  });
+
+  it('should allow any origin with *', () => {
+    allowCors(['*'], ['POST', 'OPTIONS'])(request('https://example.org'), res, next);
+
+    expect(headers['Access-Control-Allow-Origin']).toBe('*');
+    expect(headers['Access-Control-Allow-Methods']).toBe('POST, OPTIONS');
+    expect(headers['Access-Control-Allow-Headers']).toContain('Authorization');
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('should echo an allowed origin', () => {
+    allowCors(['https://example.org'], ['GET'])(request('https://example.org'), res, next);
+
+    expect(headers['Access-Control-Allow-Origin']).toBe('https://example.org');
+    expect(headers['Vary']).toBe('Origin');
+  });
+
+  it('should leave out other origins', () => {
+    allowCors(['https://example.org'], ['GET'])(request('https://evil.example'), res, next);
+
+    expect(headers['Access-Control-Allow-Origin']).toBeUndefined();
+    expect(next).toHaveBeenCalled();
+  });
+});
+
+describe('parseCorsOrigins', () => {
+  it('should default to any origin', () => {
+    expect(parseCorsOrigins(undefined)).toEqual(['*']);
+    expect(parseCorsOrigins(' ')).toEqual(['*']);
+  });
+
+  it('should split a list and drop trailing slashes', () => {
+    expect(parseCorsOrigins('https://example.org/, https://play.example.org')).toEqual([
+      'https://example.org',
+      'https://play.example.org',
+    ]);
+  });
+});
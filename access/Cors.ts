@@ -0,0 +1,42 @@
+import { NextFunction, Request, RequestHandler, Response } from "express";
+
+/**
+ * Parse the origins browsers may call zmcdn from, e.g.
+ * "https://example.org,https://play.example.org"
+ * @param spec The list, typically from CORS_ORIGINS; "*" allows any origin
+ * @returns The origins, ["*"] if the list is empty or unset
+ */
+export function parseCorsOrigins(spec?: string): string[] {
+  const origins = (spec ?? "")
+    .split(",")
+    .map((origin) => origin.trim().replace(/\/+$/, ""))
+    .filter((origin) => origin.length > 0);
+  return origins.length > 0 ? origins : ["*"];
+}
+
+/**
+ * Express middleware setting CORS headers for the allowed origins. A request
+ * from any other origin gets no Access-Control-Allow-Origin, so browsers
+ * won't let the page read the response.
+ * @param origins Allowed origins, or ["*"] for any
+ * @param methods Methods the route accepts, e.g. ["POST", "OPTIONS"]
+ */
+export function allowCors(origins: string[], methods: string[]): RequestHandler {
+  const anyOrigin = origins.includes("*");
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (anyOrigin) {
+      res.setHeader("Access-Control-Allow-Origin", "*");
+    } else {
+      res.setHeader("Vary", "Origin");
+      const origin = req.get("Origin");
+      if (origin && origins.includes(origin)) {
+        res.setHeader("Access-Control-Allow-Origin", origin);
+      }
+    }
+    res.setHeader("Access-Control-Allow-Methods", methods.join(", "));
+    res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization");
+    res.setHeader("Access-Control-Expose-Headers", "Retry-After");
+    next();
+  };
+}
@@ -0,0 +1,65 @@
+import { RateLimiter } from './RateLimiter';
+
+describe('RateLimiter', () => {
+  let now: number;
+  let limiter: RateLimiter;
+
+  beforeEach(() => {
+    now = 0;
+    limiter = new RateLimiter({ limit: 3, windowMs: 60000, now: () => now });
+  });
+
+  it('should allow a burst up to the limit, then refuse', () => {
+    expect([1, 2, 3].map(() => limiter.take('a').allowed)).toEqual([true, true, true]);
+
+    const refused = limiter.take('a');
+
+    expect(refused.allowed).toBe(false);
+    expect(refused.remaining).toBe(0);
+    expect(refused.retryAfterSeconds).toBe(20);
+  });
+
+  it('should refill steadily over the window', () => {
+    for (let i = 0; i < 3; i++) limiter.take('a');
+    now += 20000;
+
+    expect(limiter.take('a').allowed).toBe(true);
+    expect(limiter.take('a').allowed).toBe(false);
+  });
+
+  it('should never refill past the limit', () => {
+    now += 10 * 60000;
+
+    expect(limiter.remaining('a')).toBe(3);
+  });
+
+  it('should keep keys apart', () => {
+    for (let i = 0; i < 3; i++) limiter.take('a');
+
+    expect(limiter.take('b').allowed).toBe(true);
+  });
+
+  it('should give back a refunded call', () => {
+    for (let i = 0; i < 3; i++) limiter.take('a');
+    limiter.refund('a');
+
+    expect(limiter.take('a').allowed).toBe(true);
+  });
+
+  it('should refuse everything with a limit of 0', () => {
+    limiter = new RateLimiter({ limit: 0, windowMs: 60000, now: () => now });
+
+    expect(limiter.take('a')).toEqual({ allowed: false, remaining: 0, retryAfterSeconds: 60 });
+  });
+
+  it('should forget the least recently used key past maxKeys', () => {
+    limiter = new RateLimiter({ limit: 1, windowMs: 60000, maxKeys: 2, now: () => now });
+    limiter.take('a');
+    limiter.take('b');
+    limiter.take('a');
+    limiter.take('c');
+
+    expect(limiter.remaining('a')).toBe(0);
+    expect(limiter.remaining('b')).toBe(1);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Options for a rate limiter
+ */
+export interface RateLimiterOptions {
+  /** Calls allowed per window, and how many can be made in a burst */
+  limit: number;
+  /** Window in milliseconds over which limit calls are allowed (default 1 minute) */
+  windowMs?: number;
+  /** Keys remembered; the least recently used is forgotten past this (default 10000) */
+  maxKeys?: number;
+  /** Clock source, overridable for tests */
+  now?: () => number;
+}
+
+/**
+ * Whether a call was allowed, as returned by RateLimiter.take()
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  /** Whole calls left for the key after this one */
+  remaining: number;
+  /** Seconds until the call would be allowed; 0 if it was */
+  retryAfterSeconds: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * RateLimiter allows each key (e.g. a client token or IP address) limit
+ * calls per window. It's a token bucket: a key starts with limit tokens,
+ * each call takes one, and they refill steadily over the window, so a client
+ * can burst up to limit calls and then keep to the average rate.
+ */
+export class RateLimiter {
+  readonly limit: number;
+  readonly windowMs: number;
+  private readonly maxKeys: number;
+  private buckets = new Map<string, Bucket>();
+  private now: () => number;
+
+  constructor(options: RateLimiterOptions) {
+    this.limit = options.limit;
+    this.windowMs = options.windowMs ?? 60 * 1000;
+    this.maxKeys = options.maxKeys ?? 10000;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Take a call from a key's allowance if it has one left
+   * @param key Who is calling
+   * @returns Whether the call is allowed and, if not, when it would be
+   */
+  take(key: string): RateLimitResult {
+    const bucket = this.bucket(key);
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return { allowed: true, remaining: Math.floor(bucket.tokens), retryAfterSeconds: 0 };
+    }
+    const waitMs = this.limit > 0 ? ((1 - bucket.tokens) * this.windowMs) / this.limit : this.windowMs;
+    return { allowed: false, remaining: 0, retryAfterSeconds: Math.max(1, Math.ceil(waitMs / 1000)) };
+  }
+
+  /**
+   * Give back a call taken with take(), e.g. when it turned out to cost nothing
+   * @param key Who called
+   */
+  refund(key: string): void {
+    const bucket = this.bucket(key);
+    bucket.tokens = Math.min(this.limit, bucket.tokens + 1);
+  }
+
+  /**
+   * Calls a key has left right now
+   * @param key Who is asking
+   */
+  remaining(key: string): number {
+    return Math.floor(this.bucket(key).tokens);
+  }
+
+  /**
+   * A key's bucket, refilled for the time since it was last used
+   */
+  private bucket(key: string): Bucket {
+    const now = this.now();
+    let bucket = this.buckets.get(key);
+    if (bucket) {
+      const refill = ((now - bucket.updatedAt) * this.limit) / this.windowMs;
+      bucket.tokens = Math.min(this.limit, bucket.tokens + refill);
+      bucket.updatedAt = now;
+      // Re-insert so Map iteration order stays least-recently-used first
+      this.buckets.delete(key);
+    } else {
+      bucket = { tokens: this.limit, updatedAt: now };
+      while (this.buckets.size >= this.maxKeys) {
+        this.buckets.delete(this.buckets.keys().next().value as string);
+      }
+    }
+    this.buckets.set(key, bucket);
+    return bucket;
+  }
+}
@@ -0,0 +1,41 @@
+import { Request, Response } from 'express';
+import { requireAdminToken } from './AdminAuth';
+
+describe('requireAdminToken', () => {
+  const request = (authorization?: string) =>
+    ({ get: (name: string) => (name === 'Authorization' ? authorization : undefined) }) as unknown as Request;
+
+  let res: { status: jest.Mock; json: jest.Mock; setHeader: jest.Mock };
+  let next: jest.Mock;
+
+  beforeEach(() => {
+    res = { status: jest.fn(), json: jest.fn(), setHeader: jest.fn() };
+    res.status.mockReturnValue(res);
+    next = jest.fn();
+  });
+
+  it('should admit the right bearer token', () => {
+    requireAdminToken('s3cret')(request('Bearer s3cret'), res as unknown as Response, next);
+
+    expect(next).toHaveBeenCalled();
+    expect(res.status).not.toHaveBeenCalled();
+  });
+
+  it.each([undefined, 'Bearer wrong', 'Bearer s3cret2', 'Basic s3cret', 's3cret'])(
+    'should refuse %s with 401',
+    (authorization) => {
+      requireAdminToken('s3cret')(request(authorization), res as unknown as Response, next);
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(res.setHeader).toHaveBeenCalledWith('WWW-Authenticate', expect.stringContaining('Bearer'));
+    }
+  );
+
+  it('should refuse everything when no token is configured', () => {
+    requireAdminToken(undefined)(request('Bearer '), res as unknown as Response, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+});
@@ -0,0 +1,28 @@
+import crypto from "crypto";
+import { NextFunction, Request, RequestHandler, Response } from "express";
+
+/**
+ * Express middleware admitting only requests that carry the admin token as
+ * "Authorization: Bearer <token>". Without a configured token every request
+ * is refused, so the admin API is off unless ADMIN_TOKEN is set.
+ * @param token The admin token, or undefined if none is configured
+ */
+export function requireAdminToken(token?: string): RequestHandler {
+  const expected = token ? crypto.createHash("sha256").update(token).digest() : undefined;
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!expected) {
+      res.status(403).json({ error: "admin API disabled; set ADMIN_TOKEN" });
+      return;
+    }
+    const match = /^Bearer\s+(.+)$/i.exec(req.get("Authorization") ?? "");
+    // Compare hashes so the comparison takes the same time whatever the length
+    const given = crypto.createHash("sha256").update(match?.[1] ?? "").digest();
+    if (!match || !crypto.timingSafeEqual(given, expected)) {
+      res.setHeader("WWW-Authenticate", 'Bearer realm="zmcdn admin"');
+      res.status(401).json({ error: "invalid admin token" });
+      return;
+    }
+    next();
+  };
+}
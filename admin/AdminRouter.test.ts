@@ -0,0 +1,208 @@
+import express from 'express';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { CacheStoreMemory } from '../cachestore/CacheStoreMemory';
+import { LogLevel, Logger } from '../logging/Logger';
+import { SpendLedger } from '../metrics/SpendLedger';
+import { ImageVariants } from '../pipeline/ImageVariants';
+import { emptySessionState } from '../storage/SessionStore';
+import { AdminDeps, createAdminRouter } from './AdminRouter';
+
+describe('createAdminRouter', () => {
+  let cache: CacheStoreMemory;
+  let variants: ImageVariants;
+  let deps: AdminDeps;
+  let trace: boolean;
+  let level: LogLevel;
+  let lines: string[];
+  let spend: SpendLedger;
+  let server: http.Server;
+  let baseUrl: string;
+
+  const call = (method: string, path: string, body?: unknown, token = 's3cret') =>
+    fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+  beforeEach(async () => {
+    cache = new CacheStoreMemory();
+    variants = new ImageVariants(cache);
+    trace = false;
+    level = 'info';
+    lines = [];
+    spend = new SpendLedger({ cache }, {
+      prices: { flux: { perCall: 0.01, per1KPromptTokens: 0, per1KCompletionTokens: 0 } },
+      dailyCapUsd: 1,
+    });
+    await variants.add('88.840726', 'west_of_house', Buffer.from('house'), { variant: 0, seed: 1, prompt: 'a house' });
+    await variants.add('88.840726', 'cellar', Buffer.from('cellar'), { variant: 0, seed: 2 });
+    await cache.set('_scenes', 'abc.txt', Buffer.from('{}'));
+
+    deps = {
+      token: 's3cret',
+      cache,
+      variants,
+      regenerateImage: jest.fn().mockResolvedValue({ variant: { variant: 1, seed: 3 }, sameSeed: false }),
+      purgeSceneDirections: jest.fn().mockResolvedValue(4),
+      thumbnail: jest.fn().mockResolvedValue({ contentType: 'image/png', body: Buffer.from('thumb') }),
+      sessions: {
+        list: () => [{ sessionID: 'session-a', createdAt: 1, lastAccessedAt: 2 }],
+        history: (sessionID) => (sessionID === 'session-a' ? ['{"reuse_key":"west_of_house"}'] : undefined),
+      },
+      loadSession: async (sessionID) =>
+        sessionID === 'session-b' ? { ...emptySessionState(sessionID), answers: ['saved'] } : undefined,
+      spend,
+      getTrace: () => trace,
+      setTrace: (enabled) => {
+        trace = enabled;
+      },
+      getLogLevel: () => level,
+      setLogLevel: (next) => {
+        level = next;
+      },
+      logger: new Logger({ write: (line) => lines.push(line) }),
+    };
+
+    const app = express();
+    app.use('/admin', createAdminRouter(deps));
+    server = app.listen(0, '127.0.0.1');
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should refuse requests without the token', async () => {
+    const res = await call('GET', '/admin/games', undefined, 'wrong');
+
+    expect(res.status).toBe(401);
+  });
+
+  it('should list games but not internal namespaces', async () => {
+    const res = await call('GET', '/admin/games');
+
+    expect(await res.json()).toEqual({
+      games: [{ gameIdentifier: '88.840726', images: 2, bytes: expect.any(Number) }],
+    });
+  });
+
+  it('should list a game\'s images with thumbnails', async () => {
+    const { images } = await (await call('GET', '/admin/games/88.840726/images')).json();
+
+    expect(images.map((image: any) => image.reuseKey).sort()).toEqual(['cellar', 'west_of_house']);
+    const house = images.find((image: any) => image.reuseKey === 'west_of_house');
+    expect(house).toEqual(
+      expect.objectContaining({
+        variants: 1,
+        canonical: 0,
+        thumbnailUrl: '/admin/games/88.840726/images/west_of_house/thumbnail',
+      })
+    );
+
+    const thumbnail = await call('GET', house.thumbnailUrl);
+    expect(thumbnail.headers.get('content-type')).toBe('image/png');
+    expect(Buffer.from(await thumbnail.arrayBuffer()).toString()).toBe('thumb');
+  });
+
+  it('should serve the full-size image with its own content type', async () => {
+    const jpeg = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10]);
+    await cache.set('88.840726', 'attic.png', jpeg);
+
+    const res = await call('GET', '/admin/games/88.840726/images/attic/image');
+
+    expect(res.headers.get('content-type')).toBe('image/jpeg');
+    expect(Buffer.from(await res.arrayBuffer())).toEqual(jpeg);
+  });
+
+  it('should reject a bad gameIdentifier', async () => {
+    expect((await call('GET', '/admin/games/..%2Fetc/images')).status).toBe(400);
+  });
+
+  it('should delete an image with its variants', async () => {
+    expect((await call('DELETE', '/admin/games/88.840726/images/cellar')).status).toBe(200);
+    expect(await cache.get('88.840726', 'cellar.png')).toBeUndefined();
+    expect((await call('DELETE', '/admin/games/88.840726/images/cellar')).status).toBe(404);
+  });
+
+  it('should regenerate an image', async () => {
+    const res = await call('POST', '/admin/games/88.840726/images/west_of_house/regenerate', { mode: 'new-variant' });
+
+    expect(await res.json()).toEqual(expect.objectContaining({ variant: { variant: 1, seed: 3 } }));
+    expect(deps.regenerateImage).toHaveBeenCalledWith('88.840726', 'west_of_house', 'new-variant');
+    expect((await call('POST', '/admin/games/88.840726/images/west_of_house/regenerate', { mode: 'bogus' })).status).toBe(400);
+  });
+
+  it('should say when a same-seed redraw is a different picture', async () => {
+    (deps.regenerateImage as jest.Mock).mockResolvedValue({ variant: { variant: 1 }, sameSeed: false });
+
+    const res = await call('POST', '/admin/games/88.840726/images/west_of_house/regenerate', { mode: 'same-seed' });
+
+    expect(await res.json()).toEqual(expect.objectContaining({ sameSeed: false, note: expect.stringContaining('without a seed') }));
+  });
+
+  it('should log a failed request with its game', async () => {
+    (deps.regenerateImage as jest.Mock).mockRejectedValue(new Error('upstream timed out'));
+
+    const res = await call('POST', '/admin/games/88.840726/images/west_of_house/regenerate', { mode: 'same-seed' });
+
+    expect(res.status).toBe(500);
+    expect(JSON.parse(lines[0])).toEqual(
+      expect.objectContaining({
+        level: 'error',
+        method: 'POST',
+        gameIdentifier: '88.840726',
+        error: expect.objectContaining({ message: 'upstream timed out' }),
+      })
+    );
+  });
+
+  it('should purge a game\'s scene directions', async () => {
+    const res = await call('DELETE', '/admin/games/88.840726/scenes');
+
+    expect(await res.json()).toEqual({ gameIdentifier: '88.840726', purged: 4 });
+    expect(deps.purgeSceneDirections).toHaveBeenCalledWith('88.840726');
+  });
+
+  it('should show live and saved sessions', async () => {
+    expect(await (await call('GET', '/admin/sessions')).json()).toEqual({
+      sessions: [{ sessionID: 'session-a', createdAt: 1, lastAccessedAt: 2 }],
+    });
+    expect(await (await call('GET', '/admin/sessions/session-a')).json()).toEqual(
+      expect.objectContaining({ live: true, history: ['{"reuse_key":"west_of_house"}'] })
+    );
+    expect(await (await call('GET', '/admin/sessions/session-b')).json()).toEqual(
+      expect.objectContaining({ live: false, history: ['saved'] })
+    );
+    expect((await call('GET', '/admin/sessions/session-c')).status).toBe(404);
+  });
+
+  it('should report spend for today and by day', async () => {
+    spend.attribute({ gameIdentifier: '88.840726' }, () => spend.record('illustrator', 'flux', undefined, 1));
+    const { day } = spend.summary().today;
+
+    expect(await (await call('GET', '/admin/spend')).json()).toEqual(
+      expect.objectContaining({ dailyCapUsd: 1, month: expect.objectContaining({ images: 1 }) })
+    );
+    expect((await (await call('GET', `/admin/spend/${day}`)).json()).byGame['88.840726'].usd).toBe(0.01);
+    expect((await call('GET', '/admin/spend/1999-01-01')).status).toBe(404);
+    expect((await call('GET', '/admin/spend/yesterday')).status).toBe(400);
+  });
+
+  it('should change trace at runtime', async () => {
+    expect(await (await call('PUT', '/admin/trace', { enabled: true })).json()).toEqual({ level: 'info', enabled: true });
+    expect(trace).toBe(true);
+    expect((await call('PUT', '/admin/trace', { enabled: 'yes' })).status).toBe(400);
+  });
+
+  it('should change the log level at runtime', async () => {
+    expect(await (await call('PUT', '/admin/trace', { level: 'warn' })).json()).toEqual({ level: 'warn', enabled: false });
+    expect(await (await call('GET', '/admin/trace')).json()).toEqual({ level: 'warn', enabled: false });
+    const res = await call('PUT', '/admin/trace', { level: 'verbose' });
+    expect(res.status).toBe(400);
+    expect((await res.json()).levels).toEqual(['debug', 'info', 'warn', 'error']);
+  });
+});
@@ -0,0 +1,321 @@
+import express, { Request, Response, Router } from "express";
+import { sanitizeReuseKey } from "../cachestore/CachePaths";
+import { CacheStore } from "../cachestore/CacheStore";
+import {
+  REGENERATE_MODES,
+  RegenerateMode,
+  imageCacheKey,
+  servedImageReuseKey,
+} from "../pipeline/ImageMetadata";
+import { detectImageMimeType } from "../Illustrator";
+import { LOG_LEVELS, LogLevel, Logger } from "../logging/Logger";
+import { DaySpend, SpendSummary } from "../metrics/SpendLedger";
+import { RegeneratedImage } from "../pipeline/IllustrationPipeline";
+import { ImageVariants } from "../pipeline/ImageVariants";
+import { SessionInfo } from "../session/SessionRegistry";
+import { SessionState } from "../storage/SessionStore";
+import { requireAdminToken } from "./AdminAuth";
+
+/**
+ * Collaborators the admin API needs; injected so it can be tested without a server
+ */
+export interface AdminDeps {
+  /** Token admin requests must carry; the API refuses everything without one */
+  token?: string;
+  cache: CacheStore;
+  variants: ImageVariants;
+  /** Redraw an image from its stored prompt; undefined if there's none */
+  regenerateImage: (
+    gameIdentifier: string,
+    reuseKey: string,
+    regenerate: RegenerateMode,
+  ) => Promise<RegeneratedImage | undefined>;
+  /** Delete a game's cached scene directions, returning how many there were */
+  purgeSceneDirections: (gameIdentifier: string) => Promise<number>;
+  /** A small rendition of an image for listings */
+  thumbnail: (image: Buffer) => Promise<{ contentType: string; body: Buffer }>;
+  /** Live sessions and each one's Art Director history */
+  sessions: {
+    list(): SessionInfo[];
+    history(sessionID: string): string[] | undefined;
+  };
+  /** A session's persisted state */
+  loadSession: (sessionID: string) => Promise<SessionState | undefined>;
+  /** Upstream spend: today and this month against the caps, and past days */
+  spend: {
+    summary(): SpendSummary;
+    day(day: string): Promise<DaySpend | undefined>;
+  };
+  getTrace: () => boolean;
+  setTrace: (enabled: boolean) => void;
+  /** The least severe level logged, and a way to change it at runtime */
+  getLogLevel: () => LogLevel;
+  setLogLevel: (level: LogLevel) => void;
+  log?: (...args: any[]) => void;
+  /** Where failed requests are logged (default: a new Logger) */
+  logger?: Logger;
+}
+
+/**
+ * Create the admin API: cached games and images, scene directions, sessions,
+ * spend and tracing. Every route needs the admin token.
+ * @param deps Collaborators
+ */
+export function createAdminRouter(deps: AdminDeps): Router {
+  const router = express.Router();
+  const log = deps.log ?? (() => {});
+  const logger = deps.logger ?? new Logger();
+  router.use(requireAdminToken(deps.token));
+  router.use(express.json());
+
+  // Turn failures into a 500 instead of an unhandled rejection
+  const route =
+    (handler: (req: Request, res: Response) => Promise<unknown>) => (req: Request, res: Response) => {
+      handler(req, res).catch((e) => {
+        logger.error("Admin request failed", {
+          method: req.method,
+          path: req.originalUrl,
+          gameIdentifier: req.params.gameIdentifier,
+          zmcdnSessionID: req.params.sessionID,
+          error: e,
+        });
+        if (!res.headersSent) {
+          res.status(500).json({ error: "admin request failed" });
+        }
+      });
+    };
+
+  // Reject anything that isn't a gameIdentifier before it reaches the cache
+  router.param("gameIdentifier", (req, res, next, gameIdentifier) => {
+    if (!/^[a-zA-Z0-9.]+$/.test(gameIdentifier)) {
+      return res.status(400).json({ error: "invalid gameIdentifier format" });
+    }
+    next();
+  });
+
+  /**
+   * GET /admin/games
+   * Every game with cached images, with image counts and bytes
+   */
+  router.get(
+    "/games",
+    route(async (_req, res) => {
+      const games = [];
+      for (const namespace of await deps.cache.namespaces()) {
+        if (namespace.startsWith("_")) continue;
+        const entries = await deps.cache.list(namespace);
+        games.push({
+          gameIdentifier: namespace,
+          images: entries.filter((entry) => servedImageReuseKey(entry.key)).length,
+          bytes: entries.reduce((total, entry) => total + entry.size, 0),
+        });
+      }
+      res.json({ games });
+    }),
+  );
+
+  /**
+   * GET /admin/games/:gameIdentifier/images
+   * A game's cached reuse_keys with their variants and thumbnail URLs
+   */
+  router.get(
+    "/games/:gameIdentifier/images",
+    route(async (req, res) => {
+      const { gameIdentifier } = req.params;
+      const images = [];
+      for (const entry of await deps.cache.list(gameIdentifier)) {
+        const reuseKey = servedImageReuseKey(entry.key);
+        if (!reuseKey) continue;
+        const set = await deps.variants.list(gameIdentifier, reuseKey);
+        const base = `${req.baseUrl}/games/${gameIdentifier}/images/${reuseKey}`;
+        images.push({
+          reuseKey,
+          bytes: entry.size,
+          createdAt: entry.createdAt,
+          lastAccessedAt: entry.lastAccessedAt,
+          variants: set?.variants.length ?? 1,
+          canonical: set?.canonical,
+          imageUrl: `${base}/image`,
+          thumbnailUrl: `${base}/thumbnail`,
+          variantsUrl: `/games/${gameIdentifier}/variants/${reuseKey}`,
+        });
+      }
+      res.json({ gameIdentifier, images });
+    }),
+  );
+
+  /**
+   * GET /admin/games/:gameIdentifier/images/:reuseKey/image
+   * GET /admin/games/:gameIdentifier/images/:reuseKey/thumbnail
+   * The served image of a reuse_key, full size or as a thumbnail
+   */
+  for (const kind of ["image", "thumbnail"]) {
+    router.get(
+      `/games/:gameIdentifier/images/:reuseKey/${kind}`,
+      route(async (req, res) => {
+        const reuseKey = sanitizeReuseKey(req.params.reuseKey);
+        const image = await deps.cache.get(req.params.gameIdentifier, imageCacheKey(reuseKey));
+        if (!image) {
+          return res.status(404).json({ error: "no image for reuse_key" });
+        }
+        const { contentType, body } =
+          kind === "thumbnail" ? await deps.thumbnail(image) : { contentType: detectImageMimeType(image), body: image };
+        res.setHeader("Content-Type", contentType);
+        res.send(body);
+      }),
+    );
+  }
+
+  /**
+   * DELETE /admin/games/:gameIdentifier/images/:reuseKey
+   * Delete a reuse_key's image and every variant of it
+   */
+  router.delete(
+    "/games/:gameIdentifier/images/:reuseKey",
+    route(async (req, res) => {
+      const { gameIdentifier } = req.params;
+      const reuseKey = sanitizeReuseKey(req.params.reuseKey);
+      if (!(await deps.variants.purge(gameIdentifier, reuseKey))) {
+        return res.status(404).json({ error: "no image for reuse_key" });
+      }
+      log(`Admin deleted ${gameIdentifier}/${reuseKey}`);
+      res.json({ gameIdentifier, reuseKey, deleted: true });
+    }),
+  );
+
+  /**
+   * POST /admin/games/:gameIdentifier/images/:reuseKey/regenerate
+   * Accepts JSON: { mode?: "same-seed" | "new-variant" }
+   * Redraw a reuse_key's image from the prompt it was drawn with
+   */
+  router.post(
+    "/games/:gameIdentifier/images/:reuseKey/regenerate",
+    route(async (req, res) => {
+      const { gameIdentifier } = req.params;
+      const reuseKey = sanitizeReuseKey(req.params.reuseKey);
+      const mode = req.body?.mode ?? "same-seed";
+      if (!REGENERATE_MODES.includes(mode)) {
+        return res.status(400).json({ error: "unsupported mode", supportedModes: REGENERATE_MODES });
+      }
+      const regenerated = await deps.regenerateImage(gameIdentifier, reuseKey, mode);
+      if (!regenerated) {
+        return res.status(404).json({ error: "no stored prompt to regenerate reuse_key from" });
+      }
+      const { variant, sameSeed } = regenerated;
+      log(`Admin regenerated ${gameIdentifier}/${reuseKey} as variant ${variant.variant}`);
+      res.json({
+        gameIdentifier,
+        reuseKey,
+        variant,
+        sameSeed,
+        ...(mode === "same-seed" && !sameSeed
+          ? { note: "the image was drawn without a seed, so it can't be redrawn the same; this is a new picture" }
+          : {}),
+      });
+    }),
+  );
+
+  /**
+   * DELETE /admin/games/:gameIdentifier/scenes
+   * Delete every cached scene direction for a game, so its scenes are re-directed
+   */
+  router.delete(
+    "/games/:gameIdentifier/scenes",
+    route(async (req, res) => {
+      const { gameIdentifier } = req.params;
+      const purged = await deps.purgeSceneDirections(gameIdentifier);
+      log(`Admin purged ${purged} scene direction(s) for ${gameIdentifier}`);
+      res.json({ gameIdentifier, purged });
+    }),
+  );
+
+  /**
+   * GET /admin/sessions
+   * Live sessions, most recently used first
+   */
+  router.get(
+    "/sessions",
+    route(async (_req, res) => {
+      const sessions = [...deps.sessions.list()].sort((a, b) => b.lastAccessedAt - a.lastAccessedAt);
+      res.json({ sessions });
+    }),
+  );
+
+  /**
+   * GET /admin/sessions/:sessionID
+   * A session's Art Director history and persisted scene state
+   */
+  router.get(
+    "/sessions/:sessionID",
+    route(async (req, res) => {
+      const { sessionID } = req.params;
+      const live = deps.sessions.list().find((session) => session.sessionID === sessionID);
+      const saved = await deps.loadSession(sessionID);
+      if (!live && !saved) {
+        return res.status(404).json({ error: "unknown session" });
+      }
+      res.json({
+        sessionID,
+        live: Boolean(live),
+        createdAt: live?.createdAt,
+        lastAccessedAt: live?.lastAccessedAt,
+        history: deps.sessions.history(sessionID) ?? saved?.answers ?? [],
+        saved,
+      });
+    }),
+  );
+
+  /**
+   * GET /admin/spend
+   * Today's and this month's upstream spend against the caps
+   */
+  router.get("/spend", (_req, res) => {
+    res.json(deps.spend.summary());
+  });
+
+  /**
+   * GET /admin/spend/:day
+   * One UTC day's upstream spend by game, session and backend
+   */
+  router.get(
+    "/spend/:day",
+    route(async (req, res) => {
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(req.params.day)) {
+        return res.status(400).json({ error: "day must be YYYY-MM-DD" });
+      }
+      const spend = await deps.spend.day(req.params.day);
+      if (!spend) {
+        return res.status(404).json({ error: "no spend on that day" });
+      }
+      res.json(spend);
+    }),
+  );
+
+  /**
+   * GET /admin/trace
+   * PUT /admin/trace  Accepts JSON: { level: "debug" | "info" | "warn" | "error" },
+   *   or { enabled: boolean } to turn trace (debug) logging on or off
+   * The log level, and whether trace logging is on
+   */
+  const traceState = () => ({ level: deps.getLogLevel(), enabled: deps.getTrace() });
+  router.get("/trace", (_req, res) => {
+    res.json(traceState());
+  });
+  router.put("/trace", (req, res) => {
+    const { level, enabled } = req.body ?? {};
+    if (level !== undefined) {
+      if (!LOG_LEVELS.includes(level)) {
+        return res.status(400).json({ error: "unknown level", levels: LOG_LEVELS });
+      }
+      deps.setLogLevel(level);
+    } else if (typeof enabled === "boolean") {
+      deps.setTrace(enabled);
+    } else {
+      return res.status(400).json({ error: "level or enabled (a boolean) is required" });
+    }
+    log(`Admin set log level to ${deps.getLogLevel()}`);
+    res.json(traceState());
+  });
+
+  return router;
+}
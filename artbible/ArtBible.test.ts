@@ -0,0 +1,94 @@
+import { ArtBibleError, artBibleDirection, illustrationPrompt, parseArtBible } from './ArtBible';
+
+describe('parseArtBible', () => {
+  it('should parse a JSON art bible', () => {
+    const bible = parseArtBible(
+      JSON.stringify({
+        gameIdentifiers: ['88.840726', '88.840726b'],
+        title: 'Zork I',
+        stylePrompt: ' EGA dungeon ',
+        glossary: { troll: 'hulking green troll with a bloody axe' },
+        negativePrompt: 'text',
+        palette: 'ega',
+        illustrator: 'flux',
+      }),
+      'zork1.json'
+    );
+
+    expect(bible).toEqual({
+      gameIdentifiers: ['88.840726', '88.840726b'],
+      title: 'Zork I',
+      stylePrompt: 'EGA dungeon',
+      glossary: { troll: 'hulking green troll with a bloody axe' },
+      negativePrompt: 'text',
+      palette: 'ega',
+      illustrator: 'flux',
+      version: expect.stringMatching(/^[0-9a-f]{12}$/),
+    });
+  });
+
+  it('should parse YAML and take the gameIdentifier from the file name', () => {
+    const bible = parseArtBible(
+      ['stylePrompt: misty moors', 'glossary:', '  hound: huge spectral hound'].join('\n'),
+      'bibles/59.860730.yaml'
+    );
+
+    expect(bible.gameIdentifiers).toEqual(['59.860730']);
+    expect(bible.stylePrompt).toBe('misty moors');
+    expect(bible.glossary).toEqual({ hound: 'huge spectral hound' });
+  });
+
+  it('should give different profiles different versions', () => {
+    const a = parseArtBible('{"stylePrompt": "misty"}', 'game.json');
+    const b = parseArtBible('{"stylePrompt": "sunny"}', 'game.json');
+
+    expect(a.version).not.toBe(b.version);
+    expect(parseArtBible('{"stylePrompt": "misty"}', 'game.json').version).toBe(a.version);
+  });
+
+  it.each([
+    ['not json', 'game.json'],
+    ['[]', 'game.json'],
+    ['{"stylePrompt": 3}', 'game.json'],
+    ['{"glossary": ["thief"]}', 'game.json'],
+    ['{"glossary": {"thief": 3}}', 'game.json'],
+    ['{"gameIdentifiers": ["../etc"]}', 'game.json'],
+    ['{"palette": "vic20"}', 'game.json'],
+    ['stylePrompt: [unclosed', 'game.yaml'],
+  ])('should reject %s in %s', (text, source) => {
+    expect(() => parseArtBible(text, source)).toThrow(ArtBibleError);
+  });
+});
+
+describe('artBibleDirection', () => {
+  it('should pick out what the Art Director needs', () => {
+    const bible = parseArtBible('{"stylePrompt": "misty", "palette": "c64"}', 'game.json');
+
+    expect(artBibleDirection(bible)).toEqual({ stylePrompt: 'misty' });
+  });
+
+  it('should be undefined when there is nothing to direct', () => {
+    expect(artBibleDirection(parseArtBible('{"palette": "c64"}', 'game.json'))).toBeUndefined();
+  });
+});
+
+describe('illustrationPrompt', () => {
+  const direction = { visual_prompt: 'a cave', reuse_key: 'cave', style_tags: 'retro', repaint: true };
+
+  it('should be the scene direction alone without a style or negative prompt', () => {
+    expect(illustrationPrompt(direction)).toBe(JSON.stringify(direction));
+    expect(illustrationPrompt(direction, parseArtBible('{"palette": "c64"}', 'game.json'))).toBe(
+      JSON.stringify(direction)
+    );
+  });
+
+  it('should add the style and negative prompt', () => {
+    const bible = parseArtBible('{"stylePrompt": "misty", "negativePrompt": "text"}', 'game.json');
+
+    expect(JSON.parse(illustrationPrompt(direction, bible))).toEqual({
+      ...direction,
+      style: 'misty',
+      avoid: 'text',
+    });
+  });
+});
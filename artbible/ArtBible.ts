@@ -0,0 +1,158 @@
+import crypto from "crypto";
+import yaml from "js-yaml";
+import { SceneDirection } from "../gamemaster/SceneDirection";
+import { getRetroPlatform, retroPlatformNames } from "../retro/RetroPlatform";
+
+/**
+ * A per-game art profile: the look every illustration of the game should
+ * share, and canonical descriptions of its recurring characters and props
+ */
+export interface ArtBible {
+  /** Games the profile applies to, e.g. ["88.840726"] */
+  gameIdentifiers: string[];
+  title?: string;
+  /** Style every scene is drawn in, e.g. "EGA 16-colour dungeon, hard shadows" */
+  stylePrompt?: string;
+  /** Canonical descriptions of characters and props, by name */
+  glossary: Record<string, string>;
+  /** What the Illustrator should avoid, e.g. "text, watermarks, modern objects" */
+  negativePrompt?: string;
+  /** Retro palette preset used when the client doesn't ask for one */
+  palette?: string;
+  /** Illustrator backend preferred for the game */
+  illustrator?: string;
+  /** Short hash of the profile, so cached scene directions follow edits to it */
+  version: string;
+}
+
+/**
+ * The part of an art bible the Art Director sees in the scene state
+ */
+export interface ArtBibleDirection {
+  stylePrompt?: string;
+  glossary?: Record<string, string>;
+  negativePrompt?: string;
+}
+
+/**
+ * Thrown when an art bible file can't be parsed or doesn't validate
+ */
+export class ArtBibleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ArtBibleError";
+  }
+}
+
+/**
+ * Parse and validate an art bible
+ * @param text File contents, JSON or YAML
+ * @param source File name, used in errors and, without its extension, as the
+ *   gameIdentifier when the file doesn't list any
+ * @throws ArtBibleError if the file is malformed
+ */
+export function parseArtBible(text: string, source: string): ArtBible {
+  let raw: unknown;
+  try {
+    raw = /\.ya?ml$/i.test(source) ? yaml.load(text) : JSON.parse(text);
+  } catch (e) {
+    throw new ArtBibleError(`${source}: ${(e as Error).message}`);
+  }
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new ArtBibleError(`${source}: expected an object`);
+  }
+  const fields = raw as Record<string, unknown>;
+
+  const optionalString = (name: string): string | undefined => {
+    const value = fields[name];
+    if (value == null) return undefined;
+    if (typeof value !== "string") {
+      throw new ArtBibleError(`${source}: ${name} must be a string`);
+    }
+    return value.trim() || undefined;
+  };
+
+  let gameIdentifiers: string[];
+  const games = fields.gameIdentifiers ?? fields.gameIdentifier;
+  if (games == null) {
+    gameIdentifiers = [source.replace(/^.*[\\/]/, "").replace(/\.(json|ya?ml)$/i, "")];
+  } else if (typeof games === "string") {
+    gameIdentifiers = [games];
+  } else if (Array.isArray(games) && games.every((game) => typeof game === "string")) {
+    gameIdentifiers = games;
+  } else {
+    throw new ArtBibleError(`${source}: gameIdentifiers must be a string or a list of strings`);
+  }
+  for (const gameIdentifier of gameIdentifiers) {
+    if (!/^[a-zA-Z0-9.]+$/.test(gameIdentifier)) {
+      throw new ArtBibleError(`${source}: invalid gameIdentifier ${JSON.stringify(gameIdentifier)}`);
+    }
+  }
+
+  const glossary: Record<string, string> = {};
+  if (fields.glossary != null) {
+    if (typeof fields.glossary !== "object" || Array.isArray(fields.glossary)) {
+      throw new ArtBibleError(`${source}: glossary must map names to descriptions`);
+    }
+    for (const [name, description] of Object.entries(fields.glossary)) {
+      if (typeof description !== "string") {
+        throw new ArtBibleError(`${source}: glossary entry ${name} must be a string`);
+      }
+      glossary[name] = description.trim();
+    }
+  }
+
+  const palette = optionalString("palette");
+  if (palette && !getRetroPlatform(palette)) {
+    throw new ArtBibleError(
+      `${source}: unknown palette ${palette} (available: ${retroPlatformNames().join(", ")})`,
+    );
+  }
+
+  const bible: Omit<ArtBible, "version"> = {
+    gameIdentifiers,
+    title: optionalString("title"),
+    stylePrompt: optionalString("stylePrompt"),
+    glossary,
+    negativePrompt: optionalString("negativePrompt"),
+    palette,
+    illustrator: optionalString("illustrator"),
+  };
+  const version = crypto
+    .createHash("sha256")
+    .update(JSON.stringify(bible))
+    .digest("hex")
+    .substring(0, 12);
+  return { ...bible, version };
+}
+
+/**
+ * What of an art bible goes into the Art Director's scene state; undefined
+ * if the bible has nothing for it
+ * @param bible The game's art bible
+ */
+export function artBibleDirection(bible: ArtBible): ArtBibleDirection | undefined {
+  const direction: ArtBibleDirection = {};
+  if (bible.stylePrompt) direction.stylePrompt = bible.stylePrompt;
+  if (Object.keys(bible.glossary).length > 0) direction.glossary = bible.glossary;
+  if (bible.negativePrompt) direction.negativePrompt = bible.negativePrompt;
+  return Object.keys(direction).length > 0 ? direction : undefined;
+}
+
+/**
+ * The Illustrator prompt for a scene direction: the scene direction as JSON,
+ * with the game's style and negative prompt added so they hold whatever the
+ * Art Director wrote
+ * @param sceneDirection The scene direction
+ * @param bible The game's art bible, if it has one
+ */
+export function illustrationPrompt(sceneDirection: SceneDirection, bible?: ArtBible): string {
+  if (!bible || (!bible.stylePrompt && !bible.negativePrompt)) {
+    return JSON.stringify(sceneDirection);
+  }
+  return JSON.stringify({
+    ...sceneDirection,
+    ...(bible.stylePrompt ? { style: bible.stylePrompt } : {}),
+    ...(bible.negativePrompt ? { avoid: bible.negativePrompt } : {}),
+  });
+}
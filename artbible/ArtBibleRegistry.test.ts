@@ -0,0 +1,76 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ArtBibleError } from './ArtBible';
+import { ArtBibleRegistry, createArtBibleRegistry, loadArtBibles } from './ArtBibleRegistry';
+
+describe('ArtBibleRegistry', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'zmcdn-bibles-'));
+    fs.writeFileSync(path.join(directory, '88.840726.json'), '{"stylePrompt": "EGA dungeon"}');
+    fs.writeFileSync(
+      path.join(directory, 'hound.yml'),
+      'gameIdentifiers: ["59.860730", "59.860730b"]\nstylePrompt: misty moors\n'
+    );
+    fs.writeFileSync(path.join(directory, 'notes.txt'), 'not a bible');
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should load every JSON and YAML file in the directory', () => {
+    const bibles = loadArtBibles(directory);
+
+    expect(bibles.map((bible) => bible.gameIdentifiers)).toEqual([
+      ['88.840726'],
+      ['59.860730', '59.860730b'],
+    ]);
+  });
+
+  it('should reject two bibles for the same game', () => {
+    fs.writeFileSync(path.join(directory, 'zork.yaml'), 'gameIdentifier: "88.840726"\n');
+
+    expect(() => loadArtBibles(directory)).toThrow(ArtBibleError);
+  });
+
+  it('should look bibles up by game', () => {
+    const registry = createArtBibleRegistry({ ART_BIBLE_DIR: directory });
+
+    expect(registry.forGame('59.860730b')?.stylePrompt).toBe('misty moors');
+    expect(registry.forGame('88.840726')?.stylePrompt).toBe('EGA dungeon');
+    expect(registry.forGame('1.000000')).toBeUndefined();
+  });
+
+  it('should be empty without ART_BIBLE_DIR', () => {
+    const registry = createArtBibleRegistry({});
+
+    expect(registry.list()).toEqual([]);
+    expect(registry.reload()).toBe(0);
+  });
+
+  it('should pick up edits on reload', () => {
+    const registry = createArtBibleRegistry({ ART_BIBLE_DIR: directory });
+    fs.writeFileSync(path.join(directory, '88.840726.json'), '{"stylePrompt": "CGA dungeon"}');
+
+    expect(registry.reload()).toBe(2);
+    expect(registry.forGame('88.840726')?.stylePrompt).toBe('CGA dungeon');
+  });
+
+  it('should keep the current bibles when a reload fails', () => {
+    const registry = createArtBibleRegistry({ ART_BIBLE_DIR: directory });
+    fs.writeFileSync(path.join(directory, '88.840726.json'), '{"stylePrompt": ');
+
+    expect(() => registry.reload()).toThrow(ArtBibleError);
+    expect(registry.forGame('88.840726')?.stylePrompt).toBe('EGA dungeon');
+  });
+
+  it('should replace bibles in memory', () => {
+    const registry = new ArtBibleRegistry();
+    registry.replace(loadArtBibles(directory));
+
+    expect(registry.list()).toHaveLength(2);
+  });
+});
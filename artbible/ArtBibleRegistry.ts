@@ -0,0 +1,105 @@
+import fs from "fs";
+import path from "path";
+import { ArtBible, ArtBibleError, parseArtBible } from "./ArtBible";
+
+/**
+ * Read every art bible (*.json, *.yaml, *.yml) in a directory
+ * @param directory Directory holding one file per profile
+ * @throws ArtBibleError if a file is malformed or two files claim the same game
+ */
+export function loadArtBibles(directory: string): ArtBible[] {
+  const bibles: ArtBible[] = [];
+  const claimed = new Map<string, string>();
+  const files = fs
+    .readdirSync(directory)
+    .filter((file) => /\.(json|ya?ml)$/i.test(file))
+    .sort();
+  for (const file of files) {
+    const bible = parseArtBible(fs.readFileSync(path.join(directory, file), "utf8"), file);
+    for (const gameIdentifier of bible.gameIdentifiers) {
+      const other = claimed.get(gameIdentifier);
+      if (other) {
+        throw new ArtBibleError(`${file}: ${gameIdentifier} already has an art bible in ${other}`);
+      }
+      claimed.set(gameIdentifier, file);
+    }
+    bibles.push(bible);
+  }
+  return bibles;
+}
+
+/**
+ * ArtBibleRegistry holds the art bible of each game, optionally loaded from
+ * a directory that can be re-read while the server runs
+ */
+export class ArtBibleRegistry {
+  private byGame = new Map<string, ArtBible>();
+  private bibles: ArtBible[] = [];
+  private directory?: string;
+
+  /**
+   * @param bibles Initial profiles
+   * @param directory Directory reload() reads from, if any
+   */
+  constructor(bibles: ArtBible[] = [], directory?: string) {
+    this.directory = directory;
+    this.replace(bibles);
+  }
+
+  /**
+   * Get the art bible for a game
+   * @param gameIdentifier Game release/serial
+   * @returns The profile, or undefined if the game has none
+   */
+  forGame(gameIdentifier: string): ArtBible | undefined {
+    return this.byGame.get(gameIdentifier);
+  }
+
+  /**
+   * Every loaded profile, in file name order
+   */
+  list(): ArtBible[] {
+    return [...this.bibles];
+  }
+
+  /**
+   * Replace every profile
+   * @param bibles The new profiles
+   */
+  replace(bibles: ArtBible[]): void {
+    this.bibles = [...bibles];
+    this.byGame.clear();
+    for (const bible of bibles) {
+      for (const gameIdentifier of bible.gameIdentifiers) {
+        this.byGame.set(gameIdentifier, bible);
+      }
+    }
+  }
+
+  /**
+   * Re-read the directory. If any file is bad the current profiles are kept.
+   * @returns The number of profiles loaded
+   * @throws ArtBibleError if a file is malformed
+   */
+  reload(): number {
+    if (!this.directory) {
+      return this.bibles.length;
+    }
+    this.replace(loadArtBibles(this.directory));
+    return this.bibles.length;
+  }
+}
+
+/**
+ * Create a registry from the directory named by ART_BIBLE_DIR, or an empty
+ * one if it isn't set
+ * @param env Environment variables (default process.env)
+ * @throws ArtBibleError if a file is malformed
+ */
+export function createArtBibleRegistry(env: NodeJS.ProcessEnv = process.env): ArtBibleRegistry {
+  const directory = env.ART_BIBLE_DIR;
+  if (!directory) {
+    return new ArtBibleRegistry();
+  }
+  return new ArtBibleRegistry(loadArtBibles(directory), directory);
+}
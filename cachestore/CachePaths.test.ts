@@ -0,0 +1,143 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CachePathError, CachePaths, DEFAULT_TEMP_SWEEP_AGE_MS, sanitizeReuseKey, tempSweepAgeMs } from './CachePaths';
+
+describe('CachePaths', () => {
+  const root = path.resolve('/var/zmcdn/cache');
+  let paths: CachePaths;
+
+  beforeEach(() => {
+    paths = new CachePaths(root);
+  });
+
+  describe('sanitizeReuseKey', () => {
+    it('should keep keys that are already safe', () => {
+      expect(sanitizeReuseKey('west_of_house_mailbox_open')).toBe('west_of_house_mailbox_open');
+      expect(sanitizeReuseKey('Kitchen-Night')).toBe('Kitchen-Night');
+    });
+
+    it('should slugify unsafe keys and add a hash suffix', () => {
+      const key = sanitizeReuseKey('West of House (night)');
+
+      expect(key).toMatch(/^west_of_house_night_[0-9a-f]{12}$/);
+    });
+
+    it('should give distinct unsafe keys distinct results', () => {
+      expect(sanitizeReuseKey('room/one')).not.toBe(sanitizeReuseKey('room.one'));
+    });
+
+    it.each([
+      '../../something',
+      '..',
+      '/etc/passwd',
+      '..\\..\\windows\\system32',
+      'a/../../b',
+      'nul\0byte',
+      '%2e%2e%2fescape',
+    ])('should neutralize traversal attempt %p', (attempt) => {
+      const key = sanitizeReuseKey(attempt);
+
+      expect(key).toMatch(/^[A-Za-z0-9_-]+$/);
+      expect(path.dirname(paths.imagePath('59.860730', attempt))).toBe(path.join(root, '59.860730'));
+    });
+  });
+
+  describe('resolve', () => {
+    it('should resolve paths under the root', () => {
+      expect(paths.resolve('59.860730', 'kitchen.png')).toBe(path.join(root, '59.860730', 'kitchen.png'));
+    });
+
+    it.each([
+      ['..', 'outside.png'],
+      ['59.860730', '..', '..', 'outside.png'],
+      ['/etc/passwd'],
+      ['.'],
+      ['nul\0byte.png'],
+    ])('should refuse %p', (...segments) => {
+      expect(() => paths.resolve(...segments)).toThrow(CachePathError);
+    });
+
+    it('should refuse a sibling directory sharing the root prefix', () => {
+      expect(() => paths.resolve('../cache-evil/x.png')).toThrow(CachePathError);
+    });
+  });
+
+  describe('helpers', () => {
+    it('should build scene direction paths', () => {
+      expect(paths.sceneDirectionPath('abc123')).toBe(path.join(root, 'abc123.txt'));
+    });
+
+    it('should build image paths from sanitized keys', () => {
+      expect(paths.imagePath('59.860730', 'kitchen')).toBe(path.join(root, '59.860730', 'kitchen.png'));
+    });
+
+    it('should refuse image paths for a traversing game identifier', () => {
+      expect(() => paths.imagePath('../..', 'kitchen')).toThrow(CachePathError);
+    });
+  });
+
+  describe('sweepTempFiles', () => {
+    let tempRoot: string;
+
+    beforeEach(() => {
+      tempRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'zmcdn-sweep-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempRoot, { recursive: true, force: true });
+    });
+
+    it('should delete temp files and leave everything else', () => {
+      fs.writeFileSync(path.join(tempRoot, 'temp_1700000000000.png'), 'x');
+      fs.writeFileSync(path.join(tempRoot, 'temp_1700000000001_abcd1234.png'), 'x');
+      fs.writeFileSync(path.join(tempRoot, 'keep.txt'), 'x');
+      fs.mkdirSync(path.join(tempRoot, '59.860730'));
+
+      expect(new CachePaths(tempRoot).sweepTempFiles(0)).toBe(2);
+      expect(fs.readdirSync(tempRoot).sort()).toEqual(['59.860730', 'keep.txt']);
+    });
+
+    it('should delete partial writes in namespace directories', () => {
+      fs.mkdirSync(path.join(tempRoot, '59.860730'));
+      fs.writeFileSync(path.join(tempRoot, '59.860730', '.kitchen.png.tmp-123-abcd1234'), 'x');
+      fs.writeFileSync(path.join(tempRoot, '59.860730', 'kitchen.png'), 'x');
+
+      expect(new CachePaths(tempRoot).sweepTempFiles(0)).toBe(1);
+      expect(fs.readdirSync(path.join(tempRoot, '59.860730'))).toEqual(['kitchen.png']);
+    });
+
+    it('should keep temp files newer than maxAgeMs', () => {
+      fs.writeFileSync(path.join(tempRoot, 'temp_1.png'), 'x');
+
+      expect(new CachePaths(tempRoot).sweepTempFiles(60 * 1000)).toBe(0);
+    });
+
+    it('should leave writes that may still be in progress alone by default', () => {
+      fs.mkdirSync(path.join(tempRoot, '59.860730'));
+      fs.writeFileSync(path.join(tempRoot, '59.860730', '.kitchen.png.tmp-123-abcd1234'), 'x');
+      const stale = path.join(tempRoot, 'temp_1.png');
+      fs.writeFileSync(stale, 'x');
+      const old = (Date.now() - DEFAULT_TEMP_SWEEP_AGE_MS - 1000) / 1000;
+      fs.utimesSync(stale, old, old);
+
+      expect(new CachePaths(tempRoot).sweepTempFiles()).toBe(1);
+      expect(fs.readdirSync(path.join(tempRoot, '59.860730'))).toHaveLength(1);
+    });
+
+    it('should do nothing when the root does not exist', () => {
+      expect(new CachePaths(path.join(tempRoot, 'missing')).sweepTempFiles()).toBe(0);
+    });
+  });
+
+  describe('tempSweepAgeMs', () => {
+    it('should default to a few minutes and accept 0', () => {
+      expect(tempSweepAgeMs({})).toBe(DEFAULT_TEMP_SWEEP_AGE_MS);
+      expect(tempSweepAgeMs({ CACHE_TEMP_SWEEP_AGE_MS: '0' })).toBe(0);
+    });
+
+    it('should reject anything but a non-negative number', () => {
+      expect(() => tempSweepAgeMs({ CACHE_TEMP_SWEEP_AGE_MS: '5m' })).toThrow('Invalid CACHE_TEMP_SWEEP_AGE_MS: 5m');
+    });
+  });
+});
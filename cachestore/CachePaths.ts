@@ -0,0 +1,155 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+
+const SAFE_REUSE_KEY = /^[A-Za-z0-9_-]{1,100}$/;
+
+/**
+ * Temp files younger than this may be writes still in progress, e.g. by
+ * another instance sharing the cache, so they aren't swept
+ */
+export const DEFAULT_TEMP_SWEEP_AGE_MS = 10 * 60 * 1000;
+
+/**
+ * Thrown when a cache path would resolve outside the cache root
+ */
+export class CachePathError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CachePathError";
+  }
+}
+
+/**
+ * Normalize an Art Director reuse_key into a safe file name. Keys that are
+ * already plain slugs are kept as-is so existing cache entries stay valid;
+ * anything else is slugified and suffixed with a short hash of the original
+ * so distinct keys don't collide.
+ * @param reuseKey The reuse_key from the scene direction
+ * @returns A key containing only letters, digits, "_" and "-"
+ */
+export function sanitizeReuseKey(reuseKey: string): string {
+  if (SAFE_REUSE_KEY.test(reuseKey)) {
+    return reuseKey;
+  }
+  const slug = reuseKey
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]+/g, "_")
+    .replace(/^[_-]+|[_-]+$/g, "")
+    .substring(0, 64);
+  const hash = crypto.createHash("sha256").update(reuseKey).digest("hex").substring(0, 12);
+  return slug ? `${slug}_${hash}` : hash;
+}
+
+/**
+ * CachePaths builds file paths under a cache root and refuses any path that
+ * would escape it
+ */
+export class CachePaths {
+  readonly root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  /**
+   * Resolve path segments under the cache root
+   * @param segments Path segments relative to the root
+   * @throws CachePathError if the result is outside the root
+   */
+  resolve(...segments: string[]): string {
+    for (const segment of segments) {
+      if (segment.includes("\0")) {
+        throw new CachePathError("cache path contains a NUL byte");
+      }
+    }
+    const resolved = path.resolve(this.root, ...segments);
+    const relative = path.relative(this.root, resolved);
+    if (relative === "" || relative.startsWith("..") || path.isAbsolute(relative)) {
+      throw new CachePathError(`cache path escapes cache root: ${segments.join("/")}`);
+    }
+    return resolved;
+  }
+
+  /**
+   * Path of a cached scene direction
+   * @param key Scene direction cache key (a hex hash)
+   */
+  sceneDirectionPath(key: string): string {
+    return this.resolve(`${key}.txt`);
+  }
+
+  /**
+   * Path of a cached image
+   * @param gameIdentifier Game release/serial
+   * @param reuseKey reuse_key from the scene direction; sanitized here
+   */
+  imagePath(gameIdentifier: string, reuseKey: string): string {
+    return this.resolve(gameIdentifier, `${sanitizeReuseKey(reuseKey)}.png`);
+  }
+
+  /**
+   * Delete temporary files left behind by a crash: temp_* conversion files
+   * older versions wrote to the cache root, and hidden .*.tmp-* partial
+   * writes in namespace directories
+   * @param maxAgeMs Only delete files older than this (default
+   *   DEFAULT_TEMP_SWEEP_AGE_MS); 0 deletes them all
+   * @returns The number of files deleted
+   */
+  sweepTempFiles(maxAgeMs: number = DEFAULT_TEMP_SWEEP_AGE_MS): number {
+    // mtimes have sub-millisecond precision, so a file written this millisecond can look newer than now
+    const cutoff = maxAgeMs > 0 ? Date.now() - maxAgeMs : Infinity;
+    let deleted = 0;
+
+    for (const dirent of this.readDir(this.root)) {
+      if (dirent.isFile() && /^temp_.*\.[A-Za-z0-9]+$/.test(dirent.name)) {
+        deleted += this.deleteIfOlder(this.resolve(dirent.name), cutoff);
+      } else if (dirent.isDirectory()) {
+        for (const child of this.readDir(this.resolve(dirent.name))) {
+          if (child.isFile() && /^\..*\.tmp-/.test(child.name)) {
+            deleted += this.deleteIfOlder(this.resolve(dirent.name, child.name), cutoff);
+          }
+        }
+      }
+    }
+    return deleted;
+  }
+
+  private readDir(dir: string): fs.Dirent[] {
+    try {
+      return fs.readdirSync(dir, { withFileTypes: true });
+    } catch (e: any) {
+      if (e.code === "ENOENT") return [];
+      throw e;
+    }
+  }
+
+  private deleteIfOlder(file: string, cutoff: number): number {
+    try {
+      if (fs.statSync(file).mtimeMs > cutoff) return 0;
+      fs.unlinkSync(file);
+      return 1;
+    } catch (e: any) {
+      if (e.code === "ENOENT") return 0;
+      throw e;
+    }
+  }
+}
+
+/**
+ * The minimum age of temp files swept at startup, from
+ * CACHE_TEMP_SWEEP_AGE_MS (default DEFAULT_TEMP_SWEEP_AGE_MS; 0 sweeps them all)
+ * @param env Environment variables (default process.env)
+ * @throws Error if it isn't a non-negative number
+ */
+export function tempSweepAgeMs(env: NodeJS.ProcessEnv = process.env): number {
+  const value = env.CACHE_TEMP_SWEEP_AGE_MS;
+  if (value === undefined || value === "") {
+    return DEFAULT_TEMP_SWEEP_AGE_MS;
+  }
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new Error(`Invalid CACHE_TEMP_SWEEP_AGE_MS: ${value}`);
+  }
+  return parsed;
+}
@@ -0,0 +1,55 @@
+/**
+ * Metadata about a cached value
+ */
+export interface CacheEntry {
+  namespace: string;
+  key: string;
+  /** Size in bytes */
+  size: number;
+  createdAt: number;
+  lastAccessedAt: number;
+}
+
+/**
+ * Byte-oriented cache storage, partitioned into namespaces. Images are stored
+ * under their gameIdentifier; internal namespaces start with "_" (which a
+ * gameIdentifier can't) so they never collide with a game.
+ */
+export interface CacheStore {
+  /** Backend name as used in configuration, e.g. "fs" */
+  readonly name: string;
+  get(namespace: string, key: string): Promise<Buffer | undefined>;
+  set(namespace: string, key: string, value: Buffer): Promise<void>;
+  delete(namespace: string, key: string): Promise<boolean>;
+  /** Entries in one namespace, or in every namespace if omitted */
+  list(namespace?: string): Promise<CacheEntry[]>;
+  namespaces(): Promise<string[]>;
+  close(): Promise<void>;
+}
+
+/** Namespace holding Art Director scene directions */
+export const SCENE_DIRECTION_NAMESPACE = "_scenes";
+
+/** Namespace holding each game's recurring entities, one JSON document per game */
+export const ENTITY_NAMESPACE = "_entities";
+
+/** Namespace holding encoded outputs (sixel, ANSI, retro renders, ...) */
+export const RENDER_NAMESPACE = "_renders";
+
+/** Namespace holding upstream spend, one JSON document per UTC day */
+export const SPEND_NAMESPACE = "_spend";
+
+/**
+ * Whether an entry is a record that can't be regenerated, rather than a
+ * cached result: spend, recurring entities and the variant sets (seeds and
+ * prompts) stored next to each game's images. Bounded stores never evict or
+ * expire these.
+ * @param namespace Namespace of the entry
+ * @param key Key of the entry
+ */
+export function isDurableEntry(namespace: string, key: string): boolean {
+  if (namespace === SPEND_NAMESPACE || namespace === ENTITY_NAMESPACE) {
+    return true;
+  }
+  return !namespace.startsWith("_") && key.endsWith(".json");
+}
@@ -0,0 +1,155 @@
+import { isDurableEntry } from './CacheStore';
+import { CacheStoreBounded } from './CacheStoreBounded';
+import { CacheStoreMemory } from './CacheStoreMemory';
+
+describe('CacheStoreBounded', () => {
+  let now: number;
+  let inner: CacheStoreMemory;
+
+  const bounded = (limits: ConstructorParameters<typeof CacheStoreBounded>[1] = {}) =>
+    new CacheStoreBounded(inner, { now: () => now, ...limits });
+
+  beforeEach(() => {
+    now = 1000;
+    inner = new CacheStoreMemory();
+  });
+
+  it('should pass values through to the wrapped store', async () => {
+    const store = bounded();
+
+    await store.set('59.860730', 'kitchen.png', Buffer.from('png'));
+
+    expect((await inner.get('59.860730', 'kitchen.png'))?.toString()).toBe('png');
+    expect((await store.get('59.860730', 'kitchen.png'))?.toString()).toBe('png');
+    expect(store.name).toBe('memory');
+  });
+
+  it('should evict the least recently used entry over maxBytes', async () => {
+    const store = bounded({ maxBytes: 10 });
+
+    await store.set('g', 'a', Buffer.alloc(4));
+    now++;
+    await store.set('g', 'b', Buffer.alloc(4));
+    now++;
+    await store.get('g', 'a');
+    now++;
+    await store.set('g', 'c', Buffer.alloc(4));
+
+    expect(await store.get('g', 'b')).toBeUndefined();
+    expect(await store.get('g', 'a')).toBeDefined();
+    expect(await store.get('g', 'c')).toBeDefined();
+    expect(store.size).toBe(8);
+  });
+
+  it('should evict the least frequently used entry with lfu', async () => {
+    const store = bounded({ maxBytes: 10, policy: 'lfu' });
+
+    await store.set('g', 'a', Buffer.alloc(4));
+    now++;
+    await store.set('g', 'b', Buffer.alloc(4));
+    await store.get('g', 'a');
+    await store.get('g', 'a');
+    now++;
+    await store.get('g', 'b');
+    now++;
+    await store.set('g', 'c', Buffer.alloc(4));
+
+    expect(await inner.get('g', 'b')).toBeUndefined();
+    expect(await inner.get('g', 'a')).toBeDefined();
+  });
+
+  it('should cap each game separately and exempt internal namespaces', async () => {
+    const store = bounded({ maxBytesPerGame: 8 });
+
+    await store.set('game1', 'a', Buffer.alloc(4));
+    now++;
+    await store.set('game1', 'b', Buffer.alloc(4));
+    now++;
+    await store.set('game2', 'a', Buffer.alloc(4));
+    now++;
+    await store.set('_scenes', 'x', Buffer.alloc(20));
+    now++;
+    await store.set('game1', 'c', Buffer.alloc(4));
+
+    expect(store.stats()).toEqual([
+      { namespace: '_scenes', entries: 1, bytes: 20 },
+      { namespace: 'game1', entries: 2, bytes: 8 },
+      { namespace: 'game2', entries: 1, bytes: 4 },
+    ]);
+    expect(await inner.get('game1', 'a')).toBeUndefined();
+  });
+
+  it('should evict older entries before the one just written, then drop it if it alone is too big', async () => {
+    const store = bounded({ maxBytes: 4 });
+
+    await store.set('g', 'a', Buffer.alloc(2));
+    now++;
+    await store.set('g', 'big', Buffer.alloc(6));
+
+    expect(await inner.get('g', 'a')).toBeUndefined();
+    expect(await inner.get('g', 'big')).toBeUndefined();
+    expect(store.size).toBe(0);
+  });
+
+  it('should never evict or expire durable entries', async () => {
+    const store = bounded({ maxBytes: 10, maxBytesPerGame: 6, ttlMs: { _spend: 100 }, durable: isDurableEntry });
+
+    await store.set('_spend', '2025-10-01.json', Buffer.alloc(4));
+    await store.set('_entities', 'g.json', Buffer.alloc(2));
+    await store.set('g', 'kitchen.json', Buffer.alloc(2));
+    now++;
+    await store.set('g', 'kitchen.png', Buffer.alloc(6));
+    now += 100;
+    await store.sweepExpired();
+
+    expect(store.stats()).toEqual([
+      { namespace: '_entities', entries: 1, bytes: 2 },
+      { namespace: '_spend', entries: 1, bytes: 4 },
+      { namespace: 'g', entries: 1, bytes: 2 },
+    ]);
+    expect(await store.get('_spend', '2025-10-01.json')).toBeDefined();
+  });
+
+  it('should expire entries past their namespace TTL', async () => {
+    const store = bounded({ ttlMs: { _scenes: 100 } });
+
+    await store.set('_scenes', 'hash.txt', Buffer.from('{}'));
+    await store.set('g', 'kitchen.png', Buffer.from('png'));
+    now += 100;
+
+    expect(await store.get('_scenes', 'hash.txt')).toBeUndefined();
+    expect(await inner.get('_scenes', 'hash.txt')).toBeUndefined();
+    expect(await store.get('g', 'kitchen.png')).toBeDefined();
+  });
+
+  it('should sweep expired entries', async () => {
+    const store = bounded({ ttlMs: { _scenes: 100 } });
+    await store.set('_scenes', 'a.txt', Buffer.from('{}'));
+    now += 50;
+    await store.set('_scenes', 'b.txt', Buffer.from('{}'));
+    now += 60;
+
+    expect(await store.sweepExpired()).toBe(1);
+    expect((await inner.list('_scenes')).map((e) => e.key)).toEqual(['b.txt']);
+  });
+
+  it('should index and enforce limits on existing entries at init', async () => {
+    await inner.set('g', 'a', Buffer.alloc(6));
+    await inner.set('g', 'b', Buffer.alloc(6));
+    const store = bounded({ maxBytes: 8 });
+
+    await store.init();
+
+    expect(store.size).toBe(6);
+    expect((await inner.list()).length).toBe(1);
+  });
+
+  it('should track entries written by another instance when read', async () => {
+    const store = bounded();
+    await inner.set('g', 'shared', Buffer.alloc(5));
+
+    await store.get('g', 'shared');
+
+    expect(store.size).toBe(5);
+  });
+});
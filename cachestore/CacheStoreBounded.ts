@@ -0,0 +1,236 @@
+import { CacheEntry, CacheStore } from "./CacheStore";
+
+export type EvictionPolicy = "lru" | "lfu";
+
+/**
+ * Size and age limits for a bounded cache
+ */
+export interface CacheLimits {
+  /** Maximum bytes across every namespace (default unlimited) */
+  maxBytes?: number;
+  /** Maximum bytes per game namespace; internal "_" namespaces are exempt (default unlimited) */
+  maxBytesPerGame?: number;
+  /** Which entry to evict first when over a limit (default "lru") */
+  policy?: EvictionPolicy;
+  /** Time to live per namespace in milliseconds, e.g. { _scenes: 86400000 } */
+  ttlMs?: Record<string, number>;
+  /** Entries never evicted or expired, e.g. isDurableEntry (default none) */
+  durable?: (namespace: string, key: string) => boolean;
+  /** Clock source, overridable for tests */
+  now?: () => number;
+}
+
+interface IndexEntry extends CacheEntry {
+  hits: number;
+}
+
+/**
+ * Usage of one namespace
+ */
+export interface NamespaceStats {
+  namespace: string;
+  entries: number;
+  bytes: number;
+}
+
+/**
+ * CacheStoreBounded wraps another CacheStore and keeps it within size limits,
+ * evicting by LRU or LFU, and expires entries in namespaces with a TTL. It
+ * keeps its own index of sizes and access counts, seeded from the wrapped
+ * store by init(). Durable entries count towards the limits but are never
+ * evicted or expired.
+ */
+export class CacheStoreBounded implements CacheStore {
+  readonly name: string;
+  private inner: CacheStore;
+  private index = new Map<string, IndexEntry>();
+  private totalBytes = 0;
+  private readonly maxBytes: number;
+  private readonly maxBytesPerGame: number;
+  private readonly policy: EvictionPolicy;
+  private readonly ttlMs: Record<string, number>;
+  private readonly durable: (namespace: string, key: string) => boolean;
+  private now: () => number;
+
+  constructor(inner: CacheStore, limits: CacheLimits = {}) {
+    this.inner = inner;
+    this.name = inner.name;
+    this.maxBytes = limits.maxBytes ?? Infinity;
+    this.maxBytesPerGame = limits.maxBytesPerGame ?? Infinity;
+    this.policy = limits.policy ?? "lru";
+    this.ttlMs = { ...(limits.ttlMs ?? {}) };
+    this.durable = limits.durable ?? (() => false);
+    this.now = limits.now ?? Date.now;
+  }
+
+  /**
+   * Load the wrapped store's existing entries into the index, then expire
+   * and evict anything already over the limits
+   */
+  async init(): Promise<void> {
+    this.index.clear();
+    this.totalBytes = 0;
+    for (const entry of await this.inner.list()) {
+      this.track({ ...entry, hits: 0 });
+    }
+    await this.sweepExpired();
+    await this.enforceLimits();
+  }
+
+  async get(namespace: string, key: string): Promise<Buffer | undefined> {
+    const id = this.id(namespace, key);
+    const entry = this.index.get(id);
+    if (entry && this.isExpired(entry)) {
+      await this.delete(namespace, key);
+      return undefined;
+    }
+
+    const value = await this.inner.get(namespace, key);
+    if (!value) {
+      if (entry) this.untrack(id);
+      return undefined;
+    }
+
+    const now = this.now();
+    if (entry) {
+      entry.hits++;
+      entry.lastAccessedAt = now;
+    } else {
+      // Written by another instance sharing the store
+      this.track({ namespace, key, size: value.length, createdAt: now, lastAccessedAt: now, hits: 1 });
+    }
+    return value;
+  }
+
+  async set(namespace: string, key: string, value: Buffer): Promise<void> {
+    await this.inner.set(namespace, key, value);
+    const id = this.id(namespace, key);
+    this.untrack(id);
+    const now = this.now();
+    this.track({ namespace, key, size: value.length, createdAt: now, lastAccessedAt: now, hits: 0 });
+    await this.enforceLimits(id);
+  }
+
+  async delete(namespace: string, key: string): Promise<boolean> {
+    this.untrack(this.id(namespace, key));
+    return this.inner.delete(namespace, key);
+  }
+
+  async list(namespace?: string): Promise<CacheEntry[]> {
+    return this.inner.list(namespace);
+  }
+
+  async namespaces(): Promise<string[]> {
+    return this.inner.namespaces();
+  }
+
+  async close(): Promise<void> {
+    await this.inner.close();
+  }
+
+  /**
+   * Delete every entry past its namespace's TTL
+   * @returns The number of entries deleted
+   */
+  async sweepExpired(): Promise<number> {
+    const expired = Array.from(this.index.values()).filter((entry) => this.isExpired(entry));
+    for (const entry of expired) {
+      await this.delete(entry.namespace, entry.key);
+    }
+    return expired.length;
+  }
+
+  /**
+   * Entry count and bytes per namespace, as tracked by the index
+   */
+  stats(): NamespaceStats[] {
+    const byNamespace = new Map<string, NamespaceStats>();
+    for (const entry of this.index.values()) {
+      const stats = byNamespace.get(entry.namespace) ?? { namespace: entry.namespace, entries: 0, bytes: 0 };
+      stats.entries++;
+      stats.bytes += entry.size;
+      byNamespace.set(entry.namespace, stats);
+    }
+    return Array.from(byNamespace.values()).sort((a, b) => a.namespace.localeCompare(b.namespace));
+  }
+
+  /**
+   * Total bytes tracked across every namespace
+   */
+  get size(): number {
+    return this.totalBytes;
+  }
+
+  /**
+   * Evict entries until every limit is met
+   * @param keepId Entry just written, evicted only if nothing else is left
+   */
+  private async enforceLimits(keepId?: string): Promise<void> {
+    if (this.maxBytesPerGame !== Infinity) {
+      for (const { namespace, bytes } of this.stats()) {
+        if (namespace.startsWith("_")) continue;
+        let over = bytes - this.maxBytesPerGame;
+        while (over > 0) {
+          const victim = this.pickVictim((entry) => entry.namespace === namespace, keepId);
+          if (!victim) break;
+          await this.delete(victim.namespace, victim.key);
+          over -= victim.size;
+        }
+      }
+    }
+
+    while (this.totalBytes > this.maxBytes) {
+      const victim = this.pickVictim(() => true, keepId);
+      if (!victim) break;
+      await this.delete(victim.namespace, victim.key);
+    }
+  }
+
+  private pickVictim(
+    filter: (entry: IndexEntry) => boolean,
+    keepId?: string,
+  ): IndexEntry | undefined {
+    let victim: IndexEntry | undefined;
+    let fallback: IndexEntry | undefined;
+    for (const [id, entry] of this.index) {
+      if (!filter(entry) || this.durable(entry.namespace, entry.key)) continue;
+      if (id === keepId) {
+        fallback = entry;
+        continue;
+      }
+      if (!victim || this.evictsBefore(entry, victim)) {
+        victim = entry;
+      }
+    }
+    return victim ?? fallback;
+  }
+
+  private evictsBefore(a: IndexEntry, b: IndexEntry): boolean {
+    if (this.policy === "lfu" && a.hits !== b.hits) {
+      return a.hits < b.hits;
+    }
+    return a.lastAccessedAt < b.lastAccessedAt;
+  }
+
+  private isExpired(entry: CacheEntry): boolean {
+    const ttl = this.ttlMs[entry.namespace];
+    return ttl !== undefined && !this.durable(entry.namespace, entry.key) && this.now() - entry.createdAt >= ttl;
+  }
+
+  private track(entry: IndexEntry): void {
+    this.index.set(this.id(entry.namespace, entry.key), entry);
+    this.totalBytes += entry.size;
+  }
+
+  private untrack(id: string): void {
+    const entry = this.index.get(id);
+    if (entry) {
+      this.index.delete(id);
+      this.totalBytes -= entry.size;
+    }
+  }
+
+  private id(namespace: string, key: string): string {
+    return `${namespace}\0${key}`;
+  }
+}
@@ -0,0 +1,77 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CacheStoreFS } from './CacheStoreFS';
+import { CachePathError } from './CachePaths';
+
+describe('CacheStoreFS', () => {
+  let root: string;
+  let store: CacheStoreFS;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'zmcdn-cache-'));
+    store = new CacheStoreFS(root);
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should store values as files under namespace directories', async () => {
+    await store.set('59.860730', 'kitchen.png', Buffer.from('png-bytes'));
+
+    expect(fs.readFileSync(path.join(root, '59.860730', 'kitchen.png'), 'utf-8')).toBe('png-bytes');
+    expect((await store.get('59.860730', 'kitchen.png'))?.toString()).toBe('png-bytes');
+  });
+
+  it('should return undefined for missing values', async () => {
+    expect(await store.get('59.860730', 'missing.png')).toBeUndefined();
+  });
+
+  it('should delete values', async () => {
+    await store.set('59.860730', 'kitchen.png', Buffer.from('x'));
+
+    expect(await store.delete('59.860730', 'kitchen.png')).toBe(true);
+    expect(await store.delete('59.860730', 'kitchen.png')).toBe(false);
+  });
+
+  it('should list entries and namespaces', async () => {
+    await store.set('59.860730', 'kitchen.png', Buffer.from('abc'));
+    await store.set('_scenes', 'hash.txt', Buffer.from('{}'));
+
+    expect((await store.namespaces()).sort()).toEqual(['59.860730', '_scenes']);
+    expect(await store.list('59.860730')).toEqual([
+      expect.objectContaining({ namespace: '59.860730', key: 'kitchen.png', size: 3 }),
+    ]);
+    expect(await store.list()).toHaveLength(2);
+  });
+
+  it('should list nothing for an empty or missing root', async () => {
+    const empty = new CacheStoreFS(path.join(root, 'does-not-exist'));
+
+    expect(await empty.namespaces()).toEqual([]);
+    expect(await empty.list()).toEqual([]);
+  });
+
+  it('should refuse keys that escape the root', async () => {
+    await expect(store.set('..', 'escape.png', Buffer.from('x'))).rejects.toThrow(CachePathError);
+    await expect(store.get('59.860730', '../../escape.png')).rejects.toThrow(CachePathError);
+  });
+
+  it('should write atomically without leaving temp files behind', async () => {
+    await Promise.all([
+      store.set('59.860730', 'kitchen.png', Buffer.from('first')),
+      store.set('59.860730', 'kitchen.png', Buffer.from('second')),
+    ]);
+
+    expect(fs.readdirSync(path.join(root, '59.860730'))).toEqual(['kitchen.png']);
+    expect(['first', 'second']).toContain((await store.get('59.860730', 'kitchen.png'))?.toString());
+  });
+
+  it('should not list in-progress writes', async () => {
+    fs.mkdirSync(path.join(root, '59.860730'));
+    fs.writeFileSync(path.join(root, '59.860730', '.kitchen.png.tmp-1-abcd'), 'partial');
+
+    expect(await store.list('59.860730')).toEqual([]);
+  });
+});
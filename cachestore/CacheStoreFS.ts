@@ -0,0 +1,97 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { CachePaths } from "./CachePaths";
+import { CacheEntry, CacheStore } from "./CacheStore";
+
+/**
+ * CacheStoreFS keeps cached values as files under a root directory,
+ * laid out as <root>/<namespace>/<key>. Writes go to a hidden temp file in
+ * the same directory and are renamed into place, so readers never see a
+ * partial file.
+ */
+export class CacheStoreFS implements CacheStore {
+  readonly name = "fs";
+  private paths: CachePaths;
+
+  constructor(root: string) {
+    this.paths = new CachePaths(root);
+  }
+
+  async get(namespace: string, key: string): Promise<Buffer | undefined> {
+    const file = this.paths.resolve(namespace, key);
+    try {
+      return await fs.promises.readFile(file);
+    } catch (e: any) {
+      if (e.code === "ENOENT") return undefined;
+      throw e;
+    }
+  }
+
+  async set(namespace: string, key: string, value: Buffer): Promise<void> {
+    const file = this.paths.resolve(namespace, key);
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    const temp = path.join(
+      path.dirname(file),
+      `.${path.basename(file)}.tmp-${process.pid}-${crypto.randomBytes(4).toString("hex")}`,
+    );
+    try {
+      await fs.promises.writeFile(temp, value);
+      await fs.promises.rename(temp, file);
+    } catch (e) {
+      await fs.promises.rm(temp, { force: true });
+      throw e;
+    }
+  }
+
+  async delete(namespace: string, key: string): Promise<boolean> {
+    const file = this.paths.resolve(namespace, key);
+    try {
+      await fs.promises.unlink(file);
+      return true;
+    } catch (e: any) {
+      if (e.code === "ENOENT") return false;
+      throw e;
+    }
+  }
+
+  async list(namespace?: string): Promise<CacheEntry[]> {
+    const namespaces = namespace === undefined ? await this.namespaces() : [namespace];
+    const entries: CacheEntry[] = [];
+    for (const ns of namespaces) {
+      let names: string[];
+      try {
+        names = await fs.promises.readdir(this.paths.resolve(ns));
+      } catch (e: any) {
+        if (e.code === "ENOENT") continue;
+        throw e;
+      }
+      for (const key of names) {
+        // Skip in-progress writes
+        if (key.startsWith(".")) continue;
+        const stat = await fs.promises.stat(this.paths.resolve(ns, key));
+        if (!stat.isFile()) continue;
+        entries.push({
+          namespace: ns,
+          key,
+          size: stat.size,
+          createdAt: stat.birthtimeMs || stat.mtimeMs,
+          lastAccessedAt: Math.max(stat.atimeMs, stat.mtimeMs),
+        });
+      }
+    }
+    return entries;
+  }
+
+  async namespaces(): Promise<string[]> {
+    try {
+      const dirents = await fs.promises.readdir(this.paths.root, { withFileTypes: true });
+      return dirents.filter((d) => d.isDirectory()).map((d) => d.name);
+    } catch (e: any) {
+      if (e.code === "ENOENT") return [];
+      throw e;
+    }
+  }
+
+  async close(): Promise<void> {}
+}
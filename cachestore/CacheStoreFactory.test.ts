@@ -0,0 +1,72 @@
+import { createCacheStore } from './CacheStoreFactory';
+import { CacheStoreBounded } from './CacheStoreBounded';
+
+describe('createCacheStore', () => {
+  it('should default to the filesystem store', async () => {
+    const store = await createCacheStore('/tmp/zmcdn-cache-missing', {});
+
+    expect(store).toBeInstanceOf(CacheStoreBounded);
+    expect(store.name).toBe('fs');
+  });
+
+  it('should create a memory store', async () => {
+    expect((await createCacheStore('/tmp/zmcdn-cache', { CACHE_STORE: 'memory' })).name).toBe('memory');
+  });
+
+  it('should require MONGODB_URI for the mongo store', async () => {
+    await expect(createCacheStore('/tmp/zmcdn-cache', { CACHE_STORE: 'mongo' })).rejects.toThrow(
+      'CACHE_STORE=mongo requires MONGODB_URI'
+    );
+  });
+
+  it('should reject unknown stores', async () => {
+    await expect(createCacheStore('/tmp/zmcdn-cache', { CACHE_STORE: 'redis' })).rejects.toThrow(
+      'Unknown cache store: redis'
+    );
+  });
+
+  it('should reject unknown eviction policies', async () => {
+    await expect(
+      createCacheStore('/tmp/zmcdn-cache', { CACHE_STORE: 'memory', CACHE_EVICTION: 'fifo' })
+    ).rejects.toThrow('Unknown cache eviction policy: fifo');
+  });
+
+  it('should apply the scene direction TTL', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+    try {
+      const store = await createCacheStore('/tmp/zmcdn-cache', {
+        CACHE_STORE: 'memory',
+        CACHE_SCENE_TTL_MS: '100',
+      });
+      await store.set('_scenes', 'hash.txt', Buffer.from('{}'));
+      now.mockReturnValue(1100);
+
+      expect(await store.get('_scenes', 'hash.txt')).toBeUndefined();
+    } finally {
+      now.mockRestore();
+    }
+  });
+
+  it.each([
+    ['CACHE_MAX_BYTES', '10GB'],
+    ['CACHE_MAX_BYTES_PER_GAME', '-1'],
+    ['CACHE_SCENE_TTL_MS', '0'],
+    ['CACHE_MEMORY_MAX_BYTES', 'Infinity'],
+  ])('should reject %s=%s', async (name, value) => {
+    await expect(createCacheStore('/tmp/zmcdn-cache', { CACHE_STORE: 'memory', [name]: value })).rejects.toThrow(
+      `Invalid ${name}: ${value}`
+    );
+  });
+
+  it('should keep spend out of eviction and expiry', async () => {
+    const store = await createCacheStore('/tmp/zmcdn-cache', {
+      CACHE_STORE: 'memory',
+      CACHE_MAX_BYTES: '4',
+    });
+    await store.set('_spend', '2025-10-08.json', Buffer.alloc(4));
+    await store.set('59.860730', 'kitchen.png', Buffer.alloc(4));
+
+    expect(await store.get('_spend', '2025-10-08.json')).toBeDefined();
+    expect(await store.get('59.860730', 'kitchen.png')).toBeUndefined();
+  });
+});
@@ -0,0 +1,86 @@
+import { CacheStore, SCENE_DIRECTION_NAMESPACE, isDurableEntry } from "./CacheStore";
+import { CacheStoreBounded, EvictionPolicy } from "./CacheStoreBounded";
+import { CacheStoreFS } from "./CacheStoreFS";
+import { CacheStoreGridFS } from "./CacheStoreGridFS";
+import { CacheStoreMemory } from "./CacheStoreMemory";
+
+/**
+ * Create the cache store selected by CACHE_STORE, bounded by CACHE_MAX_BYTES,
+ * CACHE_MAX_BYTES_PER_GAME, CACHE_EVICTION (lru or lfu) and
+ * CACHE_SCENE_TTL_MS
+ * @param fsRoot Cache directory for the fs store
+ * @param env Environment variables (default process.env)
+ * @throws Error for an unknown store or eviction policy, a limit or TTL
+ *   that isn't a positive number, or mongo without MONGODB_URI
+ */
+export async function createCacheStore(
+  fsRoot: string,
+  env: NodeJS.ProcessEnv = process.env,
+): Promise<CacheStoreBounded> {
+  const policy = env.CACHE_EVICTION || "lru";
+  if (policy !== "lru" && policy !== "lfu") {
+    throw new Error(`Unknown cache eviction policy: ${policy} (available: lru, lfu)`);
+  }
+
+  const ttlMs: Record<string, number> = {};
+  const sceneTtlMs = positiveSetting(env, "CACHE_SCENE_TTL_MS");
+  if (sceneTtlMs !== undefined) {
+    ttlMs[SCENE_DIRECTION_NAMESPACE] = sceneTtlMs;
+  }
+  const maxBytes = positiveSetting(env, "CACHE_MAX_BYTES");
+  const maxBytesPerGame = positiveSetting(env, "CACHE_MAX_BYTES_PER_GAME");
+
+  const store = new CacheStoreBounded(await createBackingStore(fsRoot, env), {
+    maxBytes,
+    maxBytesPerGame,
+    policy: policy as EvictionPolicy,
+    ttlMs,
+    durable: isDurableEntry,
+  });
+  await store.init();
+  return store;
+}
+
+/**
+ * Create the backing store selected by CACHE_STORE: "fs" (default, under
+ * fsRoot), "memory" (bounded by CACHE_MEMORY_MAX_BYTES) or "mongo" (GridFS
+ * in MONGODB_URI / MONGODB_DB)
+ */
+async function createBackingStore(
+  fsRoot: string,
+  env: NodeJS.ProcessEnv,
+): Promise<CacheStore> {
+  const kind = env.CACHE_STORE || "fs";
+  switch (kind) {
+    case "fs":
+      return new CacheStoreFS(fsRoot);
+    case "memory":
+      return new CacheStoreMemory({
+        maxBytes: positiveSetting(env, "CACHE_MEMORY_MAX_BYTES"),
+        durable: isDurableEntry,
+      });
+    case "mongo":
+      if (!env.MONGODB_URI) {
+        throw new Error("CACHE_STORE=mongo requires MONGODB_URI");
+      }
+      return CacheStoreGridFS.connect(env.MONGODB_URI, env.MONGODB_DB || "zmcdn");
+    default:
+      throw new Error(`Unknown cache store: ${kind} (available: fs, memory, mongo)`);
+  }
+}
+
+/**
+ * A size or time limit from the environment, so a typo like "10GB" fails at
+ * startup instead of leaving the cache unbounded
+ * @returns The limit, or undefined if unset
+ * @throws Error if it isn't a finite positive number
+ */
+function positiveSetting(env: NodeJS.ProcessEnv, name: string): number | undefined {
+  const value = env[name];
+  if (value === undefined || value === "") return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error(`Invalid ${name}: ${value}`);
+  }
+  return parsed;
+}
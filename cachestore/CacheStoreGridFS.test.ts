@@ -0,0 +1,98 @@
+import { EventEmitter } from 'events';
+import { Readable } from 'stream';
+import { CacheStoreGridFS } from './CacheStoreGridFS';
+
+/**
+ * Minimal in-memory stand-in for a GridFSBucket
+ */
+class FakeBucket {
+  files: Array<{ _id: number; filename: string; length: number; uploadDate: Date; metadata: any; data: Buffer }> = [];
+  private nextId = 1;
+
+  find(filter: any) {
+    const matches = this.files.filter((file) =>
+      Object.entries(filter).every(([field, value]) =>
+        field === 'metadata.namespace' ? file.metadata?.namespace === value : (file as any)[field] === value
+      )
+    );
+    const cursor = {
+      sort: () => cursor,
+      limit: (n: number) => ({ toArray: async () => matches.slice().reverse().slice(0, n) }),
+      toArray: async () => matches.slice(),
+    };
+    return cursor;
+  }
+
+  openDownloadStream(id: number) {
+    const file = this.files.find((f) => f._id === id)!;
+    return Readable.from([file.data]);
+  }
+
+  openUploadStream(filename: string, options: { metadata: any }) {
+    const stream = new EventEmitter() as EventEmitter & { end(data: Buffer): void };
+    stream.end = (data: Buffer) => {
+      this.files.push({
+        _id: this.nextId++,
+        filename,
+        length: data.length,
+        uploadDate: new Date(1000),
+        metadata: options.metadata,
+        data,
+      });
+      setImmediate(() => stream.emit('finish'));
+    };
+    return stream;
+  }
+
+  async delete(id: number) {
+    this.files = this.files.filter((f) => f._id !== id);
+  }
+}
+
+describe('CacheStoreGridFS', () => {
+  let bucket: FakeBucket;
+  let store: CacheStoreGridFS;
+
+  beforeEach(() => {
+    bucket = new FakeBucket();
+    store = new CacheStoreGridFS(bucket as any);
+  });
+
+  it('should upload values named by namespace and key', async () => {
+    await store.set('59.860730', 'kitchen.png', Buffer.from('png-bytes'));
+
+    expect(bucket.files).toHaveLength(1);
+    expect(bucket.files[0].filename).toBe('59.860730/kitchen.png');
+    expect(bucket.files[0].metadata).toEqual({ namespace: '59.860730', key: 'kitchen.png' });
+    expect((await store.get('59.860730', 'kitchen.png'))?.toString()).toBe('png-bytes');
+  });
+
+  it('should replace older copies on set', async () => {
+    await store.set('59.860730', 'kitchen.png', Buffer.from('old'));
+    await store.set('59.860730', 'kitchen.png', Buffer.from('new'));
+
+    expect(bucket.files).toHaveLength(1);
+    expect((await store.get('59.860730', 'kitchen.png'))?.toString()).toBe('new');
+  });
+
+  it('should return undefined for missing values', async () => {
+    expect(await store.get('59.860730', 'missing.png')).toBeUndefined();
+  });
+
+  it('should delete values', async () => {
+    await store.set('59.860730', 'kitchen.png', Buffer.from('x'));
+
+    expect(await store.delete('59.860730', 'kitchen.png')).toBe(true);
+    expect(await store.delete('59.860730', 'kitchen.png')).toBe(false);
+  });
+
+  it('should list entries and namespaces', async () => {
+    await store.set('59.860730', 'kitchen.png', Buffer.from('abc'));
+    await store.set('_scenes', 'hash.txt', Buffer.from('{}'));
+
+    expect(await store.namespaces()).toEqual(['59.860730', '_scenes']);
+    expect(await store.list('59.860730')).toEqual([
+      { namespace: '59.860730', key: 'kitchen.png', size: 3, createdAt: 1000, lastAccessedAt: 1000 },
+    ]);
+  });
+});
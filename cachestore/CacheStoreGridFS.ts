@@ -0,0 +1,102 @@
+import { GridFSBucket, MongoClient } from "mongodb";
+import { CacheEntry, CacheStore } from "./CacheStore";
+
+/**
+ * CacheStoreGridFS keeps cached values in MongoDB GridFS so several zmcdn
+ * instances can share one cache. Each value is one GridFS file named
+ * "<namespace>/<key>".
+ */
+export class CacheStoreGridFS implements CacheStore {
+  readonly name = "mongo";
+  private bucket: GridFSBucket;
+  private client?: MongoClient;
+
+  constructor(bucket: GridFSBucket, client?: MongoClient) {
+    this.bucket = bucket;
+    this.client = client;
+  }
+
+  /**
+   * Connect to MongoDB and open the cache bucket
+   * @param uri MongoDB connection string
+   * @param dbName Database name (default "zmcdn")
+   * @param bucketName GridFS bucket name (default "cache")
+   */
+  static async connect(
+    uri: string,
+    dbName: string = "zmcdn",
+    bucketName: string = "cache",
+  ): Promise<CacheStoreGridFS> {
+    const client = new MongoClient(uri);
+    await client.connect();
+    const bucket = new GridFSBucket(client.db(dbName), { bucketName });
+    return new CacheStoreGridFS(bucket, client);
+  }
+
+  async get(namespace: string, key: string): Promise<Buffer | undefined> {
+    const files = await this.bucket
+      .find({ filename: this.filename(namespace, key) })
+      .sort({ uploadDate: -1 })
+      .limit(1)
+      .toArray();
+    if (files.length === 0) return undefined;
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of this.bucket.openDownloadStream(files[0]._id)) {
+      chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  }
+
+  async set(namespace: string, key: string, value: Buffer): Promise<void> {
+    const filename = this.filename(namespace, key);
+    const previous = await this.bucket.find({ filename }).toArray();
+
+    await new Promise<void>((resolve, reject) => {
+      const upload = this.bucket.openUploadStream(filename, {
+        metadata: { namespace, key },
+      });
+      upload.once("finish", () => resolve());
+      upload.once("error", reject);
+      upload.end(value);
+    });
+
+    // Remove older copies only once the new one is in place
+    for (const file of previous) {
+      await this.bucket.delete(file._id);
+    }
+  }
+
+  async delete(namespace: string, key: string): Promise<boolean> {
+    const files = await this.bucket.find({ filename: this.filename(namespace, key) }).toArray();
+    for (const file of files) {
+      await this.bucket.delete(file._id);
+    }
+    return files.length > 0;
+  }
+
+  async list(namespace?: string): Promise<CacheEntry[]> {
+    const filter = namespace === undefined ? {} : { "metadata.namespace": namespace };
+    const files = await this.bucket.find(filter).toArray();
+    return files.map((file) => ({
+      namespace: file.metadata?.namespace,
+      key: file.metadata?.key,
+      size: file.length,
+      createdAt: file.uploadDate.getTime(),
+      lastAccessedAt: file.uploadDate.getTime(),
+    }));
+  }
+
+  async namespaces(): Promise<string[]> {
+    const entries = await this.list();
+    return Array.from(new Set(entries.map((entry) => entry.namespace)));
+  }
+
+  async close(): Promise<void> {
+    await this.client?.close();
+  }
+
+  private filename(namespace: string, key: string): string {
+    return `${namespace}/${key}`;
+  }
+}
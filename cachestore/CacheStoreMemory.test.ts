@@ -0,0 +1,71 @@
+import { CacheStoreMemory } from './CacheStoreMemory';
+
+describe('CacheStoreMemory', () => {
+  it('should store and return copies of values', async () => {
+    const store = new CacheStoreMemory();
+    const value = Buffer.from('png-bytes');
+
+    await store.set('59.860730', 'kitchen.png', value);
+    value.write('XXX');
+
+    expect((await store.get('59.860730', 'kitchen.png'))?.toString()).toBe('png-bytes');
+    expect(await store.get('59.860730', 'missing.png')).toBeUndefined();
+  });
+
+  it('should track total size across overwrites and deletes', async () => {
+    const store = new CacheStoreMemory();
+
+    await store.set('ns', 'a', Buffer.alloc(10));
+    await store.set('ns', 'a', Buffer.alloc(4));
+    await store.set('ns', 'b', Buffer.alloc(6));
+    expect(store.size).toBe(10);
+
+    expect(await store.delete('ns', 'a')).toBe(true);
+    expect(await store.delete('ns', 'a')).toBe(false);
+    expect(store.size).toBe(6);
+  });
+
+  it('should evict least recently used entries over maxBytes', async () => {
+    const store = new CacheStoreMemory({ maxBytes: 10 });
+
+    await store.set('ns', 'a', Buffer.alloc(4));
+    await store.set('ns', 'b', Buffer.alloc(4));
+    await store.get('ns', 'a');
+    await store.set('ns', 'c', Buffer.alloc(4));
+
+    expect(await store.get('ns', 'b')).toBeUndefined();
+    expect(await store.get('ns', 'a')).toBeDefined();
+    expect(await store.get('ns', 'c')).toBeDefined();
+  });
+
+  it('should evict over maxEntries', async () => {
+    const store = new CacheStoreMemory({ maxEntries: 2 });
+
+    await store.set('ns', 'a', Buffer.alloc(1));
+    await store.set('ns', 'b', Buffer.alloc(1));
+    await store.set('ns', 'c', Buffer.alloc(1));
+
+    expect((await store.list()).map((e) => e.key)).toEqual(['b', 'c']);
+  });
+
+  it('should not evict durable entries', async () => {
+    const store = new CacheStoreMemory({ maxEntries: 2, durable: (namespace) => namespace === '_spend' });
+
+    await store.set('_spend', 'a', Buffer.alloc(1));
+    await store.set('ns', 'b', Buffer.alloc(1));
+    await store.set('ns', 'c', Buffer.alloc(1));
+
+    expect((await store.list()).map((e) => e.key)).toEqual(['a', 'c']);
+  });
+
+  it('should list entries by namespace', async () => {
+    const store = new CacheStoreMemory();
+    await store.set('59.860730', 'kitchen.png', Buffer.alloc(3));
+    await store.set('_scenes', 'hash.txt', Buffer.alloc(2));
+
+    expect(await store.namespaces()).toEqual(['59.860730', '_scenes']);
+    expect(await store.list('_scenes')).toEqual([
+      expect.objectContaining({ namespace: '_scenes', key: 'hash.txt', size: 2 }),
+    ]);
+  });
+});
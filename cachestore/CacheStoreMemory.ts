@@ -0,0 +1,107 @@
+import { CacheEntry, CacheStore } from "./CacheStore";
+
+interface MemoryEntry extends CacheEntry {
+  value: Buffer;
+}
+
+/**
+ * Limits for the in-memory cache
+ */
+export interface CacheStoreMemoryOptions {
+  /** Maximum total bytes held (default 256 MiB) */
+  maxBytes?: number;
+  /** Maximum number of entries held (default unlimited) */
+  maxEntries?: number;
+  /** Entries never evicted, e.g. isDurableEntry (default none) */
+  durable?: (namespace: string, key: string) => boolean;
+}
+
+/**
+ * CacheStoreMemory keeps cached values in process memory, evicting the least
+ * recently used entries once it is over its limits
+ */
+export class CacheStoreMemory implements CacheStore {
+  readonly name = "memory";
+  private entries = new Map<string, MemoryEntry>();
+  private totalBytes = 0;
+  private readonly maxBytes: number;
+  private readonly maxEntries: number;
+  private readonly durable: (namespace: string, key: string) => boolean;
+
+  constructor(options: CacheStoreMemoryOptions = {}) {
+    this.maxBytes = options.maxBytes ?? 256 * 1024 * 1024;
+    this.maxEntries = options.maxEntries ?? Infinity;
+    this.durable = options.durable ?? (() => false);
+  }
+
+  async get(namespace: string, key: string): Promise<Buffer | undefined> {
+    const id = this.id(namespace, key);
+    const entry = this.entries.get(id);
+    if (!entry) return undefined;
+    entry.lastAccessedAt = Date.now();
+    // Re-insert so Map iteration order stays least-recently-used first
+    this.entries.delete(id);
+    this.entries.set(id, entry);
+    return Buffer.from(entry.value);
+  }
+
+  async set(namespace: string, key: string, value: Buffer): Promise<void> {
+    await this.delete(namespace, key);
+    const now = Date.now();
+    this.entries.set(this.id(namespace, key), {
+      namespace,
+      key,
+      value: Buffer.from(value),
+      size: value.length,
+      createdAt: now,
+      lastAccessedAt: now,
+    });
+    this.totalBytes += value.length;
+    this.evict();
+  }
+
+  async delete(namespace: string, key: string): Promise<boolean> {
+    const id = this.id(namespace, key);
+    const entry = this.entries.get(id);
+    if (!entry) return false;
+    this.entries.delete(id);
+    this.totalBytes -= entry.size;
+    return true;
+  }
+
+  async list(namespace?: string): Promise<CacheEntry[]> {
+    const result: CacheEntry[] = [];
+    for (const { value, ...info } of this.entries.values()) {
+      if (namespace === undefined || info.namespace === namespace) {
+        result.push(info);
+      }
+    }
+    return result;
+  }
+
+  async namespaces(): Promise<string[]> {
+    return Array.from(new Set(Array.from(this.entries.values(), (e) => e.namespace)));
+  }
+
+  async close(): Promise<void> {}
+
+  /**
+   * Total bytes currently held
+   */
+  get size(): number {
+    return this.totalBytes;
+  }
+
+  private evict(): void {
+    for (const [id, entry] of this.entries) {
+      if (this.totalBytes <= this.maxBytes && this.entries.size <= this.maxEntries) break;
+      if (this.durable(entry.namespace, entry.key)) continue;
+      this.entries.delete(id);
+      this.totalBytes -= entry.size;
+    }
+  }
+
+  private id(namespace: string, key: string): string {
+    return `${namespace}\0${key}`;
+  }
+}
@@ -0,0 +1,71 @@
+import { EncoderSource, RasterImage } from '../ImageEncoder';
+import { EncoderANSI } from './EncoderANSI';
+
+describe('EncoderANSI', () => {
+  // 2x2 image: red/green on top, blue/white below
+  const raster: RasterImage = {
+    width: 2,
+    height: 2,
+    data: new Uint8ClampedArray([
+      255, 0, 0, 255, 0, 255, 0, 255,
+      0, 0, 255, 255, 255, 255, 255, 255,
+    ]),
+  };
+  const source: EncoderSource = { image: Buffer.from('png'), raster: async () => raster };
+
+  it('should draw two pixels per cell with truecolor escapes', async () => {
+    const encoded = await new EncoderANSI().encode(source);
+
+    expect(encoded.contentType).toBe('text/plain; charset=utf-8');
+    expect(encoded.body).toBe(
+      '\x1b[38;2;255;0;0m\x1b[48;2;0;0;255m▀' +
+      '\x1b[38;2;0;255;0m\x1b[48;2;255;255;255m▀' +
+      '\x1b[0m\n'
+    );
+  });
+
+  it('should not repeat escapes for runs of the same colour', async () => {
+    const data = new Uint8ClampedArray(4 * 2 * 4).fill(255);
+    const encoded = await new EncoderANSI().encode({
+      image: Buffer.from('png'),
+      raster: async () => ({ width: 4, height: 2, data }),
+    });
+
+    expect(encoded.body).toBe('\x1b[38;2;255;255;255m\x1b[48;2;255;255;255m▀▀▀▀\x1b[0m\n');
+  });
+
+  it('should pad an odd last row with black', async () => {
+    const encoded = await new EncoderANSI().encode({
+      image: Buffer.from('png'),
+      raster: async () => ({ width: 1, height: 1, data: new Uint8ClampedArray([10, 20, 30, 255]) }),
+    });
+
+    expect(encoded.body).toBe('\x1b[38;2;10;20;30m\x1b[48;2;0;0;0m▀\x1b[0m\n');
+  });
+
+  it('should scale wide images down to the configured columns', async () => {
+    const data = new Uint8ClampedArray(100 * 50 * 4).fill(128);
+    const encoded = await new EncoderANSI({ columns: 20 }).encode({
+      image: Buffer.from('png'),
+      raster: async () => ({ width: 100, height: 50, data }),
+    });
+    const lines = (encoded.body as string).trimEnd().split('\n');
+
+    expect(lines).toHaveLength(5);
+    expect(lines[0].split('▀')).toHaveLength(21);
+  });
+
+  it('should fit within the terminal size the client sent', async () => {
+    const data = new Uint8ClampedArray(100 * 100 * 4).fill(128);
+    const encoded = await new EncoderANSI().encode({
+      image: Buffer.from('png'),
+      raster: async () => ({ width: 100, height: 100, data }),
+      columns: 40,
+      rows: 10,
+    });
+    const lines = (encoded.body as string).trimEnd().split('\n');
+
+    expect(lines).toHaveLength(10);
+    expect(lines[0].split('▀')).toHaveLength(21);
+  });
+});
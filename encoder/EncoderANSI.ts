@@ -0,0 +1,74 @@
+import { EncodedImage, EncoderSource, ImageEncoder } from "../ImageEncoder";
+import { RGB, fitToColumns, pixelAt } from "./Raster";
+
+const UPPER_HALF_BLOCK = "▀";
+const RESET = "\x1b[0m";
+
+/**
+ * Options for the ANSI half-block encoders
+ */
+export interface EncoderANSIOptions {
+  /** Maximum width of the output in terminal columns when the client doesn't send cols (default 80) */
+  columns?: number;
+}
+
+/**
+ * EncoderANSI draws an image with upper half blocks, two pixels per
+ * character cell: the foreground colour is the top pixel and the background
+ * the bottom one. Colours are 24-bit truecolor escapes; subclasses change
+ * how a colour is written.
+ */
+export class EncoderANSI implements ImageEncoder {
+  readonly name: string = "ansi";
+  readonly contentType = "text/plain; charset=utf-8";
+  protected columns: number;
+
+  constructor(options: EncoderANSIOptions = {}) {
+    this.columns = options.columns ?? 80;
+  }
+
+  async encode(source: EncoderSource): Promise<EncodedImage> {
+    const raster = fitToColumns(
+      await source.raster(),
+      source.columns ?? this.columns,
+      2,
+      source.rows,
+    );
+    const lines: string[] = [];
+
+    for (let y = 0; y < raster.height; y += 2) {
+      let line = "";
+      let lastFg = "";
+      let lastBg = "";
+      for (let x = 0; x < raster.width; x++) {
+        const fg = this.foreground(pixelAt(raster, x, y));
+        // An odd last row has no bottom pixel; leave it black
+        const bg = this.background(y + 1 < raster.height ? pixelAt(raster, x, y + 1) : [0, 0, 0]);
+        if (fg !== lastFg) line += fg;
+        if (bg !== lastBg) line += bg;
+        line += UPPER_HALF_BLOCK;
+        lastFg = fg;
+        lastBg = bg;
+      }
+      lines.push(line + RESET);
+    }
+
+    return { contentType: this.contentType, body: lines.join("\n") + "\n" };
+  }
+
+  /**
+   * Escape sequence selecting a foreground colour
+   * @param rgb The colour
+   */
+  protected foreground([r, g, b]: RGB): string {
+    return `\x1b[38;2;${r};${g};${b}m`;
+  }
+
+  /**
+   * Escape sequence selecting a background colour
+   * @param rgb The colour
+   */
+  protected background([r, g, b]: RGB): string {
+    return `\x1b[48;2;${r};${g};${b}m`;
+  }
+}
@@ -0,0 +1,35 @@
+import { EncoderANSI256, xterm256Index } from './EncoderANSI256';
+
+describe('xterm256Index', () => {
+  it('should map primaries to the colour cube', () => {
+    expect(xterm256Index([0, 0, 0])).toBe(16);
+    expect(xterm256Index([255, 0, 0])).toBe(196);
+    expect(xterm256Index([0, 255, 0])).toBe(46);
+    expect(xterm256Index([0, 0, 255])).toBe(21);
+    expect(xterm256Index([255, 255, 255])).toBe(231);
+  });
+
+  it('should use the grey ramp for greys between cube levels', () => {
+    expect(xterm256Index([128, 128, 128])).toBe(244);
+    expect(xterm256Index([30, 30, 30])).toBe(234);
+  });
+
+  it('should pick the nearest cube colour', () => {
+    expect(xterm256Index([100, 140, 170])).toBe(16 + 36 * 1 + 6 * 2 + 3);
+  });
+});
+
+describe('EncoderANSI256', () => {
+  it('should draw half blocks with 256-colour escapes', async () => {
+    const encoded = await new EncoderANSI256().encode({
+      image: Buffer.from('png'),
+      raster: async () => ({
+        width: 1,
+        height: 2,
+        data: new Uint8ClampedArray([255, 0, 0, 255, 0, 0, 255, 255]),
+      }),
+    });
+
+    expect(encoded.body).toBe('\x1b[38;5;196m\x1b[48;5;21m▀\x1b[0m\n');
+  });
+});
@@ -0,0 +1,45 @@
+import { RGB } from "./Raster";
+import { EncoderANSI } from "./EncoderANSI";
+
+// Channel levels of the xterm 6x6x6 colour cube (indices 16-231)
+const CUBE_LEVELS = [0, 95, 135, 175, 215, 255];
+
+/**
+ * Nearest xterm-256 colour index, choosing between the colour cube and the
+ * 24-step grey ramp (indices 232-255)
+ * @param rgb The colour
+ */
+export function xterm256Index([r, g, b]: RGB): number {
+  const cubeIndex = (value: number) =>
+    value < 48 ? 0 : value < 115 ? 1 : Math.min(5, Math.floor((value - 35) / 40));
+  const ri = cubeIndex(r);
+  const gi = cubeIndex(g);
+  const bi = cubeIndex(b);
+  const cube: RGB = [CUBE_LEVELS[ri], CUBE_LEVELS[gi], CUBE_LEVELS[bi]];
+
+  const average = (r + g + b) / 3;
+  const greyStep = average > 238 ? 23 : Math.max(0, Math.round((average - 8) / 10));
+  const greyLevel = 8 + greyStep * 10;
+  const grey: RGB = [greyLevel, greyLevel, greyLevel];
+
+  const distance = (c: RGB) => (c[0] - r) ** 2 + (c[1] - g) ** 2 + (c[2] - b) ** 2;
+  return distance(grey) < distance(cube)
+    ? 232 + greyStep
+    : 16 + 36 * ri + 6 * gi + bi;
+}
+
+/**
+ * EncoderANSI256 draws half blocks like EncoderANSI, but in the xterm
+ * 256-colour palette for terminals without truecolor support
+ */
+export class EncoderANSI256 extends EncoderANSI {
+  readonly name: string = "ansi256";
+
+  protected foreground(rgb: RGB): string {
+    return `\x1b[38;5;${xterm256Index(rgb)}m`;
+  }
+
+  protected background(rgb: RGB): string {
+    return `\x1b[48;5;${xterm256Index(rgb)}m`;
+  }
+}
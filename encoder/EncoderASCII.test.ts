@@ -0,0 +1,32 @@
+import { EncoderASCII } from './EncoderASCII';
+
+describe('EncoderASCII', () => {
+  it('should map brightness to denser characters', async () => {
+    // 4x2 pixels, black to white left to right; plain cells take two rows each
+    const levels = [0, 85, 170, 255];
+    const data = new Uint8ClampedArray(4 * 2 * 4);
+    for (let i = 0; i < 8; i++) {
+      const level = levels[i % 4];
+      data.set([level, level, level, 255], i * 4);
+    }
+
+    const encoded = await new EncoderASCII().encode({
+      image: Buffer.from('png'),
+      raster: async () => ({ width: 4, height: 2, data }),
+    });
+
+    expect(encoded.contentType).toBe('text/plain; charset=utf-8');
+    expect(encoded.body).toBe(' -*@\n');
+  });
+
+  it('should trim trailing blank space', async () => {
+    const data = new Uint8ClampedArray([255, 255, 255, 255, 0, 0, 0, 255, 255, 255, 255, 255, 0, 0, 0, 255]);
+
+    const encoded = await new EncoderASCII().encode({
+      image: Buffer.from('png'),
+      raster: async () => ({ width: 2, height: 2, data }),
+    });
+
+    expect(encoded.body).toBe('@\n');
+  });
+});
@@ -0,0 +1,48 @@
+import { EncodedImage, EncoderSource, ImageEncoder } from "../ImageEncoder";
+import { fitToColumns, luminance, pixelAt } from "./Raster";
+
+// Darkest to brightest, for light text on a dark terminal
+const RAMP = " .:-=+*#%@";
+
+/**
+ * Options for EncoderASCII
+ */
+export interface EncoderASCIIOptions {
+  /** Maximum width of the output in terminal columns when the client doesn't send cols (default 80) */
+  columns?: number;
+}
+
+/**
+ * EncoderASCII renders an image as plain ASCII characters by brightness,
+ * for terminals (and logs) with no colour or graphics support
+ */
+export class EncoderASCII implements ImageEncoder {
+  readonly name = "ascii";
+  readonly contentType = "text/plain; charset=utf-8";
+  private columns: number;
+
+  constructor(options: EncoderASCIIOptions = {}) {
+    this.columns = options.columns ?? 80;
+  }
+
+  async encode(source: EncoderSource): Promise<EncodedImage> {
+    const raster = fitToColumns(
+      await source.raster(),
+      source.columns ?? this.columns,
+      0.5,
+      source.rows,
+    );
+    const lines: string[] = [];
+
+    for (let y = 0; y < raster.height; y++) {
+      let line = "";
+      for (let x = 0; x < raster.width; x++) {
+        const level = luminance(pixelAt(raster, x, y)) / 255;
+        line += RAMP[Math.min(RAMP.length - 1, Math.floor(level * RAMP.length))];
+      }
+      lines.push(line.trimEnd());
+    }
+
+    return { contentType: this.contentType, body: lines.join("\n") + "\n" };
+  }
+}
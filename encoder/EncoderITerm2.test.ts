@@ -0,0 +1,15 @@
+import { EncoderITerm2 } from './EncoderITerm2';
+
+describe('EncoderITerm2', () => {
+  it('should wrap the image in an OSC 1337 inline file escape', async () => {
+    const image = Buffer.from('not really a png');
+    const raster = jest.fn();
+
+    const encoded = await new EncoderITerm2().encode({ image, raster });
+
+    expect(encoded.body).toBe(
+      `\x1b]1337;File=inline=1;size=${image.length};preserveAspectRatio=1:${image.toString('base64')}\x07\n`
+    );
+    expect(raster).not.toHaveBeenCalled();
+  });
+});
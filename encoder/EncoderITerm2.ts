@@ -0,0 +1,18 @@
+import { EncodedImage, EncoderSource, ImageEncoder } from "../ImageEncoder";
+
+/**
+ * EncoderITerm2 wraps the image in iTerm2's inline image escape
+ * (OSC 1337 File), which iTerm2, WezTerm and others display natively
+ */
+export class EncoderITerm2 implements ImageEncoder {
+  readonly name = "iterm2";
+  readonly contentType = "text/plain; charset=utf-8";
+
+  async encode(source: EncoderSource): Promise<EncodedImage> {
+    const args = `inline=1;size=${source.image.length};preserveAspectRatio=1`;
+    return {
+      contentType: this.contentType,
+      body: `\x1b]1337;File=${args}:${source.image.toString("base64")}\x07\n`,
+    };
+  }
+}
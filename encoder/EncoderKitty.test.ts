@@ -0,0 +1,25 @@
+import { EncoderKitty } from './EncoderKitty';
+
+describe('EncoderKitty', () => {
+  it('should send a small image in one escape', async () => {
+    const image = Buffer.from('tiny');
+
+    const encoded = await new EncoderKitty().encode({ image, raster: jest.fn() });
+
+    expect(encoded.body).toBe(`\x1b_Gf=100,a=T,m=0;${image.toString('base64')}\x1b\\\n`);
+  });
+
+  it('should split large images into 4096-byte chunks', async () => {
+    const image = Buffer.alloc(7000, 7);
+    const payload = image.toString('base64');
+
+    const encoded = await new EncoderKitty().encode({ image, raster: jest.fn() });
+    const escapes = (encoded.body as string).trimEnd().split('\x1b\\').filter(Boolean);
+
+    expect(escapes).toEqual([
+      `\x1b_Gf=100,a=T,m=1;${payload.slice(0, 4096)}`,
+      `\x1b_Gm=1;${payload.slice(4096, 8192)}`,
+      `\x1b_Gm=0;${payload.slice(8192)}`,
+    ]);
+  });
+});
@@ -0,0 +1,29 @@
+import { EncodedImage, EncoderSource, ImageEncoder } from "../ImageEncoder";
+
+// The protocol limits each escape's payload to 4096 bytes of base64
+const CHUNK_SIZE = 4096;
+
+/**
+ * EncoderKitty sends the PNG with the Kitty graphics protocol, split into
+ * chunked APC escapes; the first carries the control keys and every chunk
+ * but the last sets m=1
+ */
+export class EncoderKitty implements ImageEncoder {
+  readonly name = "kitty";
+  readonly contentType = "text/plain; charset=utf-8";
+
+  async encode(source: EncoderSource): Promise<EncodedImage> {
+    const payload = source.image.toString("base64");
+    const chunks: string[] = [];
+
+    for (let offset = 0; offset < payload.length || offset === 0; offset += CHUNK_SIZE) {
+      const chunk = payload.slice(offset, offset + CHUNK_SIZE);
+      const more = offset + CHUNK_SIZE < payload.length ? 1 : 0;
+      // f=100: PNG data, a=T: transmit and display
+      const control = offset === 0 ? `f=100,a=T,m=${more}` : `m=${more}`;
+      chunks.push(`\x1b_G${control};${chunk}\x1b\\`);
+    }
+
+    return { contentType: this.contentType, body: chunks.join("") + "\n" };
+  }
+}
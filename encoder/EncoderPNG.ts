@@ -0,0 +1,13 @@
+import { EncodedImage, EncoderSource, ImageEncoder } from "../ImageEncoder";
+
+/**
+ * EncoderPNG returns the Illustrator's PNG unchanged
+ */
+export class EncoderPNG implements ImageEncoder {
+  readonly name = "png";
+  readonly contentType = "image/png";
+
+  async encode(source: EncoderSource): Promise<EncodedImage> {
+    return { contentType: this.contentType, body: source.image };
+  }
+}
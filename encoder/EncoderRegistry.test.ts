@@ -0,0 +1,59 @@
+import { ImageEncoder } from '../ImageEncoder';
+import { EncoderRegistry, createEncoderRegistry } from './EncoderRegistry';
+import { EncoderSixel } from './EncoderSixel';
+
+describe('EncoderRegistry', () => {
+  const makeEncoder = (name: string): ImageEncoder => ({ name, contentType: 'text/plain', encode: jest.fn() });
+
+  let registry: EncoderRegistry;
+
+  beforeEach(() => {
+    registry = new EncoderRegistry('alpha')
+      .register(makeEncoder('alpha'))
+      .register(makeEncoder('beta'));
+  });
+
+  it('should list registered formats', () => {
+    expect(registry.names()).toEqual(['alpha', 'beta']);
+  });
+
+  it('should use the default format when none is given', () => {
+    expect(registry.has(undefined)).toBe(true);
+    expect(registry.get(undefined).name).toBe('alpha');
+    expect(registry.get('').name).toBe('alpha');
+  });
+
+  it('should get encoders by name', () => {
+    expect(registry.get('beta').name).toBe('beta');
+  });
+
+  it('should reject unknown formats, listing the supported ones', () => {
+    expect(registry.has('gif')).toBe(false);
+    expect(() => registry.get('gif')).toThrow(
+      'Unsupported illustrationFormat: gif (supported: alpha, beta)'
+    );
+  });
+});
+
+describe('createEncoderRegistry', () => {
+  it('should register the built-in formats with sixel as the default', () => {
+    const registry = createEncoderRegistry({});
+
+    expect(registry.names().sort()).toEqual(
+      ['ansi', 'ansi256', 'ascii', 'iterm2', 'kitty', 'png', 'sixel']
+    );
+    expect(registry.get()).toBeInstanceOf(EncoderSixel);
+  });
+
+  it('should size character formats from ENCODER_COLUMNS', async () => {
+    const registry = createEncoderRegistry({ ENCODER_COLUMNS: '4' });
+    const data = new Uint8ClampedArray(8 * 8 * 4).fill(255);
+
+    const encoded = await registry.get('ascii').encode({
+      image: Buffer.from('png'),
+      raster: async () => ({ width: 8, height: 8, data }),
+    });
+
+    expect(encoded.body).toBe('@@@@\n');
+  });
+});
@@ -0,0 +1,79 @@
+import { ImageEncoder } from "../ImageEncoder";
+import { EncoderANSI } from "./EncoderANSI";
+import { EncoderANSI256 } from "./EncoderANSI256";
+import { EncoderASCII } from "./EncoderASCII";
+import { EncoderITerm2 } from "./EncoderITerm2";
+import { EncoderKitty } from "./EncoderKitty";
+import { EncoderPNG } from "./EncoderPNG";
+import { EncoderSixel } from "./EncoderSixel";
+
+/**
+ * EncoderRegistry maps illustrationFormat names to encoders. Requests that
+ * don't name a format get the default.
+ */
+export class EncoderRegistry {
+  private encoders = new Map<string, ImageEncoder>();
+
+  /**
+   * @param defaultFormat Format used when a request doesn't name one (default "sixel")
+   */
+  constructor(private defaultFormat: string = "sixel") {}
+
+  /**
+   * Register an encoder under its name
+   * @param encoder The encoder
+   */
+  register(encoder: ImageEncoder): this {
+    this.encoders.set(encoder.name, encoder);
+    return this;
+  }
+
+  /**
+   * Names of all registered formats
+   */
+  names(): string[] {
+    return Array.from(this.encoders.keys());
+  }
+
+  /**
+   * Whether a format is supported
+   * @param format illustrationFormat from a request, or undefined for the default
+   */
+  has(format?: string): boolean {
+    return this.encoders.has(format || this.defaultFormat);
+  }
+
+  /**
+   * Get the encoder for a format
+   * @param format illustrationFormat from a request, or undefined for the default
+   * @throws Error if the format isn't registered
+   */
+  get(format?: string): ImageEncoder {
+    const encoder = this.encoders.get(format || this.defaultFormat);
+    if (!encoder) {
+      throw new Error(
+        `Unsupported illustrationFormat: ${format} (supported: ${this.names().join(", ")})`,
+      );
+    }
+    return encoder;
+  }
+}
+
+/**
+ * Create a registry with the built-in formats. ENCODER_COLUMNS sets the
+ * width of the character-based formats (default 80).
+ * @param env Environment variables (default process.env)
+ */
+export function createEncoderRegistry(
+  env: NodeJS.ProcessEnv = process.env,
+): EncoderRegistry {
+  const columns = env.ENCODER_COLUMNS ? Number(env.ENCODER_COLUMNS) : undefined;
+  return new EncoderRegistry()
+    .register(new EncoderSixel())
+    .register(new EncoderPNG())
+    .register(new EncoderANSI({ columns }))
+    .register(new EncoderANSI256({ columns }))
+    .register(new EncoderITerm2())
+    .register(new EncoderKitty())
+    .register(new EncoderASCII({ columns }));
+}
@@ -0,0 +1,38 @@
+import { EncoderSixel } from './EncoderSixel';
+import { EncoderPNG } from './EncoderPNG';
+
+describe('EncoderSixel', () => {
+  it('should encode decoded pixels as sixel', async () => {
+    const data = new Uint8ClampedArray(2 * 6 * 4).fill(255);
+
+    const encoded = await new EncoderSixel().encode({
+      image: Buffer.from('png'),
+      raster: async () => ({ width: 2, height: 6, data }),
+    });
+
+    expect(encoded.contentType).toBe('text/plain; charset=utf-8');
+    expect(encoded.body).toMatch(/^\x1bP/);
+    expect(encoded.body).toMatch(/\x1b\\$/);
+  });
+
+  it('should pass decode failures through', async () => {
+    const failure = new Error('cannot load image');
+
+    await expect(new EncoderSixel().encode({
+      image: Buffer.from('png'),
+      raster: () => Promise.reject(failure),
+    })).rejects.toBe(failure);
+  });
+});
+
+describe('EncoderPNG', () => {
+  it('should return the image unchanged without decoding it', async () => {
+    const image = Buffer.from('png bytes');
+    const raster = jest.fn();
+
+    const encoded = await new EncoderPNG().encode({ image, raster });
+
+    expect(encoded).toEqual({ contentType: 'image/png', body: image });
+    expect(raster).not.toHaveBeenCalled();
+  });
+});
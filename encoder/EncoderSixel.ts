@@ -0,0 +1,27 @@
+import { EncodedImage, EncoderSource, ImageEncoder } from "../ImageEncoder";
+
+const { image2sixel } = require("sixel");
+
+// 0=default terminal background, 1=white background, 2=black background
+const BACKGROUND_SELECT = 0;
+
+/**
+ * EncoderSixel converts an image to DEC sixel graphics at its full size
+ */
+export class EncoderSixel implements ImageEncoder {
+  readonly name = "sixel";
+  readonly contentType = "text/plain; charset=utf-8";
+
+  /**
+   * @param palLimit Palette limit for sixel's internal quantizer (default 256)
+   */
+  constructor(private palLimit: number = 256) {}
+
+  async encode(source: EncoderSource): Promise<EncodedImage> {
+    const { width, height, data } = await source.raster();
+    return {
+      contentType: this.contentType,
+      body: image2sixel(data, width, height, this.palLimit, BACKGROUND_SELECT),
+    };
+  }
+}
@@ -0,0 +1,98 @@
+import { RasterImage } from '../ImageEncoder';
+import { OutputSizeError, fitRaster, generationSize, parseOutputSize } from './OutputSize';
+
+describe('OutputSize', () => {
+  describe('parseOutputSize', () => {
+    it('should return undefined when no dimensions are given', () => {
+      expect(parseOutputSize({ illustrationFormat: 'sixel' })).toBeUndefined();
+    });
+
+    it('should read width and height in pixels', () => {
+      expect(parseOutputSize({ width: 640, height: 400 })).toEqual({
+        width: 640,
+        height: 400,
+        fit: 'fit',
+        columns: undefined,
+        rows: undefined,
+      });
+    });
+
+    it('should derive pixels from cols, rows and cell size', () => {
+      expect(parseOutputSize({ cols: 80, rows: 24, cellWidth: 10, cellHeight: 20, fit: 'fill' })).toEqual({
+        width: 800,
+        height: 480,
+        fit: 'fill',
+        columns: 80,
+        rows: 24,
+      });
+    });
+
+    it.each([
+      [{ width: 640 }, 'width and height must be given together'],
+      [{ cols: 80, rows: 24 }, 'cols and rows need cellWidth and cellHeight'],
+      [{ width: 0, height: 400 }, 'width must be an integer between 1 and 4096'],
+      [{ width: 640, height: '400' }, 'height must be an integer between 1 and 4096'],
+      [{ width: 640, height: 400, fit: 'zoom' }, 'fit must be one of fit, fill, stretch'],
+    ])('should reject %j', (body, message) => {
+      expect(() => parseOutputSize(body)).toThrow(new OutputSizeError(message));
+    });
+  });
+
+  describe('generationSize', () => {
+    it('should keep square outputs at 512x512', () => {
+      expect(generationSize({ width: 300, height: 300, fit: 'fit' })).toBe('512x512');
+    });
+
+    it('should match wide and tall aspect ratios in multiples of 64', () => {
+      expect(generationSize({ width: 800, height: 400, fit: 'fit' })).toBe('704x384');
+      expect(generationSize({ width: 400, height: 800, fit: 'fit' })).toBe('384x704');
+    });
+
+    it('should clamp extreme aspect ratios', () => {
+      expect(generationSize({ width: 4000, height: 10, fit: 'fit' })).toBe('1024x256');
+    });
+  });
+
+  describe('fitRaster', () => {
+    // 2x1 image: red, green
+    const raster: RasterImage = {
+      width: 2,
+      height: 1,
+      data: new Uint8ClampedArray([255, 0, 0, 255, 0, 255, 0, 255]),
+    };
+
+    const rows = (image: RasterImage) => {
+      const result: string[][] = [];
+      for (let y = 0; y < image.height; y++) {
+        const row: string[] = [];
+        for (let x = 0; x < image.width; x++) {
+          const i = (y * image.width + x) * 4;
+          row.push(image.data[i] ? 'R' : image.data[i + 1] ? 'G' : '.');
+        }
+        result.push(row);
+      }
+      return result.map((row) => row.join(''));
+    };
+
+    it('should letterbox when fitting', () => {
+      expect(rows(fitRaster(raster, { width: 2, height: 3, fit: 'fit' }))).toEqual(['..', 'RG', '..']);
+    });
+
+    it('should crop when filling', () => {
+      expect(rows(fitRaster(raster, { width: 1, height: 1, fit: 'fill' }))).toEqual(['R']);
+      expect(rows(fitRaster(raster, { width: 2, height: 2, fit: 'fill' }))).toEqual(['RG', 'RG']);
+    });
+
+    it('should distort when stretching', () => {
+      expect(rows(fitRaster(raster, { width: 4, height: 2, fit: 'stretch' }))).toEqual(['RRGG', 'RRGG']);
+    });
+
+    it('should always produce opaque pixels of the requested size', () => {
+      const result = fitRaster(raster, { width: 5, height: 7, fit: 'fit' });
+
+      expect(result.width).toBe(5);
+      expect(result.height).toBe(7);
+      expect(result.data[3]).toBe(255);
+    });
+  });
+});
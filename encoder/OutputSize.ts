@@ -0,0 +1,140 @@
+import { RasterImage } from "../ImageEncoder";
+import { resizeRaster } from "./Raster";
+
+export type FitMode = "fit" | "fill" | "stretch";
+
+export const FIT_MODES: FitMode[] = ["fit", "fill", "stretch"];
+
+// Largest box a client may ask for, in pixels and in character cells
+const MAX_PIXELS = 4096;
+const MAX_CELLS = 1000;
+
+/**
+ * Where the client wants the image to end up
+ */
+export interface OutputSize {
+  /** Target box in pixels */
+  width: number;
+  height: number;
+  /**
+   * fit: scale to fit inside the box and letterbox the rest;
+   * fill: scale to cover the box and crop the overflow;
+   * stretch: scale to the box exactly
+   */
+  fit: FitMode;
+  /** Terminal size in character cells, when the client sent one */
+  columns?: number;
+  rows?: number;
+}
+
+/**
+ * Thrown when a request's dimensions are invalid
+ */
+export class OutputSizeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OutputSizeError";
+  }
+}
+
+/**
+ * Read the output size from an /illustrateMove request body. Clients send
+ * either width and height in pixels, or cols and rows with the terminal's
+ * cellWidth and cellHeight in pixels.
+ * @param body The request body
+ * @returns The output size, or undefined if the request doesn't set one
+ * @throws OutputSizeError if the dimensions are incomplete or out of range
+ */
+export function parseOutputSize(body: Record<string, unknown>): OutputSize | undefined {
+  const fit = body.fit ?? "fit";
+  if (!FIT_MODES.includes(fit as FitMode)) {
+    throw new OutputSizeError(`fit must be one of ${FIT_MODES.join(", ")}`);
+  }
+
+  const dimension = (field: string, max: number): number | undefined => {
+    const value = body[field];
+    if (value == null) return undefined;
+    if (typeof value !== "number" || !Number.isInteger(value) || value < 1 || value > max) {
+      throw new OutputSizeError(`${field} must be an integer between 1 and ${max}`);
+    }
+    return value;
+  };
+
+  const width = dimension("width", MAX_PIXELS);
+  const height = dimension("height", MAX_PIXELS);
+  const columns = dimension("cols", MAX_CELLS);
+  const rows = dimension("rows", MAX_CELLS);
+  const cellWidth = dimension("cellWidth", 100);
+  const cellHeight = dimension("cellHeight", 100);
+
+  if (width !== undefined || height !== undefined) {
+    if (width === undefined || height === undefined) {
+      throw new OutputSizeError("width and height must be given together");
+    }
+    return { width, height, fit: fit as FitMode, columns, rows };
+  }
+
+  if (columns !== undefined || rows !== undefined) {
+    if (columns === undefined || rows === undefined || cellWidth === undefined || cellHeight === undefined) {
+      throw new OutputSizeError("cols and rows need cellWidth and cellHeight");
+    }
+    const pixelWidth = Math.min(MAX_PIXELS, columns * cellWidth);
+    const pixelHeight = Math.min(MAX_PIXELS, rows * cellHeight);
+    return { width: pixelWidth, height: pixelHeight, fit: fit as FitMode, columns, rows };
+  }
+
+  return undefined;
+}
+
+/**
+ * Pick a generation size with the same aspect ratio as the output, at
+ * roughly the area of a 512x512 image and in multiples of 64
+ * @param size The output size
+ * @returns A size such as "768x384"
+ */
+export function generationSize(size: OutputSize): string {
+  const area = 512 * 512;
+  const aspect = size.width / size.height;
+  const round = (value: number) => Math.min(1024, Math.max(256, Math.round(value / 64) * 64));
+  return `${round(Math.sqrt(area * aspect))}x${round(Math.sqrt(area / aspect))}`;
+}
+
+/**
+ * Scale an image into the output box using the requested fit mode
+ * @param raster The image
+ * @param size The output size
+ * @returns An image exactly width x height pixels; letterboxing is black
+ */
+export function fitRaster(raster: RasterImage, size: OutputSize): RasterImage {
+  if (size.fit === "stretch") {
+    return resizeRaster(raster, size.width, size.height);
+  }
+
+  const scaleX = size.width / raster.width;
+  const scaleY = size.height / raster.height;
+  const scale = size.fit === "fill" ? Math.max(scaleX, scaleY) : Math.min(scaleX, scaleY);
+  const scaled = resizeRaster(
+    raster,
+    Math.max(1, Math.round(raster.width * scale)),
+    Math.max(1, Math.round(raster.height * scale)),
+  );
+
+  // Centre the scaled image in the box: cropping for fill, padding for fit
+  const data = new Uint8ClampedArray(size.width * size.height * 4);
+  for (let i = 3; i < data.length; i += 4) {
+    data[i] = 255;
+  }
+  const offsetX = Math.round((size.width - scaled.width) / 2);
+  const offsetY = Math.round((size.height - scaled.height) / 2);
+  for (let y = 0; y < size.height; y++) {
+    const sy = y - offsetY;
+    if (sy < 0 || sy >= scaled.height) continue;
+    for (let x = 0; x < size.width; x++) {
+      const sx = x - offsetX;
+      if (sx < 0 || sx >= scaled.width) continue;
+      const from = (sy * scaled.width + sx) * 4;
+      data.set(scaled.data.subarray(from, from + 4), (y * size.width + x) * 4);
+    }
+  }
+  return { width: size.width, height: size.height, data };
+}
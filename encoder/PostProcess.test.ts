@@ -0,0 +1,61 @@
+import { EncoderSource, RasterImage } from '../ImageEncoder';
+import { getRetroPlatform } from '../retro/RetroPlatform';
+import { postProcess } from './PostProcess';
+
+describe('postProcess', () => {
+  function gradient(width: number, height: number): RasterImage {
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let i = 0; i < width * height; i++) {
+      data.set([i % 256, (i * 7) % 256, 128, 255], i * 4);
+    }
+    return { width, height, data };
+  }
+
+  let source: EncoderSource;
+  let encodePNG: jest.Mock;
+
+  beforeEach(() => {
+    source = { image: Buffer.from('original'), raster: jest.fn(async () => gradient(16, 16)) };
+    encodePNG = jest.fn(() => Buffer.from('processed png'));
+  });
+
+  it('should pass the source through when nothing is asked for', async () => {
+    expect(await postProcess(source, {}, encodePNG)).toBe(source);
+    expect(source.raster).not.toHaveBeenCalled();
+  });
+
+  it('should render retro platforms and re-encode the result', async () => {
+    const result = await postProcess(source, { platform: getRetroPlatform('cga'), dither: 'none' }, encodePNG);
+    const raster = await result.raster();
+
+    expect(result.image.toString()).toBe('processed png');
+    expect(encodePNG).toHaveBeenCalledWith(raster);
+    const colors = new Set<string>();
+    for (let i = 0; i < raster.data.length; i += 4) {
+      colors.add(Array.from(raster.data.slice(i, i + 3)).join(','));
+    }
+    expect(colors.size).toBeLessThanOrEqual(4);
+  });
+
+  it('should fit the image to the output size and pass on the terminal size', async () => {
+    const result = await postProcess(
+      source,
+      { size: { width: 40, height: 20, fit: 'fit', columns: 4, rows: 1 } },
+      encodePNG
+    );
+
+    expect(await result.raster()).toMatchObject({ width: 40, height: 20 });
+    expect(result.columns).toBe(4);
+    expect(result.rows).toBe(1);
+  });
+
+  it('should apply the platform before the output size', async () => {
+    const result = await postProcess(
+      source,
+      { platform: getRetroPlatform('apple2'), size: { width: 64, height: 64, fit: 'stretch' } },
+      encodePNG
+    );
+
+    expect(await result.raster()).toMatchObject({ width: 64, height: 64 });
+  });
+});
@@ -0,0 +1,52 @@
+import { EncoderSource, RasterImage } from "../ImageEncoder";
+import { DitherMethod } from "../retro/Dither";
+import { RetroPlatform, renderRetro } from "../retro/RetroPlatform";
+import { OutputSize, fitRaster } from "./OutputSize";
+
+/**
+ * What to do to an image between the Illustrator and the encoder
+ */
+export interface PostProcessOptions {
+  /** Retro platform to render as */
+  platform?: RetroPlatform;
+  /** Dithering for the platform's palette, or undefined for its default */
+  dither?: DitherMethod;
+  /** Where the client wants the image to end up */
+  size?: OutputSize;
+}
+
+/**
+ * Apply the retro rendering and output size a request asked for. The result
+ * is re-encoded as PNG for the formats that send image bytes rather than
+ * pixels; a request that asks for neither gets the source back untouched.
+ * @param source The original image
+ * @param options The post-processing to apply
+ * @param encodePNG Encodes pixels as PNG
+ * @throws ImageDecodeError if the original can't be decoded
+ */
+export async function postProcess(
+  source: EncoderSource,
+  options: PostProcessOptions,
+  encodePNG: (raster: RasterImage) => Buffer,
+): Promise<EncoderSource> {
+  const { platform, dither, size } = options;
+  if (!platform && !size) {
+    return source;
+  }
+
+  let raster = await source.raster();
+  if (platform) {
+    raster = renderRetro(raster, platform, dither);
+  }
+  if (size) {
+    raster = fitRaster(raster, size);
+  }
+
+  const processed = raster;
+  return {
+    image: encodePNG(processed),
+    raster: async () => processed,
+    columns: size?.columns,
+    rows: size?.rows,
+  };
+}
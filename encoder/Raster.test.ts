@@ -0,0 +1,61 @@
+import { RasterImage } from '../ImageEncoder';
+import { fitToColumns, fitWithin, luminance, pixelAt, resizeRaster } from './Raster';
+
+function solidRaster(width: number, height: number, rgba: number[]): RasterImage {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) {
+    data.set(rgba, i);
+  }
+  return { width, height, data };
+}
+
+describe('Raster', () => {
+  it('should read pixels composited over black', () => {
+    expect(pixelAt(solidRaster(1, 1, [200, 100, 50, 255]), 0, 0)).toEqual([200, 100, 50]);
+    expect(pixelAt(solidRaster(1, 1, [200, 100, 50, 0]), 0, 0)).toEqual([0, 0, 0]);
+  });
+
+  it('should weight luminance towards green', () => {
+    expect(luminance([0, 255, 0])).toBeGreaterThan(luminance([255, 0, 0]));
+    expect(luminance([255, 255, 255])).toBeCloseTo(255);
+  });
+
+  it('should average pixels when shrinking', () => {
+    const raster: RasterImage = {
+      width: 2,
+      height: 1,
+      data: new Uint8ClampedArray([0, 0, 0, 255, 200, 100, 50, 255]),
+    };
+
+    const resized = resizeRaster(raster, 1, 1);
+
+    expect(resized.width).toBe(1);
+    expect(Array.from(resized.data)).toEqual([100, 50, 25, 255]);
+  });
+
+  it('should return the same raster when the size is unchanged', () => {
+    const raster = solidRaster(4, 4, [1, 2, 3, 255]);
+
+    expect(resizeRaster(raster, 4, 4)).toBe(raster);
+  });
+
+  it('should fit to columns keeping the aspect ratio of character cells', () => {
+    const raster = solidRaster(1024, 512, [0, 0, 0, 255]);
+
+    expect(fitToColumns(raster, 80, 2)).toMatchObject({ width: 80, height: 40 });
+    expect(fitToColumns(raster, 80, 0.5)).toMatchObject({ width: 80, height: 10 });
+  });
+
+  it('should not enlarge images narrower than the columns', () => {
+    const raster = solidRaster(10, 10, [0, 0, 0, 255]);
+
+    expect(fitToColumns(raster, 80, 2)).toMatchObject({ width: 10, height: 10 });
+  });
+
+  it('should fit within a box keeping the aspect ratio', () => {
+    const raster = solidRaster(512, 512, [0, 0, 0, 255]);
+
+    expect(fitWithin(raster, 320, 200)).toMatchObject({ width: 200, height: 200 });
+    expect(fitWithin(raster, 1024, 1024)).toBe(raster);
+  });
+});
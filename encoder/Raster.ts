@@ -0,0 +1,106 @@
+import { RasterImage } from "../ImageEncoder";
+
+export type RGB = [number, number, number];
+
+/**
+ * Read one pixel, composited over black so transparent areas come out dark
+ * @param raster The image
+ * @param x Column
+ * @param y Row
+ */
+export function pixelAt(raster: RasterImage, x: number, y: number): RGB {
+  const i = (y * raster.width + x) * 4;
+  const alpha = raster.data[i + 3] / 255;
+  return [
+    Math.round(raster.data[i] * alpha),
+    Math.round(raster.data[i + 1] * alpha),
+    Math.round(raster.data[i + 2] * alpha),
+  ];
+}
+
+/**
+ * Perceived brightness of a colour, 0-255
+ * @param rgb The colour
+ */
+export function luminance([r, g, b]: RGB): number {
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/**
+ * Resize an image by averaging the source pixels under each target pixel
+ * @param raster The image
+ * @param width Target width in pixels
+ * @param height Target height in pixels
+ */
+export function resizeRaster(raster: RasterImage, width: number, height: number): RasterImage {
+  width = Math.max(1, Math.round(width));
+  height = Math.max(1, Math.round(height));
+  if (width === raster.width && height === raster.height) {
+    return raster;
+  }
+
+  const data = new Uint8ClampedArray(width * height * 4);
+  const scaleX = raster.width / width;
+  const scaleY = raster.height / height;
+
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.floor(y * scaleY);
+    const y1 = Math.max(y0 + 1, Math.min(raster.height, Math.floor((y + 1) * scaleY)));
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.floor(x * scaleX);
+      const x1 = Math.max(x0 + 1, Math.min(raster.width, Math.floor((x + 1) * scaleX)));
+      const sum = [0, 0, 0, 0];
+      for (let sy = y0; sy < y1; sy++) {
+        for (let sx = x0; sx < x1; sx++) {
+          const i = (sy * raster.width + sx) * 4;
+          for (let c = 0; c < 4; c++) {
+            sum[c] += raster.data[i + c];
+          }
+        }
+      }
+      const count = (x1 - x0) * (y1 - y0);
+      const o = (y * width + x) * 4;
+      for (let c = 0; c < 4; c++) {
+        data[o + c] = sum[c] / count;
+      }
+    }
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Scale an image down to a number of terminal columns, keeping its aspect ratio.
+ * Images narrower than the column count are left alone.
+ * @param raster The image
+ * @param columns Terminal columns available
+ * @param rowsPerCell Image rows drawn per character cell: 2 for half blocks, 0.5 for plain characters
+ * @param rows Terminal rows available, if the height is limited too
+ */
+export function fitToColumns(
+  raster: RasterImage,
+  columns: number,
+  rowsPerCell: number,
+  rows?: number,
+): RasterImage {
+  let width = Math.min(columns, raster.width);
+  // Character cells are about twice as tall as they are wide
+  let height = (raster.height / raster.width) * width * (rowsPerCell / 2);
+  if (rows !== undefined && height > rows * rowsPerCell) {
+    width *= (rows * rowsPerCell) / height;
+    height = rows * rowsPerCell;
+  }
+  return resizeRaster(raster, width, height);
+}
+
+/**
+ * Scale an image down to fit inside a box, keeping its aspect ratio.
+ * Images that already fit are left alone.
+ * @param raster The image
+ * @param maxWidth Width of the box in pixels
+ * @param maxHeight Height of the box in pixels
+ */
+export function fitWithin(raster: RasterImage, maxWidth: number, maxHeight: number): RasterImage {
+  const scale = Math.min(1, maxWidth / raster.width, maxHeight / raster.height);
+  return resizeRaster(raster, raster.width * scale, raster.height * scale);
+}
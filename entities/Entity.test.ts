@@ -0,0 +1,66 @@
+import { Entity, mentionedEntities, mergeEntities, validateEntities } from './Entity';
+
+describe('Entity', () => {
+  const thief: Entity = { name: 'thief', kind: 'character', description: 'gaunt man in a grey cloak' };
+  const lamp: Entity = { name: 'brass lantern', kind: 'item', description: 'battered brass lantern' };
+  const house: Entity = { name: 'West of House', kind: 'room', description: 'white colonial house' };
+
+  describe('validateEntities', () => {
+    it('should trim and keep valid entities', () => {
+      expect(
+        validateEntities([{ name: ' thief ', kind: 'character', description: ' gaunt man in a grey cloak ', seed: 7 }])
+      ).toEqual({ ok: true, entities: [{ ...thief, seed: 7 }] });
+    });
+
+    it('should report every bad entity', () => {
+      expect(
+        validateEntities([
+          thief,
+          { kind: 'item', description: 'x' },
+          { name: 'lamp', kind: 'item' },
+          { name: 'lamp', kind: 'item', description: 'x', seed: 1.5 },
+          null,
+        ])
+      ).toEqual({
+        ok: false,
+        issues: [
+          'entities[1].name must be a non-empty string',
+          'entities[2].description must be a non-empty string',
+          'entities[3].seed must be an integer',
+          'entities[4].name must be a non-empty string',
+        ],
+      });
+    });
+
+    it('should reject non-arrays', () => {
+      expect(validateEntities({ thief })).toEqual({ ok: false, issues: ['entities must be an array'] });
+    });
+  });
+
+  describe('mergeEntities', () => {
+    it('should keep the first description of a name, ignoring case', () => {
+      const merged = mergeEntities([thief], [{ ...thief, name: 'Thief', description: 'red cloak' }, lamp], 10);
+
+      expect(merged).toEqual([thief, lamp]);
+    });
+
+    it('should drop the oldest entities past the limit', () => {
+      expect(mergeEntities([thief, lamp], [house], 2)).toEqual([lamp, house]);
+    });
+  });
+
+  describe('mentionedEntities', () => {
+    it('should match whole names ignoring case and spacing', () => {
+      const mentioned = mentionedEntities(
+        [thief, lamp, house],
+        ['West of House', 'Someone carrying a large bag is casually leaning against one of the walls. The Thief\nis here. You have a brass\nlantern.']
+      );
+
+      expect(mentioned).toEqual([thief, lamp, house]);
+    });
+
+    it('should not match inside other words', () => {
+      expect(mentionedEntities([thief], ['There are thieves about.'])).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Kinds of recurring thing the Art Director keeps a canonical look for
+ */
+export type EntityKind = "character" | "item" | "room";
+
+export const ENTITY_KINDS: EntityKind[] = ["character", "item", "room"];
+
+/**
+ * A recurring character, item or room and how it looks, as the Art Director
+ * described it when it was first drawn
+ */
+export interface Entity {
+  /** Name as the game refers to it, e.g. "thief" or "West of House" */
+  name: string;
+  kind: EntityKind;
+  /** Canonical visual description */
+  description: string;
+  /** Illustrator seed to draw it with, if one was chosen */
+  seed?: number;
+}
+
+/**
+ * Validate the entities list of a scene direction
+ * @param value The Art Director's entities field
+ * @returns The entities, or the list of problems found
+ */
+export function validateEntities(
+  value: unknown,
+): { ok: true; entities: Entity[] } | { ok: false; issues: string[] } {
+  if (!Array.isArray(value)) {
+    return { ok: false, issues: ["entities must be an array"] };
+  }
+  const entities: Entity[] = [];
+  const issues: string[] = [];
+  value.forEach((item, index) => {
+    const fields = (item ?? {}) as Record<string, unknown>;
+    if (typeof fields.name !== "string" || fields.name.trim() === "") {
+      issues.push(`entities[${index}].name must be a non-empty string`);
+    } else if (!(ENTITY_KINDS as unknown[]).includes(fields.kind)) {
+      issues.push(`entities[${index}].kind must be one of ${ENTITY_KINDS.join(", ")}`);
+    } else if (typeof fields.description !== "string" || fields.description.trim() === "") {
+      issues.push(`entities[${index}].description must be a non-empty string`);
+    } else if (fields.seed != null && !Number.isInteger(fields.seed)) {
+      issues.push(`entities[${index}].seed must be an integer`);
+    } else {
+      const entity: Entity = {
+        name: fields.name.trim(),
+        kind: fields.kind as EntityKind,
+        description: fields.description.trim(),
+      };
+      if (fields.seed != null) entity.seed = fields.seed as number;
+      entities.push(entity);
+    }
+  });
+  return issues.length > 0 ? { ok: false, issues } : { ok: true, entities };
+}
+
+/**
+ * Add newly introduced entities to a list. The first description of an
+ * entity is canonical, so entities already in the list are kept as they are.
+ * @param known Entities so far, oldest first (not modified)
+ * @param introduced Entities to add
+ * @param limit Maximum entities kept; the oldest are dropped past it
+ * @returns The merged list
+ */
+export function mergeEntities(known: Entity[], introduced: Entity[], limit: number): Entity[] {
+  const merged = [...known];
+  const names = new Set(known.map((entity) => entity.name.toLowerCase()));
+  for (const entity of introduced) {
+    if (!names.has(entity.name.toLowerCase())) {
+      names.add(entity.name.toLowerCase());
+      merged.push(entity);
+    }
+  }
+  return merged.slice(Math.max(0, merged.length - limit));
+}
+
+/**
+ * The entities a scene mentions by name, matched as whole words ignoring case
+ * @param entities Candidate entities
+ * @param texts What the scene says, e.g. the player's location and the game's output
+ */
+export function mentionedEntities(entities: Entity[], texts: string[]): Entity[] {
+  const text = texts.join("\n");
+  return entities.filter((entity) => {
+    const name = entity.name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace(/\s+/g, "\\s+");
+    return new RegExp(`(^|[^\\w])${name}($|[^\\w])`, "i").test(text);
+  });
+}
@@ -0,0 +1,80 @@
+import { CacheStoreMemory } from '../cachestore/CacheStoreMemory';
+import { ENTITY_NAMESPACE } from '../cachestore/CacheStore';
+import { emptySessionState } from '../storage/SessionStore';
+import { Entity } from './Entity';
+import { EntityRegistry } from './EntityRegistry';
+
+describe('EntityRegistry', () => {
+  const thief: Entity = { name: 'thief', kind: 'character', description: 'gaunt man in a grey cloak' };
+  const troll: Entity = { name: 'troll', kind: 'character', description: 'hulking green troll' };
+
+  let cache: CacheStoreMemory;
+  let registry: EntityRegistry;
+
+  beforeEach(() => {
+    cache = new CacheStoreMemory();
+    registry = new EntityRegistry({
+      cache,
+      loadSession: async (sessionID) =>
+        sessionID === 'session-a'
+          ? { ...emptySessionState(sessionID), entities: [{ ...thief, description: 'thief in red' }] }
+          : undefined,
+    });
+  });
+
+  it('should start empty', async () => {
+    expect(await registry.forGame('88.840726')).toEqual([]);
+  });
+
+  it('should record entities per game, keeping first descriptions', async () => {
+    await registry.record('88.840726', [thief]);
+    await registry.record('88.840726', [{ ...thief, description: 'other' }, troll]);
+
+    expect(await registry.forGame('88.840726')).toEqual([thief, troll]);
+    expect(await registry.forGame('59.860730')).toEqual([]);
+  });
+
+  it('should not lose concurrent records', async () => {
+    await Promise.all([registry.record('88.840726', [thief]), registry.record('88.840726', [troll])]);
+
+    expect(await registry.forGame('88.840726')).toEqual([thief, troll]);
+  });
+
+  it('should not rewrite the game when nothing is new', async () => {
+    await registry.record('88.840726', [thief]);
+    const set = jest.spyOn(cache, 'set');
+    await registry.record('88.840726', [thief]);
+
+    expect(set).not.toHaveBeenCalled();
+  });
+
+  it('should put the session entities ahead of the game ones', async () => {
+    await registry.record('88.840726', [thief, troll]);
+
+    expect(await registry.known('88.840726', 'session-a')).toEqual([
+      { ...thief, description: 'thief in red' },
+      troll,
+    ]);
+    expect(await registry.known('88.840726', 'session-b')).toEqual([thief, troll]);
+  });
+
+  it('should cap entities per game', async () => {
+    registry = new EntityRegistry({ cache }, { maxPerGame: 1 });
+    await registry.record('88.840726', [thief, troll]);
+
+    expect(await registry.forGame('88.840726')).toEqual([troll]);
+  });
+
+  it('should ignore a corrupt entity list', async () => {
+    await cache.set(ENTITY_NAMESPACE, '88.840726.json', Buffer.from('not json'));
+
+    expect(await registry.forGame('88.840726')).toEqual([]);
+  });
+
+  it('should purge a game', async () => {
+    await registry.record('88.840726', [thief]);
+
+    expect(await registry.purge('88.840726')).toBe(true);
+    expect(await registry.forGame('88.840726')).toEqual([]);
+  });
+});
@@ -0,0 +1,129 @@
+import { CacheStore, ENTITY_NAMESPACE } from "../cachestore/CacheStore";
+import { SessionState } from "../storage/SessionStore";
+import { Entity, mergeEntities, validateEntities } from "./Entity";
+
+/**
+ * Options bounding the registry
+ */
+export interface EntityRegistryOptions {
+  /** Entities kept per game (default 500) */
+  maxPerGame?: number;
+}
+
+/**
+ * Collaborators the registry needs; injected so it can be tested without a server
+ */
+export interface EntityRegistryDeps {
+  /** Where each game's entities are kept */
+  cache: CacheStore;
+  /** A session's persisted state, holding the entities it introduced */
+  loadSession?: (sessionID: string) => Promise<SessionState | undefined>;
+  log?: (...args: any[]) => void;
+}
+
+/**
+ * EntityRegistry keeps the canonical look of each game's recurring
+ * characters, items and rooms, so the thief looks the same every time he
+ * turns up. Entities are kept per game in the cache, and per session in the
+ * session state; a session's own entities take precedence.
+ */
+export class EntityRegistry {
+  private deps: EntityRegistryDeps;
+  private maxPerGame: number;
+  private log: (...args: any[]) => void;
+  /** Pending writes per game, so concurrent records don't lose each other */
+  private writes = new Map<string, Promise<void>>();
+
+  constructor(deps: EntityRegistryDeps, options: EntityRegistryOptions = {}) {
+    this.deps = deps;
+    this.maxPerGame = options.maxPerGame ?? 500;
+    this.log = deps.log ?? (() => {});
+  }
+
+  /**
+   * Entities a game has introduced across every session, oldest first
+   * @param gameIdentifier Game release/serial
+   */
+  async forGame(gameIdentifier: string): Promise<Entity[]> {
+    const cached = await this.deps.cache.get(ENTITY_NAMESPACE, entityCacheKey(gameIdentifier));
+    if (!cached) {
+      return [];
+    }
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(cached.toString("utf8"));
+    } catch {
+      this.log(`Ignoring unparseable entities for ${gameIdentifier}`);
+      return [];
+    }
+    const result = validateEntities(parsed);
+    if (!result.ok) {
+      this.log(`Ignoring invalid entities for ${gameIdentifier}`);
+      return [];
+    }
+    return result.entities;
+  }
+
+  /**
+   * Entities known to a session: its own, then the game's
+   * @param gameIdentifier Game release/serial
+   * @param sessionID The zmcdnSessionID of the session
+   */
+  async known(gameIdentifier: string, sessionID: string): Promise<Entity[]> {
+    const session = (await this.deps.loadSession?.(sessionID))?.entities ?? [];
+    return mergeEntities(session, await this.forGame(gameIdentifier), Infinity);
+  }
+
+  /**
+   * Add newly introduced entities to a game; entities it already has keep
+   * their first description
+   * @param gameIdentifier Game release/serial
+   * @param entities Entities from a scene direction
+   */
+  async record(gameIdentifier: string, entities: Entity[]): Promise<void> {
+    if (entities.length === 0) {
+      return;
+    }
+    const previous = this.writes.get(gameIdentifier) ?? Promise.resolve();
+    const write = previous.then(async () => {
+      const known = await this.forGame(gameIdentifier);
+      const merged = mergeEntities(known, entities, this.maxPerGame);
+      const added = merged.filter((entity) => !known.includes(entity)).length;
+      if (added === 0) {
+        return;
+      }
+      await this.deps.cache.set(
+        ENTITY_NAMESPACE,
+        entityCacheKey(gameIdentifier),
+        Buffer.from(JSON.stringify(merged)),
+      );
+      this.log(`Recorded ${added} new entities for ${gameIdentifier}`);
+    });
+    const settled = write.catch(() => {});
+    this.writes.set(gameIdentifier, settled);
+    try {
+      await write;
+    } finally {
+      if (this.writes.get(gameIdentifier) === settled) {
+        this.writes.delete(gameIdentifier);
+      }
+    }
+  }
+
+  /**
+   * Forget every entity of a game
+   * @param gameIdentifier Game release/serial
+   * @returns true if the game had any
+   */
+  async purge(gameIdentifier: string): Promise<boolean> {
+    return this.deps.cache.delete(ENTITY_NAMESPACE, entityCacheKey(gameIdentifier));
+  }
+}
+
+/**
+ * Cache key of a game's entity list
+ * @param gameIdentifier Game release/serial
+ */
+function entityCacheKey(gameIdentifier: string): string {
+  return `${gameIdentifier}.json`;
+}
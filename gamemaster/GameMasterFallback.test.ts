@@ -0,0 +1,67 @@
+import { GameMasterFallback } from './GameMasterFallback';
+import { GameMaster } from '../GameMaster';
+import { Logger } from '../logging/Logger';
+
+describe('GameMasterFallback', () => {
+  const sceneState = {
+    zmcdnSessionID: 'test-session-123',
+    playerLocation: 'West of House',
+    lastZMachineInput: 'look',
+    lastZMachineOutput: 'You are standing in an open field.',
+  };
+
+  const makeGameMaster = (name: string): jest.Mocked<GameMaster> => ({
+    name,
+    model: `${name}-model`,
+    generateSceneDirection: jest.fn(),
+    getHistory: jest.fn().mockReturnValue([]),
+    restoreHistory: jest.fn(),
+  });
+
+  let primary: jest.Mocked<GameMaster>;
+  let fallback: jest.Mocked<GameMaster>;
+  let gameMaster: GameMasterFallback;
+  let lines: string[];
+
+  beforeEach(() => {
+    primary = makeGameMaster('qwen');
+    fallback = makeGameMaster('rules');
+    lines = [];
+    gameMaster = new GameMasterFallback(primary, fallback, new Logger({ write: (line) => lines.push(line) }));
+  });
+
+  it('should combine both backend names', () => {
+    expect(gameMaster.name).toBe('qwen+rules');
+  });
+
+  it('should use the primary when it succeeds', async () => {
+    primary.generateSceneDirection.mockResolvedValue('{"reuse_key":"primary"}');
+
+    expect(await gameMaster.generateSceneDirection(sceneState)).toBe('{"reuse_key":"primary"}');
+    expect(fallback.generateSceneDirection).not.toHaveBeenCalled();
+  });
+
+  it('should use the fallback when the primary fails, logging a warning for the session', async () => {
+    primary.generateSceneDirection.mockRejectedValue(new Error('API request failed with status 503'));
+    fallback.generateSceneDirection.mockResolvedValue('{"reuse_key":"fallback"}');
+
+    expect(await gameMaster.generateSceneDirection(sceneState)).toBe('{"reuse_key":"fallback"}');
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0])).toEqual(
+      expect.objectContaining({
+        level: 'warn',
+        zmcdnSessionID: 'test-session-123',
+        backend: 'qwen',
+        fallback: 'rules',
+        error: expect.objectContaining({ message: 'API request failed with status 503' }),
+      })
+    );
+  });
+
+  it('should restore history into both backends', () => {
+    gameMaster.restoreHistory(['a']);
+
+    expect(primary.restoreHistory).toHaveBeenCalledWith(['a']);
+    expect(fallback.restoreHistory).toHaveBeenCalledWith(['a']);
+  });
+});
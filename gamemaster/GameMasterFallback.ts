@@ -0,0 +1,54 @@
+import { GameMaster, SceneState } from "../GameMaster";
+import { Logger } from "../logging/Logger";
+
+/**
+ * GameMasterFallback asks a primary Art Director and, if it fails, a fallback
+ * (typically GameMasterRuleBased) so a flaky LLM doesn't break illustration
+ */
+export class GameMasterFallback implements GameMaster {
+  readonly name: string;
+  readonly model: string;
+  private primary: GameMaster;
+  private fallback: GameMaster;
+  private logger: Logger;
+
+  /**
+   * @param primary The Art Director asked first
+   * @param fallback The Art Director asked when the primary fails
+   * @param logger Where fallbacks are logged (default: a new Logger)
+   */
+  constructor(primary: GameMaster, fallback: GameMaster, logger: Logger = new Logger()) {
+    this.primary = primary;
+    this.fallback = fallback;
+    this.logger = logger;
+    this.name = `${primary.name}+${fallback.name}`;
+    this.model = primary.model;
+  }
+
+  getHistory(): string[] {
+    return this.primary.getHistory();
+  }
+
+  restoreHistory(answers: string[]): void {
+    this.primary.restoreHistory(answers);
+    this.fallback.restoreHistory(answers);
+  }
+
+  /**
+   * Generate scene direction from the primary, falling back on error
+   * @param sceneState The current game state including location and recent I/O
+   */
+  async generateSceneDirection(sceneState: SceneState): Promise<string> {
+    try {
+      return await this.primary.generateSceneDirection(sceneState);
+    } catch (e) {
+      this.logger.warn("Art Director failed, falling back", {
+        zmcdnSessionID: sceneState.zmcdnSessionID,
+        backend: this.primary.name,
+        fallback: this.fallback.name,
+        error: e,
+      });
+      return this.fallback.generateSceneDirection(sceneState);
+    }
+  }
+}
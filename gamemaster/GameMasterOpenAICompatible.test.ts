@@ -0,0 +1,129 @@
+import { Logger } from '../logging/Logger';
+import { GameMasterOpenAICompatible } from './GameMasterOpenAICompatible';
+
+// Mock global fetch
+global.fetch = jest.fn();
+
+describe('GameMasterOpenAICompatible', () => {
+  const mockSceneState = {
+    zmcdnSessionID: 'test-session-123',
+    playerLocation: 'West of House',
+    lastZMachineInput: 'open mailbox',
+    lastZMachineOutput: 'Opening the small mailbox reveals a leaflet.',
+  };
+
+  const mockJsonResponse = {
+    visual_prompt: 'A rustic mailbox in front of a white house',
+    reuse_key: 'west_of_house_mailbox_open',
+    style_tags: 'retro-320x200, muted palette',
+    repaint: true,
+  };
+
+  const mockOkResponse = (extra: Record<string, unknown> = {}) => {
+    const data = new TextEncoder().encode(
+      JSON.stringify({ choices: [{ message: { content: JSON.stringify(mockJsonResponse) } }], ...extra })
+    );
+    let done = false;
+    return {
+      ok: true,
+      body: {
+        getReader: () => ({
+          read: jest.fn(async () => {
+            if (done) return { done: true, value: undefined };
+            done = true;
+            return { done: false, value: data };
+          }),
+        }),
+      },
+    };
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should post to the configured endpoint and model', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue(mockOkResponse());
+    const gameMaster = new GameMasterOpenAICompatible({
+      baseURL: 'http://localhost:8080/v1/',
+      model: 'llama-3.1-8b',
+      apiKey: 'local-key',
+    });
+
+    const result = await gameMaster.generateSceneDirection(mockSceneState);
+
+    expect(global.fetch).toHaveBeenCalledWith(
+      'http://localhost:8080/v1/chat/completions',
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: 'Bearer local-key',
+        },
+        body: expect.stringContaining('"model":"llama-3.1-8b"'),
+      }
+    );
+    expect(JSON.parse(result)).toEqual(mockJsonResponse);
+  });
+
+  it('should omit Authorization when no API key is configured', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue(mockOkResponse());
+    const gameMaster = new GameMasterOpenAICompatible({
+      baseURL: 'http://localhost:11434/v1',
+      model: 'qwen3:8b',
+    });
+
+    await gameMaster.generateSceneDirection(mockSceneState);
+
+    const { headers } = (global.fetch as jest.Mock).mock.calls[0][1];
+    expect(headers).toEqual({ 'Content-Type': 'application/json' });
+  });
+
+  it('should default its name to openai-compatible', () => {
+    const gameMaster = new GameMasterOpenAICompatible({ baseURL: 'http://x', model: 'm' });
+
+    expect(gameMaster.name).toBe('openai-compatible');
+  });
+
+  it('should send restored history before the current scene', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue(mockOkResponse());
+    const gameMaster = new GameMasterOpenAICompatible({ baseURL: 'http://x', model: 'm' });
+    gameMaster.restoreHistory(['{"reuse_key":"earlier"}']);
+
+    await gameMaster.generateSceneDirection(mockSceneState);
+
+    const { messages } = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+    expect(messages[1]).toEqual({ role: 'user', content: '{"reuse_key":"earlier"}' });
+    expect(messages).toHaveLength(3);
+  });
+
+  it('should keep the token usage the endpoint reports', async () => {
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(mockOkResponse({ usage: { prompt_tokens: 1200, completion_tokens: 80 } }))
+      .mockResolvedValueOnce(mockOkResponse());
+    const gameMaster = new GameMasterOpenAICompatible({ baseURL: 'http://x', model: 'm' });
+
+    await gameMaster.generateSceneDirection(mockSceneState);
+    expect(gameMaster.lastUsage).toEqual({ promptTokens: 1200, completionTokens: 80 });
+
+    await gameMaster.generateSceneDirection(mockSceneState);
+    expect(gameMaster.lastUsage).toBeUndefined();
+  });
+
+  it('should trace the messages it sends as one debug line', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue(mockOkResponse());
+    const lines: string[] = [];
+    const logger = new Logger({ level: 'debug', write: (line) => lines.push(line) });
+    const gameMaster = new GameMasterOpenAICompatible({ baseURL: 'http://x', model: 'm', trace: true, logger });
+
+    await gameMaster.generateSceneDirection(mockSceneState);
+
+    expect(lines).toHaveLength(1);
+    expect(lines[0]).not.toContain('\n');
+    const line = JSON.parse(lines[0]);
+    expect(line).toEqual(
+      expect.objectContaining({ level: 'debug', zmcdnSessionID: 'test-session-123', backend: 'openai-compatible', model: 'm' })
+    );
+    expect(line.messages).toHaveLength(2);
+  });
+});
@@ -0,0 +1,164 @@
+import { GameMaster, SceneState, TokenUsage, getGameMasterPrompt } from "../GameMaster";
+import { Logger } from "../logging/Logger";
+
+/**
+ * Options for an OpenAI-compatible chat completions endpoint
+ */
+export interface GameMasterOpenAICompatibleOptions {
+  /** Base URL of the API, e.g. "http://localhost:11434/v1" for Ollama */
+  baseURL: string;
+  /** Model name to request */
+  model: string;
+  /** Bearer token; omitted from the request when empty */
+  apiKey?: string;
+  /** Backend name as used in configuration (default "openai-compatible") */
+  name?: string;
+  /** Log the messages sent with each request, at debug level */
+  trace?: boolean;
+  /** Where tracing and unparseable responses are logged (default: a new Logger) */
+  logger?: Logger;
+}
+
+/**
+ * GameMasterOpenAICompatible talks to any OpenAI-compatible chat completions
+ * endpoint (DeepInfra, llama.cpp, Ollama, vLLM, ...) for scene direction
+ */
+export class GameMasterOpenAICompatible implements GameMaster {
+  readonly name: string;
+  private apiKey?: string;
+  private baseURL: string;
+  readonly model: string;
+  lastUsage?: TokenUsage;
+  private lastAnswers: string[] = [];
+  private readonly maxAnswerHistory = 8;
+  private trace: boolean;
+  private logger: Logger;
+
+  constructor(options: GameMasterOpenAICompatibleOptions) {
+    this.name = options.name ?? "openai-compatible";
+    this.apiKey = options.apiKey;
+    this.baseURL = options.baseURL.replace(/\/+$/, "");
+    this.model = options.model;
+    this.trace = options.trace ?? false;
+    this.logger = (options.logger ?? new Logger()).child({ backend: this.name, model: this.model });
+  }
+
+  /**
+   * Get the Art Director answers kept for continuity, oldest first
+   */
+  getHistory(): string[] {
+    return [...this.lastAnswers];
+  }
+
+  /**
+   * Replace the Art Director answer history, e.g. when resuming a persisted session
+   * @param answers Previous answers, oldest first
+   */
+  restoreHistory(answers: string[]): void {
+    this.lastAnswers = answers.slice(Math.max(0, answers.length - this.maxAnswerHistory));
+  }
+
+  /**
+   * Generate scene direction from game state
+   * @param sceneState The current game state including location and recent I/O
+   * @returns The Game Master's response text
+   */
+  async generateSceneDirection(sceneState: SceneState): Promise<string> {
+    this.lastUsage = undefined;
+    const messages = [];
+    messages.push({
+      role: "system",
+      content: `${getGameMasterPrompt()}`,
+    });
+    for (let idx = 0; idx < this.lastAnswers.length; idx++) {
+      messages.push({
+        role: "user",
+        content: `${this.lastAnswers[idx]}`,
+      });
+    }
+    messages.push({
+      role: "user",
+      content: `${JSON.stringify(sceneState)}`,
+    });
+
+    if (this.trace) {
+      this.logger.debug("Art Director request", { zmcdnSessionID: sceneState.zmcdnSessionID, messages });
+    }
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseURL}/chat/completions`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model: this.model,
+        messages,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`API request failed with status ${response.status}`);
+    }
+
+    // Read the streaming response and save to string
+    let savedOutput = "";
+    const reader = response.body?.getReader();
+    const decoder = new TextDecoder();
+    if (reader) {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        const chunk = decoder.decode(value, { stream: true });
+        savedOutput += chunk;
+      }
+    }
+
+    // Parse JSON and extract content
+    let filteredContent = savedOutput;
+    try {
+      const jsonResponse = JSON.parse(savedOutput);
+      if (jsonResponse.usage) {
+        this.lastUsage = {
+          promptTokens: Number(jsonResponse.usage.prompt_tokens) || 0,
+          completionTokens: Number(jsonResponse.usage.completion_tokens) || 0,
+        };
+      }
+      if (
+        jsonResponse.choices &&
+        jsonResponse.choices[0] &&
+        jsonResponse.choices[0].message
+      ) {
+        filteredContent = jsonResponse.choices[0].message.content;
+        // Remove <think>...</think> tags and their contents
+        filteredContent = filteredContent.replace(
+          /<think>[\s\S]*?<\/think>/g,
+          "",
+        );
+        // Extract content between first { and last }
+        const firstBrace = filteredContent.indexOf('{');
+        const lastBrace = filteredContent.lastIndexOf('}');
+        if (firstBrace !== -1 && lastBrace !== -1) {
+          filteredContent = filteredContent.substring(firstBrace, lastBrace + 1);
+        }
+      }
+    } catch (e) {
+      this.logger.warn("Failed to parse Art Director response", {
+        zmcdnSessionID: sceneState.zmcdnSessionID,
+        error: e,
+      });
+    }
+
+    // Store answer for context in future calls
+    this.lastAnswers.push(filteredContent);
+    if (this.lastAnswers.length > this.maxAnswerHistory) {
+      this.lastAnswers.splice(0, this.lastAnswers.length - this.maxAnswerHistory);
+    }
+
+    return filteredContent;
+  }
+}
@@ -1,3 +1,4 @@
+import { Logger } from '../logging/Logger';
 import { GameMasterQwen } from './GameMasterQwen';
 
 // Mock global fetch
@@ -18,6 +19,28 @@ describe('GameMasterQwen', () => {
     });
   });
 
+  describe('history', () => {
+    it('should start with an empty history', () => {
+      expect(gameMaster.getHistory()).toEqual([]);
+    });
+
+    it('should restore history, keeping only the most recent answers', () => {
+      const answers = Array.from({ length: 10 }, (_, i) => `answer-${i}`);
+
+      gameMaster.restoreHistory(answers);
+
+      expect(gameMaster.getHistory()).toEqual(answers.slice(2));
+    });
+
+    it('should return a copy of the history', () => {
+      gameMaster.restoreHistory(['answer-0']);
+
+      gameMaster.getHistory().push('mutated');
+
+      expect(gameMaster.getHistory()).toEqual(['answer-0']);
+    });
+  });
+
   describe('generateSceneDirection', () => {
     const mockSceneState = {
       zmcdnSessionID: 'test-session-123',
@@ -229,17 +252,21 @@ describe('GameMasterQwen', () => {
 
       (global.fetch as jest.Mock).mockResolvedValue(mockResponse);
 
-      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      const lines: string[] = [];
+      gameMaster = new GameMasterQwen(mockApiKey, false, new Logger({ write: (line) => lines.push(line) }));
 
       const result = await gameMaster.generateSceneDirection(mockSceneState);
 
-      expect(consoleErrorSpy).toHaveBeenCalledWith(
-        'Failed to parse JSON response:',
-        expect.any(Error)
+      expect(lines).toHaveLength(1);
+      expect(JSON.parse(lines[0])).toEqual(
+        expect.objectContaining({
+          level: 'warn',
+          msg: 'Failed to parse Art Director response',
+          backend: 'qwen',
+          zmcdnSessionID: mockSceneState.zmcdnSessionID,
+        })
       );
       expect(result).toBe(malformedResponse);
-
-      consoleErrorSpy.mockRestore();
     });
 
     it('should handle response without choices', async () => {
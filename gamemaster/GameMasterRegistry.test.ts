@@ -0,0 +1,96 @@
+import { GameMasterRegistry, createGameMasterRegistry } from './GameMasterRegistry';
+import { GameMasterFallback } from './GameMasterFallback';
+import { GameMasterOpenAICompatible } from './GameMasterOpenAICompatible';
+import { GameMasterQwen } from './GameMasterQwen';
+import { GameMasterRuleBased } from './GameMasterRuleBased';
+
+describe('GameMasterRegistry', () => {
+  it('should create a new instance per call', () => {
+    const registry = new GameMasterRegistry({ defaultBackend: 'rules' });
+    registry.register('rules', () => new GameMasterRuleBased());
+
+    const first = registry.create();
+    const second = registry.create();
+
+    expect(first).toBeInstanceOf(GameMasterRuleBased);
+    expect(first).not.toBe(second);
+  });
+
+  it('should throw for an unknown backend', () => {
+    const registry = new GameMasterRegistry();
+    registry.register('rules', () => new GameMasterRuleBased());
+
+    expect(() => registry.create('gpt')).toThrow('Unknown game master backend: gpt (available: rules)');
+    expect(() => registry.setDefaultBackend('gpt')).toThrow('Unknown game master backend: gpt');
+  });
+
+  it('should change the default backend', () => {
+    const registry = createGameMasterRegistry({});
+
+    registry.setDefaultBackend('rules');
+
+    expect(registry.getDefaultBackend()).toBe('rules');
+    expect(registry.create()).toBeInstanceOf(GameMasterRuleBased);
+  });
+
+  it('should report the configured backends', () => {
+    expect(createGameMasterRegistry({}).configuredBackends()).toEqual(['qwen']);
+
+    const registry = createGameMasterRegistry({ GAMEMASTER: 'rules', GAMEMASTER_FALLBACK: 'qwen' });
+
+    expect(registry.getFallbackBackend()).toBe('qwen');
+    expect(registry.configuredBackends()).toEqual(['rules', 'qwen']);
+  });
+
+  describe('createGameMasterRegistry', () => {
+    it('should default to qwen', () => {
+      const registry = createGameMasterRegistry({});
+
+      expect(registry.names()).toEqual(['qwen', 'openai-compatible', 'rules']);
+      expect(registry.create()).toBeInstanceOf(GameMasterQwen);
+    });
+
+    it('should select the openai-compatible backend', () => {
+      const registry = createGameMasterRegistry({
+        GAMEMASTER: 'openai-compatible',
+        GAMEMASTER_ENDPOINT_URL: 'http://localhost:8080/v1',
+      });
+
+      const gameMaster = registry.create();
+      expect(gameMaster).toBeInstanceOf(GameMasterOpenAICompatible);
+      expect(gameMaster.name).toBe('openai-compatible');
+    });
+
+    it('should wrap the backend with a fallback when configured', () => {
+      const registry = createGameMasterRegistry({ GAMEMASTER_FALLBACK: 'rules' });
+
+      const gameMaster = registry.create();
+      expect(gameMaster).toBeInstanceOf(GameMasterFallback);
+      expect(gameMaster.name).toBe('qwen+rules');
+    });
+
+    it('should decorate the primary and fallback backends separately', () => {
+      const decorated: string[] = [];
+      const registry = createGameMasterRegistry({ GAMEMASTER_FALLBACK: 'rules' }, () => false, (gameMaster) => {
+        decorated.push(gameMaster.name);
+        return gameMaster;
+      });
+
+      registry.create();
+
+      expect(decorated).toEqual(['qwen', 'rules']);
+    });
+
+    it('should not wrap the fallback backend with itself', () => {
+      const registry = createGameMasterRegistry({ GAMEMASTER: 'rules', GAMEMASTER_FALLBACK: 'rules' });
+
+      expect(registry.create()).toBeInstanceOf(GameMasterRuleBased);
+    });
+
+    it('should fail fast on an unknown configured backend', () => {
+      expect(() => createGameMasterRegistry({ GAMEMASTER_FALLBACK: 'magic' })).toThrow(
+        'Unknown game master backend: magic'
+      );
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import { GameMaster } from "../GameMaster";
+import { Logger } from "../logging/Logger";
+import { GameMasterFallback } from "./GameMasterFallback";
+import { GameMasterOpenAICompatible } from "./GameMasterOpenAICompatible";
+import { GameMasterQwen } from "./GameMasterQwen";
+import { GameMasterRuleBased } from "./GameMasterRuleBased";
+
+export type GameMasterFactory = () => GameMaster;
+
+/**
+ * Options selecting the Art Director backend
+ */
+export interface GameMasterRegistryOptions {
+  /** Backend used for new sessions (default "qwen") */
+  defaultBackend?: string;
+  /** Backend to fall back to when the default fails, if any */
+  fallbackBackend?: string;
+  /** Wraps every backend instance, primary and fallback alike, e.g. to measure it */
+  decorate?: (gameMaster: GameMaster) => GameMaster;
+  /** Where falling back is logged (default: a new Logger) */
+  logger?: Logger;
+}
+
+/**
+ * GameMasterRegistry maps backend names to GameMaster factories. Unlike
+ * Illustrators, GameMasters hold per-session history, so create() returns a
+ * new instance every time.
+ */
+export class GameMasterRegistry {
+  private factories = new Map<string, GameMasterFactory>();
+  private defaultBackend: string;
+  private fallbackBackend?: string;
+  private decorate: (gameMaster: GameMaster) => GameMaster;
+  private logger?: Logger;
+
+  constructor(options: GameMasterRegistryOptions = {}) {
+    this.defaultBackend = options.defaultBackend ?? "qwen";
+    this.fallbackBackend = options.fallbackBackend;
+    this.decorate = options.decorate ?? ((gameMaster) => gameMaster);
+    this.logger = options.logger;
+  }
+
+  /**
+   * Register a backend
+   * @param name Backend name as used in configuration
+   * @param factory Creates a new GameMaster for a session
+   */
+  register(name: string, factory: GameMasterFactory): this {
+    this.factories.set(name, factory);
+    return this;
+  }
+
+  /**
+   * Names of all registered backends
+   */
+  names(): string[] {
+    return Array.from(this.factories.keys());
+  }
+
+  /**
+   * Name of the backend used for new sessions
+   */
+  getDefaultBackend(): string {
+    return this.defaultBackend;
+  }
+
+  /**
+   * Name of the backend used when the default fails, if any
+   */
+  getFallbackBackend(): string | undefined {
+    return this.fallbackBackend;
+  }
+
+  /**
+   * Names of the backends new sessions use: the default and the fallback, if any
+   */
+  configuredBackends(): string[] {
+    return this.fallbackBackend ? [this.defaultBackend, this.fallbackBackend] : [this.defaultBackend];
+  }
+
+  /**
+   * Change the backend used for new sessions
+   * @param name Backend name
+   * @throws Error if the backend isn't registered
+   */
+  setDefaultBackend(name: string): void {
+    this.assertRegistered(name);
+    this.defaultBackend = name;
+  }
+
+  /**
+   * Create a new GameMaster, wrapped with the fallback backend if one is configured
+   * @param name Backend name (default: the configured default)
+   * @throws Error if the backend isn't registered
+   */
+  create(name: string = this.defaultBackend): GameMaster {
+    const primary = this.instantiate(name);
+    if (!this.fallbackBackend || this.fallbackBackend === name) {
+      return primary;
+    }
+    return new GameMasterFallback(primary, this.instantiate(this.fallbackBackend), this.logger);
+  }
+
+  /**
+   * Check every configured backend is registered
+   * @throws Error naming the first unknown backend
+   */
+  validate(): void {
+    this.assertRegistered(this.defaultBackend);
+    if (this.fallbackBackend) {
+      this.assertRegistered(this.fallbackBackend);
+    }
+  }
+
+  private instantiate(name: string): GameMaster {
+    this.assertRegistered(name);
+    return this.decorate(this.factories.get(name)!());
+  }
+
+  private assertRegistered(name: string): void {
+    if (!this.factories.has(name)) {
+      throw new Error(
+        `Unknown game master backend: ${name} (available: ${this.names().join(", ")})`,
+      );
+    }
+  }
+}
+
+/**
+ * Create a registry with the built-in backends, configured from the environment:
+ * GAMEMASTER picks the backend, GAMEMASTER_FALLBACK an optional fallback, and
+ * GAMEMASTER_ENDPOINT_URL / GAMEMASTER_ENDPOINT_MODEL / GAMEMASTER_ENDPOINT_API_KEY
+ * configure the openai-compatible backend
+ * @param env Environment variables (default process.env)
+ * @param trace Returns whether trace logging is enabled when a GameMaster is created
+ * @param decorate Wraps every backend instance, e.g. to measure it
+ * @param logger Where the backends log tracing, failures and fallbacks
+ */
+export function createGameMasterRegistry(
+  env: NodeJS.ProcessEnv = process.env,
+  trace: () => boolean = () => false,
+  decorate?: (gameMaster: GameMaster) => GameMaster,
+  logger?: Logger,
+): GameMasterRegistry {
+  const registry = new GameMasterRegistry({
+    defaultBackend: env.GAMEMASTER || "qwen",
+    fallbackBackend: env.GAMEMASTER_FALLBACK || undefined,
+    decorate,
+    logger,
+  });
+  registry.register("qwen", () => new GameMasterQwen(env.GAMEMASTER_API_KEY || "", trace(), logger));
+  registry.register(
+    "openai-compatible",
+    () =>
+      new GameMasterOpenAICompatible({
+        baseURL: env.GAMEMASTER_ENDPOINT_URL || "http://localhost:11434/v1",
+        model: env.GAMEMASTER_ENDPOINT_MODEL || "qwen3:8b",
+        apiKey: env.GAMEMASTER_ENDPOINT_API_KEY,
+        trace: trace(),
+        logger,
+      }),
+  );
+  registry.register("rules", () => new GameMasterRuleBased());
+  registry.validate();
+  return registry;
+}
@@ -0,0 +1,83 @@
+import { GameMasterRuleBased } from './GameMasterRuleBased';
+
+describe('GameMasterRuleBased', () => {
+  let gameMaster: GameMasterRuleBased;
+
+  const sceneState = (playerLocation: string, lastZMachineOutput: string) => ({
+    zmcdnSessionID: 'test-session-123',
+    playerLocation,
+    lastZMachineInput: 'look',
+    lastZMachineOutput,
+  });
+
+  beforeEach(() => {
+    gameMaster = new GameMasterRuleBased();
+  });
+
+  it('should build a direction from playerLocation and the last output', async () => {
+    const result = JSON.parse(
+      await gameMaster.generateSceneDirection(
+        sceneState('West of House', 'You are standing in an open field west of a white house.')
+      )
+    );
+
+    expect(result).toEqual({
+      visual_prompt: 'West of House: You are standing in an open field west of a white house.',
+      reuse_key: 'west_of_house',
+      style_tags: 'retro-320x200, muted palette, moody lighting',
+      repaint: true,
+    });
+  });
+
+  it('should be deterministic across instances', async () => {
+    const state = sceneState('Kitchen', 'You are in the kitchen of the white house.');
+
+    const first = await gameMaster.generateSceneDirection(state);
+    const second = await new GameMasterRuleBased().generateSceneDirection(state);
+
+    expect(second).toBe(first);
+  });
+
+  it('should infer the location from the first output line when playerLocation is empty', async () => {
+    const result = JSON.parse(
+      await gameMaster.generateSceneDirection(
+        sceneState('', 'Living Room\nYou are in the living room.\n\nThere is a trophy case here.')
+      )
+    );
+
+    expect(result.reuse_key).toBe('living_room');
+    expect(result.visual_prompt).toBe('Living Room: There is a trophy case here.');
+  });
+
+  it('should only repaint when the location changes', async () => {
+    const first = JSON.parse(await gameMaster.generateSceneDirection(sceneState('Kitchen', 'Taken.')));
+    const second = JSON.parse(await gameMaster.generateSceneDirection(sceneState('Kitchen', 'Dropped.')));
+    const third = JSON.parse(await gameMaster.generateSceneDirection(sceneState('Attic', 'Dark.')));
+
+    expect(first.repaint).toBe(true);
+    expect(second.repaint).toBe(false);
+    expect(third.repaint).toBe(true);
+  });
+
+  it('should keep visual_prompt within 220 characters', async () => {
+    const result = JSON.parse(
+      await gameMaster.generateSceneDirection(sceneState('Maze', 'twisty '.repeat(100)))
+    );
+
+    expect(result.visual_prompt.length).toBeLessThanOrEqual(220);
+  });
+
+  it('should use a placeholder key when nothing identifies the location', async () => {
+    const result = JSON.parse(await gameMaster.generateSceneDirection(sceneState('', '')));
+
+    expect(result.reuse_key).toBe('unknown_location');
+  });
+
+  it('should honor restored history when deciding to repaint', async () => {
+    gameMaster.restoreHistory([JSON.stringify({ reuse_key: 'kitchen' })]);
+
+    const result = JSON.parse(await gameMaster.generateSceneDirection(sceneState('Kitchen', 'Taken.')));
+
+    expect(result.repaint).toBe(false);
+  });
+});
@@ -0,0 +1,104 @@
+import { GameMaster, SceneState } from "../GameMaster";
+
+/**
+ * GameMasterRuleBased builds scene direction deterministically from
+ * playerLocation and the last interpreter output, without calling an LLM.
+ * Useful for offline development and as a fallback when the LLM is down.
+ */
+export class GameMasterRuleBased implements GameMaster {
+  readonly name = "rules";
+  readonly model = "rules";
+  private lastAnswers: string[] = [];
+  private readonly maxAnswerHistory = 8;
+  private styleTags: string;
+
+  constructor(styleTags: string = "retro-320x200, muted palette, moody lighting") {
+    this.styleTags = styleTags;
+  }
+
+  getHistory(): string[] {
+    return [...this.lastAnswers];
+  }
+
+  restoreHistory(answers: string[]): void {
+    this.lastAnswers = answers.slice(Math.max(0, answers.length - this.maxAnswerHistory));
+  }
+
+  /**
+   * Generate scene direction from game state
+   * @param sceneState The current game state including location and recent I/O
+   * @returns JSON scene direction
+   */
+  async generateSceneDirection(sceneState: SceneState): Promise<string> {
+    const location = this.inferLocation(sceneState);
+    const description = this.lastParagraph(sceneState.lastZMachineOutput || "");
+    const reuseKey = slugify(location) || "unknown_location";
+
+    let visualPrompt = location;
+    if (description && description !== location) {
+      visualPrompt = `${location}: ${description}`;
+    }
+    if (visualPrompt.length > 220) {
+      visualPrompt = `${visualPrompt.substring(0, 217).trimEnd()}...`;
+    }
+
+    // Only repaint when we've moved somewhere new
+    const previousKey = this.previousReuseKey();
+    const direction = JSON.stringify({
+      visual_prompt: visualPrompt,
+      reuse_key: reuseKey,
+      style_tags: this.styleTags,
+      repaint: previousKey !== reuseKey,
+    });
+
+    this.lastAnswers.push(direction);
+    if (this.lastAnswers.length > this.maxAnswerHistory) {
+      this.lastAnswers.splice(0, this.lastAnswers.length - this.maxAnswerHistory);
+    }
+
+    return direction;
+  }
+
+  /**
+   * Use playerLocation if TSZM supplied one, else the first line of the output,
+   * which is where Infocom games print the room name
+   */
+  private inferLocation(sceneState: SceneState): string {
+    const location = (sceneState.playerLocation || "").trim();
+    if (location) return location;
+    const firstLine = (sceneState.lastZMachineOutput || "")
+      .split("\n")
+      .map((line) => line.trim())
+      .find((line) => line.length > 0);
+    return (firstLine || "").substring(0, 60);
+  }
+
+  private lastParagraph(output: string): string {
+    const paragraphs = output
+      .split(/\n\s*\n/)
+      .map((p) => p.replace(/\s+/g, " ").trim())
+      .filter((p) => p.length > 0 && p !== ">");
+    return paragraphs.length > 0 ? paragraphs[paragraphs.length - 1] : "";
+  }
+
+  private previousReuseKey(): string | undefined {
+    const last = this.lastAnswers[this.lastAnswers.length - 1];
+    if (!last) return undefined;
+    try {
+      return JSON.parse(last).reuse_key;
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Lowercase a string and collapse everything but letters and digits to "_"
+ */
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .substring(0, 64);
+}
@@ -0,0 +1,210 @@
+import {
+  SceneDirectionError,
+  parseSceneDirection,
+  repairSceneDirectionText,
+  requestSceneDirection,
+  validateSceneDirection,
+} from './SceneDirection';
+import { GameMaster } from '../GameMaster';
+
+describe('SceneDirection', () => {
+  const validDirection = {
+    visual_prompt: 'A rustic mailbox in front of a white house',
+    reuse_key: 'west_of_house_mailbox_open',
+    style_tags: 'retro-320x200, muted palette',
+    repaint: true,
+  };
+
+  describe('validateSceneDirection', () => {
+    it('should accept a valid direction', () => {
+      expect(validateSceneDirection(validDirection)).toEqual({ ok: true, direction: validDirection });
+    });
+
+    it('should keep unknown fields', () => {
+      const result = validateSceneDirection({ ...validDirection, camera: 'low' });
+
+      expect(result.ok && result.direction.camera).toBe('low');
+    });
+
+    it('should apply defaults for optional fields', () => {
+      const result = validateSceneDirection({ visual_prompt: 'A dark cellar' });
+
+      expect(result).toEqual({
+        ok: true,
+        direction: { visual_prompt: 'A dark cellar', style_tags: '', repaint: true },
+      });
+    });
+
+    it('should normalize style_tags arrays and string booleans', () => {
+      const result = validateSceneDirection({
+        ...validDirection,
+        style_tags: ['retro-320x200', 'misty'],
+        repaint: 'false',
+      });
+
+      expect(result.ok && result.direction.style_tags).toBe('retro-320x200, misty');
+      expect(result.ok && result.direction.repaint).toBe(false);
+    });
+
+    it('should drop an empty reuse_key', () => {
+      const result = validateSceneDirection({ ...validDirection, reuse_key: '  ' });
+
+      expect(result.ok && 'reuse_key' in result.direction).toBe(false);
+    });
+
+    it('should report every problem', () => {
+      const result = validateSceneDirection({ visual_prompt: '', reuse_key: {}, repaint: 'maybe' });
+
+      expect(result).toEqual({
+        ok: false,
+        issues: [
+          'visual_prompt must be a non-empty string',
+          'reuse_key must be a string',
+          'repaint must be a boolean',
+        ],
+      });
+    });
+
+    it('should validate entities', () => {
+      const entities = [{ name: 'thief', kind: 'character', description: 'gaunt man in a grey cloak' }];
+
+      expect(validateSceneDirection({ ...validDirection, entities })).toEqual({
+        ok: true,
+        direction: { ...validDirection, entities },
+      });
+      expect(validateSceneDirection({ ...validDirection, entities: [{ name: 'thief', kind: 'villain' }] })).toEqual({
+        ok: false,
+        issues: ['entities[0].kind must be one of character, item, room'],
+      });
+    });
+
+    it('should drop an empty entities list', () => {
+      const result = validateSceneDirection({ ...validDirection, entities: [] });
+
+      expect(result.ok && 'entities' in result.direction).toBe(false);
+    });
+
+    it('should reject non-objects', () => {
+      expect(validateSceneDirection([validDirection])).toEqual({
+        ok: false,
+        issues: ['scene direction must be a JSON object'],
+      });
+    });
+  });
+
+  describe('repairSceneDirectionText', () => {
+    it('should strip think blocks and code fences', () => {
+      const text = `<think>{"not": "this"}</think>\`\`\`json\n${JSON.stringify(validDirection)}\n\`\`\``;
+
+      expect(repairSceneDirectionText(text)).toEqual(validDirection);
+    });
+
+    it('should extract the first balanced object rather than first { to last }', () => {
+      const text = `${JSON.stringify(validDirection)} and also {"reuse_key": "second"}`;
+
+      expect(repairSceneDirectionText(text)).toEqual(validDirection);
+    });
+
+    it('should fix trailing commas and unquoted keys', () => {
+      const text = '{visual_prompt: "A dark cellar", repaint: false,}';
+
+      expect(repairSceneDirectionText(text)).toEqual({ visual_prompt: 'A dark cellar', repaint: false });
+    });
+
+    it('should return undefined when nothing can be recovered', () => {
+      expect(repairSceneDirectionText('I cannot draw that')).toBeUndefined();
+    });
+  });
+
+  describe('parseSceneDirection', () => {
+    it('should parse valid JSON', () => {
+      expect(parseSceneDirection(JSON.stringify(validDirection))).toEqual(validDirection);
+    });
+
+    it('should repair malformed JSON', () => {
+      expect(parseSceneDirection(`Sure! ${JSON.stringify(validDirection)}`)).toEqual(validDirection);
+    });
+
+    it('should throw SceneDirectionError for unparseable output', () => {
+      expect(() => parseSceneDirection('not json')).toThrow(SceneDirectionError);
+    });
+
+    it('should throw SceneDirectionError with issues for invalid fields', () => {
+      let error: unknown;
+      try {
+        parseSceneDirection('{"reuse_key": "kitchen"}');
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(SceneDirectionError);
+      expect((error as SceneDirectionError).code).toBe('INVALID_SCENE_DIRECTION');
+      expect((error as SceneDirectionError).issues).toEqual(['visual_prompt must be a non-empty string']);
+      expect((error as SceneDirectionError).rawOutput).toBe('{"reuse_key": "kitchen"}');
+    });
+  });
+
+  describe('requestSceneDirection', () => {
+    const sceneState = {
+      zmcdnSessionID: 'test-session-123',
+      playerLocation: 'West of House',
+      lastZMachineInput: 'look',
+      lastZMachineOutput: 'You are standing in an open field.',
+    };
+
+    let history: string[];
+    let gameMaster: jest.Mocked<GameMaster>;
+
+    beforeEach(() => {
+      history = ['earlier'];
+      gameMaster = {
+        name: 'mock',
+        model: 'mock-model',
+        generateSceneDirection: jest.fn(),
+        getHistory: jest.fn(() => [...history]),
+        restoreHistory: jest.fn((answers: string[]) => {
+          history = [...answers];
+        }),
+      };
+    });
+
+    it('should return a valid direction on the first attempt', async () => {
+      gameMaster.generateSceneDirection.mockResolvedValue(JSON.stringify(validDirection));
+
+      expect(await requestSceneDirection(gameMaster, sceneState)).toEqual(validDirection);
+      expect(gameMaster.generateSceneDirection).toHaveBeenCalledTimes(1);
+    });
+
+    it('should re-ask with validation errors after a malformed answer', async () => {
+      gameMaster.generateSceneDirection
+        .mockImplementationOnce(async () => {
+          history.push('bad');
+          return '{"reuse_key": "kitchen"}';
+        })
+        .mockResolvedValueOnce(JSON.stringify(validDirection));
+
+      const result = await requestSceneDirection(gameMaster, sceneState);
+
+      expect(result).toEqual(validDirection);
+      expect(gameMaster.generateSceneDirection).toHaveBeenLastCalledWith({
+        ...sceneState,
+        validationErrors: ['visual_prompt must be a non-empty string'],
+      });
+      expect(gameMaster.restoreHistory).toHaveBeenCalledWith(['earlier']);
+    });
+
+    it('should throw SceneDirectionError once attempts are exhausted', async () => {
+      gameMaster.generateSceneDirection.mockResolvedValue('nope');
+
+      await expect(requestSceneDirection(gameMaster, sceneState)).rejects.toBeInstanceOf(SceneDirectionError);
+      expect(gameMaster.generateSceneDirection).toHaveBeenCalledTimes(2);
+    });
+
+    it('should propagate upstream errors without retrying', async () => {
+      gameMaster.generateSceneDirection.mockRejectedValue(new Error('API request failed with status 500'));
+
+      await expect(requestSceneDirection(gameMaster, sceneState)).rejects.toThrow('API request failed with status 500');
+      expect(gameMaster.generateSceneDirection).toHaveBeenCalledTimes(1);
+    });
+  });
+});
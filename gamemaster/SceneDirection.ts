@@ -0,0 +1,232 @@
+import { GameMaster, SceneState } from "../GameMaster";
+import { Entity, validateEntities } from "../entities/Entity";
+
+/**
+ * Scene direction produced by the Art Director. Fields beyond the known ones
+ * are kept as-is so new prompt fields flow through without code changes.
+ */
+export interface SceneDirection {
+  /** Text-to-image prompt focusing on visible elements */
+  visual_prompt: string;
+  /** Deterministic key for image caching, if the Art Director gave one */
+  reuse_key?: string;
+  /** Comma-separated style tokens for consistency */
+  style_tags: string;
+  /** Whether a new image should be drawn (default true) */
+  repaint: boolean;
+  /** Characters, items and rooms drawn for the first time */
+  entities?: Entity[];
+  [field: string]: unknown;
+}
+
+/**
+ * Thrown when Art Director output can't be turned into a valid SceneDirection
+ */
+export class SceneDirectionError extends Error {
+  readonly code = "INVALID_SCENE_DIRECTION";
+  readonly issues: string[];
+  readonly rawOutput: string;
+
+  constructor(issues: string[], rawOutput: string) {
+    super(`Invalid scene direction: ${issues.join("; ")}`);
+    this.name = "SceneDirectionError";
+    this.issues = issues;
+    this.rawOutput = rawOutput;
+  }
+}
+
+export type SceneDirectionValidation =
+  | { ok: true; direction: SceneDirection }
+  | { ok: false; issues: string[] };
+
+/**
+ * Validate and normalize a parsed value against the SceneDirection schema
+ * @param value Parsed JSON from the Art Director
+ * @returns The normalized direction, or the list of problems found
+ */
+export function validateSceneDirection(value: unknown): SceneDirectionValidation {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return { ok: false, issues: ["scene direction must be a JSON object"] };
+  }
+
+  const input = value as Record<string, unknown>;
+  const issues: string[] = [];
+
+  if (typeof input.visual_prompt !== "string" || input.visual_prompt.trim() === "") {
+    issues.push("visual_prompt must be a non-empty string");
+  }
+
+  let reuseKey: string | undefined;
+  if (typeof input.reuse_key === "string" || typeof input.reuse_key === "number") {
+    reuseKey = String(input.reuse_key).trim() || undefined;
+  } else if (input.reuse_key !== undefined && input.reuse_key !== null) {
+    issues.push("reuse_key must be a string");
+  }
+
+  let styleTags = "";
+  if (typeof input.style_tags === "string") {
+    styleTags = input.style_tags;
+  } else if (Array.isArray(input.style_tags) && input.style_tags.every((tag) => typeof tag === "string")) {
+    styleTags = input.style_tags.join(", ");
+  } else if (input.style_tags !== undefined && input.style_tags !== null) {
+    issues.push("style_tags must be a string or an array of strings");
+  }
+
+  let repaint = true;
+  if (typeof input.repaint === "boolean") {
+    repaint = input.repaint;
+  } else if (input.repaint === "true" || input.repaint === "false") {
+    repaint = input.repaint === "true";
+  } else if (input.repaint !== undefined && input.repaint !== null) {
+    issues.push("repaint must be a boolean");
+  }
+
+  let entities: Entity[] | undefined;
+  if (input.entities !== undefined && input.entities !== null) {
+    const result = validateEntities(input.entities);
+    if (result.ok) {
+      entities = result.entities;
+    } else {
+      issues.push(...result.issues);
+    }
+  }
+
+  if (issues.length > 0) {
+    return { ok: false, issues };
+  }
+
+  const direction: SceneDirection = {
+    ...input,
+    visual_prompt: (input.visual_prompt as string).trim(),
+    style_tags: styleTags,
+    repaint,
+  };
+  if (reuseKey) {
+    direction.reuse_key = reuseKey;
+  } else {
+    delete direction.reuse_key;
+  }
+  if (entities?.length) {
+    direction.entities = entities;
+  } else {
+    delete direction.entities;
+  }
+  return { ok: true, direction };
+}
+
+/**
+ * Best-effort cleanup of LLM output into parseable JSON: drops <think> blocks
+ * and code fences, extracts the first balanced object, and fixes trailing
+ * commas and unquoted keys
+ * @param text Raw Art Director output
+ * @returns The parsed value, or undefined if it still isn't JSON
+ */
+export function repairSceneDirectionText(text: string): unknown {
+  let cleaned = text
+    .replace(/<think>[\s\S]*?<\/think>/g, "")
+    .replace(/```(?:json)?/gi, "")
+    .replace(/[“”]/g, '"');
+
+  const extracted = extractFirstObject(cleaned);
+  if (extracted) {
+    cleaned = extracted;
+  }
+
+  const attempts = [
+    cleaned,
+    cleaned
+      .replace(/,\s*([}\]])/g, "$1")
+      .replace(/([{,]\s*)([A-Za-z_][A-Za-z0-9_]*)\s*:/g, '$1"$2":'),
+  ];
+  for (const attempt of attempts) {
+    try {
+      return JSON.parse(attempt);
+    } catch {
+      // try the next repair
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Parse Art Director output into a validated SceneDirection, repairing it if needed
+ * @param text Raw Art Director output
+ * @throws SceneDirectionError if the output can't be parsed or fails validation
+ */
+export function parseSceneDirection(text: string): SceneDirection {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    parsed = repairSceneDirectionText(text);
+    if (parsed === undefined) {
+      throw new SceneDirectionError(["output is not valid JSON"], text);
+    }
+  }
+
+  const result = validateSceneDirection(parsed);
+  if (!result.ok) {
+    throw new SceneDirectionError(result.issues, text);
+  }
+  return result.direction;
+}
+
+/**
+ * Ask a GameMaster for scene direction and validate it. If the answer is
+ * malformed, re-ask with the validation problems attached to the scene state,
+ * dropping the bad answer from the GameMaster's history first.
+ * @param gameMaster The session's Art Director
+ * @param sceneState The current game state
+ * @param maxAttempts Total attempts including the first (default 2)
+ * @throws SceneDirectionError if no attempt produced a valid direction
+ */
+export async function requestSceneDirection(
+  gameMaster: GameMaster,
+  sceneState: SceneState,
+  maxAttempts: number = 2,
+): Promise<SceneDirection> {
+  let lastError: SceneDirectionError | undefined;
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const history = gameMaster.getHistory();
+    const state: SceneState = lastError
+      ? { ...sceneState, validationErrors: lastError.issues }
+      : sceneState;
+    const output = await gameMaster.generateSceneDirection(state);
+    try {
+      return parseSceneDirection(output);
+    } catch (e) {
+      if (!(e instanceof SceneDirectionError)) throw e;
+      lastError = e;
+      gameMaster.restoreHistory(history);
+    }
+  }
+  throw lastError!;
+}
+
+/**
+ * Find the first balanced {...} in a string, ignoring braces inside strings
+ */
+function extractFirstObject(text: string): string | undefined {
+  const start = text.indexOf("{");
+  if (start === -1) return undefined;
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === "\\") escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === "{") depth++;
+    else if (ch === "}") {
+      depth--;
+      if (depth === 0) return text.substring(start, i + 1);
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,41 @@
+import { parseTranscript } from './Transcript';
+
+describe('parseTranscript', () => {
+  const transcript = [
+    'West of House',
+    'You are standing in an open field west of a white house.',
+    '',
+    '>open mailbox',
+    'Opening the small mailbox reveals a leaflet.',
+    '',
+    '> north',
+    'North of House',
+    'You are facing the north side of a white house.',
+    '>',
+  ].join('\n');
+
+  it('should split commands from the responses to them', () => {
+    expect(parseTranscript(transcript)).toEqual({
+      lastZMachineInput: 'open mailbox\nnorth',
+      lastZMachineOutput: [
+        'West of House\nYou are standing in an open field west of a white house.',
+        'Opening the small mailbox reveals a leaflet.',
+        'North of House\nYou are facing the north side of a white house.',
+      ].join('\n\n'),
+    });
+  });
+
+  it('should keep only the most recent commands and responses', () => {
+    const move = parseTranscript(transcript, 1);
+
+    expect(move.lastZMachineInput).toBe('north');
+    expect(move.lastZMachineOutput).toBe('North of House\nYou are facing the north side of a white house.');
+  });
+
+  it('should treat a transcript without commands as output', () => {
+    expect(parseTranscript('It is pitch black.\r\nYou are likely to be eaten by a grue.\r\n')).toEqual({
+      lastZMachineInput: '',
+      lastZMachineOutput: 'It is pitch black.\nYou are likely to be eaten by a grue.',
+    });
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * The parts of a scene state a pasted game transcript supplies
+ */
+export interface TranscriptMove {
+  /** The most recent commands, oldest first, one per line */
+  lastZMachineInput: string;
+  /** The interpreter's most recent responses, oldest first, separated by blank lines */
+  lastZMachineOutput: string;
+}
+
+/**
+ * Split a game transcript, as copied from an interpreter, into what the
+ * player typed and what the game answered. Lines starting with ">" are
+ * commands; everything else is output of the command before it.
+ * @param text The transcript
+ * @param limit Commands and responses kept, the most recent first (default 8,
+ *   as many as the Art Director is sent per move)
+ */
+export function parseTranscript(text: string, limit: number = 8): TranscriptMove {
+  const inputs: string[] = [];
+  const outputs: string[][] = [[]];
+  for (const line of text.split(/\r?\n/)) {
+    const command = /^\s*>\s*(.*)$/.exec(line);
+    if (command) {
+      if (command[1]) {
+        inputs.push(command[1].trim());
+      }
+      outputs.push([]);
+    } else {
+      outputs[outputs.length - 1].push(line.trimEnd());
+    }
+  }
+  const responses = outputs
+    .map((lines) => lines.join("\n").trim())
+    .filter((response) => response.length > 0);
+  return {
+    lastZMachineInput: inputs.slice(Math.max(0, inputs.length - limit)).join("\n"),
+    lastZMachineOutput: responses.slice(Math.max(0, responses.length - limit)).join("\n\n"),
+  };
+}
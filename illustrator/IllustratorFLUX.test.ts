@@ -1,3 +1,4 @@
+import { Logger } from '../logging/Logger';
 import { IllustratorFLUX } from './IllustratorFLUX';
 
 // Mock global fetch
@@ -5,10 +6,12 @@ global.fetch = jest.fn();
 
 describe('IllustratorFLUX', () => {
   let illustrator: IllustratorFLUX;
+  let lines: string[];
   const mockApiKey = 'test-api-key';
 
   beforeEach(() => {
-    illustrator = new IllustratorFLUX(mockApiKey);
+    lines = [];
+    illustrator = new IllustratorFLUX(mockApiKey, new Logger({ write: (line) => lines.push(line) }));
     jest.clearAllMocks();
   });
 
@@ -16,6 +19,10 @@ describe('IllustratorFLUX', () => {
     it('should create an instance with the provided API key', () => {
       expect(illustrator).toBeInstanceOf(IllustratorFLUX);
     });
+
+    it('should identify itself as the flux backend', () => {
+      expect(illustrator.name).toBe('flux');
+    });
   });
 
   describe('generateImage', () => {
@@ -49,7 +56,16 @@ describe('IllustratorFLUX', () => {
           }),
         }
       );
-      expect(result).toBe(mockBase64Image);
+      expect(result.image.toString('base64')).toBe(mockBase64Image);
+      expect(result).toEqual(
+        expect.objectContaining({
+          mimeType: 'image/png',
+          backend: 'flux',
+          model: 'black-forest-labs/FLUX-1-schnell',
+          size: '512x512',
+          prompt: mockPrompt,
+        })
+      );
     });
 
     it('should successfully generate an image with custom size', async () => {
@@ -70,7 +86,21 @@ describe('IllustratorFLUX', () => {
           body: expect.stringContaining(`"size":"${customSize}"`),
         })
       );
-      expect(result).toBe(mockBase64Image);
+      expect(result.image.toString('base64')).toBe(mockBase64Image);
+      expect(result.size).toBe(customSize);
+    });
+
+    it('should pass the seed through', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({ data: [{ b64_json: mockBase64Image }] }),
+      });
+
+      const result = await illustrator.generateImage(mockPrompt, '512x512', 1234);
+
+      const body = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+      expect(body.seed).toBe(1234);
+      expect(result.seed).toBe(1234);
     });
 
     it('should throw an error when API request fails', async () => {
@@ -84,6 +114,9 @@ describe('IllustratorFLUX', () => {
       await expect(illustrator.generateImage(mockPrompt)).rejects.toThrow(
         'Image generation failed with status 500'
       );
+      expect(JSON.parse(lines[0])).toEqual(
+        expect.objectContaining({ level: 'warn', backend: 'flux', status: 500, response: 'Internal Server Error' })
+      );
     });
 
     it('should throw an error when response has no data array', async () => {
@@ -1,23 +1,36 @@
+import { Illustration, Illustrator, detectImageMimeType } from "../Illustrator";
+import { Logger } from "../logging/Logger";
+
 /**
  * IllustratorFLUX handles image generation using the FLUX-1-schnell model
  */
-export class IllustratorFLUX {
+export class IllustratorFLUX implements Illustrator {
+  readonly name = "flux";
   private apiKey: string;
+  private readonly model = "black-forest-labs/FLUX-1-schnell";
+  private logger: Logger;
 
-  constructor(apiKey: string) {
+  /**
+   * @param apiKey DeepInfra API key
+   * @param logger Where failed generations are logged (default: a new Logger)
+   */
+  constructor(apiKey: string, logger: Logger = new Logger()) {
     this.apiKey = apiKey;
+    this.logger = logger;
   }
 
   /**
    * Generate an image from a text prompt
    * @param prompt The text prompt describing the desired image
    * @param size Image dimensions (default "512x512")
-   * @returns Base64-encoded image data
+   * @param seed Seed for reproducible output (default random)
+   * @returns The decoded image and its metadata
    */
   async generateImage(
     prompt: string,
-    size: string = "512x512"
-  ): Promise<string> {
+    size: string = "512x512",
+    seed?: number,
+  ): Promise<Illustration> {
     const response = await fetch(
       "https://api.deepinfra.com/v1/openai/images/generations",
       {
@@ -29,15 +42,21 @@ export class IllustratorFLUX {
         body: JSON.stringify({
           prompt,
           size,
-          model: "black-forest-labs/FLUX-1-schnell",
+          model: this.model,
           n: 1,
+          ...(seed !== undefined ? { seed } : {}),
         }),
       },
     );
 
     if (!response.ok) {
       const errorText = await response.text();
-      console.error("Image generation API failed:", errorText);
+      this.logger.warn("Image generation failed", {
+        backend: this.name,
+        model: this.model,
+        status: response.status,
+        response: errorText,
+      });
       throw new Error(`Image generation failed with status ${response.status}`);
     }
 
@@ -51,6 +70,15 @@ export class IllustratorFLUX {
       throw new Error("No image data in response");
     }
 
-    return imageResult.data[0].b64_json;
+    const image = Buffer.from(imageResult.data[0].b64_json, "base64");
+    return {
+      image,
+      mimeType: detectImageMimeType(image),
+      backend: this.name,
+      model: this.model,
+      size,
+      prompt,
+      seed,
+    };
   }
-}
\ No newline at end of file
+}
@@ -1,10 +1,18 @@
-import { IllustratorOpenAI } from './IllustratorOpenAI';
+import { IllustratorOpenAI, nearestOpenAISize } from './IllustratorOpenAI';
 import OpenAI from 'openai';
 import fs from 'node:fs';
+import fetch from 'node-fetch';
 
 // Mock OpenAI
 jest.mock('openai');
 jest.mock('node:fs');
+jest.mock('node-fetch', () => ({
+  __esModule: true,
+  default: jest.fn(),
+  Headers: jest.fn(),
+  Request: jest.fn(),
+  Response: jest.fn(),
+}));
 
 describe('IllustratorOpenAI', () => {
   let illustrator: IllustratorOpenAI;
@@ -33,7 +41,7 @@ describe('IllustratorOpenAI', () => {
     const mockPrompt = 'A futuristic cityscape at sunset';
     const mockBase64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==';
 
-    it('should successfully generate an image with default size and return base64 data URI', async () => {
+    it('should successfully generate an image with default size and return its bytes', async () => {
       mockGenerate.mockResolvedValue({
         data: [{ b64_json: mockBase64 }],
       });
@@ -45,11 +53,20 @@ describe('IllustratorOpenAI', () => {
         prompt: mockPrompt,
         size: '1024x1024',
       });
-      expect(result).toBe(`data:image/png;base64,${mockBase64}`);
+      expect(result.image.toString('base64')).toBe(mockBase64);
+      expect(result).toEqual(
+        expect.objectContaining({
+          mimeType: 'image/png',
+          backend: 'openai',
+          model: 'gpt-image-1',
+          size: '1024x1024',
+          prompt: mockPrompt,
+        })
+      );
     });
 
     it('should successfully generate an image with custom size', async () => {
-      const customSize: '1792x1024' = '1792x1024';
+      const customSize: '1536x1024' = '1536x1024';
       mockGenerate.mockResolvedValue({
         data: [{ b64_json: mockBase64 }],
       });
@@ -61,7 +78,7 @@ describe('IllustratorOpenAI', () => {
         prompt: mockPrompt,
         size: customSize,
       });
-      expect(result).toBe(`data:image/png;base64,${mockBase64}`);
+      expect(result.size).toBe(customSize);
     });
 
     it('should save base64 image to file when saveToFile is provided', async () => {
@@ -70,27 +87,59 @@ describe('IllustratorOpenAI', () => {
         data: [{ b64_json: mockBase64 }],
       });
 
-      const result = await illustrator.generateImage(mockPrompt, '1024x1024', filePath);
+      const result = await illustrator.generateImage(mockPrompt, '1024x1024', undefined, filePath);
 
       expect(fs.writeFileSync).toHaveBeenCalledWith(
         filePath,
         expect.any(Buffer)
       );
-      expect(result).toBe(`Saved image to ${filePath}`);
+      expect(result.image.toString('base64')).toBe(mockBase64);
     });
 
-    it('should return URL when API returns URL instead of base64', async () => {
+    it('should download the image when API returns URL instead of base64', async () => {
       const mockUrl = 'https://example.com/image.png';
+      const bytes = Buffer.from(mockBase64, 'base64');
       mockGenerate.mockResolvedValue({
         data: [{ url: mockUrl }],
       });
+      (fetch as unknown as jest.Mock).mockResolvedValue({
+        ok: true,
+        arrayBuffer: jest.fn().mockResolvedValue(
+          bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.length)
+        ),
+      });
 
       const result = await illustrator.generateImage(mockPrompt);
 
-      expect(result).toBe(mockUrl);
+      expect(fetch).toHaveBeenCalledWith(mockUrl);
+      expect(result.image.equals(bytes)).toBe(true);
       expect(fs.writeFileSync).not.toHaveBeenCalled();
     });
 
+    it('should throw error when the image URL cannot be downloaded', async () => {
+      mockGenerate.mockResolvedValue({
+        data: [{ url: 'https://example.com/image.png' }],
+      });
+      (fetch as unknown as jest.Mock).mockResolvedValue({ ok: false, status: 404 });
+
+      await expect(illustrator.generateImage(mockPrompt)).rejects.toThrow(
+        'Image download failed with status 404'
+      );
+    });
+
+    it('should map unsupported sizes to the closest supported aspect ratio', async () => {
+      mockGenerate.mockResolvedValue({
+        data: [{ b64_json: mockBase64 }],
+      });
+
+      const result = await illustrator.generateImage(mockPrompt, '512x512');
+
+      expect(mockGenerate).toHaveBeenCalledWith(
+        expect.objectContaining({ size: '1024x1024' })
+      );
+      expect(result.size).toBe('1024x1024');
+    });
+
     it('should throw error when no image data is returned', async () => {
       mockGenerate.mockResolvedValue({
         data: [],
@@ -128,10 +177,10 @@ describe('IllustratorOpenAI', () => {
     });
 
     it('should handle all valid size options', async () => {
-      const sizes: Array<'1024x1024' | '1792x1024' | '1024x1792'> = [
+      const sizes: Array<'1024x1024' | '1536x1024' | '1024x1536'> = [
         '1024x1024',
-        '1792x1024',
-        '1024x1792',
+        '1536x1024',
+        '1024x1536',
       ];
 
       for (const size of sizes) {
@@ -153,7 +202,7 @@ describe('IllustratorOpenAI', () => {
         data: [{ b64_json: mockBase64 }],
       });
 
-      await illustrator.generateImage(mockPrompt, '1024x1024', filePath);
+      await illustrator.generateImage(mockPrompt, '1024x1024', undefined, filePath);
 
       const callArgs = (fs.writeFileSync as jest.Mock).mock.calls[0];
       expect(callArgs[0]).toBe(filePath);
@@ -161,4 +210,25 @@ describe('IllustratorOpenAI', () => {
       expect(callArgs[1].toString('base64')).toBe(mockBase64);
     });
   });
+
+  describe('nearestOpenAISize', () => {
+    it('should keep supported sizes', () => {
+      expect(nearestOpenAISize('1024x1536')).toBe('1024x1536');
+    });
+
+    it('should pick the closest aspect ratio', () => {
+      expect(nearestOpenAISize('320x200')).toBe('1536x1024');
+      expect(nearestOpenAISize('200x320')).toBe('1024x1536');
+      expect(nearestOpenAISize('512x512')).toBe('1024x1024');
+    });
+
+    it('should map sizes gpt-image-1 rejects onto ones it accepts', () => {
+      expect(nearestOpenAISize('1792x1024')).toBe('1536x1024');
+      expect(nearestOpenAISize('1024x1792')).toBe('1024x1536');
+    });
+
+    it('should default to square for malformed sizes', () => {
+      expect(nearestOpenAISize('large')).toBe('1024x1024');
+    });
+  });
 });
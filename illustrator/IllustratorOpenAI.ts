@@ -2,6 +2,7 @@ import OpenAI from "openai";
 import fs from "node:fs";
 import fetch, { Headers, Request, Response } from "node-fetch";
 import FormData from "form-data";
+import { Illustration, Illustrator, detectImageMimeType } from "../Illustrator";
 
 // Polyfill globals for OpenAI client
 if (!globalThis.fetch) {
@@ -12,8 +13,40 @@ if (!globalThis.fetch) {
   (globalThis as any).FormData = FormData;
 }
 
-export class IllustratorOpenAI {
+type OpenAIImageSize = "1024x1024" | "1536x1024" | "1024x1536";
+
+const SUPPORTED_SIZES: OpenAIImageSize[] = ["1024x1024", "1536x1024", "1024x1536"];
+
+/**
+ * Map an arbitrary "WxH" size onto the gpt-image-1 size with the closest aspect ratio
+ * @param size Requested size, e.g. "512x512"
+ */
+export function nearestOpenAISize(size: string): OpenAIImageSize {
+  if ((SUPPORTED_SIZES as string[]).includes(size)) {
+    return size as OpenAIImageSize;
+  }
+  const match = /^(\d+)x(\d+)$/.exec(size);
+  if (!match || Number(match[2]) === 0) {
+    return "1024x1024";
+  }
+  const ratio = Number(match[1]) / Number(match[2]);
+  let best: OpenAIImageSize = "1024x1024";
+  let bestDistance = Infinity;
+  for (const candidate of SUPPORTED_SIZES) {
+    const [w, h] = candidate.split("x").map(Number);
+    const distance = Math.abs(Math.log(ratio) - Math.log(w / h));
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+export class IllustratorOpenAI implements Illustrator {
+  readonly name = "openai";
   private client: OpenAI;
+  private readonly model = "gpt-image-1";
 
   constructor(apiKey: string) {
     this.client = new OpenAI({ apiKey });
@@ -22,18 +55,22 @@ export class IllustratorOpenAI {
   /**
    * Generate an image from a text prompt
    * @param prompt The description of the image
-   * @param size Image size (e.g. "512x512", "1024x1024", "1024x1536", "1536x1024")
-   * @param saveToFile Optional local file path to save the image (if base64 format)
+   * @param size Image size; mapped onto "1024x1024", "1536x1024" or "1024x1536" (default "1024x1024")
+   * @param _seed Ignored; gpt-image-1 doesn't take a seed
+   * @param saveToFile Optional local file path to also save the image to
+   * @returns The image and its metadata
    */
   async generateImage(
     prompt: string,
-    size: "1024x1024" | "1792x1024" | "1024x1792" = "1024x1024",
+    size: string = "1024x1024",
+    _seed?: number,
     saveToFile?: string,
-  ): Promise<string> {
+  ): Promise<Illustration> {
+    const requestSize = nearestOpenAISize(size);
     const resp = await this.client.images.generate({
-      model: "gpt-image-1",
+      model: this.model,
       prompt,
-      size,
+      size: requestSize,
     });
 
     // Check if we got base64 data or URL
@@ -42,22 +79,31 @@ export class IllustratorOpenAI {
       throw new Error("No image data returned");
     }
 
-    // Handle base64 data
+    let image: Buffer;
     if (imageData.b64_json) {
-      const buffer = Buffer.from(imageData.b64_json, "base64");
-      if (saveToFile) {
-        fs.writeFileSync(saveToFile, buffer);
-        return `Saved image to ${saveToFile}`;
+      image = Buffer.from(imageData.b64_json, "base64");
+    } else if (imageData.url) {
+      // Download the image so callers always get bytes
+      const download = await fetch(imageData.url);
+      if (!download.ok) {
+        throw new Error(`Image download failed with status ${download.status}`);
       }
-      // Return as data URI if no save path
-      return `data:image/png;base64,${imageData.b64_json}`;
+      image = Buffer.from(await download.arrayBuffer());
+    } else {
+      throw new Error("No image URL or data returned");
     }
 
-    // Handle URL
-    if (imageData.url) {
-      return imageData.url;
+    if (saveToFile) {
+      fs.writeFileSync(saveToFile, image);
     }
 
-    throw new Error("No image URL or data returned");
+    return {
+      image,
+      mimeType: detectImageMimeType(image),
+      backend: this.name,
+      model: this.model,
+      size: requestSize,
+      prompt,
+    };
   }
 }
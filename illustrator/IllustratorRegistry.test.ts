@@ -0,0 +1,122 @@
+import { IllustratorRegistry, createIllustratorRegistry, parseGameBackends } from './IllustratorRegistry';
+import { IllustratorFLUX } from './IllustratorFLUX';
+import { IllustratorOpenAI } from './IllustratorOpenAI';
+import { Illustrator } from '../Illustrator';
+
+jest.mock('openai');
+
+describe('IllustratorRegistry', () => {
+  const makeIllustrator = (name: string): Illustrator => ({
+    name,
+    generateImage: jest.fn(),
+  });
+
+  let registry: IllustratorRegistry;
+  let alphaFactory: jest.Mock;
+
+  beforeEach(() => {
+    alphaFactory = jest.fn(() => makeIllustrator('alpha'));
+    registry = new IllustratorRegistry({
+      defaultBackend: 'alpha',
+      gameBackends: { '59.860730': 'beta' },
+    });
+    registry.register('alpha', alphaFactory);
+    registry.register('beta', () => makeIllustrator('beta'));
+  });
+
+  it('should list registered backends', () => {
+    expect(registry.names()).toEqual(['alpha', 'beta']);
+  });
+
+  it('should create backends lazily and reuse them', () => {
+    expect(alphaFactory).not.toHaveBeenCalled();
+
+    const first = registry.get('alpha');
+    const second = registry.get('alpha');
+
+    expect(first).toBe(second);
+    expect(alphaFactory).toHaveBeenCalledTimes(1);
+  });
+
+  it('should decorate each backend once, when it is created', () => {
+    const decorate = jest.fn((illustrator: Illustrator) => ({ ...illustrator, name: `measured-${illustrator.name}` }));
+    registry = new IllustratorRegistry({ defaultBackend: 'alpha', decorate });
+    registry.register('alpha', alphaFactory);
+
+    expect(registry.get('alpha').name).toBe('measured-alpha');
+    expect(registry.forGame('59.860730')).toBe(registry.get('alpha'));
+    expect(decorate).toHaveBeenCalledTimes(1);
+  });
+
+  it('should throw for an unknown backend', () => {
+    expect(() => registry.get('gamma')).toThrow('Unknown illustrator backend: gamma');
+  });
+
+  it('should use the default backend for games without an override', () => {
+    expect(registry.forGame('88.840726').name).toBe('alpha');
+    expect(registry.forGame().name).toBe('alpha');
+  });
+
+  it('should use the per-game override when configured', () => {
+    expect(registry.backendFor('59.860730')).toBe('beta');
+    expect(registry.forGame('59.860730').name).toBe('beta');
+  });
+
+  it('should change the default and per-game backends at runtime', () => {
+    registry.setDefaultBackend('beta');
+    registry.setGameBackend('59.860730', 'alpha');
+
+    expect(registry.backendFor('88.840726')).toBe('beta');
+    expect(registry.backendFor('59.860730')).toBe('alpha');
+
+    registry.setGameBackend('59.860730');
+    expect(registry.backendFor('59.860730')).toBe('beta');
+  });
+
+  it('should reject unknown backends in configuration', () => {
+    expect(() => registry.setDefaultBackend('gamma')).toThrow('Unknown illustrator backend: gamma');
+
+    const misconfigured = new IllustratorRegistry({ defaultBackend: 'gamma' });
+    misconfigured.register('alpha', alphaFactory);
+    expect(() => misconfigured.validate()).toThrow('Unknown illustrator backend: gamma (available: alpha)');
+  });
+
+  describe('parseGameBackends', () => {
+    it('should parse game=backend pairs', () => {
+      expect(parseGameBackends('59.860730=openai, 88.840726 = flux')).toEqual({
+        '59.860730': 'openai',
+        '88.840726': 'flux',
+      });
+    });
+
+    it('should ignore empty and malformed entries', () => {
+      expect(parseGameBackends(undefined)).toEqual({});
+      expect(parseGameBackends('bogus,,=flux')).toEqual({});
+    });
+  });
+
+  describe('createIllustratorRegistry', () => {
+    it('should register the built-in backends with flux as default', () => {
+      const defaults = createIllustratorRegistry({});
+
+      expect(defaults.names()).toEqual(['flux', 'openai']);
+      expect(defaults.forGame('88.840726')).toBeInstanceOf(IllustratorFLUX);
+    });
+
+    it('should honor ILLUSTRATOR and ILLUSTRATOR_GAME_BACKENDS', () => {
+      const configured = createIllustratorRegistry({
+        ILLUSTRATOR: 'openai',
+        ILLUSTRATOR_GAME_BACKENDS: '88.840726=flux',
+      });
+
+      expect(configured.forGame('59.860730')).toBeInstanceOf(IllustratorOpenAI);
+      expect(configured.forGame('88.840726')).toBeInstanceOf(IllustratorFLUX);
+    });
+
+    it('should fail fast on an unknown configured backend', () => {
+      expect(() => createIllustratorRegistry({ ILLUSTRATOR: 'dalle' })).toThrow(
+        'Unknown illustrator backend: dalle'
+      );
+    });
+  });
+});
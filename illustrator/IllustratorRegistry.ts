@@ -0,0 +1,172 @@
+import { Illustrator } from "../Illustrator";
+import { Logger } from "../logging/Logger";
+import { IllustratorFLUX } from "./IllustratorFLUX";
+import { IllustratorOpenAI } from "./IllustratorOpenAI";
+
+export type IllustratorFactory = () => Illustrator;
+
+/**
+ * Options selecting which backend each game uses
+ */
+export interface IllustratorRegistryOptions {
+  /** Backend used when a game has no override (default "flux") */
+  defaultBackend?: string;
+  /** Per-gameIdentifier backend overrides */
+  gameBackends?: Record<string, string>;
+  /** Wraps every backend instance, e.g. to measure it */
+  decorate?: (illustrator: Illustrator) => Illustrator;
+}
+
+/**
+ * IllustratorRegistry maps backend names to Illustrator factories and picks
+ * the backend for each game. Instances are created lazily and reused.
+ */
+export class IllustratorRegistry {
+  private factories = new Map<string, IllustratorFactory>();
+  private instances = new Map<string, Illustrator>();
+  private defaultBackend: string;
+  private gameBackends: Record<string, string>;
+  private decorate: (illustrator: Illustrator) => Illustrator;
+
+  constructor(options: IllustratorRegistryOptions = {}) {
+    this.defaultBackend = options.defaultBackend ?? "flux";
+    this.gameBackends = { ...(options.gameBackends ?? {}) };
+    this.decorate = options.decorate ?? ((illustrator) => illustrator);
+  }
+
+  /**
+   * Register a backend
+   * @param name Backend name as used in configuration
+   * @param factory Creates the backend's Illustrator on first use
+   */
+  register(name: string, factory: IllustratorFactory): this {
+    this.factories.set(name, factory);
+    this.instances.delete(name);
+    return this;
+  }
+
+  /**
+   * Names of all registered backends
+   */
+  names(): string[] {
+    return Array.from(this.factories.keys());
+  }
+
+  /**
+   * Get a backend by name
+   * @param name Backend name
+   * @throws Error if the backend isn't registered
+   */
+  get(name: string): Illustrator {
+    let instance = this.instances.get(name);
+    if (!instance) {
+      const factory = this.factories.get(name);
+      if (!factory) {
+        throw new Error(`Unknown illustrator backend: ${name}`);
+      }
+      instance = this.decorate(factory());
+      this.instances.set(name, instance);
+    }
+    return instance;
+  }
+
+  /**
+   * Name of the backend configured for a game
+   * @param gameIdentifier Game release/serial, or undefined for the default
+   */
+  backendFor(gameIdentifier?: string): string {
+    return (gameIdentifier && this.gameBackends[gameIdentifier]) || this.defaultBackend;
+  }
+
+  /**
+   * Get the Illustrator configured for a game
+   * @param gameIdentifier Game release/serial, or undefined for the default
+   */
+  forGame(gameIdentifier?: string): Illustrator {
+    return this.get(this.backendFor(gameIdentifier));
+  }
+
+  /**
+   * Change the default backend
+   * @param name Backend name
+   * @throws Error if the backend isn't registered
+   */
+  setDefaultBackend(name: string): void {
+    this.assertRegistered(name);
+    this.defaultBackend = name;
+  }
+
+  /**
+   * Override the backend for one game, or clear the override
+   * @param gameIdentifier Game release/serial
+   * @param name Backend name, or undefined to use the default
+   * @throws Error if the backend isn't registered
+   */
+  setGameBackend(gameIdentifier: string, name?: string): void {
+    if (name === undefined) {
+      delete this.gameBackends[gameIdentifier];
+      return;
+    }
+    this.assertRegistered(name);
+    this.gameBackends[gameIdentifier] = name;
+  }
+
+  /**
+   * Check every configured backend is registered
+   * @throws Error naming the first unknown backend
+   */
+  validate(): void {
+    this.assertRegistered(this.defaultBackend);
+    for (const name of Object.values(this.gameBackends)) {
+      this.assertRegistered(name);
+    }
+  }
+
+  private assertRegistered(name: string): void {
+    if (!this.factories.has(name)) {
+      throw new Error(
+        `Unknown illustrator backend: ${name} (available: ${this.names().join(", ")})`,
+      );
+    }
+  }
+}
+
+/**
+ * Parse a per-game backend list of the form "59.860730=openai,88.840726=flux"
+ * @param spec The list, typically from ILLUSTRATOR_GAME_BACKENDS
+ */
+export function parseGameBackends(spec?: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  if (!spec) return result;
+  for (const pair of spec.split(",")) {
+    const [gameIdentifier, backend] = pair.split("=").map((part) => part.trim());
+    if (gameIdentifier && backend) {
+      result[gameIdentifier] = backend;
+    }
+  }
+  return result;
+}
+
+/**
+ * Create a registry with the built-in backends, configured from the environment:
+ * ILLUSTRATOR picks the default backend and ILLUSTRATOR_GAME_BACKENDS overrides
+ * it per game
+ * @param env Environment variables (default process.env)
+ * @param decorate Wraps every backend instance, e.g. to measure it
+ * @param logger Where the backends log failures
+ */
+export function createIllustratorRegistry(
+  env: NodeJS.ProcessEnv = process.env,
+  decorate?: (illustrator: Illustrator) => Illustrator,
+  logger?: Logger,
+): IllustratorRegistry {
+  const registry = new IllustratorRegistry({
+    defaultBackend: env.ILLUSTRATOR || "flux",
+    gameBackends: parseGameBackends(env.ILLUSTRATOR_GAME_BACKENDS),
+    decorate,
+  });
+  registry.register("flux", () => new IllustratorFLUX(env.GAMEMASTER_API_KEY || "", logger));
+  registry.register("openai", () => new IllustratorOpenAI(env.OPENAI_API_KEY || ""));
+  registry.validate();
+  return registry;
+}
@@ -0,0 +1,144 @@
+import { JobEvent, JobLimitError, JobRegistry, createJobRegistry } from './JobRegistry';
+
+describe('JobRegistry', () => {
+  let now: number;
+  let registry: JobRegistry<string>;
+  const toError = (error: unknown) => ({ status: 500, body: { error: String(error) } });
+
+  const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+  beforeEach(() => {
+    now = 1000;
+    registry = new JobRegistry({ ttlMs: 500, maxJobs: 3, now: () => now });
+  });
+
+  it('should return a pending job before any work starts', () => {
+    const run = jest.fn().mockResolvedValue('result');
+
+    const job = registry.start(run, toError);
+
+    expect(job).toMatchObject({ status: 'pending', stage: 'queued', createdAt: 1000 });
+    expect(job.id).toMatch(/^[0-9a-f-]{36}$/);
+    expect(run).not.toHaveBeenCalled();
+    expect(registry.get(job.id)).toBe(job);
+  });
+
+  it('should record progress and the result', async () => {
+    const job = registry.start(async (progress) => {
+      progress('directing');
+      progress('illustrating');
+      progress('illustrating');
+      progress('encoding');
+      return 'image';
+    }, toError);
+    await settle();
+
+    expect(job.status).toBe('done');
+    expect(job.result).toBe('image');
+    expect(job.events.map((event) => event.type === 'progress' ? event.stage : event.type)).toEqual(
+      ['queued', 'directing', 'illustrating', 'encoding', 'done']
+    );
+  });
+
+  it('should record failures through toError', async () => {
+    const job = registry.start(() => Promise.reject('upstream down'), toError);
+    await settle();
+
+    expect(job.status).toBe('failed');
+    expect(job.error).toEqual({ status: 500, body: { error: 'upstream down' } });
+    expect(job.events[job.events.length - 1]).toMatchObject({ type: 'failed', error: job.error });
+  });
+
+  it('should notify subscribers of new events until they unsubscribe', async () => {
+    let finish!: (value: string) => void;
+    const job = registry.start(
+      (progress) => new Promise((resolve) => {
+        progress('directing');
+        finish = resolve;
+      }),
+      toError
+    );
+    const events: JobEvent[] = [];
+    const unsubscribe = registry.subscribe(job.id, (event) => events.push(event));
+
+    await settle();
+    expect(events).toEqual([{ type: 'progress', stage: 'directing', at: 1000 }]);
+
+    unsubscribe();
+    finish('image');
+    await settle();
+    expect(events).toHaveLength(1);
+    expect(job.status).toBe('done');
+  });
+
+  it('should ignore progress after the job has finished', async () => {
+    let progressLater!: (stage: 'encoding') => void;
+    const job = registry.start(async (progress) => {
+      progressLater = progress;
+      return 'image';
+    }, toError);
+    await settle();
+
+    progressLater('encoding');
+
+    expect(job.stage).toBe('queued');
+    expect(job.events[job.events.length - 1].type).toBe('done');
+  });
+
+  it('should expire finished jobs after the TTL but keep running ones', async () => {
+    const finished = registry.start(async () => 'image', toError);
+    const running = registry.start(() => new Promise(() => {}), toError);
+    await settle();
+
+    now += 500;
+
+    expect(registry.get(finished.id)).toBeUndefined();
+    expect(registry.get(running.id)).toBe(running);
+  });
+
+  it('should drop the oldest finished jobs past maxJobs', async () => {
+    const first = registry.start(async () => 'a', toError);
+    const second = registry.start(async () => 'b', toError);
+    await settle();
+    registry.start(() => new Promise(() => {}), toError);
+    registry.start(() => new Promise(() => {}), toError);
+
+    expect(registry.get(first.id)).toBeUndefined();
+    expect(registry.get(second.id)).toBe(second);
+    expect(registry.size).toBe(3);
+  });
+
+  it('should refuse new jobs while maxJobs are running', async () => {
+    const finishers: Array<() => void> = [];
+    const run = () => new Promise<string>((resolve) => finishers.push(() => resolve('done')));
+    registry.start(run, toError);
+    registry.start(run, toError);
+    registry.start(run, toError);
+
+    expect(() => registry.start(run, toError)).toThrow(JobLimitError);
+    expect(registry.size).toBe(3);
+
+    await settle();
+    finishers[0]();
+    await settle();
+
+    expect(registry.start(run, toError).status).toBe('pending');
+  });
+
+  describe('createJobRegistry', () => {
+    it('should read limits from the environment', () => {
+      const limited = createJobRegistry<string>({ JOB_MAX: '1' });
+      limited.start(() => new Promise<string>(() => {}), toError);
+
+      expect(() => limited.start(async () => 'done', toError)).toThrow(JobLimitError);
+    });
+
+    it.each([
+      ['JOB_MAX', 'abc'],
+      ['JOB_MAX', '0'],
+      ['JOB_TTL_MS', '-5'],
+    ])('should reject %s=%s', (name, value) => {
+      expect(() => createJobRegistry({ [name]: value })).toThrow(`Invalid ${name}: ${value}`);
+    });
+  });
+});
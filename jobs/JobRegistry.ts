@@ -0,0 +1,222 @@
+import crypto from "crypto";
+import { EventEmitter } from "events";
+
+/**
+ * Stages a job passes through while it runs
+ */
+export type JobStage = "queued" | "directing" | "illustrating" | "encoding";
+
+export type JobStatus = "pending" | "done" | "failed";
+
+/**
+ * Why a job failed, as the HTTP status and JSON body the synchronous path
+ * would have responded with
+ */
+export interface JobError {
+  status: number;
+  body: Record<string, unknown>;
+  /** When to try again, sent as Retry-After, e.g. for a move refused over a budget */
+  retryAfterSeconds?: number;
+}
+
+/**
+ * Something that happened to a job
+ */
+export type JobEvent =
+  | { type: "progress"; stage: JobStage; at: number }
+  | { type: "done"; at: number }
+  | { type: "failed"; error: JobError; at: number };
+
+/**
+ * A job and everything that has happened to it so far
+ */
+export interface Job<T> {
+  id: string;
+  status: JobStatus;
+  stage: JobStage;
+  createdAt: number;
+  updatedAt: number;
+  /** Every event so far, so late subscribers can catch up */
+  events: JobEvent[];
+  result?: T;
+  error?: JobError;
+}
+
+/**
+ * Thrown by JobRegistry.start() when maxJobs jobs are already running
+ */
+export class JobLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "JobLimitError";
+  }
+}
+
+/**
+ * Options controlling how long jobs are kept
+ */
+export interface JobRegistryOptions {
+  /** Time in milliseconds a finished job stays retrievable (default 10 minutes) */
+  ttlMs?: number;
+  /**
+   * Maximum number of jobs kept; the oldest finished ones are dropped past
+   * this, and no more are started while this many are running (default 1000)
+   */
+  maxJobs?: number;
+  /** Clock source, overridable for tests */
+  now?: () => number;
+}
+
+/**
+ * JobRegistry runs work in the background and keeps its progress and result
+ * so clients can poll for it or subscribe to its events
+ */
+export class JobRegistry<T> {
+  private jobs = new Map<string, Job<T>>();
+  private emitter = new EventEmitter();
+  private readonly ttlMs: number;
+  private readonly maxJobs: number;
+  private now: () => number;
+
+  constructor(options: JobRegistryOptions = {}) {
+    this.ttlMs = options.ttlMs ?? 10 * 60 * 1000;
+    this.maxJobs = options.maxJobs ?? 1000;
+    this.now = options.now ?? Date.now;
+    // Every SSE client is a listener
+    this.emitter.setMaxListeners(0);
+  }
+
+  /**
+   * Start a job
+   * @param run The work; calls progress as it moves between stages
+   * @param toError Turns whatever run throws into a JobError
+   * @returns The new job, still pending
+   * @throws JobLimitError if maxJobs jobs are already running
+   */
+  start(
+    run: (progress: (stage: JobStage) => void) => Promise<T>,
+    toError: (error: unknown) => JobError,
+  ): Job<T> {
+    this.expire();
+    // Make room by dropping the oldest finished jobs; running ones are kept
+    for (const [id, existing] of this.jobs) {
+      if (this.jobs.size < this.maxJobs) break;
+      if (existing.status !== "pending") {
+        this.jobs.delete(id);
+      }
+    }
+    if (this.jobs.size >= this.maxJobs) {
+      throw new JobLimitError(`${this.jobs.size} jobs are already running`);
+    }
+
+    const now = this.now();
+    const job: Job<T> = {
+      id: crypto.randomUUID(),
+      status: "pending",
+      stage: "queued",
+      createdAt: now,
+      updatedAt: now,
+      events: [{ type: "progress", stage: "queued", at: now }],
+    };
+    this.jobs.set(job.id, job);
+
+    const progress = (stage: JobStage) => {
+      if (job.status !== "pending" || job.stage === stage) return;
+      job.stage = stage;
+      this.emit(job, { type: "progress", stage, at: this.now() });
+    };
+
+    // Defer so the caller can respond with the job before any work happens
+    setImmediate(() => {
+      run(progress).then(
+        (result) => {
+          job.status = "done";
+          job.result = result;
+          this.emit(job, { type: "done", at: this.now() });
+        },
+        (error) => {
+          job.status = "failed";
+          job.error = toError(error);
+          this.emit(job, { type: "failed", error: job.error, at: this.now() });
+        },
+      );
+    });
+
+    return job;
+  }
+
+  /**
+   * Get a job
+   * @param id The job ID
+   * @returns The job, or undefined if it doesn't exist or has expired
+   */
+  get(id: string): Job<T> | undefined {
+    this.expire();
+    return this.jobs.get(id);
+  }
+
+  /**
+   * Listen for a job's events from now on
+   * @param id The job ID
+   * @param listener Called with each new event
+   * @returns A function that stops listening
+   */
+  subscribe(id: string, listener: (event: JobEvent) => void): () => void {
+    this.emitter.on(id, listener);
+    return () => {
+      this.emitter.off(id, listener);
+    };
+  }
+
+  /**
+   * Number of jobs kept
+   */
+  get size(): number {
+    this.expire();
+    return this.jobs.size;
+  }
+
+  /**
+   * Drop finished jobs older than ttlMs
+   * @returns The number of jobs dropped
+   */
+  expire(): number {
+    const cutoff = this.now() - this.ttlMs;
+    let expired = 0;
+    for (const [id, job] of this.jobs) {
+      if (job.status !== "pending" && job.updatedAt <= cutoff) {
+        this.jobs.delete(id);
+        expired++;
+      }
+    }
+    return expired;
+  }
+
+  private emit(job: Job<T>, event: JobEvent): void {
+    job.updatedAt = event.at;
+    job.events.push(event);
+    this.emitter.emit(job.id, event);
+  }
+}
+
+/**
+ * Create a job registry from environment settings: JOB_TTL_MS (default 10
+ * minutes) and JOB_MAX (default 1000)
+ * @param env Environment variables (default process.env)
+ * @throws Error if a setting isn't a positive integer
+ */
+export function createJobRegistry<T>(env: NodeJS.ProcessEnv = process.env): JobRegistry<T> {
+  const setting = (name: string): number | undefined => {
+    const value = env[name];
+    if (value === undefined || value === "") return undefined;
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed <= 0) {
+      throw new Error(`Invalid ${name}: ${value}`);
+    }
+    return parsed;
+  };
+  return new JobRegistry<T>({
+    ttlMs: setting("JOB_TTL_MS"),
+    maxJobs: setting("JOB_MAX"),
+  });
+}
@@ -0,0 +1,15 @@
+import { formatServerSentEvent } from './ServerSentEvents';
+
+describe('formatServerSentEvent', () => {
+  it('should format a named event with a JSON data line', () => {
+    expect(formatServerSentEvent('progress', { stage: 'directing' })).toBe(
+      'event: progress\ndata: {"stage":"directing"}\n\n'
+    );
+  });
+
+  it('should keep multi-line payloads on one data line', () => {
+    expect(formatServerSentEvent('done', { data: 'line 1\nline 2' })).toBe(
+      'event: done\ndata: {"data":"line 1\\nline 2"}\n\n'
+    );
+  });
+});
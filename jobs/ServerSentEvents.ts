@@ -0,0 +1,8 @@
+/**
+ * Format one Server-Sent Events message
+ * @param event Event name, e.g. "progress"
+ * @param data Payload; serialized as JSON on a single data line
+ */
+export function formatServerSentEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
@@ -0,0 +1,100 @@
+import { Logger, LogLevel, createLogger } from './Logger';
+
+describe('Logger', () => {
+  let lines: { line: string; level: LogLevel }[];
+  let logger: Logger;
+
+  const now = () => Date.UTC(2025, 9, 8, 12, 0, 0);
+
+  beforeEach(() => {
+    lines = [];
+    logger = new Logger({ write: (line, level) => lines.push({ line, level }), now });
+  });
+
+  it('should write one JSON object per line with the fields given', () => {
+    logger.info('move illustrated', { zmcdnSessionID: 'abc', gameIdentifier: '88.840726', usedCachedImage: true });
+
+    expect(JSON.parse(lines[0].line)).toEqual({
+      time: '2025-10-08T12:00:00.000Z',
+      level: 'info',
+      msg: 'move illustrated',
+      zmcdnSessionID: 'abc',
+      gameIdentifier: '88.840726',
+      usedCachedImage: true,
+    });
+  });
+
+  it('should skip lines below its level', () => {
+    logger.debug('cache miss');
+    logger.setLevel('debug');
+    logger.debug('cache miss');
+
+    expect(lines).toHaveLength(1);
+  });
+
+  it('should carry a child logger\'s fields and share its level', () => {
+    const child = logger.child({ zmcdnSessionID: 'abc' });
+
+    child.warn('slow', { durationMs: 12000 });
+    logger.setLevel('error');
+    child.warn('slow');
+
+    expect(lines).toHaveLength(1);
+    expect(lines[0].level).toBe('warn');
+    expect(JSON.parse(lines[0].line)).toEqual(expect.objectContaining({ zmcdnSessionID: 'abc', durationMs: 12000 }));
+  });
+
+  it('should add the fields of the context a line is written in', () => {
+    let zmcdnSessionID: string | undefined = 'abc';
+    const contextual = logger.child({ backend: 'flux' }).withContext(() => ({ zmcdnSessionID }));
+
+    contextual.warn('upstream failed');
+    zmcdnSessionID = undefined;
+    contextual.warn('upstream failed', { status: 500 });
+
+    expect(JSON.parse(lines[0].line)).toEqual(expect.objectContaining({ backend: 'flux', zmcdnSessionID: 'abc' }));
+    expect(JSON.parse(lines[1].line)).toEqual(expect.objectContaining({ backend: 'flux', status: 500 }));
+    expect('zmcdnSessionID' in JSON.parse(lines[1].line)).toBe(false);
+  });
+
+  it('should log errors with their message and drop undefined fields', () => {
+    logger.error('move failed', { error: new Error('upstream timed out'), playerLocation: undefined });
+
+    const line = JSON.parse(lines[0].line);
+    expect(line.error).toEqual(expect.objectContaining({ name: 'Error', message: 'upstream timed out' }));
+    expect('playerLocation' in line).toBe(false);
+  });
+
+  it('should survive fields that cannot be serialized', () => {
+    const cycle: any = {};
+    cycle.self = cycle;
+
+    logger.info('odd', { cycle });
+
+    expect(JSON.parse(lines[0].line)).toEqual(expect.objectContaining({ msg: 'odd', unserializable: true }));
+  });
+
+  it('should write readable text lines', () => {
+    logger = new Logger({ format: 'text', write: (line, level) => lines.push({ line, level }), now });
+
+    logger.info('move illustrated', { zmcdnSessionID: 'abc', playerLocation: 'West of House', durationMs: 40 });
+
+    expect(lines[0].line).toBe(
+      '2025-10-08T12:00:00.000Z INFO  move illustrated zmcdnSessionID=abc playerLocation="West of House" durationMs=40',
+    );
+  });
+
+  describe('createLogger', () => {
+    it('should read the level and format from the environment', () => {
+      const configured = createLogger({ LOG_LEVEL: 'warn', LOG_FORMAT: 'text' });
+
+      expect(configured.getLevel()).toBe('warn');
+      expect(createLogger({}).getLevel()).toBe('info');
+    });
+
+    it('should reject unknown levels and formats', () => {
+      expect(() => createLogger({ LOG_LEVEL: 'verbose' })).toThrow('Unknown log level: verbose');
+      expect(() => createLogger({ LOG_FORMAT: 'xml' })).toThrow('Unknown log format: xml');
+    });
+  });
+});
@@ -0,0 +1,192 @@
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+export type LogFormat = "json" | "text";
+
+export const LOG_FORMATS: LogFormat[] = ["json", "text"];
+
+/** Structured context attached to a log line, e.g. zmcdnSessionID and gameIdentifier */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Options controlling what is logged and where
+ */
+export interface LoggerOptions {
+  /** Least severe level written (default "info") */
+  level?: LogLevel;
+  /** One JSON object per line (default), or human-readable text for a terminal */
+  format?: LogFormat;
+  /** Where lines go (default stdout, stderr for warnings and errors) */
+  write?: (line: string, level: LogLevel) => void;
+  now?: () => number;
+}
+
+/** Settings shared between a logger and its children */
+interface LoggerSettings {
+  level: LogLevel;
+  format: LogFormat;
+  write: (line: string, level: LogLevel) => void;
+  now: () => number;
+}
+
+/**
+ * Logger writes leveled, structured log lines. Each line carries the fields
+ * of the logger (see child()) and of the call, so lines about one session or
+ * game can be picked out of the stream.
+ */
+export class Logger {
+  private settings: LoggerSettings;
+  private fields: LogFields = {};
+  private context?: () => LogFields;
+
+  constructor(options: LoggerOptions = {}) {
+    this.settings = {
+      level: options.level ?? "info",
+      format: options.format ?? "json",
+      write: options.write ?? writeToConsole,
+      now: options.now ?? Date.now,
+    };
+  }
+
+  /**
+   * A logger adding fields to every line; it shares this logger's level
+   * @param fields Fields to add, e.g. { zmcdnSessionID, gameIdentifier }
+   */
+  child(fields: LogFields): Logger {
+    const child = new Logger();
+    child.settings = this.settings;
+    child.fields = { ...this.fields, ...fields };
+    child.context = this.context;
+    return child;
+  }
+
+  /**
+   * A logger adding the fields context() returns when each line is written,
+   * e.g. those of the move being served; it shares this logger's level
+   * @param context Returns the fields to add
+   */
+  withContext(context: () => LogFields): Logger {
+    const child = this.child({});
+    const outer = this.context;
+    child.context = outer ? () => ({ ...outer(), ...context() }) : context;
+    return child;
+  }
+
+  /**
+   * The least severe level written
+   */
+  getLevel(): LogLevel {
+    return this.settings.level;
+  }
+
+  /**
+   * Change the least severe level written, for this logger and every child
+   * @param level The level
+   */
+  setLevel(level: LogLevel): void {
+    this.settings.level = level;
+  }
+
+  /**
+   * Whether lines at a level are written
+   * @param level The level
+   */
+  isEnabled(level: LogLevel): boolean {
+    return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(this.settings.level);
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.log("debug", message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.log("info", message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.log("warn", message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.log("error", message, fields);
+  }
+
+  /**
+   * Write a line if its level is enabled
+   * @param level Severity
+   * @param message What happened
+   * @param fields Context for this line; Errors are logged with their message and stack
+   */
+  log(level: LogLevel, message: string, fields?: LogFields): void {
+    if (!this.isEnabled(level)) {
+      return;
+    }
+    const context: LogFields = {};
+    for (const [name, value] of Object.entries({ ...this.fields, ...this.context?.(), ...fields })) {
+      if (value !== undefined) {
+        context[name] = value instanceof Error ? serializeError(value) : value;
+      }
+    }
+    const time = new Date(this.settings.now()).toISOString();
+    this.settings.write(
+      this.settings.format === "text"
+        ? formatText(time, level, message, context)
+        : formatJSON({ time, level, msg: message, ...context }),
+      level,
+    );
+  }
+}
+
+/**
+ * Create a logger configured from the environment: LOG_LEVEL (debug, info,
+ * warn or error) and LOG_FORMAT (json or text)
+ * @param env Environment variables (default process.env)
+ * @throws Error if either is set to something unknown
+ */
+export function createLogger(env: NodeJS.ProcessEnv = process.env): Logger {
+  const level = env.LOG_LEVEL || "info";
+  if (!(LOG_LEVELS as string[]).includes(level)) {
+    throw new Error(`Unknown log level: ${level} (available: ${LOG_LEVELS.join(", ")})`);
+  }
+  const format = env.LOG_FORMAT || "json";
+  if (!(LOG_FORMATS as string[]).includes(format)) {
+    throw new Error(`Unknown log format: ${format} (available: ${LOG_FORMATS.join(", ")})`);
+  }
+  return new Logger({ level: level as LogLevel, format: format as LogFormat });
+}
+
+function writeToConsole(line: string, level: LogLevel): void {
+  (level === "warn" || level === "error" ? process.stderr : process.stdout).write(`${line}\n`);
+}
+
+function serializeError(error: Error): LogFields {
+  return { name: error.name, message: error.message, stack: error.stack };
+}
+
+/**
+ * JSON.stringify that survives values it can't serialize, e.g. cycles
+ */
+function formatJSON(line: LogFields): string {
+  try {
+    return JSON.stringify(line);
+  } catch {
+    return JSON.stringify({ time: line.time, level: line.level, msg: line.msg, unserializable: true });
+  }
+}
+
+function formatText(time: string, level: LogLevel, message: string, context: LogFields): string {
+  const fields = Object.entries(context).map(([name, value]) => {
+    if (typeof value === "string") {
+      return `${name}=${/[\s="]/.test(value) ? JSON.stringify(value) : value}`;
+    }
+    let serialized: string;
+    try {
+      serialized = JSON.stringify(value);
+    } catch {
+      serialized = String(value);
+    }
+    return `${name}=${serialized}`;
+  });
+  return [time, level.toUpperCase().padEnd(5), message, ...fields].join(" ");
+}
@@ -0,0 +1,69 @@
+import { MetricsRegistry } from './MetricsRegistry';
+
+describe('MetricsRegistry', () => {
+  let registry: MetricsRegistry;
+
+  beforeEach(() => {
+    registry = new MetricsRegistry();
+  });
+
+  it('should render counters per label values', () => {
+    const requests = registry.counter('zmcdn_requests_total', 'Requests', ['format', 'outcome']);
+
+    requests.inc({ format: 'sixel', outcome: 'ok' });
+    requests.inc({ format: 'sixel', outcome: 'ok' });
+    requests.inc({ format: 'png', outcome: 'failed' });
+
+    expect(registry.render()).toBe(
+      [
+        '# HELP zmcdn_requests_total Requests',
+        '# TYPE zmcdn_requests_total counter',
+        'zmcdn_requests_total{format="sixel",outcome="ok"} 2',
+        'zmcdn_requests_total{format="png",outcome="failed"} 1',
+        '',
+      ].join('\n'),
+    );
+    expect(requests.get({ format: 'sixel', outcome: 'ok' })).toBe(2);
+    expect(requests.get({ format: 'ascii', outcome: 'ok' })).toBe(0);
+  });
+
+  it('should render cumulative histogram buckets with sum and count', () => {
+    const latency = registry.histogram('latency_seconds', 'Latency', ['stage'], [1, 0.1]);
+
+    latency.observe({ stage: 'encoder' }, 0.05);
+    latency.observe({ stage: 'encoder' }, 0.5);
+    latency.observe({ stage: 'encoder' }, 3);
+
+    expect(registry.render().split('\n')).toEqual([
+      '# HELP latency_seconds Latency',
+      '# TYPE latency_seconds histogram',
+      'latency_seconds_bucket{stage="encoder",le="0.1"} 1',
+      'latency_seconds_bucket{stage="encoder",le="1"} 2',
+      'latency_seconds_bucket{stage="encoder",le="+Inf"} 3',
+      'latency_seconds_sum{stage="encoder"} 3.55',
+      'latency_seconds_count{stage="encoder"} 3',
+      '',
+    ]);
+  });
+
+  it('should render gauges from their collector', () => {
+    registry.gauge('ratio', 'A ratio', () => [{ labels: { cache: 'image' }, value: 0.25 }]);
+
+    expect(registry.render()).toContain('ratio{cache="image"} 0.25');
+  });
+
+  it('should escape label values and help text', () => {
+    registry.counter('odd_total', 'Line one\nline two', ['name']).inc({ name: 'say "hi"\\' });
+
+    expect(registry.render()).toContain('# HELP odd_total Line one\\nline two');
+    expect(registry.render()).toContain('odd_total{name="say \\"hi\\"\\\\"} 1');
+  });
+
+  it('should reject unknown labels, negative increments and duplicate names', () => {
+    const counter = registry.counter('c_total', 'C', ['a']);
+
+    expect(() => counter.inc({ b: 'x' })).toThrow('Unknown label b for metric c_total');
+    expect(() => counter.inc({ a: 'x' }, -1)).toThrow("Counter c_total can't go down");
+    expect(() => registry.counter('c_total', 'C again')).toThrow('Metric c_total is already registered');
+  });
+});
@@ -0,0 +1,244 @@
+/** Label values of one series, by label name */
+export type Labels = Record<string, string>;
+
+/** Content-Type of the Prometheus text exposition format */
+export const PROMETHEUS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+/**
+ * A metric the registry can render in the Prometheus text format
+ */
+interface Metric {
+  readonly name: string;
+  render(): string[];
+}
+
+/**
+ * Something labelled with a fixed set of label names; series are kept per
+ * combination of label values
+ */
+abstract class LabelledMetric<T> implements Metric {
+  readonly name: string;
+  readonly help: string;
+  readonly labelNames: string[];
+  protected series = new Map<string, { labels: Labels; value: T }>();
+
+  constructor(name: string, help: string, labelNames: string[] = []) {
+    this.name = name;
+    this.help = help;
+    this.labelNames = labelNames;
+  }
+
+  abstract render(): string[];
+
+  protected key(labels: Labels): string {
+    return JSON.stringify(this.labelNames.map((name) => labels[name] ?? ""));
+  }
+
+  /**
+   * The series for some label values, created with an initial value if new
+   * @throws Error if a label isn't one of the metric's label names
+   */
+  protected seriesFor(labels: Labels, initial: () => T): { labels: Labels; value: T } {
+    for (const name of Object.keys(labels)) {
+      if (!this.labelNames.includes(name)) {
+        throw new Error(`Unknown label ${name} for metric ${this.name}`);
+      }
+    }
+    const key = this.key(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      const complete: Labels = {};
+      for (const name of this.labelNames) {
+        complete[name] = labels[name] ?? "";
+      }
+      series = { labels: complete, value: initial() };
+      this.series.set(key, series);
+    }
+    return series;
+  }
+}
+
+/**
+ * A count that only goes up, e.g. requests served
+ */
+export class Counter extends LabelledMetric<number> {
+  /**
+   * Add to the count
+   * @param labels Label values of the series
+   * @param amount How much to add (default 1)
+   * @throws Error if the amount is negative
+   */
+  inc(labels: Labels = {}, amount: number = 1): void {
+    if (amount < 0) {
+      throw new Error(`Counter ${this.name} can't go down`);
+    }
+    this.seriesFor(labels, () => 0).value += amount;
+  }
+
+  /**
+   * The current count of a series; 0 if it hasn't been counted yet
+   * @param labels Label values of the series
+   */
+  get(labels: Labels = {}): number {
+    return this.series.get(this.key(labels))?.value ?? 0;
+  }
+
+  render(): string[] {
+    return [
+      ...header(this.name, this.help, "counter"),
+      ...[...this.series.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`),
+    ];
+  }
+}
+
+/**
+ * A value computed when the metrics are rendered, e.g. a ratio of two counters
+ */
+export class Gauge implements Metric {
+  readonly name: string;
+  readonly help: string;
+  private collect: () => { labels: Labels; value: number }[];
+
+  /**
+   * @param name Metric name
+   * @param help Description
+   * @param collect Returns the current value of each series
+   */
+  constructor(name: string, help: string, collect: () => { labels: Labels; value: number }[]) {
+    this.name = name;
+    this.help = help;
+    this.collect = collect;
+  }
+
+  render(): string[] {
+    return [
+      ...header(this.name, this.help, "gauge"),
+      ...this.collect().map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`),
+    ];
+  }
+}
+
+/**
+ * A distribution of observed values, e.g. latencies, in cumulative buckets
+ */
+export class Histogram extends LabelledMetric<{ buckets: number[]; sum: number; count: number }> {
+  readonly bucketBounds: number[];
+
+  /**
+   * @param name Metric name
+   * @param help Description
+   * @param labelNames Names of the labels series are kept by
+   * @param buckets Upper bounds of the buckets, ascending; +Inf is implied
+   */
+  constructor(name: string, help: string, labelNames: string[], buckets: number[]) {
+    super(name, help, labelNames);
+    this.bucketBounds = [...buckets].sort((a, b) => a - b);
+  }
+
+  /**
+   * Record a value
+   * @param labels Label values of the series
+   * @param value The observed value, e.g. seconds
+   */
+  observe(labels: Labels, value: number): void {
+    const series = this.seriesFor(labels, () => ({
+      buckets: this.bucketBounds.map(() => 0),
+      sum: 0,
+      count: 0,
+    })).value;
+    this.bucketBounds.forEach((bound, i) => {
+      if (value <= bound) {
+        series.buckets[i]++;
+      }
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  render(): string[] {
+    const lines = header(this.name, this.help, "histogram");
+    for (const { labels, value } of this.series.values()) {
+      this.bucketBounds.forEach((bound, i) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${value.buckets[i]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${value.count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(value.sum)}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${value.count}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * MetricsRegistry holds a service's metrics and renders them in the
+ * Prometheus text exposition format for a /metrics endpoint
+ */
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric>();
+
+  /**
+   * Add a counter
+   * @param name Metric name, e.g. "zmcdn_requests_total"
+   * @param help Description
+   * @param labelNames Names of the labels series are kept by
+   * @throws Error if the name is taken
+   */
+  counter(name: string, help: string, labelNames: string[] = []): Counter {
+    return this.add(new Counter(name, help, labelNames));
+  }
+
+  /**
+   * Add a gauge computed at render time
+   * @param name Metric name
+   * @param help Description
+   * @param collect Returns the current value of each series
+   * @throws Error if the name is taken
+   */
+  gauge(name: string, help: string, collect: () => { labels: Labels; value: number }[]): Gauge {
+    return this.add(new Gauge(name, help, collect));
+  }
+
+  /**
+   * Add a histogram
+   * @param name Metric name
+   * @param help Description
+   * @param labelNames Names of the labels series are kept by
+   * @param buckets Upper bounds of the buckets
+   * @throws Error if the name is taken
+   */
+  histogram(name: string, help: string, labelNames: string[], buckets: number[]): Histogram {
+    return this.add(new Histogram(name, help, labelNames, buckets));
+  }
+
+  /**
+   * Every metric in the Prometheus text format
+   */
+  render(): string {
+    return [...this.metrics.values()].flatMap((metric) => metric.render()).join("\n") + "\n";
+  }
+
+  private add<T extends Metric>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
+
+function header(name: string, help: string, type: string): string[] {
+  return [`# HELP ${name} ${help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n")}`, `# TYPE ${name} ${type}`];
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`,
+  );
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+}
@@ -0,0 +1,56 @@
+import { DEFAULT_PRICES, parsePrices, priceOf } from './Prices';
+
+describe('parsePrices', () => {
+  it('should default to the built-in prices', () => {
+    expect(parsePrices(undefined, undefined)).toEqual(DEFAULT_PRICES);
+  });
+
+  it('should override and add per-call prices', () => {
+    const prices = parsePrices('openai=0.17, flux = 0.001,local=0');
+
+    expect(prices.openai.perCall).toBe(0.17);
+    expect(prices.flux.perCall).toBe(0.001);
+    expect(prices.local).toEqual({ perCall: 0, per1KPromptTokens: 0, per1KCompletionTokens: 0 });
+    expect(prices.qwen).toEqual(DEFAULT_PRICES.qwen);
+  });
+
+  it('should override and add token prices per 1,000 prompt and completion tokens', () => {
+    const prices = parsePrices(undefined, 'qwen=0.0002:0.0006, openai-compatible=0.001:0.002');
+
+    expect(prices.qwen).toEqual({ perCall: 0, per1KPromptTokens: 0.0002, per1KCompletionTokens: 0.0006 });
+    expect(prices['openai-compatible'].per1KCompletionTokens).toBe(0.002);
+  });
+
+  it('should not change the defaults', () => {
+    parsePrices('flux=1', 'qwen=1:1');
+
+    expect(DEFAULT_PRICES.flux.perCall).toBe(0.0005);
+    expect(DEFAULT_PRICES.qwen.per1KPromptTokens).toBe(0.0001);
+  });
+
+  it('should reject prices that are not non-negative numbers', () => {
+    expect(() => parsePrices('openai=cheap')).toThrow('Invalid price for openai: cheap');
+    expect(() => parsePrices('openai=-1')).toThrow('Invalid price for openai: -1');
+    expect(() => parsePrices('openai')).toThrow('Invalid price for openai');
+    expect(() => parsePrices(undefined, 'qwen=0.001')).toThrow('Invalid token price for qwen: 0.001');
+    expect(() => parsePrices(undefined, 'qwen=0.001:lots')).toThrow('Invalid token price for qwen: 0.001:lots');
+  });
+});
+
+describe('priceOf', () => {
+  const prices = {
+    qwen: { perCall: 0.0001, per1KPromptTokens: 0.0002, per1KCompletionTokens: 0.0006 },
+  };
+
+  it('should price the call and the tokens it used', () => {
+    expect(priceOf(prices, 'qwen', { promptTokens: 2000, completionTokens: 500 })).toBeCloseTo(0.0008, 8);
+  });
+
+  it('should price just the call when tokens are unknown', () => {
+    expect(priceOf(prices, 'qwen')).toBe(0.0001);
+  });
+
+  it('should not charge for unknown backends', () => {
+    expect(priceOf(prices, 'local', { promptTokens: 2000, completionTokens: 500 })).toBe(0);
+  });
+});
@@ -0,0 +1,98 @@
+import { TokenUsage } from "../GameMaster";
+
+/**
+ * Estimated cost in USD of a backend's calls: a flat price per call (an
+ * image, say) plus, for LLMs, prices per 1,000 prompt and completion tokens
+ */
+export interface Price {
+  perCall: number;
+  per1KPromptTokens: number;
+  per1KCompletionTokens: number;
+}
+
+/** Estimated cost of each backend's calls, by backend name */
+export type Prices = Record<string, Price>;
+
+/**
+ * Rough list prices: Qwen3-32B on DeepInfra by the token, one FLUX-1-schnell
+ * image and one gpt-image-1 image at medium quality. Local and rule-based
+ * backends cost nothing.
+ */
+export const DEFAULT_PRICES: Prices = {
+  qwen: { perCall: 0, per1KPromptTokens: 0.0001, per1KCompletionTokens: 0.0003 },
+  "openai-compatible": { perCall: 0, per1KPromptTokens: 0, per1KCompletionTokens: 0 },
+  rules: { perCall: 0, per1KPromptTokens: 0, per1KCompletionTokens: 0 },
+  flux: { perCall: 0.0005, per1KPromptTokens: 0, per1KCompletionTokens: 0 },
+  openai: { perCall: 0.04, per1KPromptTokens: 0, per1KCompletionTokens: 0 },
+};
+
+/**
+ * Estimated cost of one call
+ * @param prices Prices by backend
+ * @param backend Backend name; unknown backends cost nothing
+ * @param usage Tokens the call used, if the backend reported them
+ */
+export function priceOf(prices: Prices, backend: string, usage?: TokenUsage): number {
+  const price = prices[backend];
+  if (!price) return 0;
+  return (
+    price.perCall +
+    ((usage?.promptTokens ?? 0) * price.per1KPromptTokens) / 1000 +
+    ((usage?.completionTokens ?? 0) * price.per1KCompletionTokens) / 1000
+  );
+}
+
+/**
+ * Parse per-backend prices over the defaults: per-call prices of the form
+ * "flux=0.0005,openai=0.04" and token prices of the form
+ * "qwen=0.0001:0.0003", USD per 1,000 prompt and completion tokens
+ * @param callSpec Per-call prices, typically from SPEND_PRICES_USD
+ * @param tokenSpec Token prices, typically from SPEND_TOKEN_PRICES_USD
+ * @throws Error if a price isn't a non-negative number
+ */
+export function parsePrices(callSpec?: string, tokenSpec?: string): Prices {
+  const prices: Prices = {};
+  for (const [backend, price] of Object.entries(DEFAULT_PRICES)) {
+    prices[backend] = { ...price };
+  }
+  const priceFor = (backend: string) =>
+    (prices[backend] ??= { perCall: 0, per1KPromptTokens: 0, per1KCompletionTokens: 0 });
+
+  for (const [backend, value] of entries(callSpec)) {
+    priceFor(backend).perCall = amount(backend, value, value);
+  }
+  for (const [backend, value] of entries(tokenSpec)) {
+    const [prompt, completion, ...rest] = value.split(":");
+    if (completion === undefined || rest.length > 0) {
+      throw new Error(`Invalid token price for ${backend}: ${value}`);
+    }
+    const price = priceFor(backend);
+    price.per1KPromptTokens = amount(backend, prompt.trim(), value, "token price");
+    price.per1KCompletionTokens = amount(backend, completion.trim(), value, "token price");
+  }
+  return prices;
+}
+
+/**
+ * The "backend=value" pairs of a comma-separated list
+ */
+function entries(spec?: string): [string, string][] {
+  if (!spec) return [];
+  return spec
+    .split(",")
+    .map((pair) => {
+      const separator = pair.indexOf("=");
+      return separator < 0
+        ? [pair.trim(), ""]
+        : [pair.slice(0, separator).trim(), pair.slice(separator + 1).trim()];
+    })
+    .filter((entry): entry is [string, string] => entry[0].length > 0);
+}
+
+function amount(backend: string, value: string, entry: string, kind: string = "price"): number {
+  const parsed = Number(value);
+  if (!value || !Number.isFinite(parsed) || parsed < 0) {
+    throw new Error(`Invalid ${kind} for ${backend}: ${entry}`);
+  }
+  return parsed;
+}
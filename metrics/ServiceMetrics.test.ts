@@ -0,0 +1,101 @@
+import { ServiceMetrics } from './ServiceMetrics';
+import { GameMaster } from '../GameMaster';
+import { Illustrator } from '../Illustrator';
+
+describe('ServiceMetrics', () => {
+  let clock: number;
+  let metrics: ServiceMetrics;
+
+  const sceneState = {
+    zmcdnSessionID: 'abc',
+    playerLocation: 'West of House',
+    lastZMachineInput: 'look',
+    lastZMachineOutput: 'You are standing in an open field.',
+  };
+
+  const line = (prefix: string) => metrics.render().split('\n').find((l) => l.startsWith(prefix));
+
+  beforeEach(() => {
+    clock = 0;
+    metrics = new ServiceMetrics({
+      prices: {
+        qwen: { perCall: 0, per1KPromptTokens: 0.0002, per1KCompletionTokens: 0.001 },
+        flux: { perCall: 0.0005, per1KPromptTokens: 0, per1KCompletionTokens: 0 },
+      },
+      now: () => clock,
+    });
+  });
+
+  it('should count requests by format and outcome', () => {
+    metrics.recordRequest('sixel', 'ok');
+    metrics.recordRequest('sixel', 'rejected');
+
+    expect(line('zmcdn_requests_total{format="sixel",outcome="ok"}')).toMatch(/ 1$/);
+    expect(line('zmcdn_requests_total{format="sixel",outcome="rejected"}')).toMatch(/ 1$/);
+  });
+
+  it('should count rate-limited requests by budget and client', () => {
+    metrics.recordRateLimited('generations', 'anonymous');
+
+    expect(line('zmcdn_rate_limited_total{budget="generations",client="anonymous"}')).toMatch(/ 1$/);
+  });
+
+  it('should report hit ratios per cache', () => {
+    metrics.recordCacheLookup('scene', true);
+    metrics.recordCacheLookup('scene', true);
+    metrics.recordCacheLookup('scene', false);
+    metrics.recordCacheLookup('image', false);
+
+    expect(line('zmcdn_cache_hit_ratio{cache="scene"}')).toBe('zmcdn_cache_hit_ratio{cache="scene"} 0.6666666666666666');
+    expect(line('zmcdn_cache_hit_ratio{cache="image"}')).toBe('zmcdn_cache_hit_ratio{cache="image"} 0');
+    expect(line('zmcdn_cache_hit_ratio{cache="render"}')).toBeUndefined();
+  });
+
+  it('should time, price and delegate Art Director calls', async () => {
+    const gameMaster: jest.Mocked<GameMaster> = {
+      name: 'qwen',
+      model: 'Qwen/Qwen3-32B',
+      lastUsage: { promptTokens: 2500, completionTokens: 500 },
+      generateSceneDirection: jest.fn(async (_state) => {
+        clock += 2500;
+        return '{}';
+      }),
+      getHistory: jest.fn().mockReturnValue(['{}']),
+      restoreHistory: jest.fn(),
+    };
+    const measured = metrics.instrumentGameMaster(gameMaster);
+
+    expect(await measured.generateSceneDirection(sceneState)).toBe('{}');
+    measured.restoreHistory([]);
+
+    expect(measured.name).toBe('qwen');
+    expect(measured.lastUsage).toEqual({ promptTokens: 2500, completionTokens: 500 });
+    expect(measured.getHistory()).toEqual(['{}']);
+    expect(gameMaster.restoreHistory).toHaveBeenCalledWith([]);
+    expect(line('zmcdn_stage_duration_seconds_sum{stage="art_director",backend="qwen"}')).toMatch(/ 2.5$/);
+    expect(line('zmcdn_stage_duration_seconds_bucket{stage="art_director",backend="qwen",le="2.5"}')).toMatch(/ 1$/);
+    expect(line('zmcdn_estimated_spend_usd_total{stage="art_director",backend="qwen"}')).toMatch(/ 0.001$/);
+  });
+
+  it('should count failed Illustrator calls as upstream errors without pricing them', async () => {
+    const illustrator: Illustrator = {
+      name: 'flux',
+      generateImage: jest.fn().mockRejectedValue(new Error('upstream 503')),
+    };
+
+    await expect(metrics.instrumentIllustrator(illustrator).generateImage('a house', '512x512', 7)).rejects.toThrow(
+      'upstream 503',
+    );
+
+    expect(illustrator.generateImage).toHaveBeenCalledWith('a house', '512x512', 7);
+    expect(line('zmcdn_upstream_errors_total{stage="illustrator",backend="flux"}')).toMatch(/ 1$/);
+    expect(line('zmcdn_estimated_spend_usd_total{stage="illustrator"')).toBeUndefined();
+    expect(line('zmcdn_stage_duration_seconds_count{stage="illustrator",backend="flux"}')).toMatch(/ 1$/);
+  });
+
+  it('should record encoder latency by format', () => {
+    metrics.observeEncoding('sixel', 0.02);
+
+    expect(line('zmcdn_stage_duration_seconds_count{stage="encoder",backend="sixel"}')).toMatch(/ 1$/);
+  });
+});
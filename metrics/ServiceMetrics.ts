@@ -0,0 +1,187 @@
+import { GameMaster, TokenUsage } from "../GameMaster";
+import { Illustrator } from "../Illustrator";
+import { Counter, Histogram, MetricsRegistry } from "./MetricsRegistry";
+import { DEFAULT_PRICES, Prices, priceOf } from "./Prices";
+
+/** Stages that call out to a paid or remote backend */
+export type UpstreamStage = "art_director" | "illustrator";
+
+/** Caches a move can be served from */
+export type CacheKind = "scene" | "image" | "render";
+
+export const CACHE_KINDS: CacheKind[] = ["scene", "image", "render"];
+
+/** How a request ended: served, refused as invalid, or failed */
+export type RequestOutcome = "ok" | "rejected" | "failed";
+
+/**
+ * Options for the service's metrics
+ */
+export interface ServiceMetricsOptions {
+  /** Estimated cost of each backend's calls (default DEFAULT_PRICES) */
+  prices?: Prices;
+  now?: () => number;
+}
+
+/** Latency buckets in seconds, from a cached encode to a slow image generation */
+const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 20, 30, 60];
+
+/**
+ * ServiceMetrics counts what zmcdn does, for /metrics: requests by format and
+ * outcome, scene direction, image and render cache hits, how long the Art
+ * Director, Illustrator and encoders take, upstream errors, an estimate of
+ * what the upstream calls cost and requests refused by the rate limits
+ */
+export class ServiceMetrics {
+  readonly registry = new MetricsRegistry();
+  private requests: Counter;
+  private cacheLookups: Counter;
+  private stageSeconds: Histogram;
+  private upstreamErrors: Counter;
+  private spend: Counter;
+  private rateLimited: Counter;
+  private prices: Prices;
+  private now: () => number;
+
+  constructor(options: ServiceMetricsOptions = {}) {
+    this.prices = options.prices ?? DEFAULT_PRICES;
+    this.now = options.now ?? Date.now;
+    this.requests = this.registry.counter(
+      "zmcdn_requests_total",
+      "Illustration requests by output format and outcome",
+      ["format", "outcome"],
+    );
+    this.cacheLookups = this.registry.counter(
+      "zmcdn_cache_lookups_total",
+      "Cache lookups by cache (scene, image or render) and result (hit or miss)",
+      ["cache", "result"],
+    );
+    this.registry.gauge("zmcdn_cache_hit_ratio", "Share of lookups served from each cache", () =>
+      CACHE_KINDS.flatMap((cache) => {
+        const hits = this.cacheLookups.get({ cache, result: "hit" });
+        const total = hits + this.cacheLookups.get({ cache, result: "miss" });
+        return total > 0 ? [{ labels: { cache }, value: hits / total }] : [];
+      }),
+    );
+    this.stageSeconds = this.registry.histogram(
+      "zmcdn_stage_duration_seconds",
+      "Time spent in the Art Director, Illustrator and encoder stages",
+      ["stage", "backend"],
+      LATENCY_BUCKETS,
+    );
+    this.upstreamErrors = this.registry.counter(
+      "zmcdn_upstream_errors_total",
+      "Failed Art Director and Illustrator calls",
+      ["stage", "backend"],
+    );
+    this.spend = this.registry.counter(
+      "zmcdn_estimated_spend_usd_total",
+      "Estimated cost of successful upstream calls, from per-call and per-token prices",
+      ["stage", "backend"],
+    );
+    this.rateLimited = this.registry.counter(
+      "zmcdn_rate_limited_total",
+      "Requests refused for being over a request or generation budget, by client token name",
+      ["budget", "client"],
+    );
+  }
+
+  /**
+   * Count a finished request
+   * @param format The illustrationFormat it asked for
+   * @param outcome How it ended
+   */
+  recordRequest(format: string, outcome: RequestOutcome): void {
+    this.requests.inc({ format, outcome });
+  }
+
+  /**
+   * Count a cache lookup
+   * @param cache Which cache was looked in
+   * @param hit Whether it had the entry
+   */
+  recordCacheLookup(cache: CacheKind, hit: boolean): void {
+    this.cacheLookups.inc({ cache, result: hit ? "hit" : "miss" });
+  }
+
+  /**
+   * Count a request refused for being over a budget
+   * @param budget The budget the client was over ("requests" or "generations")
+   * @param client The client's token name, or "anonymous"
+   */
+  recordRateLimited(budget: string, client: string): void {
+    this.rateLimited.inc({ budget, client });
+  }
+
+  /**
+   * Record how long encoding an image took
+   * @param format The output format
+   * @param seconds Duration
+   */
+  observeEncoding(format: string, seconds: number): void {
+    this.stageSeconds.observe({ stage: "encoder", backend: format }, seconds);
+  }
+
+  /**
+   * Wrap an Art Director so each scene direction it generates is timed,
+   * priced and, if it fails, counted as an upstream error
+   * @param gameMaster The backend
+   */
+  instrumentGameMaster(gameMaster: GameMaster): GameMaster {
+    return {
+      name: gameMaster.name,
+      model: gameMaster.model,
+      generateSceneDirection: (sceneState) =>
+        this.measure(
+          "art_director",
+          gameMaster.name,
+          () => gameMaster.generateSceneDirection(sceneState),
+          () => gameMaster.lastUsage,
+        ),
+      get lastUsage() {
+        return gameMaster.lastUsage;
+      },
+      getHistory: () => gameMaster.getHistory(),
+      restoreHistory: (answers) => gameMaster.restoreHistory(answers),
+    };
+  }
+
+  /**
+   * Wrap an Illustrator so each image it generates is timed, priced and, if
+   * it fails, counted as an upstream error
+   * @param illustrator The backend
+   */
+  instrumentIllustrator(illustrator: Illustrator): Illustrator {
+    return {
+      name: illustrator.name,
+      generateImage: (prompt, size, seed) =>
+        this.measure("illustrator", illustrator.name, () => illustrator.generateImage(prompt, size, seed)),
+    };
+  }
+
+  /**
+   * Every metric in the Prometheus text format
+   */
+  render(): string {
+    return this.registry.render();
+  }
+
+  private async measure<T>(
+    stage: UpstreamStage,
+    backend: string,
+    call: () => Promise<T>,
+    usage: () => TokenUsage | undefined = () => undefined,
+  ): Promise<T> {
+    const started = this.now();
+    try {
+      const result = await call();
+      this.spend.inc({ stage, backend }, priceOf(this.prices, backend, usage()));
+      return result;
+    } catch (e) {
+      this.upstreamErrors.inc({ stage, backend });
+      throw e;
+    } finally {
+      this.stageSeconds.observe({ stage, backend }, (this.now() - started) / 1000);
+    }
+  }
+}
@@ -0,0 +1,203 @@
+import { SpendLedger, createSpendLedger } from './SpendLedger';
+import { CacheStore, isDurableEntry } from '../cachestore/CacheStore';
+import { CacheStoreBounded } from '../cachestore/CacheStoreBounded';
+import { CacheStoreMemory } from '../cachestore/CacheStoreMemory';
+import { GameMaster } from '../GameMaster';
+import { Illustrator } from '../Illustrator';
+
+describe('SpendLedger', () => {
+  let cache: CacheStore;
+  let clock: number;
+  let ledger: SpendLedger;
+
+  const sceneState = {
+    zmcdnSessionID: 'abc',
+    playerLocation: 'West of House',
+    lastZMachineInput: 'look',
+    lastZMachineOutput: 'You are standing in an open field.',
+  };
+
+  const gameMaster = (): jest.Mocked<GameMaster> => ({
+    name: 'qwen',
+    model: 'Qwen/Qwen3-32B',
+    lastUsage: { promptTokens: 1500, completionTokens: 120 },
+    generateSceneDirection: jest.fn(async (_state) => '{}'),
+    getHistory: jest.fn().mockReturnValue([]),
+    restoreHistory: jest.fn(),
+  });
+
+  const illustrator = (): jest.Mocked<Illustrator> => ({
+    name: 'flux',
+    generateImage: jest.fn().mockResolvedValue({
+      image: Buffer.from('image'),
+      mimeType: 'image/png',
+      backend: 'flux',
+      model: 'FLUX-1-schnell',
+      size: '512x512',
+      prompt: 'a house',
+    }),
+  });
+
+  const ledgerWith = (options = {}) =>
+    new SpendLedger(
+      { cache },
+      {
+        prices: {
+          qwen: { perCall: 0, per1KPromptTokens: 0.0004, per1KCompletionTokens: 0.005 },
+          flux: { perCall: 0.01, per1KPromptTokens: 0, per1KCompletionTokens: 0 },
+        },
+        now: () => clock,
+        ...options,
+      },
+    );
+
+  beforeEach(() => {
+    cache = new CacheStoreMemory();
+    clock = Date.UTC(2025, 9, 8, 12, 0, 0);
+    ledger = ledgerWith();
+  });
+
+  it('should account for tokens, images and cost by game, session and backend', async () => {
+    const directed = ledger.instrumentGameMaster(gameMaster());
+    const drawn = ledger.instrumentIllustrator(illustrator());
+
+    await ledger.attribute({ zmcdnSessionID: 'abc', gameIdentifier: '88.840726' }, async () => {
+      await directed.generateSceneDirection(sceneState);
+      await drawn.generateImage('a house');
+    });
+    await drawn.generateImage('a cellar');
+
+    const { today } = ledger.summary();
+    expect(today).toEqual(
+      expect.objectContaining({ day: '2025-10-08', calls: 3, promptTokens: 1500, completionTokens: 120, images: 2 }),
+    );
+    // 1500 prompt and 120 completion tokens, and two images
+    expect(today.usd).toBeCloseTo(0.0006 + 0.0006 + 0.02, 6);
+    expect(today.byGame['88.840726']).toEqual(expect.objectContaining({ calls: 2, images: 1 }));
+    expect(today.byGame['unattributed']).toEqual(expect.objectContaining({ calls: 1, images: 1 }));
+    expect(today.bySession['abc'].usd).toBeCloseTo(0.0112, 6);
+    expect(today.byBackend['art_director:qwen'].promptTokens).toBe(1500);
+    expect(today.byBackend['illustrator:flux'].images).toBe(2);
+  });
+
+  it('should charge background work to whoever started it', async () => {
+    const drawn = ledger.instrumentIllustrator(illustrator());
+    let background: Promise<unknown> = Promise.resolve();
+
+    ledger.attribute({ zmcdnSessionID: 'abc', gameIdentifier: '88.840726' }, () => {
+      background = new Promise((resolve) => setImmediate(resolve)).then(() => drawn.generateImage('prefetch'));
+    });
+    await background;
+
+    expect(ledger.summary().today.bySession['abc'].images).toBe(1);
+  });
+
+  it('should charge work from a shared queue to whoever queued each item', async () => {
+    const directed = ledger.instrumentGameMaster(gameMaster());
+    const queue: string[] = [];
+    let drain: Promise<void> | undefined;
+    const enqueue = (sessionID: string) => {
+      queue.push(sessionID);
+      // One loop for every session, started in the first caller's context
+      drain ??= (async () => {
+        await Promise.resolve();
+        for (let next = queue.shift(); next; next = queue.shift()) {
+          const sessionID = next;
+          await ledger.attribute({ zmcdnSessionID: sessionID, gameIdentifier: `game-${sessionID}` }, () =>
+            directed.generateSceneDirection({ ...sceneState, zmcdnSessionID: sessionID })
+          );
+        }
+      })();
+    };
+
+    ledger.attribute({ zmcdnSessionID: 'abc', gameIdentifier: 'game-abc' }, () => enqueue('abc'));
+    ledger.attribute({ zmcdnSessionID: 'def', gameIdentifier: 'game-def' }, () => enqueue('def'));
+    await drain;
+
+    const { today } = ledger.summary();
+    expect(today.bySession['abc']).toMatchObject({ calls: 1 });
+    expect(today.bySession['def']).toMatchObject({ calls: 1 });
+    expect(today.byGame['game-def']).toMatchObject({ calls: 1 });
+  });
+
+  it('should not charge failed calls', async () => {
+    const failing = illustrator();
+    failing.generateImage.mockRejectedValue(new Error('upstream timed out'));
+
+    await expect(ledger.instrumentIllustrator(failing).generateImage('a house')).rejects.toThrow('upstream timed out');
+
+    expect(ledger.summary().today.calls).toBe(0);
+  });
+
+  it('should report the daily and then the monthly cap', () => {
+    ledger = ledgerWith({ dailyCapUsd: 0.02, monthlyCapUsd: 0.03 });
+
+    ledger.record('illustrator', 'flux', undefined, 1);
+    expect(ledger.capReached()).toBeUndefined();
+    ledger.record('illustrator', 'flux', undefined, 1);
+    expect(ledger.capReached()).toBe('daily');
+
+    clock += 24 * 60 * 60 * 1000;
+    expect(ledger.capReached()).toBeUndefined();
+    ledger.record('illustrator', 'flux', undefined, 1);
+    expect(ledger.capReached()).toBe('monthly');
+    expect(ledger.summary().month).toEqual(expect.objectContaining({ month: '2025-10', calls: 3 }));
+  });
+
+  it('should count the seconds until a cap resets', () => {
+    expect(ledger.secondsUntilReset('daily')).toBe(12 * 60 * 60);
+    expect(ledger.secondsUntilReset('monthly')).toBe((23 * 24 + 12) * 60 * 60);
+  });
+
+  it('should keep days in the cache across restarts', async () => {
+    ledger.record('art_director', 'qwen', { promptTokens: 10, completionTokens: 5 });
+    await ledger.flush();
+
+    const restarted = ledgerWith();
+    await restarted.load();
+
+    expect(restarted.summary().today).toEqual(expect.objectContaining({ calls: 1, promptTokens: 10 }));
+    clock += 24 * 60 * 60 * 1000;
+    expect((await restarted.day('2025-10-08'))?.calls).toBe(1);
+    expect(await restarted.day('2025-10-07')).toBeUndefined();
+  });
+
+  it('should keep every day of the month when the cache evicts under byte pressure', async () => {
+    cache = new CacheStoreBounded(new CacheStoreMemory(), { maxBytes: 100, durable: isDurableEntry });
+    ledger = ledgerWith();
+    for (let day = 0; day < 3; day++) {
+      ledger.record('illustrator', 'flux', undefined, 1);
+      await ledger.flush();
+      await cache.set('59.860730', `room${day}.png`, Buffer.alloc(100));
+      clock += 24 * 60 * 60 * 1000;
+    }
+
+    const restarted = ledgerWith();
+    await restarted.load();
+
+    expect(restarted.summary().month).toEqual(expect.objectContaining({ month: '2025-10', calls: 3 }));
+    expect(restarted.summary().month.usd).toBeCloseTo(0.03);
+  });
+
+  describe('createSpendLedger', () => {
+    it('should read token prices from the environment', () => {
+      const configured = createSpendLedger({ cache }, { SPEND_TOKEN_PRICES_USD: 'qwen=0.001:0.002' });
+
+      configured.record('art_director', 'qwen', { promptTokens: 2000, completionTokens: 500 });
+
+      expect(configured.summary().today.usd).toBeCloseTo(0.003, 6);
+    });
+
+    it('should read caps from the environment', () => {
+      const configured = createSpendLedger({ cache }, { SPEND_DAILY_CAP_USD: '5', SPEND_MONTHLY_CAP_USD: '' });
+
+      expect(configured.summary()).toEqual(expect.objectContaining({ dailyCapUsd: 5, monthlyCapUsd: undefined }));
+    });
+
+    it('should reject invalid caps', () => {
+      expect(() => createSpendLedger({ cache }, { SPEND_DAILY_CAP_USD: 'lots' })).toThrow(
+        'Invalid SPEND_DAILY_CAP_USD: lots',
+      );
+    });
+  });
+});
@@ -0,0 +1,356 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { GameMaster, TokenUsage } from "../GameMaster";
+import { Illustrator } from "../Illustrator";
+import { CacheStore, SPEND_NAMESPACE } from "../cachestore/CacheStore";
+import { DEFAULT_PRICES, Prices, parsePrices, priceOf } from "./Prices";
+import { UpstreamStage } from "./ServiceMetrics";
+
+/**
+ * Who an upstream call was made for
+ */
+export interface SpendAttribution {
+  zmcdnSessionID?: string;
+  gameIdentifier?: string;
+}
+
+/**
+ * Running totals of upstream calls
+ */
+export interface SpendTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  images: number;
+  /** Estimated cost, from each backend's per-call and per-token prices */
+  usd: number;
+}
+
+/**
+ * One UTC day of upstream calls, broken down by game, session and backend
+ */
+export interface DaySpend extends SpendTotals {
+  /** The day, e.g. "2025-10-08" */
+  day: string;
+  byGame: Record<string, SpendTotals>;
+  bySession: Record<string, SpendTotals>;
+  byBackend: Record<string, SpendTotals>;
+}
+
+/**
+ * A spend cap that has been reached
+ */
+export type SpendCap = "daily" | "monthly";
+
+/**
+ * Today's and this month's spend against the caps, as returned by summary()
+ */
+export interface SpendSummary {
+  today: DaySpend;
+  /** This month's totals, e.g. month "2025-10" */
+  month: SpendTotals & { month: string };
+  dailyCapUsd?: number;
+  monthlyCapUsd?: number;
+  capReached?: SpendCap;
+}
+
+/**
+ * Options for the ledger
+ */
+export interface SpendLedgerOptions {
+  /** Estimated cost of each backend's calls (default DEFAULT_PRICES) */
+  prices?: Prices;
+  /** Estimated USD per UTC day after which capReached() says "daily" */
+  dailyCapUsd?: number;
+  /** Estimated USD per UTC month after which capReached() says "monthly" */
+  monthlyCapUsd?: number;
+  /** Clock source, overridable for tests */
+  now?: () => number;
+}
+
+/**
+ * Collaborators the ledger needs; injected so it can be tested without a server
+ */
+export interface SpendLedgerDeps {
+  /** Where each day's spend is kept */
+  cache: CacheStore;
+  log?: (...args: any[]) => void;
+}
+
+/**
+ * SpendLedger accounts for every Art Director and Illustrator call: the
+ * tokens and images it produced and what it's estimated to have cost, per
+ * UTC day and per game, session and backend within the day. Days are kept
+ * in the cache so totals and caps survive a restart.
+ *
+ * Backends are wrapped with instrumentGameMaster() and instrumentIllustrator();
+ * calls made inside attribute() are charged to that session and game.
+ */
+export class SpendLedger {
+  private deps: SpendLedgerDeps;
+  private prices: Prices;
+  private dailyCapUsd?: number;
+  private monthlyCapUsd?: number;
+  private now: () => number;
+  private log: (...args: any[]) => void;
+  private days = new Map<string, DaySpend>();
+  private attribution = new AsyncLocalStorage<SpendAttribution>();
+  /** Pending write of each day, so a slow write can't overwrite a newer one */
+  private writes = new Map<string, Promise<void>>();
+
+  constructor(deps: SpendLedgerDeps, options: SpendLedgerOptions = {}) {
+    this.deps = deps;
+    this.prices = options.prices ?? DEFAULT_PRICES;
+    this.dailyCapUsd = options.dailyCapUsd;
+    this.monthlyCapUsd = options.monthlyCapUsd;
+    this.now = options.now ?? Date.now;
+    this.log = deps.log ?? (() => {});
+  }
+
+  /**
+   * Load this month's days from the cache, so totals and caps carry on
+   * where they were before a restart
+   */
+  async load(): Promise<void> {
+    const month = monthOf(this.now());
+    for (const { key } of await this.deps.cache.list(SPEND_NAMESPACE)) {
+      const day = key.replace(/\.json$/, "");
+      if (day.startsWith(month) && !this.days.has(day)) {
+        const stored = await this.stored(day);
+        if (stored) {
+          this.days.set(day, stored);
+        }
+      }
+    }
+  }
+
+  /**
+   * Run work on behalf of a session and game; upstream calls it makes, even
+   * ones it leaves running in the background, are charged to them. Work
+   * handed to a queue that other sessions share runs in whichever context
+   * started the queue, so each item has to be run in attribute() itself.
+   * @param attribution Who the work is for
+   * @param work The work
+   */
+  attribute<T>(attribution: SpendAttribution, work: () => T): T {
+    return this.attribution.run(attribution, work);
+  }
+
+  /**
+   * Who the running work is attributed to, if it's running inside attribute()
+   */
+  currentAttribution(): SpendAttribution | undefined {
+    return this.attribution.getStore();
+  }
+
+  /**
+   * Account for one successful upstream call
+   * @param stage Which stage made it
+   * @param backend Backend name, which its price is looked up by
+   * @param usage Tokens it used, if known; they're priced as well as the call
+   * @param images Images it produced
+   */
+  record(stage: UpstreamStage, backend: string, usage?: TokenUsage, images: number = 0): void {
+    const call: SpendTotals = {
+      calls: 1,
+      promptTokens: usage?.promptTokens ?? 0,
+      completionTokens: usage?.completionTokens ?? 0,
+      images,
+      usd: priceOf(this.prices, backend, usage),
+    };
+    const { zmcdnSessionID, gameIdentifier } = this.currentAttribution() ?? {};
+    const today = this.today();
+    add(today, call);
+    add((today.byGame[gameIdentifier ?? "unattributed"] ??= emptyTotals()), call);
+    if (zmcdnSessionID) {
+      add((today.bySession[zmcdnSessionID] ??= emptyTotals()), call);
+    }
+    add((today.byBackend[`${stage}:${backend}`] ??= emptyTotals()), call);
+    this.save(today);
+  }
+
+  /**
+   * The cap that has been reached, if any
+   */
+  capReached(): SpendCap | undefined {
+    if (this.dailyCapUsd !== undefined && this.today().usd >= this.dailyCapUsd) {
+      return "daily";
+    }
+    if (this.monthlyCapUsd !== undefined && this.monthTotals().usd >= this.monthlyCapUsd) {
+      return "monthly";
+    }
+    return undefined;
+  }
+
+  /**
+   * Seconds until a cap resets, at the start of the next UTC day or month
+   * @param cap The cap
+   */
+  secondsUntilReset(cap: SpendCap): number {
+    const now = new Date(this.now());
+    const reset =
+      cap === "daily"
+        ? Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)
+        : Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1);
+    return Math.max(1, Math.ceil((reset - now.getTime()) / 1000));
+  }
+
+  /**
+   * Today's and this month's spend against the caps
+   */
+  summary(): SpendSummary {
+    return {
+      today: this.today(),
+      month: { month: monthOf(this.now()), ...this.monthTotals() },
+      dailyCapUsd: this.dailyCapUsd,
+      monthlyCapUsd: this.monthlyCapUsd,
+      capReached: this.capReached(),
+    };
+  }
+
+  /**
+   * One day's spend
+   * @param day The UTC day, e.g. "2025-10-08"
+   * @returns The day, or undefined if nothing was spent on it
+   */
+  async day(day: string): Promise<DaySpend | undefined> {
+    return this.days.get(day) ?? (await this.stored(day));
+  }
+
+  /**
+   * Wait for pending writes, e.g. before shutting down
+   */
+  async flush(): Promise<void> {
+    await Promise.all(this.writes.values());
+  }
+
+  /**
+   * Wrap an Art Director so each scene direction it generates is accounted for
+   * @param gameMaster The backend
+   */
+  instrumentGameMaster(gameMaster: GameMaster): GameMaster {
+    return {
+      name: gameMaster.name,
+      model: gameMaster.model,
+      generateSceneDirection: async (sceneState) => {
+        const answer = await gameMaster.generateSceneDirection(sceneState);
+        this.record("art_director", gameMaster.name, gameMaster.lastUsage);
+        return answer;
+      },
+      get lastUsage() {
+        return gameMaster.lastUsage;
+      },
+      getHistory: () => gameMaster.getHistory(),
+      restoreHistory: (answers) => gameMaster.restoreHistory(answers),
+    };
+  }
+
+  /**
+   * Wrap an Illustrator so each image it generates is accounted for
+   * @param illustrator The backend
+   */
+  instrumentIllustrator(illustrator: Illustrator): Illustrator {
+    return {
+      name: illustrator.name,
+      generateImage: async (prompt, size, seed) => {
+        const illustration = await illustrator.generateImage(prompt, size, seed);
+        this.record("illustrator", illustrator.name, undefined, 1);
+        return illustration;
+      },
+    };
+  }
+
+  private today(): DaySpend {
+    const day = dayOf(this.now());
+    let spend = this.days.get(day);
+    if (!spend) {
+      spend = { day, ...emptyTotals(), byGame: {}, bySession: {}, byBackend: {} };
+      this.days.set(day, spend);
+    }
+    return spend;
+  }
+
+  private monthTotals(): SpendTotals {
+    const month = monthOf(this.now());
+    const totals = emptyTotals();
+    for (const [day, spend] of this.days) {
+      if (day.startsWith(month)) {
+        add(totals, spend);
+      }
+    }
+    return totals;
+  }
+
+  private async stored(day: string): Promise<DaySpend | undefined> {
+    const value = await this.deps.cache.get(SPEND_NAMESPACE, `${day}.json`);
+    if (!value) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(value.toString("utf8")) as DaySpend;
+    } catch {
+      this.log(`Ignoring unparseable spend for ${day}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Write a day to the cache after any write of it already under way
+   */
+  private save(spend: DaySpend): void {
+    const previous = this.writes.get(spend.day) ?? Promise.resolve();
+    const write = previous
+      .then(() => this.deps.cache.set(SPEND_NAMESPACE, `${spend.day}.json`, Buffer.from(JSON.stringify(spend))))
+      .catch((error) => this.log(`Failed to save spend for ${spend.day}`, { error }));
+    this.writes.set(spend.day, write);
+    write.then(() => {
+      if (this.writes.get(spend.day) === write) {
+        this.writes.delete(spend.day);
+      }
+    });
+  }
+}
+
+/**
+ * Create a ledger from environment settings: SPEND_PRICES_USD,
+ * SPEND_TOKEN_PRICES_USD, SPEND_DAILY_CAP_USD and SPEND_MONTHLY_CAP_USD (no
+ * caps if unset)
+ * @param deps Collaborators
+ * @param env Environment variables (default process.env)
+ * @throws Error if a cap or price isn't a non-negative number
+ */
+export function createSpendLedger(deps: SpendLedgerDeps, env: NodeJS.ProcessEnv = process.env): SpendLedger {
+  const cap = (name: string): number | undefined => {
+    const value = env[name];
+    if (value === undefined || value === "") return undefined;
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed < 0) {
+      throw new Error(`Invalid ${name}: ${value}`);
+    }
+    return parsed;
+  };
+  return new SpendLedger(deps, {
+    prices: parsePrices(env.SPEND_PRICES_USD, env.SPEND_TOKEN_PRICES_USD),
+    dailyCapUsd: cap("SPEND_DAILY_CAP_USD"),
+    monthlyCapUsd: cap("SPEND_MONTHLY_CAP_USD"),
+  });
+}
+
+function emptyTotals(): SpendTotals {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, images: 0, usd: 0 };
+}
+
+function add(totals: SpendTotals, more: SpendTotals): void {
+  totals.calls += more.calls;
+  totals.promptTokens += more.promptTokens;
+  totals.completionTokens += more.completionTokens;
+  totals.images += more.images;
+  totals.usd += more.usd;
+}
+
+function dayOf(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+function monthOf(time: number): string {
+  return new Date(time).toISOString().slice(0, 7);
+}
@@ -0,0 +1,765 @@
+import { IllustrationPipeline, NotCachedError, imageCacheKey } from './IllustrationPipeline';
+import { sceneDirectionCacheKey } from './SceneCacheKey';
+import { CacheStoreMemory } from '../cachestore/CacheStoreMemory';
+import { SCENE_DIRECTION_NAMESPACE } from '../cachestore/CacheStore';
+import { SceneDirectionError } from '../gamemaster/SceneDirection';
+import { GameMaster } from '../GameMaster';
+import { Illustrator } from '../Illustrator';
+import { parseArtBible } from '../artbible/ArtBible';
+import { deriveSeed } from './ImageMetadata';
+import { ImageVariants } from './ImageVariants';
+import { Prefetcher } from '../prefetch/Prefetcher';
+
+describe('IllustrationPipeline', () => {
+  const request = {
+    zmcdnSessionID: 'test-session-123',
+    lastZMachineOutput: 'You are standing in an open field west of a white house.',
+    lastZMachineInput: 'look',
+    playerLocation: 'West of House',
+    gameIdentifier: '88.840726',
+  };
+
+  const direction = {
+    visual_prompt: 'A white house in an open field',
+    reuse_key: 'west_of_house',
+    style_tags: 'retro-320x200',
+    repaint: true,
+  };
+
+  let cache: CacheStoreMemory;
+  let gameMaster: jest.Mocked<GameMaster>;
+  let illustrator: jest.Mocked<Illustrator>;
+  let recordScene: jest.Mock;
+  let promptVersion: string;
+  let pipeline: IllustrationPipeline;
+
+  const seed = deriveSeed('88.840726', 'west_of_house');
+
+  const sceneKey = () => sceneDirectionCacheKey({ ...request, promptVersion: 'v1' });
+
+  beforeEach(() => {
+    cache = new CacheStoreMemory();
+    gameMaster = {
+      name: 'mock',
+      model: 'mock-model',
+      generateSceneDirection: jest.fn().mockResolvedValue(JSON.stringify(direction)),
+      getHistory: jest.fn().mockReturnValue([]),
+      restoreHistory: jest.fn(),
+    };
+    illustrator = {
+      name: 'mock',
+      // Takes seeds, like FLUX
+      generateImage: jest.fn().mockImplementation(async (_prompt, _size, seed) => ({
+        image: Buffer.from('fresh-image'),
+        mimeType: 'image/png',
+        backend: 'mock',
+        model: 'mock-model',
+        size: '512x512',
+        prompt: '',
+        seed,
+      })),
+    };
+    recordScene = jest.fn().mockResolvedValue(undefined);
+    promptVersion = 'v1';
+    pipeline = new IllustrationPipeline({
+      cache,
+      getGameMaster: jest.fn().mockResolvedValue(gameMaster),
+      illustrators: { forGame: () => illustrator },
+      recordScene,
+      promptVersion: () => promptVersion,
+    });
+  });
+
+  it('should generate and cache scene direction and image on a cold cache', async () => {
+    const result = await pipeline.illustrate(request);
+
+    expect(result.sceneDirection).toEqual(direction);
+    expect(result.image.toString()).toBe('fresh-image');
+    expect(result.usedCachedSceneDirection).toBe(false);
+    expect(result.usedCachedImage).toBe(false);
+    expect(illustrator.generateImage).toHaveBeenCalledWith(JSON.stringify(direction), undefined, seed);
+    expect(
+      JSON.parse((await cache.get(SCENE_DIRECTION_NAMESPACE, sceneKey()))!.toString()).direction
+    ).toEqual(direction);
+    expect((await cache.get('88.840726', 'west_of_house.png'))!.toString()).toBe('fresh-image');
+  });
+
+  it('should generate at the requested size but reuse cached images of any size', async () => {
+    await pipeline.illustrate({ ...request, imageSize: '768x384' });
+    const result = await pipeline.illustrate({ ...request, imageSize: '384x768' });
+
+    expect(illustrator.generateImage).toHaveBeenCalledTimes(1);
+    expect(illustrator.generateImage).toHaveBeenCalledWith(JSON.stringify(direction), '768x384', seed);
+    expect(result.usedCachedImage).toBe(true);
+  });
+
+  it('should report progress through directing and illustrating', async () => {
+    const stages: string[] = [];
+
+    await pipeline.illustrate(request, (stage) => stages.push(stage));
+
+    expect(stages).toEqual(['directing', 'illustrating']);
+  });
+
+  it('should not report illustrating when the image comes from cache', async () => {
+    await pipeline.illustrate(request);
+    const stages: string[] = [];
+
+    await pipeline.illustrate(request, (stage) => stages.push(stage));
+
+    expect(stages).toEqual(['directing']);
+  });
+
+  it('should use a prefetched image even when the Art Director asks for a repaint', async () => {
+    await cache.set('88.840726', 'west_of_house.png', Buffer.from('prefetched-image'));
+    const claimPrefetched = jest.fn().mockReturnValue(true);
+    pipeline = new IllustrationPipeline({
+      cache,
+      getGameMaster: jest.fn().mockResolvedValue(gameMaster),
+      illustrators: { forGame: () => illustrator },
+      promptVersion: () => promptVersion,
+      claimPrefetched,
+    });
+
+    const result = await pipeline.illustrate(request);
+
+    expect(claimPrefetched).toHaveBeenCalledWith(request, 'west_of_house.png');
+    expect(result.image.toString()).toBe('prefetched-image');
+    expect(illustrator.generateImage).not.toHaveBeenCalled();
+  });
+
+  it('should count a prefetched room as a hit when the Art Director keeps the cached image', async () => {
+    const guesser = {
+      ...gameMaster,
+      generateSceneDirection: jest.fn().mockResolvedValue(JSON.stringify({ ...direction, reuse_key: 'north_of_house' })),
+    };
+    const prefetcher = new Prefetcher(
+      {
+        createGameMaster: async () => guesser,
+        ensureImage: (gameIdentifier, sceneDirection, imageSize) =>
+          pipeline.ensureImage(gameIdentifier, sceneDirection, imageSize),
+      },
+      { maxPerMove: 1, idlePollMs: 1 }
+    );
+    pipeline = new IllustrationPipeline({
+      cache,
+      getGameMaster: jest.fn().mockResolvedValue(gameMaster),
+      illustrators: { forGame: () => illustrator },
+      promptVersion: () => promptVersion,
+      claimPrefetched: (move, imageKey) => prefetcher.claim(move, imageKey),
+    });
+    prefetcher.afterMove({ ...request, lastZMachineOutput: 'A path leads north.' });
+    await prefetcher.idle();
+    gameMaster.generateSceneDirection.mockResolvedValueOnce(
+      JSON.stringify({ ...direction, reuse_key: 'north_of_house', repaint: false })
+    );
+
+    const result = await pipeline.illustrate({ ...request, playerLocation: 'North of House', lastZMachineOutput: 'North of House' });
+
+    expect(result.usedCachedImage).toBe(true);
+    expect(prefetcher.stats()).toMatchObject({ hits: 1, misses: 0 });
+  });
+
+  describe('ensureImage', () => {
+    it('should generate and cache an image that is not cached yet', async () => {
+      expect(await pipeline.ensureImage('88.840726', { ...direction, reuse_key: 'North of House' }, '768x384')).toBe(true);
+
+      expect(illustrator.generateImage).toHaveBeenCalledWith(expect.any(String), '768x384', expect.any(Number));
+      expect((await cache.get('88.840726', imageCacheKey('North of House')))!.toString()).toBe('fresh-image');
+    });
+
+    it('should leave cached images alone', async () => {
+      await cache.set('88.840726', 'west_of_house.png', Buffer.from('old-image'));
+
+      expect(await pipeline.ensureImage('88.840726', direction)).toBe(false);
+      expect(illustrator.generateImage).not.toHaveBeenCalled();
+    });
+
+    it('should skip scene directions without a reuse_key', async () => {
+      expect(await pipeline.ensureImage('88.840726', { ...direction, reuse_key: '' })).toBe(false);
+      expect(illustrator.generateImage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cachedImage', () => {
+    it('should return nothing for a move that needs generating', async () => {
+      expect(await pipeline.cachedImage(request)).toBeUndefined();
+      expect(gameMaster.generateSceneDirection).not.toHaveBeenCalled();
+    });
+
+    it('should return the image a repeat move would be served', async () => {
+      await pipeline.illustrate(request);
+
+      expect((await pipeline.cachedImage(request))?.toString()).toBe('fresh-image');
+      expect(gameMaster.generateSceneDirection).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep a chosen variant canonical', async () => {
+      await pipeline.illustrate(request);
+      await new ImageVariants(cache).choose('88.840726', 'west_of_house', 0);
+
+      const regenerated = await pipeline.regenerateImage('88.840726', 'west_of_house', 'new-variant');
+
+      expect(regenerated?.variant.variant).toBe(1);
+      expect(JSON.parse((await cache.get('88.840726', 'west_of_house.json'))!.toString()).canonical).toBe(0);
+    });
+
+    it('should return nothing when the request invalidates the cache', async () => {
+      await pipeline.illustrate(request);
+
+      expect(await pipeline.cachedImage({ ...request, invalidate: true })).toBeUndefined();
+    });
+  });
+
+  describe('cache-only requests', () => {
+    it('should serve a cached move', async () => {
+      await pipeline.illustrate(request);
+      jest.clearAllMocks();
+
+      const result = await pipeline.illustrate({ ...request, cacheOnly: true });
+
+      expect(result.image.toString()).toBe('fresh-image');
+      expect(recordScene).toHaveBeenCalled();
+      expect(gameMaster.generateSceneDirection).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a move without a cached scene direction', async () => {
+      await expect(pipeline.illustrate({ ...request, cacheOnly: true })).rejects.toThrow(NotCachedError);
+      expect(gameMaster.generateSceneDirection).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a move whose image is not cached', async () => {
+      await pipeline.illustrate(request);
+      await cache.delete('88.840726', 'west_of_house.png');
+
+      await expect(pipeline.illustrate({ ...request, cacheOnly: true })).rejects.toThrow(NotCachedError);
+      expect(illustrator.generateImage).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refuse to regenerate', async () => {
+      await pipeline.illustrate(request);
+
+      await expect(
+        pipeline.illustrate({ ...request, cacheOnly: true, regenerate: 'new-variant' }),
+      ).rejects.toThrow(NotCachedError);
+    });
+  });
+
+  it('should serve a repeat move entirely from cache', async () => {
+    await pipeline.illustrate(request);
+    jest.clearAllMocks();
+
+    const result = await pipeline.illustrate(request);
+
+    expect(result.usedCachedSceneDirection).toBe(true);
+    expect(result.usedCachedImage).toBe(true);
+    expect(gameMaster.generateSceneDirection).not.toHaveBeenCalled();
+    expect(illustrator.generateImage).not.toHaveBeenCalled();
+  });
+
+  it('should reuse the cached image when the Art Director says not to repaint', async () => {
+    await cache.set('88.840726', 'west_of_house.png', Buffer.from('old-image'));
+    gameMaster.generateSceneDirection.mockResolvedValue(JSON.stringify({ ...direction, repaint: false }));
+
+    const result = await pipeline.illustrate(request);
+
+    expect(result.image.toString()).toBe('old-image');
+    expect(result.usedCachedImage).toBe(true);
+    expect(illustrator.generateImage).not.toHaveBeenCalled();
+  });
+
+  it('should repaint when the Art Director asks to, even with a cached image', async () => {
+    await cache.set('88.840726', 'west_of_house.png', Buffer.from('old-image'));
+
+    const result = await pipeline.illustrate(request);
+
+    expect(result.image.toString()).toBe('fresh-image');
+    expect((await cache.get('88.840726', 'west_of_house.png'))!.toString()).toBe('fresh-image');
+  });
+
+  it('should not repaint an image an editor chose', async () => {
+    await pipeline.illustrate(request);
+    await pipeline.illustrate({ ...request, regenerate: 'new-variant' });
+    await new ImageVariants(cache).choose('88.840726', 'west_of_house', 0);
+    jest.clearAllMocks();
+
+    const result = await pipeline.illustrate({ ...request, lastZMachineOutput: 'The house looms over you.' });
+
+    expect(result.usedCachedImage).toBe(true);
+    expect(illustrator.generateImage).not.toHaveBeenCalled();
+  });
+
+  it('should regenerate everything on invalidate', async () => {
+    await pipeline.illustrate(request);
+    jest.clearAllMocks();
+
+    const result = await pipeline.illustrate({ ...request, invalidate: true });
+
+    expect(result.usedCachedSceneDirection).toBe(false);
+    expect(gameMaster.generateSceneDirection).toHaveBeenCalled();
+    expect(illustrator.generateImage).toHaveBeenCalled();
+  });
+
+  it('should not cache the image when there is no reuse_key', async () => {
+    const { reuse_key, ...withoutKey } = direction;
+    gameMaster.generateSceneDirection.mockResolvedValue(JSON.stringify(withoutKey));
+
+    await pipeline.illustrate(request);
+
+    expect(await cache.list('88.840726')).toEqual([]);
+  });
+
+  it('should sanitize reuse_key before using it as a cache key', async () => {
+    gameMaster.generateSceneDirection.mockResolvedValue(
+      JSON.stringify({ ...direction, reuse_key: '../../etc/passwd' })
+    );
+
+    const result = await pipeline.illustrate(request);
+
+    expect(result.sceneDirection.reuse_key).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect((await cache.list('88.840726')).map((entry) => entry.key)).toContain(imageCacheKey('../../etc/passwd'));
+  });
+
+  it('should regenerate when the cached scene direction is invalid', async () => {
+    await cache.set(SCENE_DIRECTION_NAMESPACE, sceneKey(), Buffer.from('not json'));
+
+    const result = await pipeline.illustrate(request);
+
+    expect(result.usedCachedSceneDirection).toBe(false);
+    expect(gameMaster.generateSceneDirection).toHaveBeenCalled();
+  });
+
+  it('should record the scene in the session', async () => {
+    await pipeline.illustrate(request);
+
+    expect(recordScene).toHaveBeenCalledWith('test-session-123', {
+      gameIdentifier: '88.840726',
+      lastZMachineInput: 'look',
+      lastZMachineOutput: request.lastZMachineOutput,
+      answer: JSON.stringify(direction),
+      reuseKey: 'west_of_house',
+    });
+  });
+
+  it('should surface unusable Art Director output as SceneDirectionError', async () => {
+    gameMaster.generateSceneDirection.mockResolvedValue('I would rather not.');
+
+    await expect(pipeline.illustrate(request)).rejects.toBeInstanceOf(SceneDirectionError);
+    expect(illustrator.generateImage).not.toHaveBeenCalled();
+  });
+
+  describe('scene direction cache', () => {
+    it('should record the game, prompt version and model with each entry', async () => {
+      await pipeline.illustrate(request);
+
+      const entry = JSON.parse((await cache.get(SCENE_DIRECTION_NAMESPACE, sceneKey()))!.toString());
+      expect(entry).toEqual(
+        expect.objectContaining({
+          gameIdentifier: '88.840726',
+          promptVersion: 'v1',
+          backend: 'mock',
+          model: 'mock-model',
+        })
+      );
+    });
+
+    it('should not share directions between games with the same output', async () => {
+      await pipeline.illustrate(request);
+      await pipeline.illustrate({ ...request, gameIdentifier: '59.860730' });
+
+      expect(gameMaster.generateSceneDirection).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not share directions between locations with the same output', async () => {
+      await pipeline.illustrate({ ...request, lastZMachineOutput: 'Taken.' });
+      await pipeline.illustrate({ ...request, lastZMachineOutput: 'Taken.', playerLocation: 'Kitchen' });
+
+      expect(gameMaster.generateSceneDirection).toHaveBeenCalledTimes(2);
+    });
+
+    it('should key on illustration style and pass it to the Art Director', async () => {
+      await pipeline.illustrate(request);
+      await pipeline.illustrate({ ...request, illustrationStyle: 'ega' });
+
+      expect(gameMaster.generateSceneDirection).toHaveBeenCalledTimes(2);
+      expect(gameMaster.generateSceneDirection).toHaveBeenLastCalledWith(
+        expect.objectContaining({ illustrationStyle: 'ega' })
+      );
+    });
+
+    it('should regenerate after a prompt change', async () => {
+      await pipeline.illustrate(request);
+      promptVersion = 'v2';
+
+      const result = await pipeline.illustrate(request);
+
+      expect(result.usedCachedSceneDirection).toBe(false);
+      expect(gameMaster.generateSceneDirection).toHaveBeenCalledTimes(2);
+    });
+
+    it('should ignore entries from another prompt even when the prompt is not part of the key', async () => {
+      pipeline = new IllustrationPipeline({
+        cache,
+        getGameMaster: jest.fn().mockResolvedValue(gameMaster),
+        illustrators: { forGame: () => illustrator },
+        promptVersion: () => promptVersion,
+        sceneKeyFields: ['game', 'output'],
+      });
+      await pipeline.illustrate(request);
+      expect((await pipeline.illustrate({ ...request, playerLocation: 'Elsewhere' })).usedCachedSceneDirection).toBe(true);
+
+      promptVersion = 'v2';
+
+      expect((await pipeline.illustrate(request)).usedCachedSceneDirection).toBe(false);
+    });
+
+    it('should accept bare directions cached before entries had metadata', async () => {
+      await cache.set(SCENE_DIRECTION_NAMESPACE, sceneKey(), Buffer.from(JSON.stringify(direction)));
+
+      const result = await pipeline.illustrate(request);
+
+      expect(result.usedCachedSceneDirection).toBe(true);
+    });
+
+    it('should purge only matching entries', async () => {
+      await pipeline.illustrate(request);
+      promptVersion = 'v2';
+      await pipeline.illustrate(request);
+
+      const purged = await pipeline.purgeSceneDirections((entry) => entry.promptVersion === 'v1');
+
+      expect(purged).toBe(1);
+      expect(await cache.list(SCENE_DIRECTION_NAMESPACE)).toHaveLength(1);
+    });
+  });
+
+  describe('request coalescing', () => {
+    it('should make one Art Director and one Illustrator call for concurrent identical moves', async () => {
+      let finishDirection!: () => void;
+      gameMaster.generateSceneDirection.mockImplementation(
+        () => new Promise((resolve) => {
+          finishDirection = () => resolve(JSON.stringify(direction));
+        })
+      );
+
+      const first = pipeline.illustrate(request);
+      const second = pipeline.illustrate({ ...request, zmcdnSessionID: 'other-session' });
+      await new Promise((resolve) => setImmediate(resolve));
+      finishDirection();
+      const results = await Promise.all([first, second]);
+
+      expect(gameMaster.generateSceneDirection).toHaveBeenCalledTimes(1);
+      expect(illustrator.generateImage).toHaveBeenCalledTimes(1);
+      expect(results.map((r) => r.image.toString())).toEqual(['fresh-image', 'fresh-image']);
+      expect(recordScene).toHaveBeenCalledTimes(2);
+    });
+
+    it("should add a shared direction to the waiting session's Art Director history", async () => {
+      let finishDirection!: () => void;
+      gameMaster.generateSceneDirection.mockImplementation(
+        () => new Promise((resolve) => {
+          finishDirection = () => resolve(JSON.stringify(direction));
+        })
+      );
+      const otherGameMaster: jest.Mocked<GameMaster> = {
+        ...gameMaster,
+        generateSceneDirection: jest.fn(),
+        getHistory: jest.fn().mockReturnValue(['earlier answer']),
+        restoreHistory: jest.fn(),
+      };
+      pipeline = new IllustrationPipeline({
+        cache,
+        getGameMaster: jest.fn(async (sessionID: string) =>
+          sessionID === 'other-session' ? otherGameMaster : gameMaster
+        ),
+        illustrators: { forGame: () => illustrator },
+        recordScene,
+        promptVersion: () => promptVersion,
+      });
+
+      const first = pipeline.illustrate(request);
+      const second = pipeline.illustrate({ ...request, zmcdnSessionID: 'other-session' });
+      await new Promise((resolve) => setImmediate(resolve));
+      finishDirection();
+      await Promise.all([first, second]);
+
+      expect(otherGameMaster.generateSceneDirection).not.toHaveBeenCalled();
+      expect(otherGameMaster.restoreHistory).toHaveBeenCalledWith([
+        'earlier answer',
+        JSON.stringify(direction),
+      ]);
+      expect(gameMaster.restoreHistory).not.toHaveBeenCalled();
+    });
+
+    it('should share one image generation between different moves with the same reuse_key', async () => {
+      let finishImage!: () => void;
+      illustrator.generateImage.mockImplementation(
+        () => new Promise((resolve) => {
+          finishImage = () => resolve({
+            image: Buffer.from('shared-image'),
+            mimeType: 'image/png',
+            backend: 'mock',
+            model: 'mock-model',
+            size: '512x512',
+            prompt: '',
+          });
+        })
+      );
+
+      const first = pipeline.illustrate(request);
+      const second = pipeline.illustrate({ ...request, lastZMachineOutput: 'You look around.' });
+      while (!finishImage) {
+        await new Promise((resolve) => setImmediate(resolve));
+      }
+      await new Promise((resolve) => setImmediate(resolve));
+      finishImage();
+      const results = await Promise.all([first, second]);
+
+      expect(gameMaster.generateSceneDirection).toHaveBeenCalledTimes(2);
+      expect(illustrator.generateImage).toHaveBeenCalledTimes(1);
+      expect(results.map((r) => r.image.toString())).toEqual(['shared-image', 'shared-image']);
+    });
+
+    it('should let waiters see an upstream failure and retry afterwards', async () => {
+      illustrator.generateImage.mockRejectedValueOnce(new Error('Image generation failed with status 503'));
+
+      const results = await Promise.allSettled([pipeline.illustrate(request), pipeline.illustrate(request)]);
+
+      expect(results.map((r) => r.status)).toEqual(['rejected', 'rejected']);
+      expect(illustrator.generateImage).toHaveBeenCalledTimes(1);
+      expect((await pipeline.illustrate(request)).image.toString()).toBe('fresh-image');
+    });
+  });
+
+  describe('art bibles', () => {
+    const bible = parseArtBible(
+      JSON.stringify({
+        stylePrompt: 'EGA dungeon, hard shadows',
+        glossary: { thief: 'gaunt man in a grey hooded cloak' },
+        negativePrompt: 'text, watermarks',
+      }),
+      '88.840726.json'
+    );
+
+    beforeEach(() => {
+      pipeline = new IllustrationPipeline({
+        cache,
+        getGameMaster: jest.fn().mockResolvedValue(gameMaster),
+        illustrators: { forGame: () => illustrator },
+        promptVersion: () => promptVersion,
+        artBibles: { forGame: (gameIdentifier) => (gameIdentifier === '88.840726' ? bible : undefined) },
+      });
+    });
+
+    it('should send the art bible to the Art Director', async () => {
+      await pipeline.illustrate(request);
+
+      expect(gameMaster.generateSceneDirection.mock.calls[0][0].artBible).toEqual({
+        stylePrompt: 'EGA dungeon, hard shadows',
+        glossary: { thief: 'gaunt man in a grey hooded cloak' },
+        negativePrompt: 'text, watermarks',
+      });
+    });
+
+    it('should add the style and negative prompt to the Illustrator prompt', async () => {
+      await pipeline.illustrate(request);
+
+      expect(JSON.parse(illustrator.generateImage.mock.calls[0][0])).toEqual({
+        ...direction,
+        style: 'EGA dungeon, hard shadows',
+        avoid: 'text, watermarks',
+      });
+    });
+
+    it('should leave games without an art bible alone', async () => {
+      await pipeline.illustrate({ ...request, gameIdentifier: '59.860730' });
+
+      expect(gameMaster.generateSceneDirection.mock.calls[0][0].artBible).toBeUndefined();
+      expect(illustrator.generateImage).toHaveBeenCalledWith(
+        JSON.stringify(direction),
+        undefined,
+        deriveSeed('59.860730', 'west_of_house')
+      );
+    });
+
+    it('should cache scene directions under the art bible version', async () => {
+      await pipeline.illustrate(request);
+
+      const key = sceneDirectionCacheKey({ ...request, promptVersion: `v1+${bible.version}` });
+      expect(await cache.get(SCENE_DIRECTION_NAMESPACE, key)).toBeDefined();
+      expect(await cache.get(SCENE_DIRECTION_NAMESPACE, sceneKey())).toBeUndefined();
+    });
+  });
+
+  describe('recurring entities', () => {
+    const thief = { name: 'thief', kind: 'character' as const, description: 'gaunt man in a grey cloak' };
+    const lamp = { name: 'lamp', kind: 'item' as const, description: 'brass lantern' };
+    let entities: { known: jest.Mock; record: jest.Mock };
+
+    beforeEach(() => {
+      entities = {
+        known: jest.fn().mockResolvedValue([thief, lamp]),
+        record: jest.fn().mockResolvedValue(undefined),
+      };
+      pipeline = new IllustrationPipeline({
+        cache,
+        getGameMaster: jest.fn().mockResolvedValue(gameMaster),
+        illustrators: { forGame: () => illustrator },
+        recordScene,
+        promptVersion: () => promptVersion,
+        entities,
+      });
+    });
+
+    it('should send the entities a move mentions to the Art Director', async () => {
+      await pipeline.illustrate({ ...request, lastZMachineOutput: 'The thief is here.' });
+
+      expect(entities.known).toHaveBeenCalledWith('88.840726', 'test-session-123');
+      expect(gameMaster.generateSceneDirection.mock.calls[0][0].knownEntities).toEqual([thief]);
+    });
+
+    it('should leave knownEntities out when none are mentioned', async () => {
+      await pipeline.illustrate(request);
+
+      expect(gameMaster.generateSceneDirection.mock.calls[0][0]).not.toHaveProperty('knownEntities');
+    });
+
+    it('should record the entities a scene introduces for the game and the session', async () => {
+      gameMaster.generateSceneDirection.mockResolvedValue(JSON.stringify({ ...direction, entities: [thief] }));
+
+      await pipeline.illustrate(request);
+
+      expect(entities.record).toHaveBeenCalledWith('88.840726', [thief]);
+      expect(recordScene).toHaveBeenCalledWith(
+        'test-session-123',
+        expect.objectContaining({ entities: [thief] })
+      );
+    });
+  });
+
+  describe('seeds', () => {
+    it('should store the seed alongside the cached image', async () => {
+      await pipeline.illustrate(request);
+
+      expect(JSON.parse((await cache.get('88.840726', 'west_of_house.json'))!.toString())).toEqual({
+        canonical: 0,
+        variants: [expect.objectContaining({ seed, variant: 0, backend: 'mock', model: 'mock-model' })],
+      });
+    });
+
+    it('should redraw with the same seed after an invalidate', async () => {
+      await pipeline.illustrate(request);
+      await pipeline.illustrate({ ...request, invalidate: true });
+
+      expect(illustrator.generateImage.mock.calls.map((call) => call[2])).toEqual([seed, seed]);
+    });
+
+    it('should redraw a cached image with its seed on same-seed', async () => {
+      await pipeline.illustrate(request);
+      const result = await pipeline.illustrate({ ...request, regenerate: 'same-seed' });
+
+      expect(result.usedCachedSceneDirection).toBe(true);
+      expect(result.usedCachedImage).toBe(false);
+      expect(illustrator.generateImage.mock.calls.map((call) => call[2])).toEqual([seed, seed]);
+    });
+
+    it('should move on to the next seed for each new variant', async () => {
+      await pipeline.illustrate(request);
+      await pipeline.illustrate({ ...request, regenerate: 'new-variant' });
+      await pipeline.illustrate({ ...request, regenerate: 'new-variant' });
+      await pipeline.illustrate({ ...request, regenerate: 'same-seed' });
+
+      const variant2 = deriveSeed('88.840726', 'west_of_house', 2);
+      expect(illustrator.generateImage.mock.calls.map((call) => call[2])).toEqual([
+        seed,
+        deriveSeed('88.840726', 'west_of_house', 1),
+        variant2,
+        variant2,
+      ]);
+      expect(JSON.parse((await cache.get('88.840726', 'west_of_house.json'))!.toString()).canonical).toBe(3);
+    });
+
+    it('should keep the previous image as a variant when invalidated', async () => {
+      await pipeline.illustrate(request);
+      illustrator.generateImage.mockResolvedValueOnce({
+        image: Buffer.from('redrawn-image'),
+        mimeType: 'image/png',
+        backend: 'mock',
+        model: 'mock-model',
+        size: '512x512',
+        prompt: '',
+      });
+      await pipeline.illustrate({ ...request, invalidate: true });
+
+      expect((await cache.get('88.840726', 'west_of_house.png'))!.toString()).toBe('redrawn-image');
+      expect((await cache.get('88.840726', 'west_of_house.v0.png'))!.toString()).toBe('fresh-image');
+    });
+
+    it('should not hand out a cached image while regenerating', async () => {
+      await pipeline.illustrate(request);
+
+      expect(await pipeline.cachedImage({ ...request, regenerate: 'same-seed' })).toBeUndefined();
+    });
+  });
+
+  describe('regenerateImage', () => {
+    it('should redraw from the stored prompt and seed', async () => {
+      await pipeline.illustrate(request);
+
+      const regenerated = await pipeline.regenerateImage('88.840726', 'west_of_house', 'new-variant');
+
+      expect(regenerated).toEqual({
+        variant: expect.objectContaining({ variant: 1, seed: deriveSeed('88.840726', 'west_of_house', 1) }),
+        sameSeed: false,
+      });
+      expect(illustrator.generateImage).toHaveBeenLastCalledWith(
+        JSON.stringify(direction),
+        '512x512',
+        regenerated!.variant.seed
+      );
+      expect(gameMaster.generateSceneDirection).toHaveBeenCalledTimes(1);
+    });
+
+    it('should store no seed for a backend that ignores it, and say a redraw differs', async () => {
+      illustrator.generateImage.mockImplementation(async () => ({
+        image: Buffer.from('openai-image'),
+        mimeType: 'image/png',
+        backend: 'openai',
+        model: 'gpt-image-1',
+        size: '1024x1024',
+        prompt: '',
+      }));
+      await pipeline.illustrate(request);
+
+      const regenerated = await pipeline.regenerateImage('88.840726', 'west_of_house', 'same-seed');
+
+      expect(regenerated?.sameSeed).toBe(false);
+      const set = JSON.parse((await cache.get('88.840726', 'west_of_house.json'))!.toString());
+      expect(set.variants.map((v: { seed?: number }) => v.seed)).toEqual([undefined, undefined]);
+    });
+
+    it('should give up without a stored prompt', async () => {
+      expect(await pipeline.regenerateImage('88.840726', 'west_of_house')).toBeUndefined();
+      expect(illustrator.generateImage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('previewSceneDirection', () => {
+    it('should ask the given Art Director without caching, recording or drawing', async () => {
+      const preview = await pipeline.previewSceneDirection(request, gameMaster);
+
+      expect(preview.sceneState).toEqual(expect.objectContaining({ playerLocation: 'West of House' }));
+      expect(preview.sceneDirection).toEqual(direction);
+      expect(preview.illustrationPrompt).toBe(JSON.stringify(direction));
+      expect(await cache.list(SCENE_DIRECTION_NAMESPACE)).toEqual([]);
+      expect(recordScene).not.toHaveBeenCalled();
+      expect(illustrator.generateImage).not.toHaveBeenCalled();
+    });
+
+    it('should reject an unusable direction', async () => {
+      gameMaster.generateSceneDirection.mockResolvedValue('no idea');
+
+      await expect(pipeline.previewSceneDirection(request, gameMaster)).rejects.toThrow(SceneDirectionError);
+    });
+  });
+});
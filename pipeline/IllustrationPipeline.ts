@@ -0,0 +1,568 @@
+import { GameMaster, SceneState, getPromptVersion } from "../GameMaster";
+import { Illustration, Illustrator } from "../Illustrator";
+import { ArtBible, artBibleDirection, illustrationPrompt } from "../artbible/ArtBible";
+import { Entity, mentionedEntities } from "../entities/Entity";
+import { sanitizeReuseKey } from "../cachestore/CachePaths";
+import { CacheStore, SCENE_DIRECTION_NAMESPACE } from "../cachestore/CacheStore";
+import {
+  SceneDirection,
+  requestSceneDirection,
+  validateSceneDirection,
+} from "../gamemaster/SceneDirection";
+import { SceneRecord } from "../storage/SessionStore";
+import { SingleFlight } from "./SingleFlight";
+import { ImageVariant, RegenerateMode, imageCacheKey } from "./ImageMetadata";
+import { ImageVariants } from "./ImageVariants";
+import {
+  SceneCacheEntry,
+  SceneKeyField,
+  decodeSceneCacheEntry,
+  encodeSceneCacheEntry,
+  sceneDirectionCacheKey,
+} from "./SceneCacheKey";
+
+/**
+ * A validated /illustrateMove request
+ */
+export interface IllustrationRequest {
+  zmcdnSessionID: string;
+  lastZMachineOutput: string;
+  lastZMachineInput: string;
+  playerLocation: string;
+  gameIdentifier: string;
+  /** Free-form style the client asked for; passed to the Art Director */
+  illustrationStyle?: string;
+  /** Skip cached scene direction and image and regenerate both */
+  invalidate?: boolean;
+  /**
+   * Size to generate at if a new image is needed, e.g. "768x512". Cached
+   * images are reused whatever size they were generated at.
+   */
+  imageSize?: string;
+  /**
+   * Redraw the image even if it's cached, with the seed it was drawn with or
+   * as a new variant; the scene direction is still reused
+   */
+  regenerate?: RegenerateMode;
+  /**
+   * Serve the move only from cache, e.g. for a client over its generation
+   * budget; a move that would need the Art Director or Illustrator fails
+   * with NotCachedError instead
+   */
+  cacheOnly?: boolean;
+}
+
+/**
+ * Thrown for a cache-only move whose scene direction or image isn't cached
+ */
+export class NotCachedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NotCachedError";
+  }
+}
+
+/**
+ * Upstream stages of a move, reported as the pipeline reaches them
+ */
+export type IllustrationStage = "directing" | "illustrating";
+
+/**
+ * The scene direction and source image for a move
+ */
+export interface IllustrationResult {
+  sceneDirection: SceneDirection;
+  image: Buffer;
+  usedCachedSceneDirection: boolean;
+  usedCachedImage: boolean;
+}
+
+/**
+ * An image redrawn by regenerateImage()
+ */
+export interface RegeneratedImage {
+  variant: ImageVariant;
+  /**
+   * Whether it was drawn with the seed of the image it redraws; false for a
+   * new variant, or when that image's backend ignored seeds, in which case
+   * it's a different picture
+   */
+  sameSeed: boolean;
+}
+
+/**
+ * Collaborators the pipeline needs; injected so it can be tested without a server
+ */
+export interface IllustrationPipelineDeps {
+  cache: CacheStore;
+  getGameMaster: (sessionID: string) => Promise<GameMaster>;
+  illustrators: { forGame(gameIdentifier?: string): Illustrator };
+  recordScene?: (sessionID: string, record: SceneRecord) => Promise<void>;
+  /** Debug logging; called with a message and the fields it concerns */
+  log?: (...args: any[]) => void;
+  /** Request fields the scene direction cache key is built from (default all) */
+  sceneKeyFields?: SceneKeyField[];
+  /** Version of the active Art Director prompt (default getPromptVersion) */
+  promptVersion?: () => string;
+  /**
+   * Whether an image was prefetched for this session ahead of the move; a
+   * prefetched image is used even if the Art Director asks for a repaint
+   */
+  claimPrefetched?: (request: IllustrationRequest, imageKey: string) => boolean;
+  /** Per-game art bibles merged into every Art Director and Illustrator request */
+  artBibles?: { forGame(gameIdentifier: string): ArtBible | undefined };
+  /**
+   * Recurring characters, items and rooms; those a move mentions are sent to
+   * the Art Director, and those it introduces are recorded
+   */
+  entities?: {
+    known(gameIdentifier: string, sessionID: string): Promise<Entity[]>;
+    record(gameIdentifier: string, entities: Entity[]): Promise<void>;
+  };
+  /** Where generated images are kept as variants (default: a store over cache) */
+  variants?: ImageVariants;
+}
+
+/**
+ * IllustrationPipeline turns a move into scene direction and a source image,
+ * using the cache where it can and the Art Director and Illustrator where it
+ * can't. Concurrent requests for the same scene direction or image share one
+ * upstream call.
+ */
+export class IllustrationPipeline {
+  private deps: IllustrationPipelineDeps;
+  private directionFlights = new SingleFlight<{
+    sceneDirection: SceneDirection;
+    generatedAnswer: string;
+    sessionID: string;
+  }>();
+  private imageFlights = new SingleFlight<{ illustration: Illustration; regenerated?: RegeneratedImage }>();
+  private log: (...args: any[]) => void;
+  private promptVersion: () => string;
+  private variants: ImageVariants;
+
+  constructor(deps: IllustrationPipelineDeps) {
+    this.deps = deps;
+    this.variants = deps.variants ?? new ImageVariants(deps.cache);
+    this.log = deps.log ?? (() => {});
+    this.promptVersion = deps.promptVersion ?? getPromptVersion;
+  }
+
+  /**
+   * Produce scene direction and image for a move
+   * @param request The validated request
+   * @param onProgress Called as the pipeline moves from directing to illustrating
+   * @throws SceneDirectionError if the Art Director's output is unusable
+   * @throws NotCachedError if the request is cache-only and the move isn't cached
+   */
+  async illustrate(
+    request: IllustrationRequest,
+    onProgress: (stage: IllustrationStage) => void = () => {},
+  ): Promise<IllustrationResult> {
+    const { cache } = this.deps;
+    onProgress("directing");
+    const { sceneDirection, usedCachedSceneDirection, generatedAnswer } =
+      await this.directScene(request);
+
+    await this.deps.recordScene?.(request.zmcdnSessionID, {
+      gameIdentifier: request.gameIdentifier,
+      lastZMachineInput: request.lastZMachineInput,
+      lastZMachineOutput: request.lastZMachineOutput,
+      answer: generatedAnswer,
+      reuseKey: sceneDirection.reuse_key,
+      entities: sceneDirection.entities,
+    });
+    if (sceneDirection.entities) {
+      await this.deps.entities?.record(request.gameIdentifier, sceneDirection.entities);
+    }
+
+    const imageKey = sceneDirection.reuse_key ? imageCacheKey(sceneDirection.reuse_key) : undefined;
+
+    // Check if we should use cached image
+    if (!request.invalidate && !request.regenerate && imageKey) {
+      const cached = await cache.get(request.gameIdentifier, imageKey);
+      // A prefetched image counts as a hit however the move comes to be served from it
+      const prefetched = cached !== undefined && (this.deps.claimPrefetched?.(request, imageKey) ?? false);
+      // If we used cached scene direction, always use cached image (ignore repaint flag),
+      // and an image an editor chose is never repainted
+      if (
+        usedCachedSceneDirection ||
+        sceneDirection.repaint === false ||
+        prefetched ||
+        (await this.variants.isChosen(request.gameIdentifier, sceneDirection.reuse_key!))
+      ) {
+        if (cached) {
+          this.log(`Using cached image ${request.gameIdentifier}/${imageKey}`, logFields(request));
+          return { sceneDirection, image: cached, usedCachedSceneDirection, usedCachedImage: true };
+        }
+        this.log(`Cache miss for ${request.gameIdentifier}/${imageKey}, generating new image`, logFields(request));
+      }
+    }
+    if (request.cacheOnly) {
+      throw new NotCachedError(`No cached image for the scene in ${request.gameIdentifier}`);
+    }
+
+    onProgress("illustrating");
+    const { illustration } = await this.generateImage(
+      request.gameIdentifier,
+      sceneDirection.reuse_key,
+      this.illustrationPrompt(request.gameIdentifier, sceneDirection),
+      request.imageSize,
+      request.regenerate,
+    );
+
+    return {
+      sceneDirection,
+      image: illustration.image,
+      usedCachedSceneDirection,
+      usedCachedImage: false,
+    };
+  }
+
+  /**
+   * Delete cached scene directions matching a predicate, e.g. every entry
+   * produced by an old prompt version or by one game
+   * @param predicate Decides, from an entry's metadata, whether to delete it
+   * @returns The number of entries deleted
+   */
+  async purgeSceneDirections(
+    predicate: (entry: Omit<SceneCacheEntry, "direction">) => boolean,
+  ): Promise<number> {
+    const { cache } = this.deps;
+    let purged = 0;
+    for (const { key } of await cache.list(SCENE_DIRECTION_NAMESPACE)) {
+      const value = await cache.get(SCENE_DIRECTION_NAMESPACE, key);
+      if (!value) continue;
+      let metadata: Omit<SceneCacheEntry, "direction">;
+      try {
+        const { direction, ...rest } = decodeSceneCacheEntry(value);
+        metadata = rest;
+      } catch {
+        metadata = {};
+      }
+      if (predicate(metadata) && (await cache.delete(SCENE_DIRECTION_NAMESPACE, key))) {
+        purged++;
+      }
+    }
+    return purged;
+  }
+
+  /**
+   * Look up the image a move would be served from cache, without calling the
+   * Art Director or Illustrator
+   * @param request The validated request
+   * @returns The cached image, or undefined if the move would need generating
+   */
+  async cachedImage(request: IllustrationRequest): Promise<Buffer | undefined> {
+    if (request.invalidate || request.regenerate) {
+      return undefined;
+    }
+    const promptVersion = this.promptVersionFor(request.gameIdentifier);
+    const sceneDirection = await this.cachedSceneDirection(
+      this.sceneKey(request, promptVersion),
+      promptVersion,
+    );
+    if (!sceneDirection?.reuse_key) {
+      return undefined;
+    }
+    return this.deps.cache.get(request.gameIdentifier, imageCacheKey(sceneDirection.reuse_key));
+  }
+
+  /**
+   * Generate and cache the image for a scene direction unless it's cached
+   * already, e.g. to prefetch a room before the player gets there
+   * @param gameIdentifier Game release/serial
+   * @param sceneDirection The scene direction; needs a reuse_key
+   * @param imageSize Size to generate at, or undefined for the backend default
+   * @returns true if an image was generated
+   */
+  async ensureImage(
+    gameIdentifier: string,
+    sceneDirection: SceneDirection,
+    imageSize?: string,
+  ): Promise<boolean> {
+    if (!sceneDirection.reuse_key) {
+      return false;
+    }
+    if (await this.deps.cache.get(gameIdentifier, imageCacheKey(sceneDirection.reuse_key))) {
+      return false;
+    }
+    const normalized = normalizeReuseKey({ ...sceneDirection });
+    await this.generateImage(
+      gameIdentifier,
+      normalized.reuse_key,
+      this.illustrationPrompt(gameIdentifier, normalized),
+      imageSize,
+    );
+    return true;
+  }
+
+  /**
+   * Redraw a reuse_key's image from the prompt its canonical variant was
+   * drawn with, without a move, e.g. from the admin API
+   * @param gameIdentifier Game release/serial
+   * @param reuseKey reuse_key of the image
+   * @param regenerate Redraw with the canonical seed or as a new variant
+   * @returns The new variant, which is canonical unless an editor chose
+   *   another, or undefined if there's no stored prompt to redraw from
+   */
+  async regenerateImage(
+    gameIdentifier: string,
+    reuseKey: string,
+    regenerate: RegenerateMode = "same-seed",
+  ): Promise<RegeneratedImage | undefined> {
+    const key = sanitizeReuseKey(reuseKey);
+    const set = await this.variants.list(gameIdentifier, key);
+    const canonical = set?.variants.find((variant) => variant.variant === set.canonical);
+    if (!canonical?.prompt) {
+      return undefined;
+    }
+    const { regenerated } = await this.generateImage(gameIdentifier, key, canonical.prompt, canonical.size, regenerate);
+    return regenerated;
+  }
+
+  /**
+   * Ask an Art Director how it would direct a move, without caching the
+   * direction, recording the scene or drawing anything, e.g. to debug bad art
+   * @param request The move
+   * @param gameMaster The Art Director to ask; its history is used and updated
+   * @returns The scene state sent and the direction that came back, along
+   *   with the prompt the Illustrator would get
+   * @throws SceneDirectionError if the Art Director's output is unusable
+   */
+  async previewSceneDirection(
+    request: IllustrationRequest,
+    gameMaster: GameMaster,
+  ): Promise<{ sceneState: SceneState; sceneDirection: SceneDirection; illustrationPrompt: string }> {
+    const sceneState = await this.sceneState(request);
+    const sceneDirection = normalizeReuseKey(await requestSceneDirection(gameMaster, sceneState));
+    return {
+      sceneState,
+      sceneDirection,
+      illustrationPrompt: this.illustrationPrompt(request.gameIdentifier, sceneDirection),
+    };
+  }
+
+  /**
+   * Ask the Illustrator for an image and keep it as the reuse_key's newest
+   * variant, with the seed it was drawn with if the backend took one.
+   * Concurrent requests for the same image share one generation.
+   */
+  private async generateImage(
+    gameIdentifier: string,
+    reuseKey: string | undefined,
+    prompt: string,
+    imageSize?: string,
+    regenerate?: RegenerateMode,
+  ): Promise<{ illustration: Illustration; regenerated?: RegeneratedImage }> {
+    const imageKey = reuseKey ? imageCacheKey(reuseKey) : undefined;
+
+    const generate = async () => {
+      // Redraw with the canonical variant's seed, or a new variant's; a scene
+      // without a reuse_key has nothing to derive a seed from
+      const next = reuseKey
+        ? await this.variants.nextSeed(gameIdentifier, reuseKey, regenerate)
+        : undefined;
+
+      const illustration = await this.deps.illustrators
+        .forGame(gameIdentifier)
+        .generateImage(prompt, imageSize, next?.seed);
+
+      // Save image to cache if we have a reuse_key
+      if (!reuseKey || !next) {
+        return { illustration };
+      }
+      // Only seeds the backend reports using make the image reproducible
+      const variant = await this.variants.add(gameIdentifier, reuseKey, illustration.image, {
+        variant: next.variant,
+        seed: illustration.seed,
+        prompt,
+        backend: illustration.backend,
+        model: illustration.model,
+        size: illustration.size,
+        createdAt: Date.now(),
+      });
+      this.log(`Cached image ${gameIdentifier}/${imageKey} (variant ${variant.variant}, seed ${variant.seed ?? "none"})`, {
+        gameIdentifier,
+        reuseKey,
+        variant: variant.variant,
+        seed: variant.seed,
+      });
+      return { illustration, regenerated: { variant, sameSeed: next.sameSeed && variant.seed === next.seed } };
+    };
+
+    // Without a reuse_key there's nothing to coalesce on
+    return imageKey
+      ? this.imageFlights.do(`${gameIdentifier}/${imageKey}${regenerate === "new-variant" ? "#new" : ""}`, generate)
+      : generate();
+  }
+
+  /**
+   * The Illustrator gets the whole scene direction, plus the game's house
+   * style, as its prompt
+   */
+  private illustrationPrompt(gameIdentifier: string, sceneDirection: SceneDirection): string {
+    return illustrationPrompt(sceneDirection, this.deps.artBibles?.forGame(gameIdentifier));
+  }
+
+  /**
+   * The prompt version scene directions for a game are cached under; a game
+   * with an art bible folds in the bible's version so edits to it take effect
+   */
+  private promptVersionFor(gameIdentifier: string): string {
+    const artBible = this.deps.artBibles?.forGame(gameIdentifier);
+    const promptVersion = this.promptVersion();
+    return artBible ? `${promptVersion}+${artBible.version}` : promptVersion;
+  }
+
+  private sceneKey(request: IllustrationRequest, promptVersion: string): string {
+    return sceneDirectionCacheKey(
+      {
+        gameIdentifier: request.gameIdentifier,
+        playerLocation: request.playerLocation,
+        lastZMachineOutput: request.lastZMachineOutput,
+        illustrationStyle: request.illustrationStyle,
+        promptVersion,
+      },
+      this.deps.sceneKeyFields,
+    );
+  }
+
+  private async cachedSceneDirection(
+    key: string,
+    promptVersion: string,
+  ): Promise<SceneDirection | undefined> {
+    const cached = await this.deps.cache.get(SCENE_DIRECTION_NAMESPACE, key);
+    return cached ? this.readCachedDirection(key, cached, promptVersion) : undefined;
+  }
+
+  private async directScene(request: IllustrationRequest): Promise<{
+    sceneDirection: SceneDirection;
+    usedCachedSceneDirection: boolean;
+    generatedAnswer?: string;
+  }> {
+    const { cache } = this.deps;
+    const promptVersion = this.promptVersionFor(request.gameIdentifier);
+    const key = this.sceneKey(request, promptVersion);
+
+    if (!request.invalidate) {
+      const sceneDirection = await this.cachedSceneDirection(key, promptVersion);
+      if (sceneDirection) {
+        this.log(`Using cached scene direction ${key}`, logFields(request));
+        return { sceneDirection, usedCachedSceneDirection: true };
+      }
+    }
+    if (request.cacheOnly) {
+      throw new NotCachedError(`No cached scene direction ${key}`);
+    }
+
+    const { sceneDirection, generatedAnswer, sessionID } = await this.directionFlights.do(key, async () => {
+      const sceneState = await this.sceneState(request);
+
+      // Ask the session's Art Director, re-asking once if the answer is malformed
+      const gameMaster = await this.deps.getGameMaster(request.zmcdnSessionID);
+      const sceneDirection = normalizeReuseKey(await requestSceneDirection(gameMaster, sceneState));
+      const generatedAnswer = JSON.stringify(sceneDirection);
+
+      await cache.set(
+        SCENE_DIRECTION_NAMESPACE,
+        key,
+        encodeSceneCacheEntry({
+          direction: sceneDirection,
+          gameIdentifier: request.gameIdentifier,
+          promptVersion,
+          backend: gameMaster.name,
+          model: gameMaster.model,
+          createdAt: Date.now(),
+        }),
+      );
+      this.log(`Cached scene direction ${key}`, { ...logFields(request), sceneDirection });
+
+      return { sceneDirection, generatedAnswer, sessionID: request.zmcdnSessionID };
+    });
+
+    if (sessionID !== request.zmcdnSessionID) {
+      // Another session's Art Director answered; keep it in this session's history too
+      const gameMaster = await this.deps.getGameMaster(request.zmcdnSessionID);
+      gameMaster.restoreHistory([...gameMaster.getHistory(), generatedAnswer]);
+    }
+
+    return { sceneDirection: { ...sceneDirection }, usedCachedSceneDirection: false, generatedAnswer };
+  }
+
+  /**
+   * The scene state sent to the Art Director for a move: the move itself,
+   * plus the game's art bible and the recurring entities the move mentions
+   */
+  private async sceneState(request: IllustrationRequest): Promise<SceneState> {
+    const sceneState: SceneState = {
+      zmcdnSessionID: request.zmcdnSessionID,
+      playerLocation: request.playerLocation,
+      lastZMachineInput: request.lastZMachineInput,
+      lastZMachineOutput: request.lastZMachineOutput,
+    };
+    if (request.illustrationStyle) {
+      sceneState.illustrationStyle = request.illustrationStyle;
+    }
+    const artBible = this.deps.artBibles?.forGame(request.gameIdentifier);
+    const artDirection = artBible && artBibleDirection(artBible);
+    if (artDirection) {
+      sceneState.artBible = artDirection;
+    }
+    const knownEntities = mentionedEntities(
+      (await this.deps.entities?.known(request.gameIdentifier, request.zmcdnSessionID)) ?? [],
+      [request.playerLocation, request.lastZMachineInput, request.lastZMachineOutput],
+    );
+    if (knownEntities.length > 0) {
+      sceneState.knownEntities = knownEntities;
+    }
+    return sceneState;
+  }
+
+  /**
+   * Validate a cached scene direction; entries that don't validate or came
+   * from a different prompt version count as misses
+   */
+  private readCachedDirection(
+    key: string,
+    cached: Buffer,
+    promptVersion: string,
+  ): SceneDirection | undefined {
+    let entry;
+    try {
+      entry = decodeSceneCacheEntry(cached);
+    } catch {
+      this.log(`Ignoring unparseable cached scene direction ${key}`);
+      return undefined;
+    }
+    if (entry.promptVersion && entry.promptVersion !== promptVersion) {
+      this.log(`Ignoring cached scene direction ${key} from prompt ${entry.promptVersion}`);
+      return undefined;
+    }
+    const result = validateSceneDirection(entry.direction);
+    if (!result.ok) {
+      this.log(`Ignoring invalid cached scene direction ${key}`);
+      return undefined;
+    }
+    return normalizeReuseKey(result.direction);
+  }
+}
+
+export { imageCacheKey };
+
+/**
+ * Fields identifying the session and game a log line is about
+ */
+function logFields(request: IllustrationRequest): { zmcdnSessionID: string; gameIdentifier: string } {
+  return { zmcdnSessionID: request.zmcdnSessionID, gameIdentifier: request.gameIdentifier };
+}
+
+/**
+ * reuse_key comes from the LLM and becomes a file name, so normalize it
+ */
+function normalizeReuseKey(sceneDirection: SceneDirection): SceneDirection {
+  if (sceneDirection.reuse_key) {
+    sceneDirection.reuse_key = sanitizeReuseKey(sceneDirection.reuse_key);
+  }
+  return sceneDirection;
+}
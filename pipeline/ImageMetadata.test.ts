@@ -0,0 +1,73 @@
+import {
+  decodeImageVariantSet,
+  deriveSeed,
+  encodeImageVariantSet,
+  imageCacheKey,
+  imageVariantKey,
+  imageVariantSetKey,
+  servedImageReuseKey,
+} from './ImageMetadata';
+
+describe('ImageMetadata', () => {
+  describe('deriveSeed', () => {
+    it('should be stable for the same game and reuse_key', () => {
+      expect(deriveSeed('88.840726', 'west_of_house')).toBe(deriveSeed('88.840726', 'west_of_house'));
+    });
+
+    it('should differ between games, reuse_keys and variants', () => {
+      const seeds = new Set([
+        deriveSeed('88.840726', 'west_of_house'),
+        deriveSeed('59.860730', 'west_of_house'),
+        deriveSeed('88.840726', 'cellar'),
+        deriveSeed('88.840726', 'west_of_house', 1),
+      ]);
+
+      expect(seeds.size).toBe(4);
+    });
+
+    it('should be a non-negative 31-bit integer', () => {
+      const seed = deriveSeed('88.840726', 'west_of_house');
+
+      expect(Number.isInteger(seed)).toBe(true);
+      expect(seed).toBeGreaterThanOrEqual(0);
+      expect(seed).toBeLessThan(2 ** 31);
+    });
+  });
+
+  it('should key variants next to the image without colliding with other reuse_keys', () => {
+    expect(imageCacheKey('west_of_house')).toBe('west_of_house.png');
+    expect(imageVariantSetKey('west_of_house')).toBe('west_of_house.json');
+    expect(imageVariantKey('west_of_house', 2)).toBe('west_of_house.v2.png');
+    expect(imageCacheKey('west_of_house.v2')).not.toBe(imageVariantKey('west_of_house', 2));
+  });
+
+  it('should tell served images from variants and variant sets', () => {
+    expect(servedImageReuseKey(imageCacheKey('west_of_house'))).toBe('west_of_house');
+    expect(servedImageReuseKey(imageVariantKey('west_of_house', 2))).toBeUndefined();
+    expect(servedImageReuseKey(imageVariantSetKey('west_of_house'))).toBeUndefined();
+  });
+
+  it('should round-trip a variant set', () => {
+    const set = {
+      canonical: 1,
+      variants: [
+        { variant: 0, seed: 42, backend: 'flux', size: '512x512', createdAt: 1 },
+        { variant: 1, seed: 43, prompt: 'a house', createdAt: 2 },
+      ],
+    };
+
+    expect(decodeImageVariantSet(encodeImageVariantSet(set))).toEqual(set);
+  });
+
+  it('should read single-image metadata as a set of one', () => {
+    expect(decodeImageVariantSet(Buffer.from('{"seed": 42, "variant": 0}'))).toEqual({
+      canonical: 0,
+      variants: [{ seed: 42, variant: 0 }],
+    });
+  });
+
+  it('should reject unreadable variant sets', () => {
+    expect(decodeImageVariantSet(Buffer.from('not json'))).toBeUndefined();
+    expect(decodeImageVariantSet(Buffer.from('{"canonical": 0, "variants": [{"seed": "x"}]}'))).toBeUndefined();
+  });
+});
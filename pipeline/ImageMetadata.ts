@@ -0,0 +1,120 @@
+import crypto from "crypto";
+import { sanitizeReuseKey } from "../cachestore/CachePaths";
+
+/**
+ * How to regenerate a cached image: with the seed it was drawn with, or
+ * with the next seed for a new variant
+ */
+export type RegenerateMode = "same-seed" | "new-variant";
+
+export const REGENERATE_MODES: RegenerateMode[] = ["same-seed", "new-variant"];
+
+/**
+ * One candidate image for a reuse_key and what it was generated with
+ */
+export interface ImageVariant {
+  /** Variant number, unique within the reuse_key; 0 for the first image */
+  variant: number;
+  /**
+   * Seed the Illustrator drew with; absent if it ignores seeds, in which
+   * case the image can't be drawn the same way again
+   */
+  seed?: number;
+  prompt?: string;
+  backend?: string;
+  model?: string;
+  size?: string;
+  createdAt?: number;
+}
+
+/**
+ * The variants of a reuse_key's image, stored next to it. The canonical
+ * variant is the one served.
+ */
+export interface ImageVariantSet {
+  canonical: number;
+  /**
+   * Whether an editor chose the canonical variant; new images are then kept
+   * as variants without replacing it
+   */
+  chosen?: boolean;
+  /** Oldest first */
+  variants: ImageVariant[];
+}
+
+/**
+ * Seed for an image, derived from the game and reuse_key so the same scene
+ * is drawn the same way after an invalidate or a cache loss
+ * @param gameIdentifier Game release/serial
+ * @param reuseKey reuse_key from the scene direction
+ * @param variant Variant number; each gives a different seed (default 0)
+ * @returns A non-negative 31-bit integer
+ */
+export function deriveSeed(gameIdentifier: string, reuseKey: string, variant: number = 0): number {
+  const material = variant === 0 ? `${gameIdentifier}/${reuseKey}` : `${gameIdentifier}/${reuseKey}#${variant}`;
+  return crypto.createHash("sha256").update(material).digest().readUInt32BE(0) & 0x7fffffff;
+}
+
+/**
+ * Cache key for the image of a given reuse_key
+ * @param reuseKey reuse_key from the scene direction
+ */
+export function imageCacheKey(reuseKey: string): string {
+  return `${sanitizeReuseKey(reuseKey)}.png`;
+}
+
+/**
+ * The reuse_key a cache key serves the image of, if it's a served image's
+ * key rather than a variant's or a variant set's
+ * @param key Cache key within a game's namespace
+ */
+export function servedImageReuseKey(key: string): string | undefined {
+  return /^([A-Za-z0-9_-]+)\.png$/.exec(key)?.[1];
+}
+
+/**
+ * Cache key for the variant set of a given reuse_key's image
+ * @param reuseKey reuse_key from the scene direction
+ */
+export function imageVariantSetKey(reuseKey: string): string {
+  return `${sanitizeReuseKey(reuseKey)}.json`;
+}
+
+/**
+ * Cache key for one variant's image. Sanitized reuse_keys have no dots, so
+ * these never collide with another reuse_key's image.
+ * @param reuseKey reuse_key from the scene direction
+ * @param variant Variant number
+ */
+export function imageVariantKey(reuseKey: string, variant: number): string {
+  return `${sanitizeReuseKey(reuseKey)}.v${variant}.png`;
+}
+
+/**
+ * Serialize a variant set for storage
+ */
+export function encodeImageVariantSet(set: ImageVariantSet): Buffer {
+  return Buffer.from(JSON.stringify(set));
+}
+
+/**
+ * Deserialize a stored variant set. The single-image metadata written
+ * before images had variants reads as a set of that one variant.
+ * @returns The set, or undefined if it's unreadable
+ */
+export function decodeImageVariantSet(value: Buffer): ImageVariantSet | undefined {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(value.toString("utf-8"));
+  } catch {
+    return undefined;
+  }
+  const isVariant = (v: any) => Number.isInteger(v?.variant) && (v.seed === undefined || Number.isInteger(v.seed));
+  if (Number.isInteger(parsed?.canonical) && Array.isArray(parsed?.variants) && parsed.variants.every(isVariant)) {
+    return parsed;
+  }
+  if (isVariant(parsed)) {
+    return { canonical: parsed.variant, variants: [parsed] };
+  }
+  return undefined;
+}
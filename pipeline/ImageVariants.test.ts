@@ -0,0 +1,178 @@
+import { CacheStoreMemory } from '../cachestore/CacheStoreMemory';
+import { deriveSeed } from './ImageMetadata';
+import { ImageVariantError, ImageVariants, createImageVariants } from './ImageVariants';
+
+describe('ImageVariants', () => {
+  const game = '88.840726';
+  const key = 'west_of_house';
+
+  let cache: CacheStoreMemory;
+  let variants: ImageVariants;
+
+  const served = async () => (await cache.get(game, 'west_of_house.png'))?.toString();
+
+  const addNext = async (image: string, regenerate?: 'same-seed' | 'new-variant') => {
+    const next = await variants.nextSeed(game, key, regenerate);
+    return variants.add(game, key, Buffer.from(image), { variant: next.variant, seed: next.seed, createdAt: 1 });
+  };
+
+  beforeEach(() => {
+    cache = new CacheStoreMemory();
+    variants = new ImageVariants(cache);
+  });
+
+  it('should start with the derived seed', async () => {
+    expect(await variants.list(game, key)).toBeUndefined();
+    expect(await variants.nextSeed(game, key)).toEqual({ seed: deriveSeed(game, key), variant: 0, sameSeed: false });
+  });
+
+  it('should keep every image and serve the newest', async () => {
+    await addNext('first');
+    await addNext('second', 'new-variant');
+
+    const set = await variants.list(game, key);
+    expect(set?.canonical).toBe(1);
+    expect(set?.variants.map((v) => v.seed)).toEqual([deriveSeed(game, key), deriveSeed(game, key, 1)]);
+    expect((await variants.image(game, key, 0))?.toString()).toBe('first');
+    expect(await served()).toBe('second');
+  });
+
+  it('should reuse the canonical seed unless a new variant is asked for', async () => {
+    await addNext('first');
+    await addNext('second', 'new-variant');
+    await variants.choose(game, key, 0);
+
+    expect(await variants.nextSeed(game, key)).toEqual({ seed: deriveSeed(game, key), variant: 2, sameSeed: true });
+    expect(await variants.nextSeed(game, key, 'new-variant')).toEqual({
+      seed: deriveSeed(game, key, 2),
+      variant: 2,
+      sameSeed: false,
+    });
+  });
+
+  it('should not reuse the seed of a variant its backend drew without one', async () => {
+    await variants.add(game, key, Buffer.from('openai'), { variant: 0, createdAt: 1 });
+
+    expect(await variants.nextSeed(game, key, 'same-seed')).toEqual({
+      seed: deriveSeed(game, key, 1),
+      variant: 1,
+      sameSeed: false,
+    });
+  });
+
+  it('should serve the chosen variant', async () => {
+    await addNext('first');
+    await addNext('second', 'new-variant');
+
+    expect((await variants.choose(game, key, 0)).canonical).toBe(0);
+    expect(await served()).toBe('first');
+    await expect(variants.choose(game, key, 7)).rejects.toThrow(ImageVariantError);
+  });
+
+  it('should fall back to the newest variant when the canonical one is deleted', async () => {
+    await addNext('first');
+    await addNext('second', 'new-variant');
+    await addNext('third', 'new-variant');
+    await variants.choose(game, key, 1);
+
+    expect((await variants.delete(game, key, 1))?.canonical).toBe(2);
+    expect(await served()).toBe('third');
+    expect(await variants.image(game, key, 1)).toBeUndefined();
+    await expect(variants.delete(game, key, 1)).rejects.toThrow(ImageVariantError);
+  });
+
+  it('should remove the image with its last variant', async () => {
+    await addNext('first');
+
+    expect(await variants.delete(game, key, 0)).toBeUndefined();
+    expect(await served()).toBeUndefined();
+    expect(await cache.list(game)).toEqual([]);
+  });
+
+  it('should keep a chosen variant canonical and served when a new image is added', async () => {
+    await addNext('first');
+    await addNext('second', 'new-variant');
+    await variants.choose(game, key, 0);
+
+    await addNext('repainted');
+
+    const set = await variants.list(game, key);
+    expect(set).toEqual(expect.objectContaining({ canonical: 0, chosen: true }));
+    expect(set?.variants.map((v) => v.variant)).toEqual([0, 1, 2]);
+    expect(await served()).toBe('first');
+  });
+
+  it('should let the newest variant take over once a chosen variant is deleted', async () => {
+    await addNext('first');
+    await addNext('second', 'new-variant');
+    await variants.choose(game, key, 0);
+
+    expect(await variants.delete(game, key, 0)).toEqual({ canonical: 1, variants: [expect.objectContaining({ variant: 1 })] });
+    await addNext('third', 'new-variant');
+
+    expect(await served()).toBe('third');
+  });
+
+  it('should never drop the canonical variant past the limit', async () => {
+    variants = new ImageVariants(cache, { maxVariants: 2 });
+    await addNext('first');
+    await addNext('second', 'new-variant');
+    await variants.choose(game, key, 0);
+    await addNext('third', 'new-variant');
+
+    expect((await variants.list(game, key))?.variants.map((v) => v.variant)).toEqual([0, 2]);
+    expect(await cache.get(game, 'west_of_house.v1.png')).toBeUndefined();
+    expect(await served()).toBe('first');
+  });
+
+  it('should drop the oldest variants past the limit', async () => {
+    variants = new ImageVariants(cache, { maxVariants: 2 });
+    await addNext('first');
+    await addNext('second', 'new-variant');
+    await addNext('third', 'new-variant');
+
+    expect((await variants.list(game, key))?.variants.map((v) => v.variant)).toEqual([1, 2]);
+    expect(await cache.get(game, 'west_of_house.v0.png')).toBeUndefined();
+  });
+
+  it('should not lose variants added at the same time', async () => {
+    const next = await variants.nextSeed(game, key);
+    await Promise.all([
+      variants.add(game, key, Buffer.from('a'), next),
+      variants.add(game, key, Buffer.from('b'), next),
+    ]);
+
+    expect((await variants.list(game, key))?.variants.map((v) => v.variant)).toEqual([0, 1]);
+  });
+
+  it('should read images cached before variants were kept', async () => {
+    await cache.set(game, 'west_of_house.png', Buffer.from('legacy'));
+    await cache.set(game, 'west_of_house.json', Buffer.from('{"seed": 42, "variant": 0}'));
+
+    expect((await variants.image(game, key, 0))?.toString()).toBe('legacy');
+    expect(await variants.nextSeed(game, key)).toEqual({ seed: 42, variant: 1, sameSeed: true });
+  });
+
+  it('should purge an image with every variant', async () => {
+    await addNext('first');
+    await addNext('second', 'new-variant');
+
+    expect(await variants.purge(game, key)).toBe(true);
+    expect(await cache.list(game)).toEqual([]);
+    expect(await variants.purge(game, key)).toBe(false);
+  });
+
+  describe('createImageVariants', () => {
+    it('should keep IMAGE_MAX_VARIANTS variants', async () => {
+      variants = createImageVariants(cache, { IMAGE_MAX_VARIANTS: '1' });
+      await addNext('first');
+      await addNext('second', 'new-variant');
+
+      expect((await variants.list(game, key))?.variants.map((v) => v.variant)).toEqual([1]);
+    });
+
+    it.each(['abc', '0', '2.5'])('should reject IMAGE_MAX_VARIANTS=%s', (value) => {
+      expect(() => createImageVariants(cache, { IMAGE_MAX_VARIANTS: value })).toThrow(`Invalid IMAGE_MAX_VARIANTS: ${value}`);
+    });
+  });
+});
@@ -0,0 +1,283 @@
+import { CacheStore } from "../cachestore/CacheStore";
+import {
+  ImageVariant,
+  ImageVariantSet,
+  RegenerateMode,
+  decodeImageVariantSet,
+  deriveSeed,
+  encodeImageVariantSet,
+  imageCacheKey,
+  imageVariantKey,
+  imageVariantSetKey,
+} from "./ImageMetadata";
+
+/**
+ * Options bounding how many variants are kept
+ */
+export interface ImageVariantsOptions {
+  /** Variants kept per reuse_key; the oldest non-canonical ones go first (default 10) */
+  maxVariants?: number;
+}
+
+/**
+ * Thrown when a variant that doesn't exist is chosen or deleted
+ */
+export class ImageVariantError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImageVariantError";
+  }
+}
+
+/**
+ * ImageVariants keeps every image generated for a reuse_key instead of
+ * overwriting it, so the best one can be picked as canonical. The canonical
+ * variant's image is also kept under the reuse_key's own image key, which is
+ * what moves are served from. Once a variant has been chosen, it stays
+ * canonical until it's deleted.
+ */
+export class ImageVariants {
+  private cache: CacheStore;
+  private maxVariants: number;
+  /** Pending updates per reuse_key, so concurrent changes don't lose each other */
+  private updates = new Map<string, Promise<unknown>>();
+
+  /**
+   * @param cache Where the images and variant sets are kept
+   * @param options Limits
+   */
+  constructor(cache: CacheStore, options: ImageVariantsOptions = {}) {
+    this.cache = cache;
+    this.maxVariants = Math.max(1, options.maxVariants ?? 10);
+  }
+
+  /**
+   * The variants of a reuse_key
+   * @param gameIdentifier Game release/serial
+   * @param reuseKey reuse_key from the scene direction
+   * @returns The set, or undefined if no image has been generated for it
+   */
+  async list(gameIdentifier: string, reuseKey: string): Promise<ImageVariantSet | undefined> {
+    const stored = await this.cache.get(gameIdentifier, imageVariantSetKey(reuseKey));
+    return stored ? decodeImageVariantSet(stored) : undefined;
+  }
+
+  /**
+   * One variant's image
+   * @param gameIdentifier Game release/serial
+   * @param reuseKey reuse_key from the scene direction
+   * @param variant Variant number
+   */
+  async image(gameIdentifier: string, reuseKey: string, variant: number): Promise<Buffer | undefined> {
+    const image = await this.cache.get(gameIdentifier, imageVariantKey(reuseKey, variant));
+    if (image) {
+      return image;
+    }
+    // Images from before variants were kept exist only as the served image
+    const set = await this.list(gameIdentifier, reuseKey);
+    return set?.canonical === variant ? this.cache.get(gameIdentifier, imageCacheKey(reuseKey)) : undefined;
+  }
+
+  /**
+   * The seed and variant number to generate a reuse_key's next image with:
+   * the canonical variant's seed, or a fresh one for a new variant or when
+   * the canonical variant was drawn without a seed
+   * @param gameIdentifier Game release/serial
+   * @param reuseKey reuse_key from the scene direction
+   * @param regenerate How the client asked to regenerate, if it did
+   * @returns sameSeed says whether the seed is the canonical variant's, so
+   *   a backend that takes seeds draws the same image again
+   */
+  async nextSeed(
+    gameIdentifier: string,
+    reuseKey: string,
+    regenerate?: RegenerateMode,
+  ): Promise<{ seed: number; variant: number; sameSeed: boolean }> {
+    const set = await this.list(gameIdentifier, reuseKey);
+    const variant = set ? Math.max(...set.variants.map((v) => v.variant)) + 1 : 0;
+    const canonical = set?.variants.find((v) => v.variant === set.canonical);
+    if (canonical?.seed !== undefined && regenerate !== "new-variant") {
+      return { seed: canonical.seed, variant, sameSeed: true };
+    }
+    return { seed: deriveSeed(gameIdentifier, reuseKey, variant), variant, sameSeed: false };
+  }
+
+  /**
+   * Whether an editor chose a reuse_key's canonical variant
+   * @param gameIdentifier Game release/serial
+   * @param reuseKey reuse_key from the scene direction
+   */
+  async isChosen(gameIdentifier: string, reuseKey: string): Promise<boolean> {
+    return (await this.list(gameIdentifier, reuseKey))?.chosen === true;
+  }
+
+  /**
+   * Store a newly generated image as a variant and make it canonical,
+   * unless an editor chose the canonical variant
+   * @param gameIdentifier Game release/serial
+   * @param reuseKey reuse_key from the scene direction
+   * @param image The image
+   * @param metadata What it was generated with; the variant number is
+   *   replaced if another image took it meanwhile
+   * @returns The stored variant
+   */
+  async add(
+    gameIdentifier: string,
+    reuseKey: string,
+    image: Buffer,
+    metadata: ImageVariant,
+  ): Promise<ImageVariant> {
+    return this.update(gameIdentifier, reuseKey, async (set) => {
+      const variants = set?.variants ?? [];
+      const taken = variants.some((v) => v.variant === metadata.variant);
+      const variant: ImageVariant = {
+        ...metadata,
+        variant: taken ? Math.max(...variants.map((v) => v.variant)) + 1 : metadata.variant,
+      };
+      const chosen = set?.chosen === true && variants.some((v) => v.variant === set.canonical);
+      const canonical = chosen ? set!.canonical : variant.variant;
+      await this.cache.set(gameIdentifier, imageVariantKey(reuseKey, variant.variant), image);
+      if (!chosen) {
+        await this.cache.set(gameIdentifier, imageCacheKey(reuseKey), image);
+      }
+
+      // Past the limit, drop the oldest variants other than the canonical one
+      const kept = [...variants, variant];
+      while (kept.length > this.maxVariants) {
+        const oldest = kept.findIndex((v) => v.variant !== canonical);
+        const [dropped] = kept.splice(oldest, 1);
+        await this.cache.delete(gameIdentifier, imageVariantKey(reuseKey, dropped.variant));
+      }
+      const updated: ImageVariantSet = chosen ? { canonical, chosen, variants: kept } : { canonical, variants: kept };
+      await this.save(gameIdentifier, reuseKey, updated);
+      return variant;
+    });
+  }
+
+  /**
+   * Make a variant the one served for its reuse_key, until it's deleted
+   * @param gameIdentifier Game release/serial
+   * @param reuseKey reuse_key from the scene direction
+   * @param variant Variant number
+   * @throws ImageVariantError if there's no such variant
+   */
+  async choose(gameIdentifier: string, reuseKey: string, variant: number): Promise<ImageVariantSet> {
+    return this.update(gameIdentifier, reuseKey, async (set) => {
+      const image = set?.variants.some((v) => v.variant === variant)
+        ? await this.image(gameIdentifier, reuseKey, variant)
+        : undefined;
+      if (!set || !image) {
+        throw new ImageVariantError(`no variant ${variant} of ${reuseKey}`);
+      }
+      await this.cache.set(gameIdentifier, imageCacheKey(reuseKey), image);
+      const chosen = { ...set, canonical: variant, chosen: true };
+      await this.save(gameIdentifier, reuseKey, chosen);
+      return chosen;
+    });
+  }
+
+  /**
+   * Delete a variant. Deleting the canonical variant makes the newest
+   * remaining one canonical, no longer chosen; deleting the last one removes
+   * the image.
+   * @param gameIdentifier Game release/serial
+   * @param reuseKey reuse_key from the scene direction
+   * @param variant Variant number
+   * @returns The remaining set, or undefined if none are left
+   * @throws ImageVariantError if there's no such variant
+   */
+  async delete(
+    gameIdentifier: string,
+    reuseKey: string,
+    variant: number,
+  ): Promise<ImageVariantSet | undefined> {
+    return this.update(gameIdentifier, reuseKey, async (set) => {
+      if (!set?.variants.some((v) => v.variant === variant)) {
+        throw new ImageVariantError(`no variant ${variant} of ${reuseKey}`);
+      }
+      await this.cache.delete(gameIdentifier, imageVariantKey(reuseKey, variant));
+      const variants = set.variants.filter((v) => v.variant !== variant);
+      if (variants.length === 0) {
+        await this.cache.delete(gameIdentifier, imageCacheKey(reuseKey));
+        await this.cache.delete(gameIdentifier, imageVariantSetKey(reuseKey));
+        return undefined;
+      }
+      let { canonical, chosen } = set;
+      if (canonical === variant) {
+        chosen = undefined;
+        canonical = variants[variants.length - 1].variant;
+        const image = await this.cache.get(gameIdentifier, imageVariantKey(reuseKey, canonical));
+        if (image) {
+          await this.cache.set(gameIdentifier, imageCacheKey(reuseKey), image);
+        } else {
+          await this.cache.delete(gameIdentifier, imageCacheKey(reuseKey));
+        }
+      }
+      const remaining: ImageVariantSet = chosen ? { canonical, chosen, variants } : { canonical, variants };
+      await this.save(gameIdentifier, reuseKey, remaining);
+      return remaining;
+    });
+  }
+
+  /**
+   * Delete a reuse_key's image and every variant of it
+   * @param gameIdentifier Game release/serial
+   * @param reuseKey reuse_key from the scene direction
+   * @returns true if there was anything to delete
+   */
+  async purge(gameIdentifier: string, reuseKey: string): Promise<boolean> {
+    return this.update(gameIdentifier, reuseKey, async (set) => {
+      let deleted = false;
+      for (const { variant } of set?.variants ?? []) {
+        deleted = (await this.cache.delete(gameIdentifier, imageVariantKey(reuseKey, variant))) || deleted;
+      }
+      deleted = (await this.cache.delete(gameIdentifier, imageVariantSetKey(reuseKey))) || deleted;
+      deleted = (await this.cache.delete(gameIdentifier, imageCacheKey(reuseKey))) || deleted;
+      return deleted;
+    });
+  }
+
+  private async save(gameIdentifier: string, reuseKey: string, set: ImageVariantSet): Promise<void> {
+    await this.cache.set(gameIdentifier, imageVariantSetKey(reuseKey), encodeImageVariantSet(set));
+  }
+
+  /**
+   * Run a read-modify-write of a reuse_key's variant set after any already queued
+   */
+  private async update<T>(
+    gameIdentifier: string,
+    reuseKey: string,
+    change: (set: ImageVariantSet | undefined) => Promise<T>,
+  ): Promise<T> {
+    const key = `${gameIdentifier}/${imageVariantSetKey(reuseKey)}`;
+    const previous = this.updates.get(key) ?? Promise.resolve();
+    const run = previous.then(async () => change(await this.list(gameIdentifier, reuseKey)));
+    const settled = run.catch(() => {});
+    this.updates.set(key, settled);
+    try {
+      return await run;
+    } finally {
+      if (this.updates.get(key) === settled) {
+        this.updates.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Create the variant store bounded by IMAGE_MAX_VARIANTS (default 10)
+ * @param cache Where the images and variant sets are kept
+ * @param env Environment variables (default process.env)
+ * @throws Error if IMAGE_MAX_VARIANTS isn't a positive integer
+ */
+export function createImageVariants(cache: CacheStore, env: NodeJS.ProcessEnv = process.env): ImageVariants {
+  const value = env.IMAGE_MAX_VARIANTS;
+  if (value === undefined || value === "") {
+    return new ImageVariants(cache);
+  }
+  const maxVariants = Number(value);
+  if (!Number.isInteger(maxVariants) || maxVariants <= 0) {
+    throw new Error(`Invalid IMAGE_MAX_VARIANTS: ${value}`);
+  }
+  return new ImageVariants(cache, { maxVariants });
+}
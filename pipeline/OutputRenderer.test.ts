@@ -0,0 +1,118 @@
+import { OutputRenderer, renderCacheKey } from './OutputRenderer';
+import { CacheStoreMemory } from '../cachestore/CacheStoreMemory';
+import { RENDER_NAMESPACE } from '../cachestore/CacheStore';
+import { ImageDecodeError, RasterImage } from '../ImageEncoder';
+import { createEncoderRegistry } from '../encoder/EncoderRegistry';
+import { getRetroPlatform } from '../retro/RetroPlatform';
+
+describe('OutputRenderer', () => {
+  const image = Buffer.from('source png');
+  const raster: RasterImage = {
+    width: 4,
+    height: 4,
+    data: new Uint8ClampedArray(4 * 4 * 4).fill(200),
+  };
+
+  let cache: CacheStoreMemory;
+  let decode: jest.Mock;
+  let encodePNG: jest.Mock;
+  let renderer: OutputRenderer;
+
+  beforeEach(() => {
+    cache = new CacheStoreMemory();
+    decode = jest.fn().mockResolvedValue(raster);
+    encodePNG = jest.fn(() => Buffer.from('processed png'));
+    renderer = new OutputRenderer({
+      cache,
+      encoders: createEncoderRegistry({}),
+      decode,
+      encodePNG,
+    });
+  });
+
+  it('should encode and cache a render', async () => {
+    const result = await renderer.render(image, { format: 'ascii' });
+
+    expect(result.contentType).toBe('text/plain; charset=utf-8');
+    expect(result.body.toString()).toBe('****\n');
+    expect(result.usedCachedRender).toBe(false);
+    expect((await cache.list(RENDER_NAMESPACE)).length).toBe(1);
+  });
+
+  it('should serve a repeat render from cache without decoding', async () => {
+    await renderer.render(image, { format: 'sixel' });
+    const result = await renderer.render(image, { format: 'sixel' });
+
+    expect(result.usedCachedRender).toBe(true);
+    expect(result.body.toString()).toMatch(/^\x1bP/);
+    expect(decode).toHaveBeenCalledTimes(1);
+  });
+
+  it('should render each format, size and palette separately', async () => {
+    await renderer.render(image, { format: 'ascii' });
+    await renderer.render(image, { format: 'ansi' });
+    await renderer.render(image, { format: 'ascii', platform: getRetroPlatform('ega') });
+    await renderer.render(image, { format: 'ascii', size: { width: 8, height: 8, fit: 'fit' } });
+
+    expect(decode).toHaveBeenCalledTimes(4);
+    expect((await cache.list(RENDER_NAMESPACE)).length).toBe(4);
+  });
+
+  it('should not store a second copy of pass-through PNGs', async () => {
+    const result = await renderer.render(image, { format: 'png' });
+
+    expect(result).toEqual({ contentType: 'image/png', body: image, usedCachedRender: false });
+    expect(decode).not.toHaveBeenCalled();
+    expect(await cache.list(RENDER_NAMESPACE)).toEqual([]);
+  });
+
+  it('should cache processed PNGs', async () => {
+    await renderer.render(image, { format: 'png', platform: getRetroPlatform('cga') });
+    const result = await renderer.render(image, { format: 'png', platform: getRetroPlatform('cga') });
+
+    expect(result.body.toString()).toBe('processed png');
+    expect(result.usedCachedRender).toBe(true);
+    expect(encodePNG).toHaveBeenCalledTimes(1);
+  });
+
+  it('should share one encode between concurrent identical renders', async () => {
+    await Promise.all([
+      renderer.render(image, { format: 'ansi' }),
+      renderer.render(image, { format: 'ansi' }),
+    ]);
+
+    expect(decode).toHaveBeenCalledTimes(1);
+  });
+
+  it('should pass decode failures through without caching', async () => {
+    decode.mockRejectedValueOnce(new ImageDecodeError('cannot load image'));
+
+    await expect(renderer.render(image, { format: 'sixel' })).rejects.toThrow(ImageDecodeError);
+    expect(await cache.list(RENDER_NAMESPACE)).toEqual([]);
+  });
+
+  describe('renderCacheKey', () => {
+    it('should depend on the image bytes', () => {
+      expect(renderCacheKey(image, {}, 'sixel')).not.toBe(renderCacheKey(Buffer.from('other'), {}, 'sixel'));
+    });
+
+    it('should treat a platform default dither the same as naming it', () => {
+      const ega = getRetroPlatform('ega')!;
+
+      expect(renderCacheKey(image, { platform: ega }, 'sixel')).toBe(
+        renderCacheKey(image, { platform: ega, dither: 'floyd-steinberg' }, 'sixel')
+      );
+      expect(renderCacheKey(image, { platform: ega }, 'sixel')).not.toBe(
+        renderCacheKey(image, { platform: ega, dither: 'bayer' }, 'sixel')
+      );
+    });
+
+    it('should ignore dither without a platform', () => {
+      expect(renderCacheKey(image, { dither: 'bayer' }, 'sixel')).toBe(renderCacheKey(image, {}, 'sixel'));
+    });
+
+    it('should end in the format name', () => {
+      expect(renderCacheKey(image, {}, 'kitty')).toMatch(/^[0-9a-f]{32}_[0-9a-f]{16}\.kitty$/);
+    });
+  });
+});
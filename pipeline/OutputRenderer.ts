@@ -0,0 +1,112 @@
+import crypto from "crypto";
+import { RasterImage } from "../ImageEncoder";
+import { CacheStore, RENDER_NAMESPACE } from "../cachestore/CacheStore";
+import { EncoderRegistry } from "../encoder/EncoderRegistry";
+import { OutputSize } from "../encoder/OutputSize";
+import { postProcess } from "../encoder/PostProcess";
+import { DitherMethod } from "../retro/Dither";
+import { RetroPlatform } from "../retro/RetroPlatform";
+import { SingleFlight } from "./SingleFlight";
+
+/**
+ * How a client wants an image delivered
+ */
+export interface RenderRequest {
+  /** illustrationFormat, or undefined for the default */
+  format?: string;
+  platform?: RetroPlatform;
+  dither?: DitherMethod;
+  size?: OutputSize;
+}
+
+/**
+ * An encoded image, ready to send
+ */
+export interface RenderResult {
+  contentType: string;
+  body: Buffer;
+  usedCachedRender: boolean;
+}
+
+/**
+ * Collaborators the renderer needs; injected so it can be tested without canvas
+ */
+export interface OutputRendererDeps {
+  cache: CacheStore;
+  encoders: EncoderRegistry;
+  /** Decode image bytes to RGBA pixels */
+  decode: (image: Buffer) => Promise<RasterImage>;
+  /** Encode RGBA pixels as PNG */
+  encodePNG: (raster: RasterImage) => Buffer;
+  log?: (...args: any[]) => void;
+}
+
+/**
+ * Cache key for an encoded output: a hash of the source image bytes and of
+ * everything that changes the output
+ * @param image Source image bytes
+ * @param request How the image is delivered
+ * @param format Name of the encoder
+ */
+export function renderCacheKey(image: Buffer, request: RenderRequest, format: string): string {
+  const imageHash = crypto.createHash("sha256").update(image).digest("hex").substring(0, 32);
+  const options = JSON.stringify({
+    palette: request.platform?.name,
+    dither: request.platform ? request.dither ?? request.platform.dither : undefined,
+    size: request.size,
+  });
+  const optionsHash = crypto.createHash("sha256").update(options).digest("hex").substring(0, 16);
+  return `${imageHash}_${optionsHash}.${format}`;
+}
+
+/**
+ * OutputRenderer turns a source image into the format, size and palette a
+ * client asked for, caching the result so a repeat visit needs no decoding
+ * or encoding. Concurrent identical renders share one encode.
+ */
+export class OutputRenderer {
+  private deps: OutputRendererDeps;
+  private flights = new SingleFlight<RenderResult>();
+  private log: (...args: any[]) => void;
+
+  constructor(deps: OutputRendererDeps) {
+    this.deps = deps;
+    this.log = deps.log ?? (() => {});
+  }
+
+  /**
+   * Render an image for a client
+   * @param image Source image bytes
+   * @param request How the client wants it
+   * @throws ImageDecodeError if the image can't be decoded
+   * @throws Error if the format isn't registered
+   */
+  async render(image: Buffer, request: RenderRequest): Promise<RenderResult> {
+    const { cache, encoders } = this.deps;
+    const encoder = encoders.get(request.format);
+    const key = renderCacheKey(image, request, encoder.name);
+
+    const cached = await cache.get(RENDER_NAMESPACE, key);
+    if (cached) {
+      this.log(`Using cached render ${key}`);
+      return { contentType: encoder.contentType, body: cached, usedCachedRender: true };
+    }
+
+    return this.flights.do(key, async () => {
+      const source = await postProcess(
+        { image, raster: () => this.deps.decode(image) },
+        request,
+        this.deps.encodePNG,
+      );
+      const encoded = await encoder.encode(source);
+      const body = typeof encoded.body === "string" ? Buffer.from(encoded.body, "utf8") : encoded.body;
+
+      // Pass-through output is the source image, which is cached already
+      if (body !== image) {
+        await cache.set(RENDER_NAMESPACE, key, body);
+        this.log(`Cached render ${key}`);
+      }
+      return { contentType: encoded.contentType, body, usedCachedRender: false };
+    });
+  }
+}
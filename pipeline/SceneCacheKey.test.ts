@@ -0,0 +1,85 @@
+import {
+  decodeSceneCacheEntry,
+  encodeSceneCacheEntry,
+  parseSceneKeyFields,
+  sceneDirectionCacheKey,
+} from './SceneCacheKey';
+
+describe('SceneCacheKey', () => {
+  const parts = {
+    gameIdentifier: '88.840726',
+    playerLocation: 'West of House',
+    lastZMachineOutput: 'It is pitch black.',
+    illustrationStyle: '',
+    promptVersion: 'v1',
+  };
+
+  describe('sceneDirectionCacheKey', () => {
+    it('should be stable for the same inputs', () => {
+      expect(sceneDirectionCacheKey(parts)).toBe(sceneDirectionCacheKey({ ...parts }));
+      expect(sceneDirectionCacheKey(parts)).toMatch(/^[0-9a-f]{128}\.txt$/);
+    });
+
+    it.each([
+      ['gameIdentifier', '59.860730'],
+      ['playerLocation', 'Cellar'],
+      ['lastZMachineOutput', 'Taken.'],
+      ['illustrationStyle', 'ega'],
+      ['promptVersion', 'v2'],
+    ])('should change when %s changes', (field, value) => {
+      expect(sceneDirectionCacheKey({ ...parts, [field]: value })).not.toBe(sceneDirectionCacheKey(parts));
+    });
+
+    it('should ignore case and whitespace in location and style', () => {
+      expect(sceneDirectionCacheKey({ ...parts, playerLocation: ' west of house ' })).toBe(
+        sceneDirectionCacheKey(parts)
+      );
+    });
+
+    it('should only use the selected fields', () => {
+      const fields = parseSceneKeyFields('game,output');
+
+      expect(sceneDirectionCacheKey({ ...parts, playerLocation: 'Cellar', promptVersion: 'v2' }, fields)).toBe(
+        sceneDirectionCacheKey(parts, fields)
+      );
+      expect(sceneDirectionCacheKey(parts, fields)).not.toBe(sceneDirectionCacheKey(parts));
+    });
+  });
+
+  describe('parseSceneKeyFields', () => {
+    it('should default to every field', () => {
+      expect(parseSceneKeyFields(undefined)).toEqual(['game', 'location', 'output', 'style', 'prompt']);
+    });
+
+    it('should parse a comma-separated list', () => {
+      expect(parseSceneKeyFields(' game, output ')).toEqual(['game', 'output']);
+    });
+
+    it('should reject unknown or empty field lists', () => {
+      expect(() => parseSceneKeyFields('game,turn')).toThrow('Unknown scene cache key field: turn');
+      expect(() => parseSceneKeyFields(',')).toThrow('Scene cache key needs at least one field');
+    });
+  });
+
+  describe('entries', () => {
+    it('should round-trip an entry', () => {
+      const entry = {
+        direction: { visual_prompt: 'A field', style_tags: '', repaint: true },
+        promptVersion: 'v1',
+        model: 'Qwen/Qwen3-32B',
+      };
+
+      expect(decodeSceneCacheEntry(encodeSceneCacheEntry(entry))).toEqual(entry);
+    });
+
+    it('should wrap a bare direction', () => {
+      expect(decodeSceneCacheEntry(Buffer.from('{"visual_prompt":"A field"}'))).toEqual({
+        direction: { visual_prompt: 'A field' },
+      });
+    });
+
+    it('should throw for non-JSON', () => {
+      expect(() => decodeSceneCacheEntry(Buffer.from('nope'))).toThrow(SyntaxError);
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import crypto from "crypto";
+import { SceneDirection } from "../gamemaster/SceneDirection";
+
+/**
+ * Request fields that can make up the scene direction cache key
+ */
+export type SceneKeyField = "game" | "location" | "output" | "style" | "prompt";
+
+export const SCENE_KEY_FIELDS: SceneKeyField[] = ["game", "location", "output", "style", "prompt"];
+
+/**
+ * What a scene direction cache key is computed from
+ */
+export interface SceneKeyParts {
+  gameIdentifier: string;
+  playerLocation?: string;
+  lastZMachineOutput: string;
+  illustrationStyle?: string;
+  promptVersion: string;
+}
+
+/**
+ * A cached scene direction together with what produced it
+ */
+export interface SceneCacheEntry {
+  direction: SceneDirection;
+  gameIdentifier?: string;
+  /** Prompt version the direction was produced with, if known */
+  promptVersion?: string;
+  /** Art Director backend and model that produced it, if known */
+  backend?: string;
+  model?: string;
+  createdAt?: number;
+}
+
+/**
+ * Parse a comma-separated list of key fields, e.g. from SCENE_CACHE_KEY_FIELDS
+ * @param spec The list, or undefined for every field
+ * @throws Error for unknown or missing fields
+ */
+export function parseSceneKeyFields(spec?: string): SceneKeyField[] {
+  if (!spec) return [...SCENE_KEY_FIELDS];
+  const fields = spec
+    .split(",")
+    .map((field) => field.trim())
+    .filter((field) => field.length > 0);
+  for (const field of fields) {
+    if (!(SCENE_KEY_FIELDS as string[]).includes(field)) {
+      throw new Error(`Unknown scene cache key field: ${field} (available: ${SCENE_KEY_FIELDS.join(", ")})`);
+    }
+  }
+  if (fields.length === 0) {
+    throw new Error("Scene cache key needs at least one field");
+  }
+  return fields as SceneKeyField[];
+}
+
+/**
+ * Cache key for a scene direction, hashed from the selected request fields
+ * @param parts Values of every field
+ * @param fields Which fields to include (default all)
+ */
+export function sceneDirectionCacheKey(
+  parts: SceneKeyParts,
+  fields: SceneKeyField[] = SCENE_KEY_FIELDS,
+): string {
+  const values: Record<SceneKeyField, string> = {
+    game: parts.gameIdentifier,
+    location: (parts.playerLocation || "").trim().toLowerCase(),
+    output: parts.lastZMachineOutput,
+    style: (parts.illustrationStyle || "").trim().toLowerCase(),
+    prompt: parts.promptVersion,
+  };
+  const material = JSON.stringify(SCENE_KEY_FIELDS.filter((f) => fields.includes(f)).map((f) => [f, values[f]]));
+  return `${crypto.createHash("sha512").update(material).digest("hex")}.txt`;
+}
+
+/**
+ * Serialize a scene cache entry for storage
+ */
+export function encodeSceneCacheEntry(entry: SceneCacheEntry): Buffer {
+  return Buffer.from(JSON.stringify(entry));
+}
+
+/**
+ * Deserialize a stored scene cache entry. Bare scene directions written
+ * before entries carried metadata are accepted with no metadata.
+ * @returns The entry with its direction still unvalidated
+ * @throws SyntaxError if the stored value isn't JSON
+ */
+export function decodeSceneCacheEntry(value: Buffer): { direction: unknown } & Omit<SceneCacheEntry, "direction"> {
+  const parsed = JSON.parse(value.toString("utf-8"));
+  if (parsed && typeof parsed === "object" && "direction" in parsed) {
+    return parsed;
+  }
+  return { direction: parsed };
+}
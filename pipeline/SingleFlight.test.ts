@@ -0,0 +1,61 @@
+import { SingleFlight } from './SingleFlight';
+
+describe('SingleFlight', () => {
+  const deferred = <T>() => {
+    let resolve!: (value: T) => void;
+    let reject!: (error: Error) => void;
+    const promise = new Promise<T>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    return { promise, resolve, reject };
+  };
+
+  it('should share one call between concurrent callers with the same key', async () => {
+    const flight = new SingleFlight<string>();
+    const work = deferred<string>();
+    const fn = jest.fn(() => work.promise);
+
+    const first = flight.do('kitchen', fn);
+    const second = flight.do('kitchen', fn);
+    expect(flight.has('kitchen')).toBe(true);
+    work.resolve('image');
+
+    expect(await first).toBe('image');
+    expect(await second).toBe('image');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should run separately for different keys', async () => {
+    const flight = new SingleFlight<string>();
+    const fn = jest.fn(async () => 'x');
+
+    await Promise.all([flight.do('a', fn), flight.do('b', fn)]);
+
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should forget a key once its call settles', async () => {
+    const flight = new SingleFlight<string>();
+    const fn = jest.fn(async () => 'x');
+
+    await flight.do('a', fn);
+    await flight.do('a', fn);
+
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(flight.size).toBe(0);
+  });
+
+  it('should share rejections and then allow a retry', async () => {
+    const flight = new SingleFlight<string>();
+    const work = deferred<string>();
+
+    const first = flight.do('a', () => work.promise);
+    const second = flight.do('a', () => work.promise);
+    work.reject(new Error('upstream down'));
+
+    await expect(first).rejects.toThrow('upstream down');
+    await expect(second).rejects.toThrow('upstream down');
+    expect(await flight.do('a', async () => 'ok')).toBe('ok');
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * SingleFlight deduplicates concurrent async work by key: while a call for a
+ * key is pending, further calls for that key wait on the same promise instead
+ * of starting their own.
+ */
+export class SingleFlight<T> {
+  private pending = new Map<string, Promise<T>>();
+
+  /**
+   * Run fn for key, or join the call already in flight for key
+   * @param key Identifies the work, e.g. a cache key
+   * @param fn Starts the work; only called if nothing is in flight for key
+   * @returns The shared result; a rejection is shared too
+   */
+  do(key: string, fn: () => Promise<T>): Promise<T> {
+    const existing = this.pending.get(key);
+    if (existing) {
+      return existing;
+    }
+
+    const promise = (async () => {
+      try {
+        return await fn();
+      } finally {
+        this.pending.delete(key);
+      }
+    })();
+    this.pending.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * Whether work for key is in flight
+   */
+  has(key: string): boolean {
+    return this.pending.has(key);
+  }
+
+  /**
+   * Number of keys with work in flight
+   */
+  get size(): number {
+    return this.pending.size;
+  }
+}
@@ -0,0 +1,35 @@
+import { guessExits } from './Exits';
+
+describe('guessExits', () => {
+  it('should find compass directions in the order mentioned', () => {
+    expect(guessExits('You are in a clearing. Paths lead west and north, and a track winds south.')).toEqual(
+      ['west', 'north', 'south']
+    );
+  });
+
+  it('should normalize diagonal directions', () => {
+    expect(guessExits('Passages lead north-east, South West and northwest.')).toEqual(
+      ['northeast', 'southwest', 'northwest']
+    );
+  });
+
+  it('should ignore directions describing where the player is', () => {
+    expect(guessExits('You are standing in an open field west of a white house. A path leads north.')).toEqual(
+      ['north']
+    );
+  });
+
+  it('should not match longer words', () => {
+    expect(guessExits('The northern wall is covered in eastern tapestries.')).toEqual([]);
+  });
+
+  it('should only count up and down next to something climbable', () => {
+    expect(guessExits('You look up at the sky and sit down.')).toEqual([]);
+    expect(guessExits('A dark staircase leads down. There is a ladder going up.')).toEqual(['down', 'up']);
+    expect(guessExits('You can go upstairs or east.')).toEqual(['up', 'east']);
+  });
+
+  it('should list each direction once', () => {
+    expect(guessExits('North of here is a door. The door to the north is locked.')).toEqual(['north']);
+  });
+});
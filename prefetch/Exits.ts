@@ -0,0 +1,31 @@
+// Compass directions, optionally hyphenated or spaced ("north-east", "north east").
+// "west of the house" says where the player is, not where they can go.
+const COMPASS = /(?:\b(north|south)(?:[- ]?(east|west))?\b|\b(east|west)\b)(?!\s+of\b)/gi;
+
+// "up" and "down" are common in prose, so only count them next to something you can climb
+const VERTICAL = [
+  /\b(?:stairs?|staircase|stairway|steps|ladder|passage|path|trail|chimney|slope|exits?)\b[^.!?]*?\b(up|down)(?:wards?)?\b/gi,
+  /\b(up|down)(?:stairs|wards?)\b/gi,
+];
+
+/**
+ * Guess which directions the player can go from the game's room description
+ * @param output The interpreter's output, e.g. "A path leads north and a stair goes down."
+ * @returns Directions in the order they're mentioned, e.g. ["north", "down"]
+ */
+export function guessExits(output: string): string[] {
+  const found: { index: number; direction: string }[] = [];
+
+  for (const match of output.matchAll(COMPASS)) {
+    const direction = match[3] ?? `${match[1]}${match[2] ?? ""}`;
+    found.push({ index: match.index ?? 0, direction: direction.toLowerCase() });
+  }
+  for (const pattern of VERTICAL) {
+    for (const match of output.matchAll(pattern)) {
+      found.push({ index: (match.index ?? 0) + match[0].length, direction: match[1].toLowerCase() });
+    }
+  }
+
+  found.sort((a, b) => a.index - b.index);
+  return Array.from(new Set(found.map(({ direction }) => direction)));
+}
@@ -0,0 +1,234 @@
+import { Prefetcher, createPrefetcher } from './Prefetcher';
+import { GameMaster } from '../GameMaster';
+import { CacheStoreMemory } from '../cachestore/CacheStoreMemory';
+import { SpendLedger } from '../metrics/SpendLedger';
+
+describe('Prefetcher', () => {
+  const request = {
+    zmcdnSessionID: 'session-1',
+    lastZMachineOutput: 'You are standing in an open field west of a white house. Paths lead north and south.',
+    lastZMachineInput: 'look',
+    playerLocation: 'West of House',
+    gameIdentifier: '88.840726',
+  };
+
+  let gameMaster: jest.Mocked<GameMaster>;
+  let createGameMaster: jest.Mock;
+  let ensureImage: jest.Mock;
+  let busy: boolean;
+  let now: number;
+  let prefetcher: Prefetcher;
+
+  const directionFor = (reuseKey: string) =>
+    JSON.stringify({ visual_prompt: 'A path', reuse_key: reuseKey, style_tags: 'retro', repaint: true });
+
+  beforeEach(() => {
+    gameMaster = {
+      name: 'mock',
+      model: 'mock-model',
+      generateSceneDirection: jest.fn()
+        .mockResolvedValueOnce(directionFor('north_of_house'))
+        .mockResolvedValueOnce(directionFor('south_of_house')),
+      getHistory: jest.fn().mockReturnValue([]),
+      restoreHistory: jest.fn(),
+    };
+    createGameMaster = jest.fn().mockResolvedValue(gameMaster);
+    ensureImage = jest.fn().mockResolvedValue(true);
+    busy = false;
+    now = 1000;
+    prefetcher = new Prefetcher(
+      { createGameMaster, ensureImage, isBusy: () => busy },
+      { sessionBudget: 3, globalBudget: 10, maxPerMove: 2, idlePollMs: 1, now: () => now }
+    );
+  });
+
+  it('should direct and illustrate the rooms beyond each exit', async () => {
+    prefetcher.afterMove(request);
+    await prefetcher.idle();
+
+    expect(gameMaster.generateSceneDirection).toHaveBeenCalledTimes(2);
+    const sceneState = gameMaster.generateSceneDirection.mock.calls[0][0];
+    expect(sceneState.lastZMachineInput).toBe('north');
+    expect(sceneState.lastZMachineOutput).toContain('go north from West of House');
+    expect(ensureImage).toHaveBeenCalledWith(
+      '88.840726',
+      expect.objectContaining({ reuse_key: 'north_of_house' }),
+      undefined
+    );
+    expect(prefetcher.stats()).toMatchObject({ prefetched: 2, generated: 2, queued: 0 });
+  });
+
+  it('should do nothing without a location or exits', async () => {
+    prefetcher.afterMove({ ...request, playerLocation: '' });
+    prefetcher.afterMove({ ...request, zmcdnSessionID: 'session-2', lastZMachineOutput: 'It is pitch black.' });
+    await prefetcher.idle();
+
+    expect(createGameMaster).not.toHaveBeenCalled();
+  });
+
+  it('should count a move served from a prefetched image as a hit', async () => {
+    prefetcher.afterMove(request);
+    await prefetcher.idle();
+
+    const next = { ...request, playerLocation: 'North of House' };
+    expect(prefetcher.claim(next, 'north_of_house.png')).toBe(true);
+    prefetcher.afterMove({ ...next, lastZMachineOutput: 'You are facing the north side of a white house.' });
+
+    expect(prefetcher.stats()).toMatchObject({ hits: 1, misses: 0 });
+    expect(prefetcher.recent().map((event) => event.type)).toContain('hit');
+  });
+
+  it('should not claim images that were not prefetched for the session', async () => {
+    prefetcher.afterMove(request);
+    await prefetcher.idle();
+
+    expect(prefetcher.claim(request, 'attic.png')).toBe(false);
+    expect(prefetcher.claim({ ...request, zmcdnSessionID: 'other' }, 'north_of_house.png')).toBe(false);
+  });
+
+  it('should count arriving somewhere new without a prefetched image as a miss', async () => {
+    prefetcher.afterMove(request);
+    await prefetcher.idle();
+
+    prefetcher.afterMove({ ...request, playerLocation: 'Behind House', lastZMachineOutput: 'A window is ajar.' });
+
+    expect(prefetcher.stats()).toMatchObject({ hits: 0, misses: 1 });
+  });
+
+  it('should keep its guesses while the player stays in the same room', async () => {
+    prefetcher.afterMove(request);
+    await prefetcher.idle();
+    prefetcher.afterMove({ ...request, lastZMachineInput: 'inventory' });
+    await prefetcher.idle();
+
+    expect(gameMaster.generateSceneDirection).toHaveBeenCalledTimes(2);
+    expect(prefetcher.claim(request, 'south_of_house.png')).toBe(true);
+    expect(prefetcher.stats().misses).toBe(0);
+  });
+
+  it('should wait for foreground requests to finish', async () => {
+    busy = true;
+    prefetcher.afterMove(request);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(createGameMaster).not.toHaveBeenCalled();
+
+    busy = false;
+    await prefetcher.idle();
+    expect(createGameMaster).toHaveBeenCalled();
+  });
+
+  it('should stop at the session budget', async () => {
+    gameMaster.generateSceneDirection.mockResolvedValue(directionFor('somewhere'));
+
+    prefetcher.afterMove(request);
+    await prefetcher.idle();
+    prefetcher.afterMove({ ...request, playerLocation: 'North of House' });
+    await prefetcher.idle();
+
+    expect(gameMaster.generateSceneDirection).toHaveBeenCalledTimes(3);
+    expect(prefetcher.stats().skipped).toBe(1);
+    expect(prefetcher.recent().pop()?.detail).toContain('session budget of 3 spent');
+  });
+
+  it('should stop at the global budget until the window passes', async () => {
+    prefetcher = new Prefetcher(
+      { createGameMaster, ensureImage },
+      { globalBudget: 1, globalWindowMs: 1000, now: () => now }
+    );
+    gameMaster.generateSceneDirection.mockResolvedValue(directionFor('somewhere'));
+
+    prefetcher.afterMove(request);
+    await prefetcher.idle();
+    expect(gameMaster.generateSceneDirection).toHaveBeenCalledTimes(1);
+    expect(prefetcher.stats().skipped).toBe(1);
+
+    now += 1000;
+    prefetcher.afterMove({ ...request, zmcdnSessionID: 'session-2' });
+    await prefetcher.idle();
+    expect(gameMaster.generateSceneDirection).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stop once a spend cap is reached', async () => {
+    let cap: string | undefined;
+    prefetcher = new Prefetcher(
+      { createGameMaster, ensureImage, spendCapReached: () => cap },
+      { maxPerMove: 2, idlePollMs: 1, now: () => now }
+    );
+    gameMaster.generateSceneDirection.mockReset().mockImplementation(async () => {
+      cap = 'daily';
+      return directionFor('north_of_house');
+    });
+
+    prefetcher.afterMove(request);
+    await prefetcher.idle();
+
+    expect(gameMaster.generateSceneDirection).toHaveBeenCalledTimes(1);
+    expect(ensureImage).not.toHaveBeenCalled();
+    expect(prefetcher.stats()).toMatchObject({ prefetched: 0, skipped: 2 });
+    expect(prefetcher.recent().pop()?.detail).toContain('daily spend cap reached');
+  });
+
+  it('should charge each guess to the session that queued it, though one loop runs them all', async () => {
+    const ledger = new SpendLedger(
+      { cache: new CacheStoreMemory() },
+      { prices: { mock: { perCall: 0.01, per1KPromptTokens: 0, per1KCompletionTokens: 0 } } }
+    );
+    gameMaster.generateSceneDirection.mockReset().mockResolvedValue(directionFor('north_of_house'));
+    const instrumented = ledger.instrumentGameMaster(gameMaster);
+    prefetcher = new Prefetcher(
+      {
+        createGameMaster: async () => instrumented,
+        ensureImage,
+        isBusy: () => busy,
+        runAs: (attribution, work) => ledger.attribute(attribution, work),
+      },
+      { idlePollMs: 1, now: () => now }
+    );
+
+    busy = true;
+    // The loop starts in session-1's context; session-2's guesses join it
+    ledger.attribute({ zmcdnSessionID: 'session-1', gameIdentifier: '88.840726' }, () => prefetcher.afterMove(request));
+    const other = { ...request, zmcdnSessionID: 'session-2', gameIdentifier: '3.871218' };
+    ledger.attribute({ zmcdnSessionID: 'session-2', gameIdentifier: '3.871218' }, () => prefetcher.afterMove(other));
+    busy = false;
+    await prefetcher.idle();
+
+    const { today } = ledger.summary();
+    expect(today.bySession['session-1']).toMatchObject({ calls: 2 });
+    expect(today.bySession['session-2']).toMatchObject({ calls: 2 });
+    expect(today.byGame['3.871218']).toMatchObject({ calls: 2 });
+  });
+
+  it('should record failures without throwing', async () => {
+    gameMaster.generateSceneDirection.mockReset().mockRejectedValue(new Error('LLM down'));
+
+    prefetcher.afterMove(request);
+    await prefetcher.idle();
+
+    expect(prefetcher.stats().failed).toBe(2);
+    expect(prefetcher.recent().pop()?.detail).toContain('LLM down');
+  });
+
+  describe('createPrefetcher', () => {
+    it('should read budgets from the environment', async () => {
+      prefetcher = createPrefetcher({ createGameMaster, ensureImage }, { PREFETCH_SESSION_BUDGET: '1' });
+
+      prefetcher.afterMove(request);
+      await prefetcher.idle();
+
+      expect(prefetcher.stats()).toMatchObject({ prefetched: 1, skipped: 1 });
+    });
+
+    it.each([
+      ['PREFETCH_SESSION_BUDGET', 'ten'],
+      ['PREFETCH_GLOBAL_BUDGET', '-1'],
+      ['PREFETCH_GLOBAL_WINDOW_MS', '0'],
+      ['PREFETCH_MAX_PER_MOVE', '1.5'],
+    ])('should reject %s=%s', (name, value) => {
+      expect(() => createPrefetcher({ createGameMaster, ensureImage }, { [name]: value })).toThrow(
+        `Invalid ${name}: ${value}`
+      );
+    });
+  });
+});
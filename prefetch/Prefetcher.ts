@@ -0,0 +1,380 @@
+import { GameMaster, SceneState } from "../GameMaster";
+import { ArtBible, artBibleDirection } from "../artbible/ArtBible";
+import { SceneDirection, requestSceneDirection } from "../gamemaster/SceneDirection";
+import { SpendAttribution } from "../metrics/SpendLedger";
+import { IllustrationRequest, imageCacheKey } from "../pipeline/IllustrationPipeline";
+import { guessExits } from "./Exits";
+
+/**
+ * Options bounding how much the prefetcher may spend
+ */
+export interface PrefetcherOptions {
+  /** Prefetches allowed per session over its lifetime (default 10) */
+  sessionBudget?: number;
+  /** Prefetches allowed across all sessions per globalWindowMs (default 60) */
+  globalBudget?: number;
+  /** Window for globalBudget in milliseconds (default 1 hour) */
+  globalWindowMs?: number;
+  /** Exits prefetched per move (default 2) */
+  maxPerMove?: number;
+  /** How often to check whether foreground work has finished, in milliseconds (default 250) */
+  idlePollMs?: number;
+  /** Trace events kept for the REPL (default 100) */
+  maxTrace?: number;
+  /** Clock source, overridable for tests */
+  now?: () => number;
+}
+
+/**
+ * Collaborators the prefetcher needs; injected so it can be tested without a server
+ */
+export interface PrefetcherDeps {
+  /**
+   * An Art Director carrying the session's history, used for guesses only so
+   * they don't end up in the session's own history
+   */
+  createGameMaster: (sessionID: string) => Promise<GameMaster>;
+  /** Generate and cache the image for a scene direction; true if one was generated */
+  ensureImage: (gameIdentifier: string, sceneDirection: SceneDirection, imageSize?: string) => Promise<boolean>;
+  /** Whether foreground requests are in flight; prefetching waits until they aren't */
+  isBusy?: () => boolean;
+  /** The spend cap that has been reached, if any; nothing is generated past it */
+  spendCapReached?: () => string | undefined;
+  /**
+   * Run a guess on behalf of the session and game that queued it, e.g. so
+   * its upstream calls are charged to them; guesses from every session share
+   * one background loop, so they can't inherit that from the caller
+   */
+  runAs?: <T>(attribution: SpendAttribution, work: () => Promise<T>) => Promise<T>;
+  /** Per-game art bibles, so guesses are directed in the game's house style */
+  artBibles?: { forGame(gameIdentifier: string): ArtBible | undefined };
+  log?: (...args: any[]) => void;
+}
+
+/**
+ * Something the prefetcher did, for the REPL trace
+ */
+export interface PrefetchTraceEvent {
+  at: number;
+  type: "queued" | "prefetched" | "hit" | "miss" | "skipped" | "failed";
+  sessionID: string;
+  detail: string;
+}
+
+/**
+ * Running totals of prefetch outcomes
+ */
+export interface PrefetchStats {
+  /** Moves served from a prefetched image */
+  hits: number;
+  /** Moves to a new location that no prefetch anticipated */
+  misses: number;
+  /** Guesses completed */
+  prefetched: number;
+  /** Images generated by those guesses (the rest were cached already) */
+  generated: number;
+  failed: number;
+  /** Guesses dropped for budget or because the player had moved on */
+  skipped: number;
+  queued: number;
+}
+
+/** The guesses made from one location, waiting to see where the player goes */
+interface PrefetchRound {
+  fromLocation: string;
+  imageKeys: Set<string>;
+  claimed: boolean;
+}
+
+interface PrefetchTask {
+  request: IllustrationRequest;
+  direction: string;
+  round: PrefetchRound;
+  /** Who queued the guess */
+  attribution: SpendAttribution;
+}
+
+interface SessionState {
+  spent: number;
+  round?: PrefetchRound;
+}
+
+// Sessions remembered for budgets and hit/miss accounting
+const MAX_TRACKED_SESSIONS = 1000;
+
+/**
+ * Prefetcher guesses where the player will go next from the exits in the
+ * room description, and has the rooms beyond directed and illustrated in the
+ * background so they're cached before the player arrives. It only runs while
+ * no foreground request is in flight, and stops at per-session and global
+ * budgets and at the spend caps.
+ */
+export class Prefetcher {
+  private deps: PrefetcherDeps;
+  private sessions = new Map<string, SessionState>();
+  private queue: PrefetchTask[] = [];
+  private globalSpends: number[] = [];
+  private trace: PrefetchTraceEvent[] = [];
+  private counts = { hits: 0, misses: 0, prefetched: 0, generated: 0, failed: 0, skipped: 0 };
+  private draining?: Promise<void>;
+  private readonly sessionBudget: number;
+  private readonly globalBudget: number;
+  private readonly globalWindowMs: number;
+  private readonly maxPerMove: number;
+  private readonly idlePollMs: number;
+  private readonly maxTrace: number;
+  private now: () => number;
+  private log: (...args: any[]) => void;
+
+  constructor(deps: PrefetcherDeps, options: PrefetcherOptions = {}) {
+    this.deps = deps;
+    this.sessionBudget = options.sessionBudget ?? 10;
+    this.globalBudget = options.globalBudget ?? 60;
+    this.globalWindowMs = options.globalWindowMs ?? 60 * 60 * 1000;
+    this.maxPerMove = options.maxPerMove ?? 2;
+    this.idlePollMs = options.idlePollMs ?? 250;
+    this.maxTrace = options.maxTrace ?? 100;
+    this.now = options.now ?? Date.now;
+    this.log = deps.log ?? (() => {});
+  }
+
+  /**
+   * Record where a move went and queue guesses for the next one
+   * @param request The move just illustrated
+   */
+  afterMove(request: IllustrationRequest): void {
+    const sessionID = request.zmcdnSessionID;
+    const state = this.session(sessionID);
+
+    // Staying put (e.g. "look") keeps the guesses already made from here
+    const previous = state.round;
+    if (previous && request.playerLocation === previous.fromLocation) {
+      return;
+    }
+
+    // Settle the previous guesses: arriving somewhere new without using one is a miss
+    if (previous && !previous.claimed) {
+      this.counts.misses++;
+      this.record("miss", sessionID, `arrived at "${request.playerLocation}" from "${previous.fromLocation}"`);
+    }
+    state.round = undefined;
+
+    if (!request.playerLocation) {
+      return;
+    }
+
+    const exits = guessExits(request.lastZMachineOutput).slice(0, this.maxPerMove);
+    if (exits.length === 0) {
+      return;
+    }
+
+    const round: PrefetchRound = { fromLocation: request.playerLocation, imageKeys: new Set(), claimed: false };
+    state.round = round;
+    // Newer guesses replace older ones still waiting for this session
+    this.queue = this.queue.filter((task) => task.request.zmcdnSessionID !== sessionID);
+    const attribution = { zmcdnSessionID: sessionID, gameIdentifier: request.gameIdentifier };
+    for (const direction of exits) {
+      this.queue.push({ request, direction, round, attribution });
+      this.record("queued", sessionID, `${direction} from "${request.playerLocation}"`);
+    }
+    this.drain();
+  }
+
+  /**
+   * Claim a prefetched image for a move. Used by the pipeline to serve a
+   * prefetched image even when the Art Director asks for a repaint.
+   * @param request The move
+   * @param imageKey Cache key of the image the move's scene direction names
+   * @returns true if the image was prefetched for this session
+   */
+  claim(request: IllustrationRequest, imageKey: string): boolean {
+    const round = this.sessions.get(request.zmcdnSessionID)?.round;
+    if (!round || !round.imageKeys.has(imageKey)) {
+      return false;
+    }
+    round.claimed = true;
+    this.counts.hits++;
+    this.record("hit", request.zmcdnSessionID, `${request.gameIdentifier}/${imageKey}`);
+    return true;
+  }
+
+  /**
+   * Running totals
+   */
+  stats(): PrefetchStats {
+    return { ...this.counts, queued: this.queue.length };
+  }
+
+  /**
+   * Most recent trace events, oldest first
+   * @param limit Maximum number of events
+   */
+  recent(limit: number = this.maxTrace): PrefetchTraceEvent[] {
+    return this.trace.slice(-limit);
+  }
+
+  /**
+   * Resolves once every queued guess has been handled
+   */
+  async idle(): Promise<void> {
+    while (this.draining) {
+      await this.draining;
+    }
+  }
+
+  private drain(): void {
+    if (this.draining) return;
+    this.draining = (async () => {
+      while (this.queue.length > 0) {
+        // Low priority: wait for foreground requests to finish first
+        while (this.deps.isBusy?.()) {
+          await new Promise((resolve) => setTimeout(resolve, this.idlePollMs).unref());
+        }
+        const task = this.queue.shift();
+        if (task) {
+          await (this.deps.runAs ? this.deps.runAs(task.attribution, () => this.run(task)) : this.run(task));
+        }
+      }
+    })().finally(() => {
+      this.draining = undefined;
+    });
+  }
+
+  private async run(task: PrefetchTask): Promise<void> {
+    const { request, direction, round } = task;
+    const sessionID = request.zmcdnSessionID;
+    const state = this.session(sessionID);
+
+    if (state.round !== round) {
+      this.skip(sessionID, `${direction}: player has moved on`);
+      return;
+    }
+    if (state.spent >= this.sessionBudget) {
+      this.skip(sessionID, `${direction}: session budget of ${this.sessionBudget} spent`);
+      return;
+    }
+    const now = this.now();
+    this.globalSpends = this.globalSpends.filter((at) => at > now - this.globalWindowMs);
+    if (this.globalSpends.length >= this.globalBudget) {
+      this.skip(sessionID, `${direction}: global budget of ${this.globalBudget} spent`);
+      return;
+    }
+    if (this.skipForSpendCap(sessionID, direction)) {
+      return;
+    }
+    state.spent++;
+    this.globalSpends.push(now);
+
+    try {
+      const gameMaster = await this.deps.createGameMaster(sessionID);
+      const sceneState: SceneState = {
+        zmcdnSessionID: sessionID,
+        playerLocation: "",
+        lastZMachineInput: direction,
+        lastZMachineOutput:
+          `(Anticipated move: the player is about to go ${direction} from ${round.fromLocation}. ` +
+          `Direct the scene they are most likely to find there.)`,
+      };
+      if (request.illustrationStyle) {
+        sceneState.illustrationStyle = request.illustrationStyle;
+      }
+      const artBible = this.deps.artBibles?.forGame(request.gameIdentifier);
+      const artDirection = artBible && artBibleDirection(artBible);
+      if (artDirection) {
+        sceneState.artBible = artDirection;
+      }
+      const sceneDirection = await requestSceneDirection(gameMaster, sceneState);
+      if (!sceneDirection.reuse_key) {
+        this.skip(sessionID, `${direction}: scene direction has no reuse_key`);
+        return;
+      }
+
+      // Directing may have taken spend up to a cap
+      if (this.skipForSpendCap(sessionID, direction)) {
+        return;
+      }
+
+      const imageKey = imageCacheKey(sceneDirection.reuse_key);
+      round.imageKeys.add(imageKey);
+      const generated = await this.deps.ensureImage(request.gameIdentifier, sceneDirection, request.imageSize);
+      this.counts.prefetched++;
+      if (generated) this.counts.generated++;
+      this.record(
+        "prefetched",
+        sessionID,
+        `${direction} -> ${request.gameIdentifier}/${imageKey}${generated ? "" : " (already cached)"}`,
+      );
+    } catch (e) {
+      this.counts.failed++;
+      this.record("failed", sessionID, `${direction}: ${(e as Error).message}`);
+    }
+  }
+
+  /**
+   * Skip a guess if a spend cap has been reached
+   * @returns true if it was skipped
+   */
+  private skipForSpendCap(sessionID: string, direction: string): boolean {
+    const cap = this.deps.spendCapReached?.();
+    if (cap) {
+      this.skip(sessionID, `${direction}: ${cap} spend cap reached`);
+    }
+    return cap !== undefined;
+  }
+
+  private session(sessionID: string): SessionState {
+    let state = this.sessions.get(sessionID);
+    if (state) {
+      // Re-insert so Map iteration order stays least-recently-used first
+      this.sessions.delete(sessionID);
+    } else {
+      state = { spent: 0 };
+      while (this.sessions.size >= MAX_TRACKED_SESSIONS) {
+        this.sessions.delete(this.sessions.keys().next().value as string);
+      }
+    }
+    this.sessions.set(sessionID, state);
+    return state;
+  }
+
+  private skip(sessionID: string, detail: string): void {
+    this.counts.skipped++;
+    this.record("skipped", sessionID, detail);
+  }
+
+  private record(type: PrefetchTraceEvent["type"], sessionID: string, detail: string): void {
+    this.trace.push({ at: this.now(), type, sessionID, detail });
+    if (this.trace.length > this.maxTrace) {
+      this.trace.shift();
+    }
+    this.log(`Prefetch ${type} [${sessionID}] ${detail}`, { zmcdnSessionID: sessionID });
+  }
+}
+
+/**
+ * Create a prefetcher bounded by environment settings:
+ * PREFETCH_SESSION_BUDGET, PREFETCH_GLOBAL_BUDGET, PREFETCH_GLOBAL_WINDOW_MS
+ * and PREFETCH_MAX_PER_MOVE
+ * @param deps Collaborators
+ * @param env Environment variables (default process.env)
+ * @throws Error if a budget or count isn't a non-negative integer, or the
+ *   window isn't a positive number
+ */
+export function createPrefetcher(deps: PrefetcherDeps, env: NodeJS.ProcessEnv = process.env): Prefetcher {
+  const setting = (name: string, valid: (parsed: number) => boolean): number | undefined => {
+    const value = env[name];
+    if (value === undefined || value === "") return undefined;
+    const parsed = Number(value);
+    if (!valid(parsed)) {
+      throw new Error(`Invalid ${name}: ${value}`);
+    }
+    return parsed;
+  };
+  const count = (parsed: number) => Number.isInteger(parsed) && parsed >= 0;
+  return new Prefetcher(deps, {
+    sessionBudget: setting("PREFETCH_SESSION_BUDGET", count),
+    globalBudget: setting("PREFETCH_GLOBAL_BUDGET", count),
+    globalWindowMs: setting("PREFETCH_GLOBAL_WINDOW_MS", (parsed) => Number.isFinite(parsed) && parsed > 0),
+    maxPerMove: setting("PREFETCH_MAX_PER_MOVE", count),
+  });
+}
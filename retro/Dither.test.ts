@@ -0,0 +1,99 @@
+import { RasterImage } from '../ImageEncoder';
+import { RGB } from '../encoder/Raster';
+import { ditherToPalette, medianCutPalette, nearestColor } from './Dither';
+
+describe('Dither', () => {
+  const blackAndWhite: RGB[] = [[0, 0, 0], [255, 255, 255]];
+
+  function grey(width: number, height: number, level: number): RasterImage {
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let i = 0; i < data.length; i += 4) {
+      data.set([level, level, level, 255], i);
+    }
+    return { width, height, data };
+  }
+
+  function colorsIn(raster: RasterImage): Set<string> {
+    const colors = new Set<string>();
+    for (let i = 0; i < raster.data.length; i += 4) {
+      colors.add(Array.from(raster.data.slice(i, i + 4)).join(','));
+    }
+    return colors;
+  }
+
+  function whiteShare(raster: RasterImage): number {
+    let white = 0;
+    for (let i = 0; i < raster.data.length; i += 4) {
+      if (raster.data[i] === 255) white++;
+    }
+    return white / (raster.width * raster.height);
+  }
+
+  describe('nearestColor', () => {
+    it('should pick the closest palette entry', () => {
+      expect(nearestColor(blackAndWhite, 100, 100, 100)).toBe(0);
+      expect(nearestColor(blackAndWhite, 200, 180, 190)).toBe(1);
+    });
+  });
+
+  describe('ditherToPalette', () => {
+    it('should map each pixel to the nearest colour without dithering', () => {
+      const result = ditherToPalette(grey(4, 4, 100), blackAndWhite, 'none');
+
+      expect(colorsIn(result)).toEqual(new Set(['0,0,0,255']));
+    });
+
+    it.each(['floyd-steinberg', 'bayer'] as const)(
+      'should approximate mid grey with a mix of black and white using %s',
+      (method) => {
+        const result = ditherToPalette(grey(16, 16, 128), blackAndWhite, method);
+
+        expect(colorsIn(result)).toEqual(new Set(['0,0,0,255', '255,255,255,255']));
+        expect(whiteShare(result)).toBeCloseTo(0.5, 1);
+      }
+    );
+
+    it('should only use palette colours', () => {
+      const raster: RasterImage = {
+        width: 3,
+        height: 1,
+        data: new Uint8ClampedArray([250, 10, 10, 255, 10, 250, 10, 255, 10, 10, 250, 0]),
+      };
+      const palette: RGB[] = [[255, 0, 0], [0, 255, 0], [0, 0, 0]];
+
+      const result = ditherToPalette(raster, palette, 'floyd-steinberg');
+
+      expect(Array.from(result.data)).toEqual([255, 0, 0, 255, 0, 255, 0, 255, 0, 0, 0, 255]);
+    });
+  });
+
+  describe('medianCutPalette', () => {
+    it('should find the distinct colours of a simple image', () => {
+      const raster: RasterImage = {
+        width: 4,
+        height: 1,
+        data: new Uint8ClampedArray([
+          255, 0, 0, 255, 255, 0, 0, 255, 0, 0, 255, 255, 0, 0, 255, 255,
+        ]),
+      };
+
+      expect(medianCutPalette(raster, 4).sort()).toEqual([[0, 0, 255], [255, 0, 0]].sort());
+    });
+
+    it('should limit the palette size', () => {
+      const data = new Uint8ClampedArray(64 * 4);
+      for (let i = 0; i < 64; i++) {
+        data.set([i * 4, 255 - i * 4, (i * 37) % 256, 255], i * 4);
+      }
+
+      expect(medianCutPalette({ width: 64, height: 1, data }, 8).length).toBeLessThanOrEqual(8);
+    });
+
+    it('should round colours to the given bits per channel', () => {
+      const raster: RasterImage = { width: 1, height: 1, data: new Uint8ClampedArray([100, 150, 200, 255]) };
+
+      // 4 bits per channel: multiples of 17
+      expect(medianCutPalette(raster, 32, 4)).toEqual([[102, 153, 204]]);
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import { RasterImage } from "../ImageEncoder";
+import { RGB } from "../encoder/Raster";
+
+export type DitherMethod = "floyd-steinberg" | "bayer" | "none";
+
+export const DITHER_METHODS: DitherMethod[] = ["floyd-steinberg", "bayer", "none"];
+
+// 8x8 Bayer threshold matrix, values 0-63
+const BAYER_8X8 = [
+  [0, 32, 8, 40, 2, 34, 10, 42],
+  [48, 16, 56, 24, 50, 18, 58, 26],
+  [12, 44, 4, 36, 14, 46, 6, 38],
+  [60, 28, 52, 20, 62, 30, 54, 22],
+  [3, 35, 11, 43, 1, 33, 9, 41],
+  [51, 19, 59, 27, 49, 17, 57, 25],
+  [15, 47, 7, 39, 13, 45, 5, 37],
+  [63, 31, 55, 23, 61, 29, 53, 21],
+];
+
+/**
+ * Index of the palette colour closest to a colour, by squared RGB distance
+ * @param palette The palette
+ * @param r Red, may be outside 0-255 while diffusing error
+ * @param g Green
+ * @param b Blue
+ */
+export function nearestColor(palette: RGB[], r: number, g: number, b: number): number {
+  let best = 0;
+  let bestDistance = Infinity;
+  for (let i = 0; i < palette.length; i++) {
+    const [pr, pg, pb] = palette[i];
+    const distance = (pr - r) ** 2 + (pg - g) ** 2 + (pb - b) ** 2;
+    if (distance < bestDistance) {
+      best = i;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+/**
+ * Reduce an image to a fixed palette. Alpha is dropped: transparent pixels
+ * are treated as black and every output pixel is opaque.
+ * @param raster The image
+ * @param palette Colours the output may use
+ * @param method Floyd–Steinberg error diffusion, ordered (Bayer) dithering, or plain nearest colour
+ */
+export function ditherToPalette(
+  raster: RasterImage,
+  palette: RGB[],
+  method: DitherMethod,
+): RasterImage {
+  const { width, height } = raster;
+  const pixels = new Float32Array(width * height * 3);
+  for (let i = 0, o = 0; i < raster.data.length; i += 4, o += 3) {
+    const alpha = raster.data[i + 3] / 255;
+    pixels[o] = raster.data[i] * alpha;
+    pixels[o + 1] = raster.data[i + 1] * alpha;
+    pixels[o + 2] = raster.data[i + 2] * alpha;
+  }
+
+  // Ordered dithering offsets each pixel by up to half the typical gap between palette colours
+  const spread = 255 / Math.cbrt(palette.length);
+  const data = new Uint8ClampedArray(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = (y * width + x) * 3;
+      let r = pixels[p];
+      let g = pixels[p + 1];
+      let b = pixels[p + 2];
+
+      if (method === "bayer") {
+        const offset = ((BAYER_8X8[y % 8][x % 8] + 0.5) / 64 - 0.5) * spread;
+        r += offset;
+        g += offset;
+        b += offset;
+      }
+
+      const color = palette[nearestColor(palette, r, g, b)];
+      data.set([color[0], color[1], color[2], 255], (y * width + x) * 4);
+
+      if (method === "floyd-steinberg") {
+        const error = [r - color[0], g - color[1], b - color[2]];
+        const diffuse = (dx: number, dy: number, weight: number) => {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || nx >= width || ny >= height) return;
+          const n = (ny * width + nx) * 3;
+          for (let c = 0; c < 3; c++) {
+            pixels[n + c] += error[c] * weight;
+          }
+        };
+        diffuse(1, 0, 7 / 16);
+        diffuse(-1, 1, 3 / 16);
+        diffuse(0, 1, 5 / 16);
+        diffuse(1, 1, 1 / 16);
+      }
+    }
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Build an adaptive palette for an image by median cut
+ * @param raster The image
+ * @param count Maximum number of colours
+ * @param bitsPerChannel Colours are rounded to this many bits per channel, e.g. 4 for the Amiga's 12-bit RGB
+ */
+export function medianCutPalette(raster: RasterImage, count: number, bitsPerChannel: number = 8): RGB[] {
+  const levels = (1 << bitsPerChannel) - 1;
+  const snap = (value: number) => Math.round((Math.round((value / 255) * levels) / levels) * 255);
+
+  let boxes: RGB[][] = [[]];
+  for (let i = 0; i < raster.data.length; i += 4) {
+    const alpha = raster.data[i + 3] / 255;
+    boxes[0].push([raster.data[i] * alpha, raster.data[i + 1] * alpha, raster.data[i + 2] * alpha]);
+  }
+
+  while (boxes.length < count) {
+    // Split the box with the widest channel range at its median
+    let widest = -1;
+    let widestChannel = 0;
+    let widestRange = 0;
+    boxes.forEach((box, index) => {
+      for (let c = 0; c < 3; c++) {
+        let min = Infinity;
+        let max = -Infinity;
+        for (const pixel of box) {
+          min = Math.min(min, pixel[c]);
+          max = Math.max(max, pixel[c]);
+        }
+        if (max - min > widestRange) {
+          widest = index;
+          widestChannel = c;
+          widestRange = max - min;
+        }
+      }
+    });
+    if (widest < 0) break;
+
+    const box = boxes[widest].sort((a, b) => a[widestChannel] - b[widestChannel]);
+    const middle = Math.floor(box.length / 2);
+    boxes = [...boxes.slice(0, widest), box.slice(0, middle), box.slice(middle), ...boxes.slice(widest + 1)];
+  }
+
+  const palette = new Map<string, RGB>();
+  for (const box of boxes) {
+    if (box.length === 0) continue;
+    const sum = box.reduce((acc, pixel) => [acc[0] + pixel[0], acc[1] + pixel[1], acc[2] + pixel[2]], [0, 0, 0]);
+    const color: RGB = [snap(sum[0] / box.length), snap(sum[1] / box.length), snap(sum[2] / box.length)];
+    palette.set(color.join(","), color);
+  }
+  return Array.from(palette.values());
+}
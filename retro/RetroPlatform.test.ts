@@ -0,0 +1,62 @@
+import { RasterImage } from '../ImageEncoder';
+import { getRetroPlatform, renderRetro, retroPlatformNames } from './RetroPlatform';
+
+describe('RetroPlatform', () => {
+  function gradient(width: number, height: number): RasterImage {
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        data.set([(x * 255) / width, (y * 255) / height, 128, 255], (y * width + x) * 4);
+      }
+    }
+    return { width, height, data };
+  }
+
+  function colorCount(raster: RasterImage): number {
+    const colors = new Set<string>();
+    for (let i = 0; i < raster.data.length; i += 4) {
+      colors.add(Array.from(raster.data.slice(i, i + 3)).join(','));
+    }
+    return colors.size;
+  }
+
+  it('should list the built-in platforms', () => {
+    expect(retroPlatformNames()).toEqual(['cga', 'ega', 'c64', 'apple2', 'amiga']);
+  });
+
+  it('should look up platforms by name', () => {
+    expect(getRetroPlatform('ega')).toMatchObject({ width: 320, height: 200 });
+    expect(getRetroPlatform('ega')?.colors).toHaveLength(16);
+    expect(getRetroPlatform('vic20')).toBeUndefined();
+  });
+
+  it('should scale down to fit the platform resolution', () => {
+    const result = renderRetro(gradient(512, 512), getRetroPlatform('apple2')!);
+
+    expect(result.width).toBe(192);
+    expect(result.height).toBe(192);
+  });
+
+  it.each([
+    ['cga', 4],
+    ['ega', 16],
+    ['c64', 16],
+    ['apple2', 6],
+    ['amiga', 32],
+  ])('should use at most the colours of %s', (name, count) => {
+    const result = renderRetro(gradient(64, 64), getRetroPlatform(name)!);
+
+    expect(colorCount(result)).toBeLessThanOrEqual(count);
+  });
+
+  it('should only use colours from a fixed palette', () => {
+    const platform = getRetroPlatform('cga')!;
+    const allowed = new Set(platform.colors!.map((color) => color.join(',')));
+
+    const result = renderRetro(gradient(32, 32), platform, 'floyd-steinberg');
+
+    for (let i = 0; i < result.data.length; i += 4) {
+      expect(allowed.has(Array.from(result.data.slice(i, i + 3)).join(','))).toBe(true);
+    }
+  });
+});
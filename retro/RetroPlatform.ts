@@ -0,0 +1,115 @@
+import { RasterImage } from "../ImageEncoder";
+import { RGB, fitWithin } from "../encoder/Raster";
+import { DitherMethod, ditherToPalette, medianCutPalette } from "./Dither";
+
+/**
+ * A retro display to imitate: its resolution and the colours it can show
+ */
+export interface RetroPlatform {
+  /** Name as used in the palette request parameter, e.g. "ega" */
+  name: string;
+  description: string;
+  /** Screen resolution; images are scaled down to fit inside it */
+  width: number;
+  height: number;
+  /** Fixed hardware palette */
+  colors?: RGB[];
+  /** Or a palette chosen per image: this many colours at this many bits per channel */
+  adaptive?: { count: number; bitsPerChannel: number };
+  /** Dithering used when the request doesn't ask for one */
+  dither: DitherMethod;
+}
+
+const hex = (...values: string[]): RGB[] =>
+  values.map((value) => [
+    parseInt(value.slice(0, 2), 16),
+    parseInt(value.slice(2, 4), 16),
+    parseInt(value.slice(4, 6), 16),
+  ]);
+
+const PLATFORMS: RetroPlatform[] = [
+  {
+    name: "cga",
+    description: "IBM CGA, 320x200, palette 1 high intensity",
+    width: 320,
+    height: 200,
+    colors: hex("000000", "55ffff", "ff55ff", "ffffff"),
+    dither: "bayer",
+  },
+  {
+    name: "ega",
+    description: "IBM EGA, 320x200, 16 colours",
+    width: 320,
+    height: 200,
+    colors: hex(
+      "000000", "0000aa", "00aa00", "00aaaa", "aa0000", "aa00aa", "aa5500", "aaaaaa",
+      "555555", "5555ff", "55ff55", "55ffff", "ff5555", "ff55ff", "ffff55", "ffffff",
+    ),
+    dither: "floyd-steinberg",
+  },
+  {
+    name: "c64",
+    description: "Commodore 64, 320x200, 16 colours",
+    width: 320,
+    height: 200,
+    colors: hex(
+      "000000", "ffffff", "68372b", "70a4b2", "6f3d86", "588d43", "352879", "b8c76f",
+      "6f4f25", "433900", "9a6759", "444444", "6c6c6c", "9ad284", "6c5eb5", "959595",
+    ),
+    dither: "floyd-steinberg",
+  },
+  {
+    name: "apple2",
+    description: "Apple II hi-res, 280x192, 6 colours",
+    width: 280,
+    height: 192,
+    colors: hex("000000", "ffffff", "14f53c", "ff44fd", "ff6a3c", "14cffd"),
+    dither: "bayer",
+  },
+  {
+    name: "amiga",
+    description: "Amiga OCS, 320x256, 32 colours from 4096",
+    width: 320,
+    height: 256,
+    adaptive: { count: 32, bitsPerChannel: 4 },
+    dither: "floyd-steinberg",
+  },
+];
+
+const platformsByName = new Map(PLATFORMS.map((platform) => [platform.name, platform]));
+
+/**
+ * Names of the built-in platforms
+ */
+export function retroPlatformNames(): string[] {
+  return PLATFORMS.map((platform) => platform.name);
+}
+
+/**
+ * Look up a platform by name
+ * @param name Platform name, e.g. "ega"
+ * @returns The platform, or undefined if there's none by that name
+ */
+export function getRetroPlatform(name: string): RetroPlatform | undefined {
+  return platformsByName.get(name);
+}
+
+/**
+ * Render an image as a retro platform would show it: scaled down to the
+ * platform's resolution and reduced to its palette with dithering
+ * @param raster The image
+ * @param platform The platform to imitate
+ * @param dither Dithering method, or undefined for the platform's default
+ */
+export function renderRetro(
+  raster: RasterImage,
+  platform: RetroPlatform,
+  dither: DitherMethod = platform.dither,
+): RasterImage {
+  const scaled = fitWithin(raster, platform.width, platform.height);
+  const palette =
+    platform.colors ??
+    medianCutPalette(scaled, platform.adaptive?.count ?? 256, platform.adaptive?.bitsPerChannel);
+  return ditherToPalette(scaled, palette, dither);
+}
+
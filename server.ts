@@ -1,60 +1,284 @@
 import express, { Request, Response } from "express";
+import http from "http";
 import path from "path";
-import fs from "fs";
 import readline from "readline";
-import crypto from "crypto";
-import { GameMasterQwen } from "./gamemaster/GameMasterQwen";
-import { IllustratorFLUX } from "./illustrator/IllustratorFLUX";
+import { GameMaster, getPromptVersion, reloadGameMasterPrompt } from "./GameMaster";
+import { createGameMasterRegistry } from "./gamemaster/GameMasterRegistry";
+import { SceneDirectionError, parseSceneDirection } from "./gamemaster/SceneDirection";
+import { parseTranscript } from "./gamemaster/Transcript";
+import { createIllustratorRegistry, parseGameBackends } from "./illustrator/IllustratorRegistry";
+import { createArtBibleRegistry } from "./artbible/ArtBibleRegistry";
+import { EntityRegistry } from "./entities/EntityRegistry";
+import { requireAdminToken } from "./admin/AdminAuth";
+import { Client, createClientAccess, rateLimitedResponse } from "./access/ClientAccess";
+import { allowCors, parseCorsOrigins } from "./access/Cors";
+import { createAdminRouter } from "./admin/AdminRouter";
+import { ImageDecodeError, RasterImage } from "./ImageEncoder";
+import { detectImageMimeType } from "./Illustrator";
+import { createEncoderRegistry } from "./encoder/EncoderRegistry";
+import { OutputSize, OutputSizeError, generationSize, parseOutputSize } from "./encoder/OutputSize";
+import { DITHER_METHODS } from "./retro/Dither";
+import { getRetroPlatform, retroPlatformNames } from "./retro/RetroPlatform";
+import { CachePathError, CachePaths, sanitizeReuseKey, tempSweepAgeMs } from "./cachestore/CachePaths";
+import { CacheStoreBounded } from "./cachestore/CacheStoreBounded";
+import { createCacheStore } from "./cachestore/CacheStoreFactory";
+import { IllustrationPipeline, IllustrationRequest, NotCachedError } from "./pipeline/IllustrationPipeline";
+import { OutputRenderer, RenderRequest, RenderResult } from "./pipeline/OutputRenderer";
+import { JobError, JobEvent, JobLimitError, JobStage, createJobRegistry } from "./jobs/JobRegistry";
+import { formatServerSentEvent } from "./jobs/ServerSentEvents";
+import { Prefetcher, createPrefetcher } from "./prefetch/Prefetcher";
+import { parseSceneKeyFields } from "./pipeline/SceneCacheKey";
+import { REGENERATE_MODES, servedImageReuseKey } from "./pipeline/ImageMetadata";
+import { ImageVariantError, ImageVariants, createImageVariants } from "./pipeline/ImageVariants";
+import { createSessionRegistry } from "./session/SessionRegistry";
+import { SessionStore, appendSceneRecord, emptySessionState, SceneRecord } from "./storage/SessionStore";
+import { createSessionStoreMemory } from "./storage/SessionStoreMemory";
+import { SessionStoreMongo, sessionRetentionMs } from "./storage/SessionStoreMongo";
+import { LogFields, LogLevel, createLogger } from "./logging/Logger";
+import { PROMETHEUS_CONTENT_TYPE } from "./metrics/MetricsRegistry";
+import { parsePrices } from "./metrics/Prices";
+import { ServiceMetrics } from "./metrics/ServiceMetrics";
+import { SpendCap, SpendTotals, createSpendLedger } from "./metrics/SpendLedger";
 import dotenv from 'dotenv'
 
 const { loadImage, createCanvas } = require("canvas");
-const { image2sixel } = require("sixel");
 
 dotenv.config();
 const app = express();
 app.use(express.json());
 const PORT = process.env.PORT ? Number(process.env.PORT) : 3000;
 
+// Behind a reverse proxy, take client IP addresses from X-Forwarded-For
+// (a number of proxies, "true", or proxy addresses as express takes them)
+const trustProxy = process.env.TRUST_PROXY;
+if (trustProxy && trustProxy !== "false") {
+  app.set("trust proxy", /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy === "true" || trustProxy);
+}
+
 // Global trace flag
 let trace = false;
 
-// Global GameMasterQwen instance to maintain history across requests
-let gameMaster: GameMasterQwen | null = null;
+// Leveled JSON logs, configured with LOG_LEVEL / LOG_FORMAT; trace turns on debug
+const logger = createLogger();
+const logLevel = logger.getLevel();
 
-// Custom logging function that respects trace flag
-function traceLog(...args: any[]) {
-  if (trace) {
-    console.log(...args);
-  }
+// Counters and latencies served on /metrics; every backend call is measured
+const metrics = new ServiceMetrics({
+  prices: parsePrices(process.env.SPEND_PRICES_USD, process.env.SPEND_TOKEN_PRICES_USD),
+});
+
+// Per-call accounting of upstream tokens, images and cost by day, session and
+// game, with optional daily and monthly caps; kept in the cache once initStorage() creates it
+const spend = createSpendLedger({
+  get cache() {
+    return cacheStore;
+  },
+  log: traceLog,
+});
+
+// What a move that isn't cached gets once a spend cap is reached: a 503, or a placeholder image
+const spendCapFallback = process.env.SPEND_CAP_FALLBACK || "cache-only";
+if (!["cache-only", "placeholder"].includes(spendCapFallback)) {
+  throw new Error(`Unknown SPEND_CAP_FALLBACK: ${spendCapFallback} (available: cache-only, placeholder)`);
+}
+
+// Client tokens and per-client request and generation budgets for /illustrateMove
+const clientAccess = createClientAccess(process.env, (client, budget) => {
+  metrics.recordRateLimited(budget, client.name ?? "anonymous");
+  logger.warn("Rate limited", { client: client.key, budget });
+});
+
+// Origins browsers may call zmcdn from, set with CORS_ORIGINS (default any)
+const corsOrigins = parseCorsOrigins(process.env.CORS_ORIGINS);
+
+// Backends log with the session and game of the move they're working on
+const backendLogger = logger.withContext(() => ({ ...spend.currentAttribution() }));
+
+// Art Director backends, selected via GAMEMASTER / GAMEMASTER_FALLBACK
+const gameMasterBackends = createGameMasterRegistry(
+  process.env,
+  () => trace,
+  (gameMaster) => metrics.instrumentGameMaster(spend.instrumentGameMaster(gameMaster)),
+  backendLogger,
+);
+if (gameMasterBackends.configuredBackends().includes("qwen") && !process.env.GAMEMASTER_API_KEY) {
+  throw new Error("GAMEMASTER_API_KEY not configured (needed by the qwen Art Director backend)");
+}
+
+// Per-session GameMaster instances so each game keeps its own history
+const gameMasters = createSessionRegistry<GameMaster>(() => gameMasterBackends.create());
+
+// Local cache directory; CachePaths refuses anything outside it
+const cacheRoot = path.join(__dirname, "cache");
+const cachePaths = new CachePaths(cacheRoot);
+
+// Scene direction and image cache, selected via CACHE_STORE in initStorage()
+let cacheStore: CacheStoreBounded;
+let pipeline: IllustrationPipeline;
+let outputRenderer: OutputRenderer;
+
+// Every image generated per reuse_key, one of them canonical
+let imageVariants: ImageVariants;
+
+// Canonical looks of recurring characters, items and rooms, per game and session
+let entities: EntityRegistry;
+
+// Speculative prefetching of adjacent rooms, enabled with PREFETCH=on
+let prefetcher: Prefetcher | undefined;
+
+// Foreground /illustrateMove work in flight; prefetching waits while there is any
+let activeMoves = 0;
+
+// Illustrator backends, selected per game via ILLUSTRATOR / ILLUSTRATOR_GAME_BACKENDS
+const illustrators = createIllustratorRegistry(
+  process.env,
+  (illustrator) => metrics.instrumentIllustrator(spend.instrumentIllustrator(illustrator)),
+  backendLogger,
+);
+
+// Per-game art bibles loaded from ART_BIBLE_DIR
+const artBibles = createArtBibleRegistry();
+applyArtBibleIllustrators();
+
+// Async /illustrateMove jobs, kept for JOB_TTL_MS after they finish
+const jobs = createJobRegistry<RenderResult>();
+
+// Retry-After for async moves refused because JOB_MAX jobs are running
+const JOB_RETRY_AFTER_SECONDS = 5;
+
+// Output encoders, one per illustrationFormat
+const encoders = createEncoderRegistry();
+
+// Persisted per-session scene state; replaced with MongoDB when MONGODB_URI is set
+let sessionStore: SessionStore = createSessionStoreMemory();
+
+// Persisted sessions listed per page by the `sessions all` REPL command
+const SESSIONS_PAGE_SIZE = 50;
+
+// Debug logging for the modules' log hooks, shown with trace on or LOG_LEVEL=debug
+function traceLog(message: string, fields?: LogFields) {
+  logger.debug(message, fields);
 }
 
 /**
- * Convert an image file to sixel format
- * @param filename Path to the image file
- * @param palLimit Palette limit (default 256)
- * @returns Sixel data string or undefined if image cannot be loaded
+ * Turn trace logging on or off: debug logs, and the Art Director's own tracing
+ * of new sessions
+ * @param enabled Whether to trace
  */
-async function imageToSixel(
-  filename: string,
-  palLimit: number = 256,
-): Promise<string | undefined> {
-  const BACKGROUND_SELECT = 0; // 0=default terminal background, 1=white background, 2=black background
+function setTrace(enabled: boolean): void {
+  trace = enabled;
+  logger.setLevel(enabled ? "debug" : logLevel);
+}
+
+/**
+ * Change the least severe level logged at runtime; debug also turns trace on
+ * @param level The level
+ */
+function setLogLevel(level: LogLevel): void {
+  trace = level === "debug";
+  logger.setLevel(level);
+}
 
-  // load image
+/**
+ * Decode an image to RGBA pixels for the encoders
+ * @param image Image bytes
+ * @throws ImageDecodeError if canvas can't load the image
+ */
+async function decodeImage(image: Buffer): Promise<RasterImage> {
   let img;
   try {
-    img = await loadImage(filename);
+    img = await loadImage(image);
   } catch (e) {
-    traceLog(`cannot load image "${filename}"`);
-    return;
+    traceLog(`cannot load image (${image.length} bytes)`);
+    throw new ImageDecodeError(`cannot load image: ${(e as Error).message}`);
   }
   const canvas = createCanvas(img.width, img.height);
   const ctx = canvas.getContext("2d");
   ctx.drawImage(img, 0, 0);
 
-  // use image2sixel with internal quantizer
   const data = ctx.getImageData(0, 0, img.width, img.height).data;
-  return image2sixel(data, img.width, img.height, palLimit, BACKGROUND_SELECT);
+  return { width: img.width, height: img.height, data };
+}
+
+/**
+ * Encode RGBA pixels as PNG
+ * @param raster The pixels
+ */
+function encodePNG(raster: RasterImage): Buffer {
+  const canvas = createCanvas(raster.width, raster.height);
+  const ctx = canvas.getContext("2d");
+  const imageData = ctx.createImageData(raster.width, raster.height);
+  imageData.data.set(raster.data);
+  ctx.putImageData(imageData, 0, 0);
+  return canvas.toBuffer("image/png");
+}
+
+/**
+ * Use each art bible's preferred Illustrator for its games, unless
+ * ILLUSTRATOR_GAME_BACKENDS picks one explicitly
+ * @throws Error if a bible names an unknown backend
+ */
+function applyArtBibleIllustrators(): void {
+  const explicit = parseGameBackends(process.env.ILLUSTRATOR_GAME_BACKENDS);
+  for (const bible of artBibles.list()) {
+    for (const gameIdentifier of bible.gameIdentifiers) {
+      if (bible.illustrator && !explicit[gameIdentifier]) {
+        illustrators.setGameBackend(gameIdentifier, bible.illustrator);
+      }
+    }
+  }
+}
+
+/**
+ * Get a session's GameMaster, restoring its history from the session
+ * store if the session isn't live yet (e.g. after a restart)
+ * @param sessionID The zmcdnSessionID of the session
+ */
+async function getGameMaster(sessionID: string): Promise<GameMaster> {
+  if (gameMasters.has(sessionID)) {
+    return gameMasters.get(sessionID);
+  }
+
+  const saved = await sessionStore.load(sessionID);
+  const gameMaster = gameMasters.get(sessionID);
+  if (saved && gameMaster.getHistory().length === 0) {
+    gameMaster.restoreHistory(saved.answers);
+    traceLog(`Resumed session ${sessionID} with ${saved.answers.length} answer(s)`, {
+      zmcdnSessionID: sessionID,
+      gameIdentifier: saved.gameIdentifier,
+    });
+  }
+  return gameMaster;
+}
+
+/**
+ * A throwaway Art Director carrying a session's history, so prefetch guesses
+ * keep the session's continuity without being added to its history
+ * @param sessionID The zmcdnSessionID of the session
+ */
+async function prefetchGameMaster(sessionID: string): Promise<GameMaster> {
+  const gameMaster = gameMasterBackends.create();
+  gameMaster.restoreHistory((await getGameMaster(sessionID)).getHistory());
+  return gameMaster;
+}
+
+/**
+ * Append a scene to a session's persisted state. Failures are logged but
+ * don't fail the request.
+ * @param sessionID The zmcdnSessionID of the session
+ * @param record The scene to append
+ */
+async function recordScene(sessionID: string, record: SceneRecord): Promise<void> {
+  try {
+    const state = (await sessionStore.load(sessionID)) ?? emptySessionState(sessionID);
+    await sessionStore.save(appendSceneRecord(state, record));
+  } catch (e) {
+    logger.error(`Failed to persist session ${sessionID}`, {
+      zmcdnSessionID: sessionID,
+      gameIdentifier: record.gameIdentifier,
+      error: e,
+    });
+  }
 }
 
 app.get("/", (_req: Request, res: Response) => {
@@ -68,36 +292,38 @@ app.get("/health", (_req: Request, res: Response) => {
   res.send("ok");
 });
 
+/**
+ * GET /metrics
+ * Request, cache, latency, upstream error and spend metrics in the
+ * Prometheus text format
+ */
+app.get("/metrics", (_req: Request, res: Response) => {
+  res.setHeader("Content-Type", PROMETHEUS_CONTENT_TYPE);
+  res.send(metrics.render());
+});
+
 /**
  * OPTIONS /illustrateMove
  * Handle CORS preflight requests
  */
-app.options("/illustrateMove", (_req: Request, res: Response) => {
-  res.setHeader("Access-Control-Allow-Origin", "*");
-  res.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS");
-  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+app.options("/illustrateMove", allowCors(corsOrigins, ["POST", "OPTIONS"]), (_req: Request, res: Response) => {
   res.status(204).send();
 });
 
 /**
- * POST /illustrateMove
- * Accepts JSON: {
- *   zmcdnSessionID: string,
- *   lastZMachineOutput: string,
- *   lastZMachineInput: string,
- *   playerLocation: string,
- *   gameIdentifier: string,
- *   illustrationFormat: string,
- * }
- * Updates game state with the Game Master LLM to receive updated output text
- * as well as scene illustration
+ * A parsed /illustrateMove request: what to illustrate and how to deliver it
  */
-app.post("/illustrateMove", async (req: Request, res: Response) => {
-  // Set CORS headers
-  res.setHeader("Access-Control-Allow-Origin", "*");
-  res.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS");
-  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+interface Move {
+  illustration: IllustrationRequest;
+  render: RenderRequest;
+}
 
+/**
+ * Validate an /illustrateMove body
+ * @param body The JSON body
+ * @returns The move, or the error response to send
+ */
+function parseMove(body: any): { move: Move } | { error: JobError } {
   const {
     zmcdnSessionID,
     lastZMachineOutput,
@@ -105,162 +331,1001 @@ app.post("/illustrateMove", async (req: Request, res: Response) => {
     playerLocation,
     gameIdentifier,
     illustrationFormat,
+    illustrationStyle,
+    palette,
+    dither,
     invalidate,
-  } = req.body;
+    regenerate,
+  } = body;
 
   if (!zmcdnSessionID || !lastZMachineOutput || !gameIdentifier) {
-    return res.status(400).json({ error: "missing required JSON parameters" });
+    return { error: { status: 400, body: { error: "missing required JSON parameters" } } };
   }
 
   // Validate gameIdentifier to prevent directory traversal attacks
   if (!/^[a-zA-Z0-9.]+$/.test(gameIdentifier)) {
-    return res.status(400).json({ error: "invalid gameIdentifier format" });
+    return { error: { status: 400, body: { error: "invalid gameIdentifier format" } } };
   }
 
-  // Get Game Master API key from environment
-  const gameMasterAPIKey = process.env.GAMEMASTER_API_KEY;
-  if (!gameMasterAPIKey) {
-    return res.status(500).json({ error: "GAMEMASTER_API_KEY not configured" });
+  // Reject unknown formats before spending anything on generation
+  const knownFormat =
+    illustrationFormat == null ||
+    (typeof illustrationFormat === "string" && encoders.has(illustrationFormat));
+  if (!knownFormat) {
+    return {
+      error: {
+        status: 400,
+        body: { error: "unsupported illustrationFormat", supportedFormats: encoders.names() },
+      },
+    };
   }
 
-  // Generate hash of lastZMachineOutput
-  const lastOutputHash = crypto.createHash('sha512').update(lastZMachineOutput).digest('hex');
+  // Without a palette in the request, use the one from the game's art bible
+  const paletteName = palette ?? artBibles.forGame(gameIdentifier)?.palette;
+  const platform = typeof paletteName === "string" ? getRetroPlatform(paletteName) : undefined;
+  if (paletteName != null && !platform) {
+    return {
+      error: {
+        status: 400,
+        body: { error: "unsupported palette", supportedPalettes: retroPlatformNames() },
+      },
+    };
+  }
+  if (dither != null && !DITHER_METHODS.includes(dither)) {
+    return {
+      error: {
+        status: 400,
+        body: { error: "unsupported dither", supportedDithers: DITHER_METHODS },
+      },
+    };
+  }
 
-  const sceneState = {
-    zmcdnSessionID,
-    playerLocation,
-    lastZMachineInput,
-    lastZMachineOutput,
-  };
+  if (regenerate != null && !REGENERATE_MODES.includes(regenerate)) {
+    return {
+      error: {
+        status: 400,
+        body: { error: "unsupported regenerate", supportedRegenerateModes: REGENERATE_MODES },
+      },
+    };
+  }
 
+  let size: OutputSize | undefined;
   try {
-    // Check if we have cached scene direction for this output
-    const cachedSceneDirectionPath = path.join(__dirname, "cache", `${lastOutputHash}.txt`);
-    let filteredContent: string;
-    let usedCachedSceneDirection = false;
-
-    if (!invalidate && fs.existsSync(cachedSceneDirectionPath)) {
-      // Use cached scene direction
-      filteredContent = fs.readFileSync(cachedSceneDirectionPath, 'utf-8');
-      usedCachedSceneDirection = true;
-      traceLog(`Using cached scene direction from: ${cachedSceneDirectionPath}`);
-    } else {
-      // Initialize GameMasterQwen instance if not already created
-      if (!gameMaster) {
-        gameMaster = new GameMasterQwen(gameMasterAPIKey, trace);
-      }
+    size = parseOutputSize(body);
+  } catch (e) {
+    if (!(e instanceof OutputSizeError)) throw e;
+    return { error: { status: 400, body: { error: e.message } } };
+  }
+
+  // DeepInfra-backed Art Director and Illustrator need an API key
+  const usesDeepInfra =
+    gameMasterBackends.configuredBackends().includes("qwen") ||
+    illustrators.backendFor(gameIdentifier) === "flux";
+  if (usesDeepInfra && !process.env.GAMEMASTER_API_KEY) {
+    return { error: { status: 500, body: { error: "GAMEMASTER_API_KEY not configured" } } };
+  }
+
+  return {
+    move: {
+      illustration: {
+        zmcdnSessionID,
+        lastZMachineOutput,
+        lastZMachineInput,
+        playerLocation,
+        gameIdentifier,
+        illustrationStyle: typeof illustrationStyle === "string" ? illustrationStyle : undefined,
+        invalidate: Boolean(invalidate),
+        imageSize: size ? generationSize(size) : undefined,
+        regenerate: regenerate ?? undefined,
+      },
+      render: {
+        format: illustrationFormat ?? undefined,
+        platform,
+        dither: dither ?? undefined,
+        size,
+      },
+    },
+  };
+}
+
+/**
+ * Fields identifying the session and game a move's log lines are about
+ * @param move The parsed request
+ */
+function moveLogFields(move: Move): LogFields {
+  return {
+    zmcdnSessionID: move.illustration.zmcdnSessionID,
+    gameIdentifier: move.illustration.gameIdentifier,
+  };
+}
+
+/**
+ * Illustrate a move and encode it the way the client asked. Each move is
+ * counted in the metrics and logged with what was cached and where the time went.
+ * @param move The parsed request
+ * @param onProgress Called as the move reaches each stage
+ * @param onNothingGenerated Called if the move was served from cache or failed
+ * before anything was generated, e.g. to give back the generation taken from
+ * the client's budget
+ */
+async function runMove(
+  move: Move,
+  onProgress: (stage: JobStage) => void = () => {},
+  onNothingGenerated: () => void = () => {},
+): Promise<RenderResult> {
+  const format = encoders.get(move.render.format).name;
+  const started = Date.now();
+  const reached: Partial<Record<JobStage, number>> = {};
+  const progress = (stage: JobStage) => {
+    reached[stage] = Date.now();
+    onProgress(stage);
+  };
+  // Time from reaching a stage to reaching the next one (or now)
+  const stageMs = (stage: JobStage, next: JobStage[]) => {
+    const start = reached[stage];
+    const end = next.map((s) => reached[s]).find((at) => at !== undefined) ?? Date.now();
+    return start === undefined ? undefined : end - start;
+  };
+  const fields = () => ({
+    ...moveLogFields(move),
+    playerLocation: move.illustration.playerLocation,
+    format,
+    invalidate: move.illustration.invalidate || undefined,
+    regenerate: move.illustration.regenerate,
+    directingMs: stageMs("directing", ["illustrating", "encoding"]),
+    illustratingMs: stageMs("illustrating", ["encoding"]),
+    encodingMs: stageMs("encoding", []),
+    durationMs: Date.now() - started,
+  });
 
-      // Use GameMasterQwen to generate scene direction
-      filteredContent = await gameMaster.generateSceneDirection(sceneState);
+  // Upstream calls are charged to the move's session and game (prefetches are charged by the prefetcher)
+  const attribution = {
+    zmcdnSessionID: move.illustration.zmcdnSessionID,
+    gameIdentifier: move.illustration.gameIdentifier,
+  };
 
-      // Cache the scene direction
-      fs.mkdirSync(path.dirname(cachedSceneDirectionPath), { recursive: true });
-      fs.writeFileSync(cachedSceneDirectionPath, filteredContent);
-      traceLog(`Cached scene direction to: ${cachedSceneDirectionPath}`);
+  activeMoves++;
+  let illustrated = false;
+  try {
+    const { image, sceneDirection, usedCachedSceneDirection, usedCachedImage } = await spend.attribute(
+      attribution,
+      () => pipeline.illustrate(move.illustration, progress),
+    );
+    illustrated = true;
+    if (usedCachedSceneDirection && usedCachedImage) {
+      onNothingGenerated();
     }
+    // Cache-only moves, over a client's generation budget or a spend cap, don't prefetch either
+    if (!move.illustration.cacheOnly) {
+      prefetcher?.afterMove(move.illustration);
+    }
+    progress("encoding");
+    const rendered = await outputRenderer.render(image, move.render);
+
+    metrics.observeEncoding(format, stageMs("encoding", [])! / 1000);
+    metrics.recordCacheLookup("scene", usedCachedSceneDirection);
+    metrics.recordCacheLookup("image", usedCachedImage);
+    metrics.recordCacheLookup("render", rendered.usedCachedRender);
+    metrics.recordRequest(format, "ok");
+    logger.info("Illustrated move", {
+      ...fields(),
+      reuseKey: sceneDirection.reuse_key,
+      usedCachedSceneDirection,
+      usedCachedImage,
+      usedCachedRender: rendered.usedCachedRender,
+      cacheOnly: move.illustration.cacheOnly,
+    });
+    return rendered;
+  } catch (error) {
+    if (!illustrated) {
+      onNothingGenerated();
+    }
+    const { status } = moveError(error, move);
+    metrics.recordRequest(format, status < 500 ? "rejected" : "failed");
+    logger.error("Move failed", {
+      ...fields(),
+      status,
+      issues: error instanceof SceneDirectionError ? error.issues : undefined,
+      error,
+    });
+    throw error;
+  } finally {
+    activeMoves--;
+  }
+}
+
+/**
+ * Turn a failed move into the response to send; runMove has logged it already
+ * @param error Whatever runMove threw
+ * @param move The move that failed
+ */
+function moveError(error: unknown, move: Move): JobError {
+  if (error instanceof ImageDecodeError) {
+    return {
+      status: 500,
+      body: { error: `Failed to convert image to ${encoders.get(move.render.format).name}` },
+    };
+  }
+  if (error instanceof CachePathError) {
+    return { status: 400, body: { error: "invalid cache key" } };
+  }
+  if (error instanceof NotCachedError) {
+    return { status: 429, body: { error: "move isn't cached and can't be illustrated now" } };
+  }
+  if (error instanceof SceneDirectionError) {
+    return {
+      status: 502,
+      body: {
+        error: "invalid scene direction from game master",
+        code: error.code,
+        issues: error.issues,
+      },
+    };
+  }
+  return { status: 500, body: { error: "failed to process request" } };
+}
+
+/**
+ * The 503 refusing a move for a reached spend cap, to try again when the cap resets
+ * @param cap The cap that was reached
+ */
+function spendCapped(cap: SpendCap): JobError {
+  return {
+    status: 503,
+    body: { error: `${cap} spend cap reached; only cached scenes can be served`, cap },
+    retryAfterSeconds: spend.secondsUntilReset(cap),
+  };
+}
 
-    traceLog(filteredContent);
+/**
+ * Send a failed move's response, with Retry-After if it says when to try again
+ * @param res The response
+ * @param error The failure
+ */
+function sendJobError(res: Response, error: JobError): void {
+  if (error.retryAfterSeconds !== undefined) {
+    res.setHeader("Retry-After", String(error.retryAfterSeconds));
+  }
+  res.status(error.status).json(error.body);
+}
+
+// Drawn on first use by placeholderImage()
+let placeholderPNG: Buffer | undefined;
+
+/**
+ * The image served in place of a new illustration once a spend cap is
+ * reached, with SPEND_CAP_FALLBACK=placeholder
+ */
+function placeholderImage(): Buffer {
+  if (!placeholderPNG) {
+    const canvas = createCanvas(512, 320);
+    const ctx = canvas.getContext("2d");
+    ctx.fillStyle = "#1b1b2f";
+    ctx.fillRect(0, 0, 512, 320);
+    ctx.fillStyle = "#c8c8d0";
+    ctx.textAlign = "center";
+    ctx.font = "bold 28px monospace";
+    ctx.fillText("Illustrations paused", 256, 150);
+    ctx.font = "18px monospace";
+    ctx.fillText("Only scenes seen before can be shown", 256, 190);
+    placeholderPNG = canvas.toBuffer("image/png") as Buffer;
+  }
+  return placeholderPNG;
+}
+
+/**
+ * Serve the placeholder image, encoded the way the client asked, for a move
+ * that would need generating past a spend cap
+ * @param move The parsed request
+ * @param cap The cap that was reached
+ * @param onProgress Called as the move reaches each stage
+ */
+async function renderPlaceholder(
+  move: Move,
+  cap: SpendCap,
+  onProgress: (stage: JobStage) => void = () => {},
+): Promise<RenderResult> {
+  onProgress("encoding");
+  const rendered = await outputRenderer.render(placeholderImage(), move.render);
+  metrics.recordRequest(encoders.get(move.render.format).name, "ok");
+  logger.warn("Served placeholder", { ...moveLogFields(move), cap });
+  return rendered;
+}
+
+/**
+ * Represent an encoded image in JSON: text formats as UTF-8, binary ones as base64
+ * @param result The encoded image
+ */
+function renderToJSON(result: RenderResult) {
+  const text = result.contentType.startsWith("text/");
+  return {
+    contentType: result.contentType,
+    encoding: text ? "utf8" : "base64",
+    data: result.body.toString(text ? "utf8" : "base64"),
+  };
+}
+
+/**
+ * POST /illustrateMove
+ * Accepts JSON: {
+ *   zmcdnSessionID: string,
+ *   lastZMachineOutput: string,
+ *   lastZMachineInput: string,
+ *   playerLocation: string,
+ *   gameIdentifier: string,
+ *   illustrationFormat?: string, // sixel (default), png, ansi, ansi256, iterm2, kitty or ascii
+ *   illustrationStyle?: string,
+ *   palette?: string,            // cga, ega, c64, apple2 or amiga
+ *   dither?: string,             // floyd-steinberg, bayer or none
+ *   width?: number, height?: number,           // target size in pixels, or
+ *   cols?: number, rows?: number,              // terminal size in cells
+ *   cellWidth?: number, cellHeight?: number,   // with the cell size in pixels
+ *   fit?: string,                // fit (default), fill or stretch
+ *   invalidate?: boolean,
+ *   regenerate?: string,         // same-seed or new-variant: redraw the cached image
+ *   async?: boolean,             // respond 202 with a job instead of waiting
+ * }
+ * Updates game state with the Game Master LLM to receive updated output text
+ * as well as scene illustration. Each request comes out of the client's
+ * request budget, and each new illustration out of its generation budget;
+ * over that, or past a spend cap, only cached scenes are served.
+ */
+app.post("/illustrateMove", allowCors(corsOrigins, ["POST", "OPTIONS"]), clientAccess.admit(), async (req: Request, res: Response) => {
+  const client: Client = res.locals.client;
+  const parsed = parseMove(req.body);
+  if ("error" in parsed) {
+    // Label unknown formats as such rather than with whatever the client sent
+    const { illustrationFormat } = req.body ?? {};
+    let format = "unknown";
+    if (illustrationFormat == null || (typeof illustrationFormat === "string" && encoders.has(illustrationFormat))) {
+      format = encoders.get(illustrationFormat ?? undefined).name;
+    }
+    metrics.recordRequest(format, parsed.error.status < 500 ? "rejected" : "failed");
+    logger.warn("Rejected move", {
+      zmcdnSessionID: req.body?.zmcdnSessionID,
+      gameIdentifier: req.body?.gameIdentifier,
+      status: parsed.error.status,
+      reason: parsed.error.body.error,
+    });
+    return res.status(parsed.error.status).json(parsed.error.body);
+  }
+  const { move } = parsed;
 
-    // Parse the JSON to check repaint flag and get reuse_key
-    let sceneData;
+  // Past a spend cap or the client's generation budget, only cached moves are served
+  const cap = spend.capReached();
+  const generation = cap ? undefined : clientAccess.take(client, "generations");
+  // Why a move that would need generating is refused, saying which limit it
+  // hit; only then is a client over its generation budget counted as limited
+  const refusal = (): JobError => {
+    if (cap) {
+      return spendCapped(cap);
+    }
+    clientAccess.limited(client, "generations");
+    return rateLimitedResponse("generations", generation!.retryAfterSeconds);
+  };
+  const refuse = () => {
+    metrics.recordRequest(encoders.get(move.render.format).name, "rejected");
+    if (cap) {
+      logger.warn("Spend cap reached", { ...moveLogFields(move), cap });
+    }
+    return sendJobError(res, refusal());
+  };
+  let servePlaceholder = false;
+  if (!generation?.allowed) {
+    let cached;
     try {
-      sceneData = JSON.parse(filteredContent);
+      cached = await pipeline.cachedImage(move.illustration);
     } catch (e) {
-      return res.status(500).json({ error: "Invalid JSON from game master" });
+      traceLog("No cached image for a move that can't be generated", { ...moveLogFields(move), error: e });
+    }
+    if (cached) {
+      move.illustration.cacheOnly = true;
+    } else if (cap && spendCapFallback === "placeholder") {
+      servePlaceholder = true;
+    } else {
+      return refuse();
+    }
+  }
+  // A move served entirely from cache, or that failed upstream, didn't use the generation
+  const refundGeneration = () => {
+    if (generation?.allowed) {
+      clientAccess.refund(client, "generations");
+    }
+  };
+  const work = (progress?: (stage: JobStage) => void) =>
+    servePlaceholder ? renderPlaceholder(move, cap!, progress) : runMove(move, progress, refundGeneration);
+
+  if (req.body.async === true) {
+    let job;
+    try {
+      job = jobs.start(
+        (progress) => work(progress),
+        // Its cached image may go away before the job gets to it
+        (error) => (error instanceof NotCachedError ? refusal() : moveError(error, move)),
+      );
+    } catch (error) {
+      if (!(error instanceof JobLimitError)) throw error;
+      refundGeneration();
+      metrics.recordRequest(encoders.get(move.render.format).name, "rejected");
+      logger.warn("Too many jobs running", moveLogFields(move));
+      return sendJobError(res, {
+        status: 503,
+        body: { error: "too many jobs running; try again shortly" },
+        retryAfterSeconds: JOB_RETRY_AFTER_SECONDS,
+      });
     }
 
-    let imageBuffer: Buffer;
-
-    // Check if we should use cached image
-    // If we used cached scene direction, always use cached image (ignore repaint flag)
-    if (!invalidate && sceneData.reuse_key && (usedCachedSceneDirection || sceneData.repaint === false)) {
-      const cachedImagePath = path.join(__dirname, "cache", gameIdentifier, `${sceneData.reuse_key}.png`);
-      if (fs.existsSync(cachedImagePath)) {
-        imageBuffer = fs.readFileSync(cachedImagePath);
-        traceLog(`Using cached image from: ${cachedImagePath}`);
-      } else {
-        traceLog(`Cache miss for: ${cachedImagePath}, generating new image`);
-        // Generate new image if cache doesn't exist
-        const illustrator = new IllustratorFLUX(gameMasterAPIKey);
-        const b64Image = await illustrator.generateImage(filteredContent);
-        imageBuffer = Buffer.from(b64Image, "base64");
-
-        // Save the newly generated image to cache
-        const cacheDir = path.join(__dirname, "cache", gameIdentifier);
-        fs.mkdirSync(cacheDir, { recursive: true });
-        fs.writeFileSync(cachedImagePath, imageBuffer);
-        traceLog(`Cached image to: ${cachedImagePath}`);
+    // Hand back whatever is already cached so the client has something to show
+    let cached;
+    try {
+      const image = await pipeline.cachedImage(move.illustration);
+      if (image) {
+        cached = renderToJSON(await outputRenderer.render(image, move.render));
       }
+    } catch (e) {
+      traceLog(`No cached image for job ${job.id}`, { ...moveLogFields(move), error: e });
+    }
+
+    return res.status(202).json({
+      jobId: job.id,
+      status: job.status,
+      statusUrl: `/jobs/${job.id}`,
+      eventsUrl: `/jobs/${job.id}/events`,
+      resultUrl: `/jobs/${job.id}/result`,
+      cached,
+    });
+  }
+
+  try {
+    const rendered = await work();
+    res.setHeader("Content-Type", rendered.contentType);
+    res.send(rendered.body);
+  } catch (error) {
+    // Its cached image went away between looking and serving
+    if (error instanceof NotCachedError) {
+      return refuse();
+    }
+    sendJobError(res, moveError(error, move));
+  }
+});
+
+/**
+ * GET /jobs/:id
+ * Status of an async job, with the encoded image once it's done
+ */
+app.get("/jobs/:id", allowCors(corsOrigins, ["GET"]), (req: Request, res: Response) => {
+  const job = jobs.get(req.params.id);
+  if (!job) {
+    return res.status(404).json({ error: "unknown job" });
+  }
+  res.json({
+    id: job.id,
+    status: job.status,
+    stage: job.stage,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    events: job.events,
+    result: job.result ? renderToJSON(job.result) : undefined,
+    error: job.error ? { status: job.error.status, ...job.error.body } : undefined,
+  });
+});
+
+/**
+ * GET /jobs/:id/result
+ * The encoded image of a finished job, exactly as the synchronous path would
+ * have sent it; 202 while the job is still running
+ */
+app.get("/jobs/:id/result", allowCors(corsOrigins, ["GET"]), (req: Request, res: Response) => {
+  const job = jobs.get(req.params.id);
+  if (!job) {
+    return res.status(404).json({ error: "unknown job" });
+  }
+  if (job.error) {
+    return sendJobError(res, job.error);
+  }
+  if (!job.result) {
+    return res.status(202).json({ status: job.status, stage: job.stage });
+  }
+  res.setHeader("Content-Type", job.result.contentType);
+  res.send(job.result.body);
+});
+
+/**
+ * GET /jobs/:id/events
+ * Server-Sent Events stream of a job's progress: past events first, then
+ * live ones until the job is done or failed
+ */
+app.get("/jobs/:id/events", allowCors(corsOrigins, ["GET"]), (req: Request, res: Response) => {
+  const job = jobs.get(req.params.id);
+  if (!job) {
+    return res.status(404).json({ error: "unknown job" });
+  }
+
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("Connection", "keep-alive");
+  res.flushHeaders();
+
+  const send = (event: JobEvent): boolean => {
+    if (event.type === "done") {
+      res.write(formatServerSentEvent("done", { ...event, result: renderToJSON(job.result!) }));
     } else {
-      // Generate new image
-      const illustrator = new IllustratorFLUX(gameMasterAPIKey);
-      const b64Image = await illustrator.generateImage(filteredContent);
-      imageBuffer = Buffer.from(b64Image, "base64");
-
-      // Save image to cache if we have a reuse_key
-      if (sceneData.reuse_key) {
-        const cacheDir = path.join(__dirname, "cache", gameIdentifier);
-        fs.mkdirSync(cacheDir, { recursive: true });
-        const cachedImagePath = path.join(cacheDir, `${sceneData.reuse_key}.png`);
-        fs.writeFileSync(cachedImagePath, imageBuffer);
-        traceLog(`Cached image to: ${cachedImagePath}`);
-      }
+      res.write(formatServerSentEvent(event.type, event));
     }
+    return event.type !== "progress";
+  };
 
-    // If PNG format is requested, return image data directly
-    if (illustrationFormat === 'png') {
-      res.setHeader("Content-Type", "image/png");
-      return res.send(imageBuffer);
+  // Replay what has happened so far; a finished job ends the stream there
+  for (const event of job.events) {
+    if (send(event)) {
+      return res.end();
     }
+  }
 
-    // Otherwise, convert to Sixel
-    // Write temporary file for sixel conversion
-    const tempImagePath = path.join(
-      __dirname,
-      "cache",
-      `temp_${Date.now()}.png`,
-    );
-    fs.mkdirSync(path.dirname(tempImagePath), { recursive: true });
-    fs.writeFileSync(tempImagePath, imageBuffer);
+  const unsubscribe = jobs.subscribe(job.id, (event) => {
+    if (send(event)) {
+      unsubscribe();
+      res.end();
+    }
+  });
+  req.on("close", unsubscribe);
+});
 
-    // Convert to sixel
-    const sixelData = await imageToSixel(tempImagePath);
+/**
+ * Validate the game, reuse_key and, if present, variant of a variants route
+ * @param req The request
+ * @returns The parameters, or the error response to send
+ */
+function parseVariantParams(
+  req: Request,
+): { gameIdentifier: string; reuseKey: string; variant?: number } | { error: JobError } {
+  const { gameIdentifier, reuseKey, variant } = req.params;
+  if (!/^[a-zA-Z0-9.]+$/.test(gameIdentifier)) {
+    return { error: { status: 400, body: { error: "invalid gameIdentifier format" } } };
+  }
+  if (variant !== undefined && !/^\d+$/.test(variant)) {
+    return { error: { status: 400, body: { error: "invalid variant" } } };
+  }
+  return {
+    gameIdentifier,
+    reuseKey: sanitizeReuseKey(reuseKey),
+    variant: variant === undefined ? undefined : Number(variant),
+  };
+}
+
+/**
+ * GET /games/:gameIdentifier/variants/:reuseKey
+ * Every image kept for a reuse_key, with what it was generated with and
+ * which one is canonical
+ */
+app.get("/games/:gameIdentifier/variants/:reuseKey", async (req: Request, res: Response) => {
+  const params = parseVariantParams(req);
+  if ("error" in params) {
+    return res.status(params.error.status).json(params.error.body);
+  }
+  const { gameIdentifier, reuseKey } = params;
+  try {
+    const set = await imageVariants.list(gameIdentifier, reuseKey);
+    if (!set) {
+      return res.status(404).json({ error: "no images for reuse_key" });
+    }
+    res.json({
+      gameIdentifier,
+      reuseKey,
+      canonical: set.canonical,
+      variants: set.variants.map((variant) => ({
+        ...variant,
+        canonical: variant.variant === set.canonical,
+        imageUrl: `/games/${gameIdentifier}/variants/${reuseKey}/${variant.variant}`,
+      })),
+    });
+  } catch (error) {
+    logger.error("Failed to list variants", { gameIdentifier: req.params.gameIdentifier, error });
+    res.status(500).json({ error: "failed to list variants" });
+  }
+});
 
-    // Clean up temp file
-    fs.unlinkSync(tempImagePath);
+/**
+ * GET /games/:gameIdentifier/variants/:reuseKey/:variant
+ * One variant's image as generated
+ */
+app.get("/games/:gameIdentifier/variants/:reuseKey/:variant", async (req: Request, res: Response) => {
+  const params = parseVariantParams(req);
+  if ("error" in params) {
+    return res.status(params.error.status).json(params.error.body);
+  }
+  try {
+    const image = await imageVariants.image(params.gameIdentifier, params.reuseKey, params.variant!);
+    if (!image) {
+      return res.status(404).json({ error: "unknown variant" });
+    }
+    res.setHeader("Content-Type", detectImageMimeType(image));
+    res.send(image);
+  } catch (error) {
+    logger.error("Failed to read variant", { gameIdentifier: req.params.gameIdentifier, error });
+    res.status(500).json({ error: "failed to read variant" });
+  }
+});
 
-    if (!sixelData) {
-      return res
-        .status(500)
-        .json({ error: "Failed to convert image to sixel" });
+/**
+ * PUT /games/:gameIdentifier/variants/:reuseKey/canonical
+ * Accepts JSON: { variant: number }
+ * Serve that variant for the reuse_key from now on; needs the admin token
+ */
+app.put("/games/:gameIdentifier/variants/:reuseKey/canonical", requireAdminToken(process.env.ADMIN_TOKEN), async (req: Request, res: Response) => {
+  const params = parseVariantParams(req);
+  if ("error" in params) {
+    return res.status(params.error.status).json(params.error.body);
+  }
+  const variant = req.body?.variant;
+  if (!Number.isInteger(variant)) {
+    return res.status(400).json({ error: "variant must be an integer" });
+  }
+  try {
+    const set = await imageVariants.choose(params.gameIdentifier, params.reuseKey, variant);
+    res.json({ reuseKey: params.reuseKey, canonical: set.canonical });
+  } catch (error) {
+    if (error instanceof ImageVariantError) {
+      return res.status(404).json({ error: error.message });
     }
+    logger.error("Failed to choose variant", { gameIdentifier: req.params.gameIdentifier, error });
+    res.status(500).json({ error: "failed to choose variant" });
+  }
+});
 
-    res.setHeader("Content-Type", "text/plain; charset=utf-8");
-    res.send(sixelData);
+/**
+ * DELETE /games/:gameIdentifier/variants/:reuseKey/:variant
+ * Delete a variant; if it was canonical, the newest remaining one takes over.
+ * Needs the admin token.
+ */
+app.delete("/games/:gameIdentifier/variants/:reuseKey/:variant", requireAdminToken(process.env.ADMIN_TOKEN), async (req: Request, res: Response) => {
+  const params = parseVariantParams(req);
+  if ("error" in params) {
+    return res.status(params.error.status).json(params.error.body);
+  }
+  try {
+    const set = await imageVariants.delete(params.gameIdentifier, params.reuseKey, params.variant!);
+    res.json({ reuseKey: params.reuseKey, canonical: set?.canonical ?? null, remaining: set?.variants.length ?? 0 });
   } catch (error) {
-    console.error("Error calling API:", error);
-    res.status(500).json({ error: "failed to process request" });
+    if (error instanceof ImageVariantError) {
+      return res.status(404).json({ error: error.message });
+    }
+    logger.error("Failed to delete variant", { gameIdentifier: req.params.gameIdentifier, error });
+    res.status(500).json({ error: "failed to delete variant" });
   }
 });
 
+/**
+ * /admin
+ * Cache, session and trace management, authenticated with ADMIN_TOKEN
+ */
+app.use(
+  "/admin",
+  createAdminRouter({
+    token: process.env.ADMIN_TOKEN,
+    // The cache and variants are created in initStorage(), after the routes
+    get cache() {
+      return cacheStore;
+    },
+    get variants() {
+      return imageVariants;
+    },
+    regenerateImage: (gameIdentifier, reuseKey, regenerate) =>
+      spend.attribute({ gameIdentifier }, () => pipeline.regenerateImage(gameIdentifier, reuseKey, regenerate)),
+    purgeSceneDirections: (gameIdentifier) =>
+      pipeline.purgeSceneDirections((entry) => entry.gameIdentifier === gameIdentifier),
+    thumbnail: (image) =>
+      outputRenderer.render(image, { format: "png", size: { width: 160, height: 120, fit: "fit" } }),
+    sessions: {
+      list: () => gameMasters.list(),
+      history: (sessionID) => gameMasters.peek(sessionID)?.getHistory(),
+    },
+    loadSession: (sessionID) => sessionStore.load(sessionID),
+    spend,
+    getTrace: () => trace,
+    setTrace,
+    getLogLevel: () => logger.getLevel(),
+    setLogLevel,
+    log: traceLog,
+    logger,
+  }),
+);
+
 // Basic error handler
 app.use((err: any, _req: Request, res: Response, _next: any) => {
-  console.error("Unhandled error:", err);
+  logger.error("Unhandled error", { method: _req.method, path: _req.path, error: err });
   res.status(500).json({ error: "internal error" });
 });
 
-const server = app.listen(PORT, '0.0.0.0', () => {
-  console.log(`zmcdn sample server listening on port ${PORT}`);
+/**
+ * Open the cache store, and connect to MongoDB for session persistence if
+ * MONGODB_URI is configured
+ */
+async function initStorage() {
+  // Younger temp files may be another instance's writes in progress
+  const tempFiles = cachePaths.sweepTempFiles(tempSweepAgeMs());
+  if (tempFiles > 0) {
+    logger.info(`Removed ${tempFiles} orphaned temp file(s) from cache`);
+  }
+
+  cacheStore = await createCacheStore(cacheRoot);
+  logger.info(`Using ${cacheStore.name} cache store (${cacheStore.size} bytes cached)`);
+  await spend.load();
 
-  // Start REPL if -i flag is specified
-  if (process.argv.includes('-i')) {
-    startREPL();
+  // Expire scene directions past their TTL even if nobody asks for them
+  setInterval(() => {
+    cacheStore.sweepExpired().catch((e) => logger.error('Cache sweep failed', { error: e }));
+  }, 60 * 60 * 1000).unref();
+
+  entities = new EntityRegistry({
+    cache: cacheStore,
+    loadSession: (sessionID) => sessionStore.load(sessionID),
+    log: traceLog,
+  });
+  imageVariants = createImageVariants(cacheStore);
+  pipeline = new IllustrationPipeline({
+    cache: cacheStore,
+    getGameMaster,
+    illustrators,
+    recordScene,
+    log: traceLog,
+    sceneKeyFields: parseSceneKeyFields(process.env.SCENE_CACHE_KEY_FIELDS),
+    claimPrefetched: (request, imageKey) => prefetcher?.claim(request, imageKey) ?? false,
+    artBibles,
+    entities,
+    variants: imageVariants,
+  });
+  if (process.env.PREFETCH === "on") {
+    prefetcher = createPrefetcher({
+      createGameMaster: prefetchGameMaster,
+      ensureImage: (gameIdentifier, sceneDirection, imageSize) =>
+        pipeline.ensureImage(gameIdentifier, sceneDirection, imageSize),
+      isBusy: () => activeMoves > 0,
+      spendCapReached: () => spend.capReached(),
+      runAs: (attribution, work) => spend.attribute(attribution, work),
+      artBibles,
+      log: traceLog,
+    });
+    logger.info('Prefetching adjacent rooms');
   }
-});
+  outputRenderer = new OutputRenderer({
+    cache: cacheStore,
+    encoders,
+    decode: decodeImage,
+    encodePNG,
+    log: traceLog,
+  });
+
+  const mongoURI = process.env.MONGODB_URI;
+  if (!mongoURI) {
+    logger.warn('MONGODB_URI not set; sessions will not survive a restart');
+    return;
+  }
+  sessionStore = await SessionStoreMongo.connect(
+    mongoURI,
+    process.env.MONGODB_DB || 'zmcdn',
+    'sessions',
+    sessionRetentionMs(),
+  );
+  logger.info('Persisting sessions to MongoDB');
+}
+
+let server: http.Server | undefined;
+
+initStorage()
+  .then(() => {
+    server = app.listen(PORT, '0.0.0.0', () => {
+      logger.info(`zmcdn sample server listening on port ${PORT}`);
+
+      // Start REPL if -i flag is specified
+      if (process.argv.includes('-i')) {
+        startREPL();
+      }
+    });
+  })
+  .catch((e) => {
+    logger.error('Failed to initialize storage', { error: e });
+    process.exit(1);
+  });
 
 let rl: readline.Interface | undefined;
 let shuttingDown = false;
 
+/**
+ * Print live sessions with their game and how many scene directions they
+ * hold, optionally followed by a page of sessions that are only persisted
+ * @param page Page of persisted sessions to include, most recently saved
+ * first, SESSIONS_PAGE_SIZE per page (1-based; omit for live sessions only)
+ */
+async function listSessions(page?: number): Promise<void> {
+  const live = gameMasters.list();
+  if (live.length === 0) {
+    console.log('No live sessions');
+  }
+  for (const session of live) {
+    const idleSeconds = Math.round((Date.now() - session.lastAccessedAt) / 1000);
+    const game = (await sessionStore.load(session.sessionID))?.gameIdentifier ?? '-';
+    const directions = gameMasters.peek(session.sessionID)?.getHistory().length ?? 0;
+    console.log(`  ${session.sessionID}  ${game}  created ${new Date(session.createdAt).toISOString()}  idle ${idleSeconds}s  ${directions} direction(s)`);
+  }
+  if (page === undefined) {
+    return;
+  }
+  // One extra to tell whether there's a next page
+  const saved = await sessionStore.list({
+    offset: (page - 1) * SESSIONS_PAGE_SIZE,
+    limit: SESSIONS_PAGE_SIZE + 1,
+  });
+  for (const state of saved.slice(0, SESSIONS_PAGE_SIZE)) {
+    if (!gameMasters.has(state.sessionID)) {
+      console.log(`  ${state.sessionID}  ${state.gameIdentifier ?? '-'}  saved ${new Date(state.updatedAt).toISOString()}  ${state.answers.length} direction(s)  (not live)`);
+    }
+  }
+  if (saved.length > SESSIONS_PAGE_SIZE) {
+    console.log(`More persisted sessions: sessions all ${page + 1}`);
+  }
+}
+
+/**
+ * Print a session's most recent scene directions, from its live Art Director
+ * or, failing that, the session store
+ * @param sessionID The zmcdnSessionID of the session
+ * @param count How many to print
+ */
+async function showDirections(sessionID: string, count: number): Promise<void> {
+  const answers = gameMasters.peek(sessionID)?.getHistory() ?? (await sessionStore.load(sessionID))?.answers;
+  if (!answers) {
+    console.log(`No such session: ${sessionID}`);
+    return;
+  }
+  if (answers.length === 0) {
+    console.log('No scene directions yet');
+  }
+  for (const answer of answers.slice(-count)) {
+    try {
+      const direction = parseSceneDirection(answer);
+      console.log(`  ${direction.reuse_key ?? '-'}  repaint ${direction.repaint}  style ${direction.style_tags || '-'}`);
+      console.log(`    ${direction.visual_prompt}`);
+    } catch {
+      console.log(`  (invalid) ${answer}`);
+    }
+  }
+}
+
+/**
+ * Print entries and bytes per cache namespace, or one game's images with
+ * their variants
+ * @param gameIdentifier Game release/serial, or undefined for every namespace
+ */
+async function showCacheStats(gameIdentifier?: string): Promise<void> {
+  const kib = (bytes: number) => `${(bytes / 1024).toFixed(1)} KiB`;
+  if (!gameIdentifier) {
+    const stats = cacheStore.stats().sort((a, b) => a.namespace.localeCompare(b.namespace));
+    if (stats.length === 0) {
+      console.log('The cache is empty');
+    }
+    for (const { namespace, entries, bytes } of stats) {
+      console.log(`  ${namespace.padEnd(16)} ${String(entries).padStart(6)} entries  ${kib(bytes)}`);
+    }
+    return;
+  }
+  const entries = await cacheStore.list(gameIdentifier);
+  const images = entries.filter((entry) => servedImageReuseKey(entry.key));
+  const bytes = entries.reduce((total, entry) => total + entry.size, 0);
+  console.log(`  ${images.length} image(s) in ${entries.length} entries, ${kib(bytes)}`);
+  for (const entry of images) {
+    const reuseKey = servedImageReuseKey(entry.key)!;
+    const set = await imageVariants.list(gameIdentifier, reuseKey);
+    console.log(`  ${reuseKey.padEnd(32)} ${kib(entry.size).padStart(10)}  ${set?.variants.length ?? 1} variant(s)  last used ${new Date(entry.lastAccessedAt).toISOString()}`);
+  }
+}
+
+/**
+ * Show upstream spend: today's and this month's against the caps, or one
+ * day's, broken down by game, backend and the sessions that spent most
+ * @param day A UTC day, e.g. "2025-10-08" (default today)
+ */
+async function showSpend(day?: string): Promise<void> {
+  const summary = spend.summary();
+  const spent = day ? await spend.day(day) : summary.today;
+  const usd = (amount: number) => `$${amount.toFixed(4)}`;
+  const totals = (t: SpendTotals) =>
+    `${usd(t.usd)}  ${t.calls} call(s), ${t.promptTokens + t.completionTokens} tokens, ${t.images} image(s)`;
+  if (!day) {
+    const cap = (limit?: number) => (limit === undefined ? 'no cap' : `cap ${usd(limit)}`);
+    console.log(`Today (${summary.today.day}): ${totals(summary.today)}  (${cap(summary.dailyCapUsd)})`);
+    console.log(`This month (${summary.month.month}): ${totals(summary.month)}  (${cap(summary.monthlyCapUsd)})`);
+    if (summary.capReached) {
+      console.log(`The ${summary.capReached} cap is reached: only cached scenes are served (SPEND_CAP_FALLBACK=${spendCapFallback})`);
+    }
+  } else if (!spent) {
+    console.log(`Nothing spent on ${day}`);
+    return;
+  } else {
+    console.log(`${day}: ${totals(spent)}`);
+  }
+  const breakdown = (title: string, entries: Record<string, SpendTotals>, limit = Infinity) => {
+    const sorted = Object.entries(entries).sort(([, a], [, b]) => b.usd - a.usd || b.calls - a.calls);
+    if (sorted.length === 0) return;
+    console.log(`  By ${title}:`);
+    for (const [name, t] of sorted.slice(0, limit)) {
+      console.log(`    ${name.padEnd(32)} ${totals(t)}`);
+    }
+    if (sorted.length > limit) {
+      console.log(`    ... and ${sorted.length - limit} more`);
+    }
+  };
+  breakdown('game', spent!.byGame);
+  breakdown('backend', spent!.byBackend);
+  breakdown('session', spent!.bySession, 10);
+}
+
+/**
+ * Show or swap the Illustrator and Art Director backends. Live sessions are
+ * evicted when the Art Director changes; they resume on the new backend with
+ * their history from the session store.
+ * @param args "illustrator <name> [game]", "director <name>", or nothing to show them
+ * @throws Error if the backend isn't registered
+ */
+function switchBackend([kind, name, gameIdentifier]: string[]): void {
+  if (kind === 'illustrator' && name) {
+    if (gameIdentifier) {
+      illustrators.setGameBackend(gameIdentifier, name === 'default' ? undefined : name);
+      console.log(`Illustrator for ${gameIdentifier}: ${illustrators.backendFor(gameIdentifier)}`);
+    } else {
+      illustrators.setDefaultBackend(name);
+      console.log(`Default Illustrator: ${name}`);
+    }
+    return;
+  }
+  if (kind === 'director' && name) {
+    gameMasterBackends.setDefaultBackend(name);
+    console.log(`Art Director: ${name} (${gameMasters.clear()} live session(s) will resume on it)`);
+    return;
+  }
+  if (kind) {
+    console.log('Usage: backend [illustrator <name> [game]|director <name>]');
+  }
+  console.log(`  Art Director: ${gameMasterBackends.getDefaultBackend()} (available: ${gameMasterBackends.names().join(', ')})`);
+  console.log(`  Illustrator:  ${illustrators.backendFor()} (available: ${illustrators.names().join(', ')})`);
+}
+
+/**
+ * Ask a fresh Art Director to direct a pasted transcript and print what it
+ * was sent and what it answered, without caching or drawing anything
+ * @param gameIdentifier Game release/serial, for its art bible and entities
+ * @param playerLocation Where the player is, or "" to let the Art Director infer it
+ * @param transcript The game transcript, with commands on lines starting with ">"
+ */
+async function dryRun(gameIdentifier: string, playerLocation: string, transcript: string): Promise<void> {
+  const move = parseTranscript(transcript);
+  if (!move.lastZMachineOutput) {
+    console.log('Nothing to direct: the transcript has no game output');
+    return;
+  }
+  const gameMaster = gameMasterBackends.create();
+  try {
+    const preview = await spend.attribute({ gameIdentifier }, () =>
+      pipeline.previewSceneDirection(
+        { zmcdnSessionID: 'repl-dryrun', gameIdentifier, playerLocation, ...move },
+        gameMaster,
+      ),
+    );
+    console.log(`Scene state sent to ${gameMaster.name} (${gameMaster.model}):`);
+    console.log(JSON.stringify(preview.sceneState, null, 2));
+    console.log('Scene direction:');
+    console.log(JSON.stringify(preview.sceneDirection, null, 2));
+    console.log('Illustrator prompt:');
+    console.log(preview.illustrationPrompt);
+  } catch (e) {
+    if (!(e instanceof SceneDirectionError)) throw e;
+    console.log(`Invalid scene direction from ${gameMaster.name}:`);
+    for (const issue of e.issues) {
+      console.log(`  ${issue}`);
+    }
+  }
+}
+
 function startREPL() {
   const rl = readline.createInterface({
     input: process.stdin,
@@ -271,31 +1336,198 @@ function startREPL() {
   console.log('Interactive mode enabled. Type "help" for commands.');
   rl.prompt();
 
+  // Async commands print when they finish and show the prompt themselves
+  const run = (work: Promise<void>, failure: string) => {
+    work
+      .catch((e) => console.log(`${failure}: ${(e as Error).message}`))
+      .finally(() => rl.prompt());
+  };
+
+  // A dry run's transcript, while it's being pasted
+  let pasting: { gameIdentifier: string; playerLocation: string; lines: string[] } | undefined;
+
   rl.on('line', (line: string) => {
-    const cmd = line.trim().toLowerCase();
+    if (pasting) {
+      if (line.trim() !== '.') {
+        pasting.lines.push(line);
+        return;
+      }
+      const { gameIdentifier, playerLocation, lines } = pasting;
+      pasting = undefined;
+      run(dryRun(gameIdentifier, playerLocation, lines.join('\n')), 'Dry run failed');
+      return;
+    }
+
+    const [verb = '', ...args] = line.trim().split(/\s+/);
 
-    switch (cmd) {
-      case 'trace on':
-        trace = true;
-        console.log('Trace enabled');
+    switch (verb.toLowerCase()) {
+      case 'trace':
+        if (args[0]?.toLowerCase() === 'on') {
+          setTrace(true);
+          console.log('Trace enabled');
+        } else if (args[0]?.toLowerCase() === 'off') {
+          setTrace(false);
+          console.log('Trace disabled');
+        } else {
+          console.log('Usage: trace on|off');
+        }
+        break;
+      case 'sessions': {
+        if (args[0] === undefined) {
+          run(listSessions(), 'Cannot list sessions');
+          return;
+        }
+        const page = args[1] ? Number(args[1]) : 1;
+        if (args[0].toLowerCase() !== 'all' || !Number.isInteger(page) || page < 1) {
+          console.log('Usage: sessions [all [page]]');
+          break;
+        }
+        run(listSessions(page), 'Cannot list sessions');
+        return;
+      }
+      case 'directions': {
+        const count = args[1] ? Number(args[1]) : 8;
+        if (!args[0] || !Number.isInteger(count) || count < 1) {
+          console.log('Usage: directions <sessionID> [n]');
+          break;
+        }
+        run(showDirections(args[0], count), 'Cannot show scene directions');
+        return;
+      }
+      case 'cache':
+        run(showCacheStats(args[0]), 'Cannot read the cache');
+        return;
+      case 'spend':
+        if (args[0] && !/^\d{4}-\d{2}-\d{2}$/.test(args[0])) {
+          console.log('Usage: spend [YYYY-MM-DD]');
+          break;
+        }
+        run(showSpend(args[0]), 'Cannot read spend');
+        return;
+      case 'purge':
+        if (!args[1] || !/^[a-zA-Z0-9.]+$/.test(args[0])) {
+          console.log('Usage: purge <gameIdentifier> <reuse_key>');
+          break;
+        }
+        run(
+          imageVariants.purge(args[0], sanitizeReuseKey(args[1])).then((deleted) => {
+            console.log(deleted ? `Purged ${args[0]}/${sanitizeReuseKey(args[1])}` : `No image for ${args[1]}`);
+          }),
+          'Cannot purge',
+        );
+        return;
+      case 'backend':
+        try {
+          switchBackend(args.map((arg, i) => (i === 0 ? arg.toLowerCase() : arg)));
+        } catch (e) {
+          console.log((e as Error).message);
+        }
+        break;
+      case 'prompt':
+        if (args[0]?.toLowerCase() === 'reload') {
+          try {
+            console.log(`Prompt reloaded from .env (version ${reloadGameMasterPrompt()})`);
+          } catch (e) {
+            console.log(`Prompt not reloaded: ${(e as Error).message}`);
+          }
+        } else {
+          console.log(`Prompt version ${getPromptVersion()} (prompt reload to re-read .env)`);
+        }
         break;
-      case 'trace off':
-        trace = false;
-        console.log('Trace disabled');
+      case 'dryrun':
+        if (!args[0] || !/^[a-zA-Z0-9.]+$/.test(args[0])) {
+          console.log('Usage: dryrun <gameIdentifier> [playerLocation]');
+          break;
+        }
+        pasting = { gameIdentifier: args[0], playerLocation: args.slice(1).join(' '), lines: [] };
+        console.log('Paste the transcript (commands start with ">"), then a line with just "."');
+        return;
+      case 'evict':
+        if (!args[0]) {
+          console.log('Usage: evict <sessionID>|all');
+        } else if (args[0].toLowerCase() === 'all') {
+          console.log(`Evicted ${gameMasters.clear()} session(s)`);
+        } else if (gameMasters.evict(args[0])) {
+          console.log(`Evicted session ${args[0]}`);
+        } else {
+          console.log(`No such session: ${args[0]}`);
+        }
+        break;
+      case 'prefetch': {
+        if (!prefetcher) {
+          console.log('Prefetching is off (set PREFETCH=on)');
+          break;
+        }
+        const { hits, misses, prefetched, generated, failed, skipped, queued } = prefetcher.stats();
+        const ratio = hits + misses > 0 ? Math.round((hits / (hits + misses)) * 100) : 0;
+        console.log(`  ${hits} hit(s), ${misses} miss(es) (${ratio}% hit rate)`);
+        console.log(`  ${prefetched} prefetched (${generated} generated), ${failed} failed, ${skipped} skipped, ${queued} queued`);
+        for (const event of prefetcher.recent(args[0] ? Number(args[0]) : 20)) {
+          console.log(`  ${new Date(event.at).toISOString()}  ${event.type.padEnd(10)} ${event.sessionID}  ${event.detail}`);
+        }
+        break;
+      }
+      case 'entities':
+        if (!args[0]) {
+          console.log('Usage: entities <gameIdentifier> [sessionID]');
+          break;
+        }
+        run(
+          (args[1] ? entities.known(args[0], args[1]) : entities.forGame(args[0])).then((known) => {
+            if (known.length === 0) {
+              console.log('No entities recorded');
+            }
+            for (const entity of known) {
+              console.log(`  ${entity.kind.padEnd(9)} ${entity.name}: ${entity.description}`);
+            }
+          }),
+          'Cannot list entities',
+        );
+        return;
+      case 'bibles':
+        if (args[0]?.toLowerCase() === 'reload') {
+          try {
+            console.log(`Loaded ${artBibles.reload()} art bible(s)`);
+            applyArtBibleIllustrators();
+          } catch (e) {
+            console.log(`Art bibles not reloaded: ${(e as Error).message}`);
+          }
+          break;
+        }
+        if (artBibles.list().length === 0) {
+          console.log('No art bibles (set ART_BIBLE_DIR)');
+        }
+        for (const bible of artBibles.list()) {
+          const glossary = Object.keys(bible.glossary).length;
+          console.log(`  ${bible.gameIdentifiers.join(',')}  ${bible.title ?? ''}  ${glossary} glossary entr${glossary === 1 ? 'y' : 'ies'}  palette ${bible.palette ?? '-'}  illustrator ${bible.illustrator ?? '-'}  version ${bible.version}`);
+        }
         break;
       case 'help':
         console.log('Available commands:');
-        console.log('  trace on  - Enable trace logging');
-        console.log('  trace off - Disable trace logging');
-        console.log('  help      - Show this help message');
-        console.log('  exit      - Shutdown server and exit');
-        console.log('  quit      - Shutdown server and exit');
+        console.log('  trace on       - Enable trace logging');
+        console.log('  trace off      - Disable trace logging');
+        console.log('  sessions [all [page]] - List live sessions (and a page of persisted ones)');
+        console.log('  directions <id> [n] - Show the last n scene directions of a session');
+        console.log('  evict <id>|all - Evict a session (or all sessions)');
+        console.log('  cache [game]   - Show cache usage per namespace, or a game\'s images');
+        console.log('  purge <game> <reuse_key> - Delete an image and its variants');
+        console.log('  spend [day]    - Show upstream spend today and this month, or on a day');
+        console.log('  backend [illustrator <name> [game]|director <name>] - Show or swap backends');
+        console.log('  prompt [reload] - Show the prompt version, or re-read the prompt from .env');
+        console.log('  dryrun <game> [location] - Direct a pasted transcript without caching or drawing');
+        console.log('  prefetch [n]   - Show prefetch hits, misses and the last n trace events');
+        console.log('  bibles [reload] - List art bibles, or re-read ART_BIBLE_DIR');
+        console.log('  entities <game> [session] - List recurring entities of a game (and session)');
+        console.log('  help           - Show this help message');
+        console.log('  exit           - Shutdown server and exit');
+        console.log('  quit           - Shutdown server and exit');
         break;
       case 'exit':
       case 'quit':
         console.log('Shutting down server...');
-        rl.close();
-        process.exit(0);
+        // Exits once pending spend is saved and the stores are closed
+        gracefulShutdown('exit');
+        return;
       case '':
         // Empty line, just show prompt again
         break;
@@ -315,6 +1547,8 @@ function startREPL() {
 
   // handle Ctrl-D (EOF) in REPL as exit
   rl.on('close', () => {
+    // Closed by gracefulShutdown() itself, e.g. after "exit"
+    if (shuttingDown) return;
     console.log('\nCaught Ctrl-D. Shutting down (EOF)...');
     gracefulShutdown('EOF');
   });
@@ -329,10 +1563,16 @@ function gracefulShutdown(reason: string) {
   try { rl?.close(); } catch {}
 
   // Stop accepting new connections; finish in-flight ones
-  server.close(() => {
-    console.log(`HTTP server closed (${reason}).`);
-    process.exit(0);
-  });
+  const closeStore = () =>
+    spend.flush().then(() => Promise.all([sessionStore.close(), cacheStore?.close()])).catch(() => {});
+  if (server) {
+    server.close(() => {
+      console.log(`HTTP server closed (${reason}).`);
+      closeStore().then(() => process.exit(0));
+    });
+  } else {
+    closeStore().then(() => process.exit(0));
+  }
 
   // Hard timeout in case something is stuck
   setTimeout(() => {
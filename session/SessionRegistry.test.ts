@@ -0,0 +1,169 @@
+import { createSessionRegistry, SessionRegistry } from './SessionRegistry';
+
+describe('SessionRegistry', () => {
+  let now: number;
+  let factory: jest.Mock;
+  let registry: SessionRegistry<{ id: string }>;
+
+  beforeEach(() => {
+    now = 1000;
+    factory = jest.fn((sessionID: string) => ({ id: sessionID }));
+    registry = new SessionRegistry(factory, {
+      idleTimeoutMs: 500,
+      maxSessions: 3,
+      now: () => now,
+    });
+  });
+
+  describe('get', () => {
+    it('should create a context on first access', () => {
+      const context = registry.get('session-a');
+
+      expect(context).toEqual({ id: 'session-a' });
+      expect(factory).toHaveBeenCalledWith('session-a');
+    });
+
+    it('should return the same context for the same session', () => {
+      const first = registry.get('session-a');
+      const second = registry.get('session-a');
+
+      expect(second).toBe(first);
+      expect(factory).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep separate contexts for different sessions', () => {
+      const a = registry.get('session-a');
+      const b = registry.get('session-b');
+
+      expect(a).not.toBe(b);
+      expect(registry.size).toBe(2);
+    });
+  });
+
+  describe('idle expiry', () => {
+    it('should expire sessions idle longer than the timeout', () => {
+      const first = registry.get('session-a');
+      now += 500;
+
+      expect(registry.has('session-a')).toBe(false);
+      expect(registry.get('session-a')).not.toBe(first);
+    });
+
+    it('should refresh the idle timer on access', () => {
+      registry.get('session-a');
+      now += 400;
+      registry.get('session-a');
+      now += 400;
+
+      expect(registry.has('session-a')).toBe(true);
+    });
+
+    it('should not refresh the idle timer on peek', () => {
+      registry.get('session-a');
+      now += 400;
+      expect(registry.peek('session-a')).toBeDefined();
+      now += 100;
+
+      expect(registry.peek('session-a')).toBeUndefined();
+    });
+  });
+
+  describe('session cap', () => {
+    it('should evict the least recently used session when full', () => {
+      registry.get('session-a');
+      now += 1;
+      registry.get('session-b');
+      now += 1;
+      registry.get('session-c');
+      now += 1;
+      registry.get('session-a');
+      now += 1;
+      registry.get('session-d');
+
+      expect(registry.list().map((s) => s.sessionID)).toEqual([
+        'session-c',
+        'session-a',
+        'session-d',
+      ]);
+    });
+  });
+
+  describe('list and evict', () => {
+    it('should list live sessions with timestamps', () => {
+      registry.get('session-a');
+      now += 10;
+      registry.get('session-a');
+
+      expect(registry.list()).toEqual([
+        { sessionID: 'session-a', createdAt: 1000, lastAccessedAt: 1010 },
+      ]);
+    });
+
+    it('should evict a single session', () => {
+      registry.get('session-a');
+      registry.get('session-b');
+
+      expect(registry.evict('session-a')).toBe(true);
+      expect(registry.evict('session-a')).toBe(false);
+      expect(registry.list().map((s) => s.sessionID)).toEqual(['session-b']);
+    });
+
+    it('should clear all sessions', () => {
+      registry.get('session-a');
+      registry.get('session-b');
+
+      expect(registry.clear()).toBe(2);
+      expect(registry.size).toBe(0);
+    });
+  });
+
+  describe('limits', () => {
+    it.each([0, -1, 1.5, NaN])('should reject maxSessions %p', (maxSessions) => {
+      expect(() => new SessionRegistry(factory, { maxSessions })).toThrow(
+        `Invalid maxSessions: ${maxSessions}`,
+      );
+    });
+
+    it.each([0, -1, NaN])('should reject idleTimeoutMs %p', (idleTimeoutMs) => {
+      expect(() => new SessionRegistry(factory, { idleTimeoutMs })).toThrow(
+        `Invalid idleTimeoutMs: ${idleTimeoutMs}`,
+      );
+    });
+
+    it('should evict down to a single session', () => {
+      registry = new SessionRegistry(factory, { maxSessions: 1, now: () => now });
+
+      registry.get('session-a');
+      registry.get('session-b');
+
+      expect(registry.list().map((s) => s.sessionID)).toEqual(['session-b']);
+    });
+  });
+
+  describe('createSessionRegistry', () => {
+    it('should read SESSION_MAX and SESSION_IDLE_TIMEOUT_MS', () => {
+      registry = createSessionRegistry(factory, { SESSION_MAX: '1', SESSION_IDLE_TIMEOUT_MS: '500' });
+
+      registry.get('session-a');
+      registry.get('session-b');
+
+      expect(registry.list().map((s) => s.sessionID)).toEqual(['session-b']);
+    });
+
+    it('should use the defaults when unset', () => {
+      expect(() => createSessionRegistry(factory, {})).not.toThrow();
+    });
+
+    it.each(['0', '-5', 'many', '2.5'])('should refuse SESSION_MAX=%s', (value) => {
+      expect(() => createSessionRegistry(factory, { SESSION_MAX: value })).toThrow(
+        `Invalid SESSION_MAX: ${value}`,
+      );
+    });
+
+    it('should refuse a non-numeric SESSION_IDLE_TIMEOUT_MS', () => {
+      expect(() => createSessionRegistry(factory, { SESSION_IDLE_TIMEOUT_MS: 'soon' })).toThrow(
+        'Invalid SESSION_IDLE_TIMEOUT_MS: soon',
+      );
+    });
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Options controlling how many sessions are kept alive and for how long
+ */
+export interface SessionRegistryOptions {
+  /** Idle time in milliseconds after which a session is expired (default 30 minutes) */
+  idleTimeoutMs?: number;
+  /** Maximum number of live sessions; the least recently used is evicted past this (default 100) */
+  maxSessions?: number;
+  /** Clock source, overridable for tests */
+  now?: () => number;
+}
+
+/**
+ * Summary of a live session, as returned by SessionRegistry.list()
+ */
+export interface SessionInfo {
+  sessionID: string;
+  createdAt: number;
+  lastAccessedAt: number;
+}
+
+interface SessionEntry<T> extends SessionInfo {
+  context: T;
+}
+
+/**
+ * SessionRegistry keeps a separate per-session context (e.g. an Art Director
+ * with its own answer history) keyed by zmcdnSessionID, so concurrent games
+ * don't share continuity.
+ */
+export class SessionRegistry<T> {
+  private sessions = new Map<string, SessionEntry<T>>();
+  private factory: (sessionID: string) => T;
+  private readonly idleTimeoutMs: number;
+  private readonly maxSessions: number;
+  private now: () => number;
+
+  /**
+   * @param factory Creates the context of a new session
+   * @param options Limits and clock
+   * @throws Error if idleTimeoutMs or maxSessions isn't a positive integer
+   */
+  constructor(
+    factory: (sessionID: string) => T,
+    options: SessionRegistryOptions = {},
+  ) {
+    this.factory = factory;
+    this.idleTimeoutMs = positiveInteger("idleTimeoutMs", options.idleTimeoutMs ?? 30 * 60 * 1000);
+    this.maxSessions = positiveInteger("maxSessions", options.maxSessions ?? 100);
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Get the context for a session, creating it if needed
+   * @param sessionID The zmcdnSessionID of the session
+   * @returns The session's context
+   */
+  get(sessionID: string): T {
+    this.expireIdle();
+
+    const now = this.now();
+    const existing = this.sessions.get(sessionID);
+    if (existing) {
+      existing.lastAccessedAt = now;
+      // Re-insert so Map iteration order stays least-recently-used first
+      this.sessions.delete(sessionID);
+      this.sessions.set(sessionID, existing);
+      return existing.context;
+    }
+
+    while (this.sessions.size > 0 && this.sessions.size >= this.maxSessions) {
+      const oldest = this.sessions.keys().next().value as string;
+      this.sessions.delete(oldest);
+    }
+
+    const entry: SessionEntry<T> = {
+      sessionID,
+      context: this.factory(sessionID),
+      createdAt: now,
+      lastAccessedAt: now,
+    };
+    this.sessions.set(sessionID, entry);
+    return entry.context;
+  }
+
+  /**
+   * Get the context for a session without creating it or refreshing its idle timer
+   * @param sessionID The zmcdnSessionID of the session
+   * @returns The session's context, or undefined if it is not live
+   */
+  peek(sessionID: string): T | undefined {
+    this.expireIdle();
+    return this.sessions.get(sessionID)?.context;
+  }
+
+  /**
+   * Check whether a session is currently live
+   * @param sessionID The zmcdnSessionID of the session
+   */
+  has(sessionID: string): boolean {
+    this.expireIdle();
+    return this.sessions.has(sessionID);
+  }
+
+  /**
+   * List live sessions, least recently used first
+   */
+  list(): SessionInfo[] {
+    this.expireIdle();
+    return Array.from(this.sessions.values()).map(
+      ({ sessionID, createdAt, lastAccessedAt }) => ({
+        sessionID,
+        createdAt,
+        lastAccessedAt,
+      }),
+    );
+  }
+
+  /**
+   * Evict a session
+   * @param sessionID The zmcdnSessionID of the session
+   * @returns true if a session was evicted
+   */
+  evict(sessionID: string): boolean {
+    return this.sessions.delete(sessionID);
+  }
+
+  /**
+   * Evict every session
+   * @returns The number of sessions evicted
+   */
+  clear(): number {
+    const count = this.sessions.size;
+    this.sessions.clear();
+    return count;
+  }
+
+  /**
+   * Number of live sessions
+   */
+  get size(): number {
+    this.expireIdle();
+    return this.sessions.size;
+  }
+
+  /**
+   * Drop every session that has been idle longer than idleTimeoutMs
+   * @returns The number of sessions expired
+   */
+  expireIdle(): number {
+    const cutoff = this.now() - this.idleTimeoutMs;
+    let expired = 0;
+    for (const [sessionID, entry] of this.sessions) {
+      if (entry.lastAccessedAt <= cutoff) {
+        this.sessions.delete(sessionID);
+        expired++;
+      }
+    }
+    return expired;
+  }
+}
+
+/**
+ * Create a session registry from environment settings:
+ * SESSION_IDLE_TIMEOUT_MS (default 30 minutes) and SESSION_MAX (default 100)
+ * @param factory Creates the context of a new session
+ * @param env Environment variables (default process.env)
+ * @throws Error if a setting isn't a positive integer
+ */
+export function createSessionRegistry<T>(
+  factory: (sessionID: string) => T,
+  env: NodeJS.ProcessEnv = process.env,
+): SessionRegistry<T> {
+  const setting = (name: string): number | undefined => {
+    const value = env[name];
+    if (value === undefined || value === "") return undefined;
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed <= 0) {
+      throw new Error(`Invalid ${name}: ${value}`);
+    }
+    return parsed;
+  };
+  return new SessionRegistry(factory, {
+    idleTimeoutMs: setting("SESSION_IDLE_TIMEOUT_MS"),
+    maxSessions: setting("SESSION_MAX"),
+  });
+}
+
+function positiveInteger(name: string, value: number): number {
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new Error(`Invalid ${name}: ${value}`);
+  }
+  return value;
+}
@@ -0,0 +1,83 @@
+import { appendSceneRecord, emptySessionState } from './SessionStore';
+
+describe('SessionStore helpers', () => {
+  describe('emptySessionState', () => {
+    it('should create an empty state for the session', () => {
+      const state = emptySessionState('session-a');
+
+      expect(state).toEqual(
+        expect.objectContaining({
+          sessionID: 'session-a',
+          recentInputs: [],
+          recentOutputs: [],
+          answers: [],
+          reuseKeys: [],
+        })
+      );
+    });
+  });
+
+  describe('appendSceneRecord', () => {
+    it('should append inputs, outputs, answers and reuse keys', () => {
+      const state = appendSceneRecord(emptySessionState('session-a'), {
+        gameIdentifier: '88.840726',
+        lastZMachineInput: 'open mailbox',
+        lastZMachineOutput: 'Opening the small mailbox reveals a leaflet.',
+        answer: '{"reuse_key":"west_of_house"}',
+        reuseKey: 'west_of_house',
+      });
+
+      expect(state.gameIdentifier).toBe('88.840726');
+      expect(state.recentInputs).toEqual(['open mailbox']);
+      expect(state.recentOutputs).toEqual(['Opening the small mailbox reveals a leaflet.']);
+      expect(state.answers).toEqual(['{"reuse_key":"west_of_house"}']);
+      expect(state.reuseKeys).toEqual(['west_of_house']);
+    });
+
+    it('should not modify the original state', () => {
+      const original = emptySessionState('session-a');
+
+      appendSceneRecord(original, { lastZMachineInput: 'look', reuseKey: 'key' });
+
+      expect(original.recentInputs).toEqual([]);
+      expect(original.reuseKeys).toEqual([]);
+    });
+
+    it('should trim histories to the limit', () => {
+      let state = emptySessionState('session-a');
+      for (let i = 0; i < 5; i++) {
+        state = appendSceneRecord(state, { answer: `answer-${i}` }, 3);
+      }
+
+      expect(state.answers).toEqual(['answer-2', 'answer-3', 'answer-4']);
+    });
+
+    it('should move a repeated reuse key to the end instead of duplicating it', () => {
+      let state = emptySessionState('session-a');
+      state = appendSceneRecord(state, { reuseKey: 'a' });
+      state = appendSceneRecord(state, { reuseKey: 'b' });
+      state = appendSceneRecord(state, { reuseKey: 'a' });
+
+      expect(state.reuseKeys).toEqual(['b', 'a']);
+    });
+
+    it('should keep the first description of each entity', () => {
+      let state = emptySessionState('session-a');
+      state = appendSceneRecord(state, {
+        entities: [{ name: 'thief', kind: 'character', description: 'grey cloak' }],
+      });
+      state = appendSceneRecord(state, {
+        entities: [
+          { name: 'Thief', kind: 'character', description: 'red cloak' },
+          { name: 'lamp', kind: 'item', description: 'brass lantern' },
+        ],
+      });
+      state = appendSceneRecord(state, { answer: 'no entities' });
+
+      expect(state.entities).toEqual([
+        { name: 'thief', kind: 'character', description: 'grey cloak' },
+        { name: 'lamp', kind: 'item', description: 'brass lantern' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { Entity, mergeEntities } from "../entities/Entity";
+
+/** Recurring entities kept per session */
+export const MAX_SESSION_ENTITIES = 100;
+
+/**
+ * Persisted per-session scene state, so a session's visual continuity
+ * survives a server restart
+ */
+export interface SessionState {
+  sessionID: string;
+  gameIdentifier?: string;
+  /** Most recent things the player typed, oldest first */
+  recentInputs: string[];
+  /** Most recent interpreter responses, oldest first */
+  recentOutputs: string[];
+  /** Most recent Art Director answers, oldest first */
+  answers: string[];
+  /** reuse_keys the Art Director has produced, oldest first, without duplicates */
+  reuseKeys: string[];
+  /** Characters, items and rooms the session has introduced, oldest first */
+  entities?: Entity[];
+  updatedAt: number;
+}
+
+/**
+ * A single scene to be appended to a session's state
+ */
+export interface SceneRecord {
+  gameIdentifier?: string;
+  lastZMachineInput?: string;
+  lastZMachineOutput?: string;
+  answer?: string;
+  reuseKey?: string;
+  /** Entities the scene introduced */
+  entities?: Entity[];
+}
+
+/**
+ * A page of SessionStore.list() results
+ */
+export interface SessionListOptions {
+  /** Sessions to skip (default 0) */
+  offset?: number;
+  /** Maximum sessions returned (default all) */
+  limit?: number;
+}
+
+/**
+ * Storage backend for per-session scene state
+ */
+export interface SessionStore {
+  load(sessionID: string): Promise<SessionState | undefined>;
+  save(state: SessionState): Promise<void>;
+  delete(sessionID: string): Promise<boolean>;
+  /** Saved sessions, most recently updated first */
+  list(options?: SessionListOptions): Promise<SessionState[]>;
+  close(): Promise<void>;
+}
+
+/**
+ * Create an empty state for a session
+ * @param sessionID The zmcdnSessionID of the session
+ */
+export function emptySessionState(sessionID: string): SessionState {
+  return {
+    sessionID,
+    recentInputs: [],
+    recentOutputs: [],
+    answers: [],
+    reuseKeys: [],
+    updatedAt: Date.now(),
+  };
+}
+
+/**
+ * Append a scene to a session's state, trimming each history to `limit` entries
+ * @param state The session state to update (not modified)
+ * @param record The scene to append
+ * @param limit Maximum entries kept per history (default 8)
+ * @returns The updated session state
+ */
+export function appendSceneRecord(
+  state: SessionState,
+  record: SceneRecord,
+  limit: number = 8,
+): SessionState {
+  const push = (list: string[], value?: string) => {
+    const next = value ? [...list, value] : [...list];
+    return next.slice(Math.max(0, next.length - limit));
+  };
+
+  let reuseKeys = state.reuseKeys;
+  if (record.reuseKey) {
+    reuseKeys = reuseKeys.filter((key) => key !== record.reuseKey);
+    reuseKeys.push(record.reuseKey);
+  }
+
+  return {
+    ...state,
+    gameIdentifier: record.gameIdentifier ?? state.gameIdentifier,
+    recentInputs: push(state.recentInputs, record.lastZMachineInput),
+    recentOutputs: push(state.recentOutputs, record.lastZMachineOutput),
+    answers: push(state.answers, record.answer),
+    reuseKeys,
+    ...(record.entities?.length
+      ? { entities: mergeEntities(state.entities ?? [], record.entities, MAX_SESSION_ENTITIES) }
+      : {}),
+    updatedAt: Date.now(),
+  };
+}
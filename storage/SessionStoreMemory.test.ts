@@ -0,0 +1,110 @@
+import { SessionStoreMemory, createSessionStoreMemory } from './SessionStoreMemory';
+import { appendSceneRecord, emptySessionState } from './SessionStore';
+
+describe('SessionStoreMemory', () => {
+  let store: SessionStoreMemory;
+
+  beforeEach(() => {
+    store = new SessionStoreMemory();
+  });
+
+  it('should return undefined for an unknown session', async () => {
+    expect(await store.load('missing')).toBeUndefined();
+  });
+
+  it('should save and load session state', async () => {
+    const state = appendSceneRecord(emptySessionState('session-a'), { answer: '{}' });
+
+    await store.save(state);
+
+    expect(await store.load('session-a')).toEqual(state);
+  });
+
+  it('should not share state objects with callers', async () => {
+    const state = emptySessionState('session-a');
+    await store.save(state);
+
+    state.answers.push('mutated');
+    const loaded = await store.load('session-a');
+    loaded!.reuseKeys.push('mutated');
+
+    expect((await store.load('session-a'))!.answers).toEqual([]);
+    expect((await store.load('session-a'))!.reuseKeys).toEqual([]);
+  });
+
+  it('should list and delete sessions', async () => {
+    await store.save(emptySessionState('session-a'));
+    await store.save(emptySessionState('session-b'));
+
+    expect((await store.list()).map((s) => s.sessionID).sort()).toEqual(['session-a', 'session-b']);
+    expect(await store.delete('session-a')).toBe(true);
+    expect(await store.delete('session-a')).toBe(false);
+    expect((await store.list()).map((s) => s.sessionID)).toEqual(['session-b']);
+  });
+
+  it('should list a page of sessions, most recently updated first', async () => {
+    for (const [sessionID, updatedAt] of [['session-a', 1], ['session-b', 3], ['session-c', 2]] as const) {
+      await store.save({ ...emptySessionState(sessionID), updatedAt });
+    }
+
+    expect((await store.list()).map((s) => s.sessionID)).toEqual(['session-b', 'session-c', 'session-a']);
+    expect((await store.list({ offset: 1, limit: 1 })).map((s) => s.sessionID)).toEqual(['session-c']);
+  });
+
+  describe('limits', () => {
+    let now: number;
+
+    beforeEach(() => {
+      now = 0;
+      store = new SessionStoreMemory({ idleTimeoutMs: 500, maxSessions: 2, now: () => now });
+    });
+
+    it('should drop sessions idle longer than idleTimeoutMs', async () => {
+      await store.save(emptySessionState('session-a'));
+      await store.save(emptySessionState('session-b'));
+      now = 300;
+      await store.load('session-a');
+
+      now = 600;
+
+      expect(await store.load('session-b')).toBeUndefined();
+      expect(await store.load('session-a')).toBeDefined();
+    });
+
+    it('should drop the least recently used session past maxSessions', async () => {
+      await store.save(emptySessionState('session-a'));
+      await store.save(emptySessionState('session-b'));
+      await store.load('session-a');
+
+      await store.save(emptySessionState('session-c'));
+
+      expect((await store.list()).map((s) => s.sessionID).sort()).toEqual(['session-a', 'session-c']);
+    });
+
+    it.each([0, -1, 1.5])('should reject idleTimeoutMs %p', (idleTimeoutMs) => {
+      expect(() => new SessionStoreMemory({ idleTimeoutMs })).toThrow(`Invalid idleTimeoutMs: ${idleTimeoutMs}`);
+    });
+  });
+
+  describe('createSessionStoreMemory', () => {
+    it('should expire sessions after SESSION_IDLE_TIMEOUT_MS', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(0);
+      try {
+        store = createSessionStoreMemory({ SESSION_IDLE_TIMEOUT_MS: '500' });
+        await store.save(emptySessionState('session-a'));
+
+        now.mockReturnValue(600);
+
+        expect(await store.load('session-a')).toBeUndefined();
+      } finally {
+        now.mockRestore();
+      }
+    });
+
+    it('should refuse an invalid SESSION_IDLE_TIMEOUT_MS', () => {
+      expect(() => createSessionStoreMemory({ SESSION_IDLE_TIMEOUT_MS: 'soon' })).toThrow(
+        'Invalid SESSION_IDLE_TIMEOUT_MS: soon',
+      );
+    });
+  });
+});
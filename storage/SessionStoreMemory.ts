@@ -0,0 +1,122 @@
+import { SessionListOptions, SessionState, SessionStore } from "./SessionStore";
+
+/**
+ * Options bounding how many sessions SessionStoreMemory keeps and for how long
+ */
+export interface SessionStoreMemoryOptions {
+  /** Time in milliseconds a session is kept after it was last loaded or saved (default 30 minutes) */
+  idleTimeoutMs?: number;
+  /** Maximum sessions kept; the least recently used is dropped past this (default 10000) */
+  maxSessions?: number;
+  /** Clock source, overridable for tests */
+  now?: () => number;
+}
+
+interface StoredSession {
+  state: SessionState;
+  accessedAt: number;
+}
+
+/**
+ * SessionStoreMemory keeps session state in process memory. State is lost on
+ * restart; intended for tests and deployments without MongoDB. Sessions left
+ * idle for idleTimeoutMs are dropped, as are the least recently used ones past
+ * maxSessions, so a long-running server doesn't grow without bound.
+ */
+export class SessionStoreMemory implements SessionStore {
+  /** Stored sessions, least recently used first */
+  private states = new Map<string, StoredSession>();
+  private readonly idleTimeoutMs: number;
+  private readonly maxSessions: number;
+  private now: () => number;
+
+  /**
+   * @param options Limits and clock
+   * @throws Error if idleTimeoutMs or maxSessions isn't a positive integer
+   */
+  constructor(options: SessionStoreMemoryOptions = {}) {
+    this.idleTimeoutMs = positiveInteger("idleTimeoutMs", options.idleTimeoutMs ?? 30 * 60 * 1000);
+    this.maxSessions = positiveInteger("maxSessions", options.maxSessions ?? 10000);
+    this.now = options.now ?? Date.now;
+  }
+
+  async load(sessionID: string): Promise<SessionState | undefined> {
+    this.expireIdle();
+    const stored = this.states.get(sessionID);
+    if (!stored) return undefined;
+    this.touch(sessionID, stored.state);
+    return structuredClone(stored.state);
+  }
+
+  async save(state: SessionState): Promise<void> {
+    this.expireIdle();
+    this.touch(state.sessionID, structuredClone(state));
+    while (this.states.size > this.maxSessions) {
+      const oldest = this.states.keys().next().value as string;
+      this.states.delete(oldest);
+    }
+  }
+
+  async delete(sessionID: string): Promise<boolean> {
+    return this.states.delete(sessionID);
+  }
+
+  async list(options: SessionListOptions = {}): Promise<SessionState[]> {
+    this.expireIdle();
+    const offset = options.offset ?? 0;
+    const end = options.limit === undefined ? undefined : offset + options.limit;
+    return Array.from(this.states.values(), (stored) => stored.state)
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .slice(offset, end)
+      .map((state) => structuredClone(state));
+  }
+
+  async close(): Promise<void> {}
+
+  /**
+   * Mark a session as just used, moving it to the end of the map
+   */
+  private touch(sessionID: string, state: SessionState): void {
+    this.states.delete(sessionID);
+    this.states.set(sessionID, { state, accessedAt: this.now() });
+  }
+
+  /**
+   * Drop every session that has been idle longer than idleTimeoutMs
+   */
+  private expireIdle(): void {
+    const cutoff = this.now() - this.idleTimeoutMs;
+    for (const [sessionID, stored] of this.states) {
+      if (stored.accessedAt > cutoff) break;
+      this.states.delete(sessionID);
+    }
+  }
+}
+
+/**
+ * Create an in-memory session store that drops sessions after
+ * SESSION_IDLE_TIMEOUT_MS (default 30 minutes), the same idle time after
+ * which live sessions expire
+ * @param env Environment variables (default process.env)
+ * @throws Error if SESSION_IDLE_TIMEOUT_MS isn't a positive integer
+ */
+export function createSessionStoreMemory(
+  env: NodeJS.ProcessEnv = process.env,
+): SessionStoreMemory {
+  const value = env.SESSION_IDLE_TIMEOUT_MS;
+  if (value === undefined || value === "") {
+    return new SessionStoreMemory();
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`Invalid SESSION_IDLE_TIMEOUT_MS: ${value}`);
+  }
+  return new SessionStoreMemory({ idleTimeoutMs: parsed });
+}
+
+function positiveInteger(name: string, value: number): number {
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new Error(`Invalid ${name}: ${value}`);
+  }
+  return value;
+}
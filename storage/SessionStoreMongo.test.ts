@@ -0,0 +1,106 @@
+import { DEFAULT_SESSION_RETENTION_MS, SessionStoreMongo, sessionRetentionMs } from './SessionStoreMongo';
+import { emptySessionState } from './SessionStore';
+
+describe('SessionStoreMongo', () => {
+  let collection: {
+    findOne: jest.Mock;
+    replaceOne: jest.Mock;
+    deleteOne: jest.Mock;
+    find: jest.Mock;
+  };
+  let store: SessionStoreMongo;
+
+  beforeEach(() => {
+    collection = {
+      findOne: jest.fn(),
+      replaceOne: jest.fn().mockResolvedValue({}),
+      deleteOne: jest.fn(),
+      find: jest.fn(),
+    };
+    store = new SessionStoreMongo(collection as any, undefined, 1000, () => 5000);
+  });
+
+  it('should upsert state keyed by session ID, expiring after the retention time', async () => {
+    const state = emptySessionState('session-a');
+
+    await store.save(state);
+
+    expect(collection.replaceOne).toHaveBeenCalledWith(
+      { _id: 'session-a' },
+      { ...state, expiresAt: new Date(6000) },
+      { upsert: true }
+    );
+  });
+
+  it('should load state without the _id and expiresAt fields', async () => {
+    const state = emptySessionState('session-a');
+    collection.findOne.mockResolvedValue({ _id: 'session-a', ...state, expiresAt: new Date(6000) });
+
+    const loaded = await store.load('session-a');
+
+    expect(collection.findOne).toHaveBeenCalledWith({ _id: 'session-a' });
+    expect(loaded).toEqual(state);
+  });
+
+  it('should return undefined for an unknown session', async () => {
+    collection.findOne.mockResolvedValue(null);
+
+    expect(await store.load('missing')).toBeUndefined();
+  });
+
+  it('should report whether a session was deleted', async () => {
+    collection.deleteOne.mockResolvedValueOnce({ deletedCount: 1 });
+    collection.deleteOne.mockResolvedValueOnce({ deletedCount: 0 });
+
+    expect(await store.delete('session-a')).toBe(true);
+    expect(await store.delete('session-a')).toBe(false);
+  });
+
+  describe('list', () => {
+    let cursor: { sort: jest.Mock; skip: jest.Mock; limit: jest.Mock; toArray: jest.Mock };
+    let state: ReturnType<typeof emptySessionState>;
+
+    beforeEach(() => {
+      state = emptySessionState('session-a');
+      cursor = {
+        sort: jest.fn(() => cursor),
+        skip: jest.fn(() => cursor),
+        limit: jest.fn(() => cursor),
+        toArray: jest.fn().mockResolvedValue([{ _id: 'session-a', ...state, expiresAt: new Date(6000) }]),
+      };
+      collection.find.mockReturnValue(cursor);
+    });
+
+    it('should list sessions most recently updated first', async () => {
+      const sessions = await store.list();
+
+      expect(cursor.sort).toHaveBeenCalledWith({ updatedAt: -1 });
+      expect(cursor.skip).toHaveBeenCalledWith(0);
+      expect(cursor.limit).not.toHaveBeenCalled();
+      expect(sessions).toEqual([state]);
+    });
+
+    it('should page the query', async () => {
+      await store.list({ offset: 50, limit: 51 });
+
+      expect(cursor.skip).toHaveBeenCalledWith(50);
+      expect(cursor.limit).toHaveBeenCalledWith(51);
+    });
+  });
+
+  describe('sessionRetentionMs', () => {
+    it('should default to 30 days', () => {
+      expect(sessionRetentionMs({})).toBe(DEFAULT_SESSION_RETENTION_MS);
+    });
+
+    it('should read SESSION_RETENTION_MS', () => {
+      expect(sessionRetentionMs({ SESSION_RETENTION_MS: '86400000' })).toBe(86400000);
+    });
+
+    it.each(['0', '-1', 'forever'])('should refuse SESSION_RETENTION_MS %p', (value) => {
+      expect(() => sessionRetentionMs({ SESSION_RETENTION_MS: value })).toThrow(
+        `Invalid SESSION_RETENTION_MS: ${value}`,
+      );
+    });
+  });
+});
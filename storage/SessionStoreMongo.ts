@@ -0,0 +1,114 @@
+import { Collection, MongoClient } from "mongodb";
+import { SessionListOptions, SessionState, SessionStore } from "./SessionStore";
+
+/** How long a session is kept after it was last saved, by default (30 days) */
+export const DEFAULT_SESSION_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** expiresAt is a BSON date so the collection's TTL index can remove the document */
+type SessionDocument = SessionState & { _id: string; expiresAt: Date };
+
+/**
+ * SessionStoreMongo persists session state in a MongoDB collection, one
+ * document per zmcdnSessionID. A TTL index removes sessions that haven't been
+ * saved for retentionMs.
+ */
+export class SessionStoreMongo implements SessionStore {
+  private collection: Collection<SessionDocument>;
+  private client?: MongoClient;
+  private readonly retentionMs: number;
+  private now: () => number;
+
+  /**
+   * @param collection The sessions collection
+   * @param client The client to close on close()
+   * @param retentionMs How long a session is kept after it was last saved
+   * @param now Clock source, overridable for tests
+   */
+  constructor(
+    collection: Collection<SessionDocument>,
+    client?: MongoClient,
+    retentionMs: number = DEFAULT_SESSION_RETENTION_MS,
+    now: () => number = Date.now,
+  ) {
+    this.collection = collection;
+    this.client = client;
+    this.retentionMs = retentionMs;
+    this.now = now;
+  }
+
+  /**
+   * Connect to MongoDB and open the sessions collection
+   * @param uri MongoDB connection string
+   * @param dbName Database name (default "zmcdn")
+   * @param collectionName Collection name (default "sessions")
+   * @param retentionMs How long a session is kept after it was last saved (default 30 days)
+   */
+  static async connect(
+    uri: string,
+    dbName: string = "zmcdn",
+    collectionName: string = "sessions",
+    retentionMs: number = DEFAULT_SESSION_RETENTION_MS,
+  ): Promise<SessionStoreMongo> {
+    const client = new MongoClient(uri);
+    await client.connect();
+    const collection = client.db(dbName).collection<SessionDocument>(collectionName);
+    await collection.createIndex({ updatedAt: 1 });
+    // Expire at each document's own expiresAt, so changing retentionMs doesn't
+    // conflict with an index created under the old value
+    await collection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+    return new SessionStoreMongo(collection, client, retentionMs);
+  }
+
+  async load(sessionID: string): Promise<SessionState | undefined> {
+    const doc = await this.collection.findOne({ _id: sessionID });
+    return doc ? toState(doc) : undefined;
+  }
+
+  async save(state: SessionState): Promise<void> {
+    await this.collection.replaceOne(
+      { _id: state.sessionID },
+      { ...state, expiresAt: new Date(this.now() + this.retentionMs) },
+      { upsert: true },
+    );
+  }
+
+  async delete(sessionID: string): Promise<boolean> {
+    const result = await this.collection.deleteOne({ _id: sessionID });
+    return result.deletedCount > 0;
+  }
+
+  async list(options: SessionListOptions = {}): Promise<SessionState[]> {
+    let cursor = this.collection.find({}).sort({ updatedAt: -1 }).skip(options.offset ?? 0);
+    if (options.limit !== undefined) {
+      cursor = cursor.limit(options.limit);
+    }
+    const docs = await cursor.toArray();
+    return docs.map(toState);
+  }
+
+  async close(): Promise<void> {
+    await this.client?.close();
+  }
+}
+
+/**
+ * Read SESSION_RETENTION_MS, how long MongoDB keeps a session after it was
+ * last saved (default 30 days)
+ * @param env Environment variables (default process.env)
+ * @throws Error if SESSION_RETENTION_MS isn't a positive integer
+ */
+export function sessionRetentionMs(env: NodeJS.ProcessEnv = process.env): number {
+  const value = env.SESSION_RETENTION_MS;
+  if (value === undefined || value === "") {
+    return DEFAULT_SESSION_RETENTION_MS;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`Invalid SESSION_RETENTION_MS: ${value}`);
+  }
+  return parsed;
+}
+
+function toState({ _id, expiresAt, ...state }: SessionDocument): SessionState {
+  return state;
+}